@@ -0,0 +1,52 @@
+import { buildEventCalendar } from '../app/services/CalendarExportService';
+import { expandEventOccurrences, rescheduleOccurrence } from '../app/services/EventRecurrenceService';
+import { Event } from '../app/types/models';
+
+// Jueves 5 de marzo de 2026, 20:00 en Tijuana (PST): ya es viernes en UTC
+const seriesEvent = (overrides: Partial<Event> = {}): Event => ({
+  _id: 'event-1',
+  bar: { _id: 'bar-1', name: 'Cervecería Cachanilla' },
+  name: 'Trivia',
+  description: '',
+  location: '',
+  image: '',
+  price: 0,
+  start: '2026-03-06T04:00:00.000Z',
+  end: '2026-03-06T07:00:00.000Z',
+  attendance: { going: 0, interested: 0 },
+  ticketTiers: [],
+  reservedSpots: 0,
+  reservedSpotsByDate: {},
+  recurrence: { frequency: 'weekly', interval: 1, weekdays: [] },
+  recurrenceExceptions: [],
+  ...overrides,
+});
+
+const from = new Date('2026-03-01T00:00:00.000Z');
+const to = new Date('2026-03-21T00:00:00.000Z');
+
+describe('series en hora de Tijuana', () => {
+  it('usa el día de Tijuana como clave y conserva la hora al cambiar al horario de verano', () => {
+    const occurrences = expandEventOccurrences(seriesEvent(), from, to);
+
+    expect(occurrences.map((occurrence) => occurrence.occurrenceDate)).toEqual(['2026-03-05', '2026-03-12', '2026-03-19']);
+    // Desde el 8 de marzo Tijuana está en UTC-7: las 20:00 son las 03:00 UTC
+    expect(occurrences[1].start).toBe('2026-03-13T03:00:00.000Z');
+  });
+
+  it('aplica las excepciones con la misma clave que escribe el .ics', () => {
+    const event = seriesEvent({
+      recurrenceExceptions: [
+        { date: '2026-03-12', cancelled: true },
+        rescheduleOccurrence('2026-03-19', '21:00', '01:00'),
+      ],
+    });
+    const occurrences = expandEventOccurrences(event, from, to);
+    const calendar = buildEventCalendar(event);
+
+    expect(occurrences.map((occurrence) => occurrence.occurrenceDate)).toEqual(['2026-03-05', '2026-03-19']);
+    expect(occurrences[1].start).toBe('2026-03-20T04:00:00.000Z');
+    expect(calendar).toContain('EXDATE;TZID=America/Tijuana:20260312T200000');
+    expect(calendar).toContain('RECURRENCE-ID;TZID=America/Tijuana:20260319T200000');
+  });
+});
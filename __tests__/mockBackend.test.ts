@@ -0,0 +1,76 @@
+import { handleMockRequest, resetMockDatabase } from '../app/mocks/mockBackend';
+
+// Cuentas semilla de app/mocks/fixtures
+const USER_ID = 'user-1';
+const OWNER_ID = 'owner-1';
+
+beforeEach(() => {
+  resetMockDatabase();
+});
+
+describe('auth', () => {
+  it('inicia sesión con la contraseña de las cuentas semilla', () => {
+    const result = handleMockRequest('POST', '/auth/login', { body: { email: 'ana@example.com', password: 'password123' } });
+
+    expect(result.status).toBe(200);
+    expect(result.data).toMatchObject({ success: true, user: { _id: USER_ID } });
+  });
+
+  it('rechaza una contraseña incorrecta', () => {
+    const result = handleMockRequest('POST', '/auth/login', { body: { email: 'ana@example.com', password: 'otra' } });
+
+    expect(result.status).toBe(401);
+  });
+
+  it('pide sesión en las rutas protegidas', () => {
+    expect(handleMockRequest('GET', '/users/me').status).toBe(401);
+  });
+});
+
+describe('bares del dueño', () => {
+  it('no deja ver el bar de otro dueño', () => {
+    const result = handleMockRequest('GET', `/bars/owner/${USER_ID}/bar-1`, { userId: USER_ID });
+
+    expect(result.status).toBe(403);
+  });
+
+  it('no deja bajar el cupo por debajo de lo reservado', () => {
+    const result = handleMockRequest('PUT', `/bars/owner/${OWNER_ID}/bar-1/events/event-2`, {
+      body: { capacity: 5 },
+      userId: OWNER_ID,
+    });
+
+    expect(result.status).toBe(400);
+  });
+});
+
+describe('reservaciones', () => {
+  const reservedSpots = (): number =>
+    (handleMockRequest('GET', '/events/event-2', { userId: USER_ID }).data as { reservedSpots: number }).reservedSpots;
+
+  it('aparta lugares y los libera al cancelar', () => {
+    const before = reservedSpots();
+    const created = handleMockRequest('POST', '/events/event-2/reservations', {
+      body: { tierId: 'tier-2', quantity: 2 },
+      userId: USER_ID,
+    });
+
+    expect(created.status).toBe(201);
+    expect(reservedSpots()).toBe(before + 2);
+
+    const { _id } = created.data as { _id: string };
+    const cancelled = handleMockRequest('DELETE', `/events/event-2/reservations/${_id}`, { userId: USER_ID });
+
+    expect(cancelled.data).toMatchObject({ status: 'cancelled' });
+    expect(reservedSpots()).toBe(before);
+  });
+
+  it('pide la fecha de la ocurrencia en los eventos que se repiten', () => {
+    const result = handleMockRequest('POST', '/events/event-1/reservations', {
+      body: { tierId: 'general', quantity: 1 },
+      userId: USER_ID,
+    });
+
+    expect(result.status).toBe(400);
+  });
+});
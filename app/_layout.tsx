@@ -1,10 +1,12 @@
 import React from 'react';
+import OfflineSyncManager from './components/OfflineSyncManager';
 import { AuthProvider } from './context/AuthContext';
 import RootNavigator from './navigation/userNavigation';
 
 export default function RootLayout() {
   return (
     <AuthProvider>
+      <OfflineSyncManager />
       <RootNavigator />
     </AuthProvider>
   );
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { locationService } from '../services/LocationService';
+import { Coordinates } from '../types/models';
+import TileMap, { DEFAULT_MAP_CENTER, MapRegion } from './TileMap';
+
+const colors = {
+  surface: '#1a1a1a',
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  textMuted: '#71717a',
+  border: '#27272a',
+  error: '#ef4444',
+};
+
+interface CoordinatesPickerProps {
+  value?: Coordinates | null;
+  onChange: (coordinates: Coordinates | null) => void;
+  error?: string;
+}
+
+/**
+ * Selector de ubicación para el formulario de bares: tocar el mapa coloca el pin
+ */
+const CoordinatesPicker: React.FC<CoordinatesPickerProps> = ({ value, onChange, error }) => {
+  const [region, setRegion] = useState<MapRegion>({
+    center: value ?? DEFAULT_MAP_CENTER,
+    zoom: value ? 16 : 12,
+  });
+  const [locating, setLocating] = useState(false);
+
+  const handleUseMyLocation = async () => {
+    try {
+      setLocating(true);
+      const position = await locationService.getCurrentPosition();
+      onChange(position);
+      setRegion({ center: position, zoom: 16 });
+    } catch (locationError) {
+      Alert.alert(
+        'Location unavailable',
+        locationError instanceof Error ? locationError.message : 'Could not get your location'
+      );
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  return (
+    <View>
+      <TileMap
+        style={[styles.map, !!error && styles.mapError]}
+        region={region}
+        onRegionChange={setRegion}
+        markers={value ? [{ id: 'pin', coordinates: value }] : []}
+        onMapPress={onChange}
+      />
+
+      <View style={styles.footer}>
+        <Text style={styles.coordinatesText}>
+          {value
+            ? `${value.latitude.toFixed(5)}, ${value.longitude.toFixed(5)}`
+            : 'Tap the map to place the bar'}
+        </Text>
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.actionButton} onPress={handleUseMyLocation} disabled={locating}>
+            {locating ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <Icon name="my-location" size={18} color={colors.primary} />
+            )}
+          </TouchableOpacity>
+          {value && (
+            <TouchableOpacity style={styles.actionButton} onPress={() => onChange(null)}>
+              <Icon name="location-off" size={18} color={colors.textSecondary} />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  map: {
+    height: 220,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  mapError: {
+    borderColor: colors.error,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  coordinatesText: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.textMuted,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    backgroundColor: colors.surfaceVariant,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 8,
+  },
+  errorText: {
+    fontSize: 12,
+    color: colors.error,
+    marginTop: 4,
+  },
+});
+
+export default CoordinatesPicker;
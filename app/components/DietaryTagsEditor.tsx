@@ -0,0 +1,137 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {
+  ALLERGEN_LABELS,
+  DIETARY_TAG_ICONS,
+  DIETARY_TAG_LABELS,
+  MAX_SPICY_LEVEL,
+  SPICY_LEVEL_LABELS,
+} from '../services/DietaryService';
+import { Allergen, ALLERGENS, DIETARY_TAGS, DietaryTag } from '../types/models';
+import FilterChip from './FilterChip';
+
+const colors = {
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  textMuted: '#71717a',
+  border: '#27272a',
+  spicy: '#f97316',
+};
+
+export interface DietaryValue {
+  dietaryTags: DietaryTag[];
+  allergens: Allergen[];
+  spicyLevel: number;
+}
+
+interface DietaryTagsEditorProps {
+  value: DietaryValue;
+  onChange: (value: DietaryValue) => void;
+}
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter((current) => current !== value) : [...list, value];
+
+const DietaryTagsEditor: React.FC<DietaryTagsEditorProps> = ({ value, onChange }) => (
+  <View>
+    <Text style={styles.label}>Diet</Text>
+    <View style={styles.chips}>
+      {DIETARY_TAGS.map((tag) => (
+        <FilterChip
+          key={tag}
+          label={DIETARY_TAG_LABELS[tag]}
+          icon={DIETARY_TAG_ICONS[tag]}
+          selected={value.dietaryTags.includes(tag)}
+          onPress={() => onChange({ ...value, dietaryTags: toggle(value.dietaryTags, tag) })}
+        />
+      ))}
+    </View>
+
+    <Text style={styles.label}>Contains</Text>
+    <View style={styles.chips}>
+      {ALLERGENS.map((allergen) => (
+        <FilterChip
+          key={allergen}
+          label={ALLERGEN_LABELS[allergen]}
+          selected={value.allergens.includes(allergen)}
+          onPress={() => onChange({ ...value, allergens: toggle(value.allergens, allergen) })}
+        />
+      ))}
+    </View>
+
+    <Text style={styles.label}>Spicy level</Text>
+    <View style={styles.spicyRow}>
+      {Array.from({ length: MAX_SPICY_LEVEL + 1 }, (_, level) => {
+        const selected = value.spicyLevel === level;
+        return (
+          <TouchableOpacity
+            key={level}
+            style={[styles.spicyOption, selected && styles.spicyOptionSelected]}
+            onPress={() => onChange({ ...value, spicyLevel: level })}
+          >
+            <View style={styles.spicyIcons}>
+              {level === 0 ? (
+                <Icon name="block" size={14} color={selected ? colors.text : colors.textMuted} />
+              ) : (
+                Array.from({ length: level }, (_, index) => (
+                  <Icon key={index} name="whatshot" size={14} color={selected ? colors.text : colors.spicy} />
+                ))
+              )}
+            </View>
+            <Text style={[styles.spicyText, selected && styles.spicyTextSelected]}>{SPICY_LEVEL_LABELS[level]}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  spicyRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  spicyOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  spicyOptionSelected: {
+    backgroundColor: colors.spicy,
+    borderColor: colors.spicy,
+  },
+  spicyIcons: {
+    flexDirection: 'row',
+    height: 16,
+    alignItems: 'center',
+  },
+  spicyText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textMuted,
+    marginTop: 4,
+  },
+  spicyTextSelected: {
+    color: colors.text,
+  },
+});
+
+export default DietaryTagsEditor;
@@ -0,0 +1,155 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { LayoutChangeEvent, PanResponder, StyleSheet, View } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+
+const colors = {
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  textMuted: '#71717a',
+};
+
+interface Drag {
+  from: number;
+  dy: number;
+}
+
+interface DraggableListProps<T> {
+  items: T[];
+  keyExtractor: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  onReorder: (from: number, to: number) => void;
+  // Para que la pantalla bloquee su ScrollView mientras se arrastra
+  onDragChange?: (dragging: boolean) => void;
+}
+
+interface DragHandleProps {
+  index: number;
+  onStart: (index: number) => void;
+  onMove: (dy: number) => void;
+  onEnd: (dy: number) => void;
+}
+
+// Índice donde caería el elemento según cuánto se movió; cambia de lugar al pasar la mitad del vecino
+const targetIndex = (heights: number[], from: number, dy: number): number => {
+  let to = from;
+  let travelled = 0;
+  if (dy > 0) {
+    while (to + 1 < heights.length && dy > travelled + heights[to + 1] / 2) {
+      travelled += heights[to + 1];
+      to++;
+    }
+  } else {
+    while (to - 1 >= 0 && -dy > travelled + heights[to - 1] / 2) {
+      travelled += heights[to - 1];
+      to--;
+    }
+  }
+  return to;
+};
+
+const DragHandle: React.FC<DragHandleProps> = ({ index, onStart, onMove, onEnd }) => {
+  // El PanResponder se crea una sola vez, así que lee las props más recientes desde aquí
+  const latest = useRef({ index, onStart, onMove, onEnd });
+  latest.current = { index, onStart, onMove, onEnd };
+
+  const panResponder = useMemo(() => PanResponder.create({
+    onStartShouldSetPanResponder: () => true,
+    onMoveShouldSetPanResponder: () => true,
+    // Dentro de un ScrollView el arrastre es de la lista, no del scroll
+    onPanResponderTerminationRequest: () => false,
+    onPanResponderGrant: () => latest.current.onStart(latest.current.index),
+    onPanResponderMove: (_, gesture) => latest.current.onMove(gesture.dy),
+    onPanResponderRelease: (_, gesture) => latest.current.onEnd(gesture.dy),
+    onPanResponderTerminate: () => latest.current.onEnd(0),
+  }), []);
+
+  return (
+    <View style={styles.handle} {...panResponder.panHandlers} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+      <Icon name="drag-indicator" size={22} color={colors.textMuted} />
+    </View>
+  );
+};
+
+// Lista que se reordena arrastrando la manija de cada fila
+function DraggableList<T>({ items, keyExtractor, renderItem, onReorder, onDragChange }: DraggableListProps<T>) {
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const heights = useRef<number[]>([]);
+
+  const handleLayout = (index: number) => (event: LayoutChangeEvent) => {
+    heights.current[index] = event.nativeEvent.layout.height;
+  };
+
+  const handleStart = (index: number) => {
+    setDrag({ from: index, dy: 0 });
+    onDragChange?.(true);
+  };
+
+  const handleEnd = (dy: number) => {
+    if (drag) {
+      const to = targetIndex(heights.current.slice(0, items.length), drag.from, dy);
+      if (to !== drag.from) onReorder(drag.from, to);
+    }
+    setDrag(null);
+    onDragChange?.(false);
+  };
+
+  const to = drag ? targetIndex(heights.current.slice(0, items.length), drag.from, drag.dy) : -1;
+
+  // Las filas entre el origen y el destino se recorren para dejar el hueco
+  const offsetFor = (index: number): number => {
+    if (!drag) return 0;
+    if (index === drag.from) return drag.dy;
+    const height = heights.current[drag.from] ?? 0;
+    if (drag.from < index && index <= to) return -height;
+    if (to <= index && index < drag.from) return height;
+    return 0;
+  };
+
+  return (
+    <View>
+      {items.map((item, index) => {
+        const active = drag?.from === index;
+        return (
+          <View
+            key={keyExtractor(item)}
+            onLayout={handleLayout(index)}
+            style={[styles.row, { transform: [{ translateY: offsetFor(index) }] }, active && styles.rowActive]}
+          >
+            <View style={styles.content}>{renderItem(item, index)}</View>
+            <DragHandle
+              index={index}
+              onStart={handleStart}
+              onMove={(dy) => setDrag((current) => (current ? { ...current, dy } : current))}
+              onEnd={handleEnd}
+            />
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rowActive: {
+    zIndex: 10,
+    elevation: 6,
+    opacity: 0.9,
+    backgroundColor: colors.surfaceVariant,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  content: {
+    flex: 1,
+  },
+  handle: {
+    paddingHorizontal: 8,
+    paddingVertical: 12,
+  },
+});
+
+export default DraggableList;
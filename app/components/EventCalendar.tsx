@@ -0,0 +1,201 @@
+import React, { useMemo, useRef } from 'react';
+import { PanResponder, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {
+  CALENDAR_WEEKDAY_LABELS,
+  CalendarMode,
+  formatCalendarTitle,
+  getMonthGrid,
+  getWeekDays,
+  shiftCalendar,
+} from '../services/EventCalendarService';
+import { toDateKey } from '../services/OpeningHoursService';
+import { Event } from '../types/models';
+
+const colors = {
+  surface: '#1a1a1a',
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  accent: '#8b5cf6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  textMuted: '#71717a',
+  border: '#27272a',
+};
+
+// Más puntos no caben en la celda; el resto se resume
+const MAX_DOTS = 3;
+// Distancia horizontal que cuenta como deslizar a otro mes o semana
+const SWIPE_THRESHOLD = 50;
+
+interface EventCalendarProps {
+  mode: CalendarMode;
+  // Cualquier día del mes o semana que se muestra
+  date: Date;
+  selectedDate: string;
+  eventsByDay: Record<string, Event[]>;
+  onSelectDate: (date: string) => void;
+  onChangeDate: (date: Date) => void;
+}
+
+const EventCalendar: React.FC<EventCalendarProps> = ({ mode, date, selectedDate, eventsByDay, onSelectDate, onChangeDate }) => {
+  const weeks = useMemo(() => (mode === 'month' ? getMonthGrid(date) : [getWeekDays(date)]), [date, mode]);
+  const today = toDateKey(new Date());
+
+  const shift = (direction: number) => onChangeDate(shiftCalendar(date, mode, direction));
+
+  // El PanResponder se crea una sola vez, así que lee el cambio de fecha más reciente desde aquí
+  const latestShift = useRef(shift);
+  latestShift.current = shift;
+
+  const panResponder = useMemo(() => PanResponder.create({
+    // Solo se adueña de gestos horizontales, para no pelear con el scroll vertical
+    onMoveShouldSetPanResponder: (_, gesture) =>
+      Math.abs(gesture.dx) > 20 && Math.abs(gesture.dx) > Math.abs(gesture.dy) * 2,
+    onPanResponderRelease: (_, gesture) => {
+      if (gesture.dx <= -SWIPE_THRESHOLD) latestShift.current(1);
+      else if (gesture.dx >= SWIPE_THRESHOLD) latestShift.current(-1);
+    },
+  }), []);
+
+  return (
+    <View style={styles.container} {...panResponder.panHandlers}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.navButton} onPress={() => shift(-1)}>
+          <Icon name="chevron-left" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.title}>{formatCalendarTitle(date, mode)}</Text>
+        <TouchableOpacity style={styles.navButton} onPress={() => shift(1)}>
+          <Icon name="chevron-right" size={24} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.row}>
+        {CALENDAR_WEEKDAY_LABELS.map((label, index) => (
+          <Text key={index} style={styles.weekdayLabel}>{label}</Text>
+        ))}
+      </View>
+
+      {weeks.map((week) => (
+        <View key={toDateKey(week[0])} style={styles.row}>
+          {week.map((day) => {
+            const key = toDateKey(day);
+            const dayEvents = eventsByDay[key] ?? [];
+            const selected = key === selectedDate;
+            const outsideMonth = mode === 'month' && day.getMonth() !== date.getMonth();
+            return (
+              <TouchableOpacity
+                key={key}
+                style={[styles.day, selected && styles.daySelected]}
+                onPress={() => onSelectDate(key)}
+              >
+                <Text
+                  style={[
+                    styles.dayText,
+                    outsideMonth && styles.dayTextOutside,
+                    key === today && styles.dayTextToday,
+                    selected && styles.dayTextSelected,
+                  ]}
+                >
+                  {day.getDate()}
+                </Text>
+                <View style={styles.dots}>
+                  {dayEvents.slice(0, MAX_DOTS).map((event, index) => (
+                    <View key={index} style={[styles.dot, selected && styles.dotSelected]} />
+                  ))}
+                  {dayEvents.length > MAX_DOTS && (
+                    <Text style={[styles.moreText, selected && styles.dayTextSelected]}>+</Text>
+                  )}
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  navButton: {
+    padding: 6,
+    borderRadius: 16,
+    backgroundColor: colors.surfaceVariant,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: colors.text,
+    textTransform: 'capitalize',
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  weekdayLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textMuted,
+    paddingVertical: 6,
+  },
+  day: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderRadius: 10,
+  },
+  daySelected: {
+    backgroundColor: colors.primary,
+  },
+  dayText: {
+    fontSize: 15,
+    color: colors.text,
+  },
+  dayTextOutside: {
+    color: colors.textMuted,
+  },
+  dayTextToday: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  dayTextSelected: {
+    color: colors.text,
+    fontWeight: 'bold',
+  },
+  dots: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    height: 8,
+    marginTop: 2,
+  },
+  dot: {
+    width: 5,
+    height: 5,
+    borderRadius: 3,
+    backgroundColor: colors.accent,
+  },
+  dotSelected: {
+    backgroundColor: colors.text,
+  },
+  moreText: {
+    fontSize: 9,
+    color: colors.textSecondary,
+  },
+});
+
+export default EventCalendar;
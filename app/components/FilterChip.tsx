@@ -0,0 +1,54 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+
+const colors = {
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  borderLight: '#3f3f46',
+};
+
+interface FilterChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+  icon?: string;
+}
+
+// Chip seleccionable de los filtros rápidos de las listas
+const FilterChip: React.FC<FilterChipProps> = ({ label, selected, onPress, icon }) => (
+  <TouchableOpacity style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+    {icon && <Icon name={icon} size={14} color={selected ? colors.text : colors.textSecondary} />}
+    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+  </TouchableOpacity>
+);
+
+const styles = StyleSheet.create({
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: colors.surfaceVariant,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.borderLight,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: colors.text,
+  },
+});
+
+export default FilterChip;
@@ -0,0 +1,282 @@
+import React from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { createHappyHour, MENU_TYPE_LABELS } from '../services/HappyHourService';
+import { WEEKDAY_LABELS } from '../services/OpeningHoursService';
+import { HappyHour, isValidTime, MENU_ITEM_TYPES, MenuItemType } from '../types/models';
+
+const colors = {
+  surface: '#1a1a1a',
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  textMuted: '#71717a',
+  border: '#27272a',
+  warning: '#f59e0b',
+  error: '#ef4444',
+};
+
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+interface HappyHoursEditorProps {
+  value: HappyHour[];
+  onChange: (happyHours: HappyHour[]) => void;
+  error?: string;
+}
+
+/**
+ * Editor de las ventanas de happy hour del bar con su descuento por tipo de menú.
+ * Los precios especiales de un item se editan en el propio item.
+ */
+const HappyHoursEditor: React.FC<HappyHoursEditorProps> = ({ value, onChange, error }) => {
+  const update = (id: string, changes: Partial<HappyHour>) => {
+    onChange(value.map((happyHour) => (happyHour.id === id ? { ...happyHour, ...changes } : happyHour)));
+  };
+
+  const toggleDay = (happyHour: HappyHour, day: number) => {
+    update(happyHour.id, {
+      days: happyHour.days.includes(day)
+        ? happyHour.days.filter((current) => current !== day)
+        : [...happyHour.days, day].sort((a, b) => a - b),
+    });
+  };
+
+  // Un campo vacío quita el descuento de ese tipo
+  const updateDiscount = (happyHour: HappyHour, type: MenuItemType, text: string) => {
+    const discounts = { ...happyHour.discounts };
+    const percent = parseInt(text, 10);
+    if (Number.isNaN(percent)) delete discounts[type];
+    else discounts[type] = Math.min(percent, 100);
+    update(happyHour.id, { discounts });
+  };
+
+  return (
+    <View>
+      {value.map((happyHour) => {
+        const crossesMidnight =
+          isValidTime(happyHour.start) && isValidTime(happyHour.end) && happyHour.end <= happyHour.start;
+        return (
+          <View key={happyHour.id} style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Icon name="local-offer" size={18} color={colors.warning} />
+              <TextInput
+                style={styles.labelInput}
+                value={happyHour.label ?? ''}
+                onChangeText={(label) => update(happyHour.id, { label })}
+                placeholder="Happy hour"
+                placeholderTextColor={colors.textMuted}
+              />
+              <TouchableOpacity
+                onPress={() => onChange(value.filter((current) => current.id !== happyHour.id))}
+                style={styles.removeButton}
+              >
+                <Icon name="delete-outline" size={20} color={colors.error} />
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.daysRow}>
+              {DAY_ORDER.map((day) => {
+                const selected = happyHour.days.includes(day);
+                return (
+                  <TouchableOpacity
+                    key={day}
+                    style={[styles.dayChip, selected && styles.dayChipSelected]}
+                    onPress={() => toggleDay(happyHour, day)}
+                  >
+                    <Text style={[styles.dayChipText, selected && styles.dayChipTextSelected]}>
+                      {WEEKDAY_LABELS[day].slice(0, 2)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <View style={styles.row}>
+              <Text style={styles.rowLabel}>From</Text>
+              <TextInput
+                style={[styles.timeInput, !isValidTime(happyHour.start) && styles.inputError]}
+                value={happyHour.start}
+                onChangeText={(start) => update(happyHour.id, { start })}
+                placeholder="17:00"
+                placeholderTextColor={colors.textMuted}
+                maxLength={5}
+              />
+              <Text style={styles.rowLabel}>to</Text>
+              <TextInput
+                style={[styles.timeInput, !isValidTime(happyHour.end) && styles.inputError]}
+                value={happyHour.end}
+                onChangeText={(end) => update(happyHour.id, { end })}
+                placeholder="19:00"
+                placeholderTextColor={colors.textMuted}
+                maxLength={5}
+              />
+              {crossesMidnight && <Text style={styles.nextDay}>+1</Text>}
+            </View>
+
+            <Text style={styles.discountTitle}>Discount by menu type</Text>
+            <View style={styles.row}>
+              {MENU_ITEM_TYPES.map((type) => (
+                <View key={type} style={styles.discountField}>
+                  <Text style={styles.discountLabel}>{MENU_TYPE_LABELS[type]}</Text>
+                  <View style={styles.percentInputContainer}>
+                    <TextInput
+                      style={styles.percentInput}
+                      value={happyHour.discounts[type]?.toString() ?? ''}
+                      onChangeText={(text) => updateDiscount(happyHour, type, text)}
+                      placeholder="0"
+                      placeholderTextColor={colors.textMuted}
+                      keyboardType="number-pad"
+                      maxLength={3}
+                    />
+                    <Text style={styles.percentSign}>%</Text>
+                  </View>
+                </View>
+              ))}
+            </View>
+          </View>
+        );
+      })}
+
+      <TouchableOpacity style={styles.addButton} onPress={() => onChange([...value, createHappyHour()])}>
+        <Icon name="add" size={18} color={colors.primary} />
+        <Text style={styles.addButtonText}>Add happy hour</Text>
+      </TouchableOpacity>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 10,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  labelInput: {
+    flex: 1,
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: colors.text,
+  },
+  removeButton: {
+    padding: 4,
+  },
+  daysRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  dayChip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  dayChipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  dayChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textMuted,
+  },
+  dayChipTextSelected: {
+    color: colors.text,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  timeInput: {
+    width: 64,
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: colors.text,
+    textAlign: 'center',
+  },
+  inputError: {
+    borderColor: colors.error,
+  },
+  nextDay: {
+    fontSize: 12,
+    color: colors.textMuted,
+  },
+  discountTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  discountField: {
+    flex: 1,
+  },
+  discountLabel: {
+    fontSize: 12,
+    color: colors.textMuted,
+    marginBottom: 4,
+  },
+  percentInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+  },
+  percentInput: {
+    flex: 1,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: colors.text,
+  },
+  percentSign: {
+    fontSize: 14,
+    color: colors.textMuted,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+  },
+  addButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  errorText: {
+    fontSize: 12,
+    color: colors.error,
+    marginTop: 4,
+  },
+});
+
+export default HappyHoursEditor;
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+
+const colors = {
+  surfaceVariant: '#2a2a2a',
+  textMuted: '#71717a',
+  warning: '#f59e0b',
+  border: '#27272a',
+};
+
+interface LastUpdatedIndicatorProps {
+  updatedAt?: number;
+  isOffline?: boolean;
+}
+
+const formatRelativeTime = (timestamp: number, now: number): string => {
+  const minutes = Math.floor((now - timestamp) / 60000);
+  if (minutes < 1) return 'justo ahora';
+  if (minutes < 60) return `hace ${minutes} min`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `hace ${hours} h`;
+
+  const days = Math.floor(hours / 24);
+  return days === 1 ? 'hace 1 día' : `hace ${days} días`;
+};
+
+/**
+ * Muestra cuándo se actualizaron por última vez los datos en pantalla
+ * y avisa cuando se está mostrando el cache porque no hay conexión
+ */
+const LastUpdatedIndicator: React.FC<LastUpdatedIndicatorProps> = ({ updatedAt, isOffline = false }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Refresca el texto relativo cada minuto
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!updatedAt) return null;
+
+  const relative = formatRelativeTime(updatedAt, Math.max(now, updatedAt));
+
+  return (
+    <View style={[styles.container, isOffline && styles.containerOffline]}>
+      <Icon
+        name={isOffline ? 'cloud-off' : 'update'}
+        size={14}
+        color={isOffline ? colors.warning : colors.textMuted}
+      />
+      <Text style={[styles.text, isOffline && styles.textOffline]}>
+        {isOffline ? `Sin conexión · datos de ${relative}` : `Actualizado ${relative}`}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginVertical: 6,
+  },
+  containerOffline: {
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  text: {
+    fontSize: 12,
+    color: colors.textMuted,
+    marginLeft: 6,
+  },
+  textOffline: {
+    color: colors.warning,
+  },
+});
+
+export default LastUpdatedIndicator;
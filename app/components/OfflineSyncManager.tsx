@@ -0,0 +1,45 @@
+import { useEffect } from 'react';
+import { Alert, Platform } from 'react-native';
+import { useAuth } from '../context/AuthContext';
+import { useApiError } from '../hooks/useApiError';
+import { offlineQueue } from '../services/OfflineQueue';
+
+const showNotice = (title: string, message: string) => {
+  if (Platform.OS === 'web') {
+    window.alert(`${title}: ${message}`);
+  } else {
+    Alert.alert(title, message);
+  }
+};
+
+/**
+ * Reenvía los cambios guardados sin conexión mientras haya sesión
+ * y avisa al usuario de los conflictos o rechazos al sincronizar
+ */
+const OfflineSyncManager: React.FC = () => {
+  const { user, isAuthenticated } = useAuth();
+  const { showError } = useApiError('save');
+  const userId = isAuthenticated ? user?._id : undefined;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    console.log('🔁 OfflineSyncManager: Starting offline queue for', userId);
+    offlineQueue.start(userId);
+    return () => offlineQueue.stop();
+  }, [userId]);
+
+  useEffect(() => {
+    return offlineQueue.subscribe((event) => {
+      if (event.type === 'conflict' && event.message) {
+        showNotice('Cambios sincronizados', event.message);
+      } else if (event.type === 'failed') {
+        showError(event.error, 'No se pudo sincronizar un cambio');
+      }
+    });
+  }, [showError]);
+
+  return null;
+};
+
+export default OfflineSyncManager;
@@ -0,0 +1,191 @@
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { WEEKDAY_LABELS } from '../services/OpeningHoursService';
+import FilterChip from './FilterChip';
+
+const colors = {
+  surface: '#1a1a1a',
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  border: '#27272a',
+  borderLight: '#3f3f46',
+};
+
+// null = sin filtro, 'now' = abiertos ahora, Date = abiertos en ese momento
+export type OpenAtValue = null | 'now' | Date;
+
+const STEP_MINUTES = 30;
+const DAYS_AHEAD = 7;
+
+// Momento contra el que se filtra; 'now' se resuelve cada vez que se aplica el filtro
+export const resolveOpenAt = (value: OpenAtValue): Date | null =>
+  value === 'now' ? new Date() : value;
+
+// Siguiente media hora exacta, como punto de partida del selector
+const nextHalfHour = (): Date => {
+  const date = new Date();
+  date.setMinutes(date.getMinutes() < STEP_MINUTES ? STEP_MINUTES : 60, 0, 0);
+  return date;
+};
+
+const formatClock = (date: Date): string =>
+  date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+const dayLabel = (offset: number, date: Date): string => {
+  if (offset === 0) return 'Today';
+  if (offset === 1) return 'Tomorrow';
+  return WEEKDAY_LABELS[date.getDay()].slice(0, 3);
+};
+
+interface OpenAtFilterProps {
+  value: OpenAtValue;
+  onChange: (value: OpenAtValue) => void;
+  // Chips extra que comparten la fila, p. ej. el de happy hour
+  children?: React.ReactNode;
+}
+
+/**
+ * Chips de "Any / Open now / Open at…" con selector de día y hora para el último
+ */
+const OpenAtFilter: React.FC<OpenAtFilterProps> = ({ value, onChange, children }) => {
+  const selectedDate = value instanceof Date ? value : null;
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const days = Array.from({ length: DAYS_AHEAD }, (_, offset) => {
+    const day = new Date(today);
+    day.setDate(today.getDate() + offset);
+    return day;
+  });
+  const selectedOffset = days.findIndex((day) => selectedDate && day.toDateString() === selectedDate.toDateString());
+  const selectedLabel = selectedDate
+    ? `Open ${selectedOffset === -1 ? selectedDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) : dayLabel(selectedOffset, selectedDate)} ${formatClock(selectedDate)}`
+    : 'Open at…';
+
+  const selectDay = (day: Date) => {
+    if (!selectedDate) return;
+    const next = new Date(day);
+    next.setHours(selectedDate.getHours(), selectedDate.getMinutes(), 0, 0);
+    onChange(next);
+  };
+
+  // El paso de hora se queda en el mismo día: 23:30 + 30 min vuelve a las 00:00
+  const stepTime = (minutes: number) => {
+    if (!selectedDate) return;
+    const totalMinutes = selectedDate.getHours() * 60 + selectedDate.getMinutes() + minutes;
+    const wrapped = ((totalMinutes % 1440) + 1440) % 1440;
+    const next = new Date(selectedDate);
+    next.setHours(Math.floor(wrapped / 60), wrapped % 60, 0, 0);
+    onChange(next);
+  };
+
+  return (
+    <View>
+      <View style={styles.chipsRow}>
+        <FilterChip label="Any time" selected={value === null} onPress={() => onChange(null)} />
+        <FilterChip label="Open now" selected={value === 'now'} onPress={() => onChange('now')} icon="schedule" />
+        <FilterChip
+          label={selectedLabel}
+          selected={!!selectedDate}
+          onPress={() => onChange(selectedDate ?? nextHalfHour())}
+          icon="event"
+        />
+        {children}
+      </View>
+
+      {selectedDate && (
+        <View style={styles.panel}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.daysRow}>
+            {days.map((day, offset) => {
+              const selected = offset === selectedOffset;
+              return (
+                <TouchableOpacity
+                  key={offset}
+                  style={[styles.dayChip, selected && styles.chipSelected]}
+                  onPress={() => selectDay(day)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{dayLabel(offset, day)}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+          <View style={styles.timeRow}>
+            <TouchableOpacity style={styles.stepButton} onPress={() => stepTime(-STEP_MINUTES)}>
+              <Icon name="remove" size={20} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.timeText}>{formatClock(selectedDate)}</Text>
+            <TouchableOpacity style={styles.stepButton} onPress={() => stepTime(STEP_MINUTES)}>
+              <Icon name="add" size={20} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chipsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: colors.text,
+  },
+  panel: {
+    marginTop: 10,
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 12,
+    gap: 12,
+  },
+  daysRow: {
+    gap: 8,
+  },
+  dayChip: {
+    backgroundColor: colors.surfaceVariant,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.borderLight,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+  },
+  stepButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: colors.surfaceVariant,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  timeText: {
+    minWidth: 90,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+});
+
+export default OpenAtFilter;
@@ -0,0 +1,319 @@
+import React from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { DEFAULT_OPENING_HOURS, toDateKey, WEEKDAY_LABELS } from '../services/OpeningHoursService';
+import { HoursException, isValidDateKey, isValidTime, OpeningHours, TimeRange } from '../types/models';
+
+const colors = {
+  surface: '#1a1a1a',
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  textMuted: '#71717a',
+  border: '#27272a',
+  success: '#10b981',
+  error: '#ef4444',
+};
+
+// Lunes primero, como se lee un horario de bar
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const DEFAULT_RANGE: TimeRange = { open: '18:00', close: '02:00' };
+
+interface OpeningHoursEditorProps {
+  value: OpeningHours | null;
+  onChange: (hours: OpeningHours | null) => void;
+  error?: string;
+}
+
+/**
+ * Editor del horario semanal y sus excepciones. Las horas se escriben como HH:mm;
+ * un cierre igual o menor a la apertura significa que cierra al día siguiente.
+ */
+const OpeningHoursEditor: React.FC<OpeningHoursEditorProps> = ({ value, onChange, error }) => {
+  if (!value) {
+    return (
+      <TouchableOpacity style={styles.emptyCard} onPress={() => onChange(DEFAULT_OPENING_HOURS)}>
+        <Icon name="schedule" size={24} color={colors.primary} />
+        <Text style={styles.emptyText}>Add opening hours</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  const updateDay = (day: number, range: TimeRange | null) => {
+    onChange({ ...value, weekly: value.weekly.map((current, index) => (index === day ? range : current)) });
+  };
+
+  const updateException = (index: number, changes: Partial<HoursException>) => {
+    onChange({
+      ...value,
+      exceptions: value.exceptions.map((exception, current) => (current === index ? { ...exception, ...changes } : exception)),
+    });
+  };
+
+  const addException = () => {
+    onChange({ ...value, exceptions: [...value.exceptions, { date: toDateKey(new Date()), hours: null, label: '' }] });
+  };
+
+  const removeException = (index: number) => {
+    onChange({ ...value, exceptions: value.exceptions.filter((_, current) => current !== index) });
+  };
+
+  const renderTimeInputs = (range: TimeRange, onRangeChange: (range: TimeRange) => void) => (
+    <View style={styles.timeInputs}>
+      <TextInput
+        style={[styles.timeInput, !isValidTime(range.open) && styles.inputError]}
+        value={range.open}
+        onChangeText={(open) => onRangeChange({ ...range, open })}
+        placeholder="18:00"
+        placeholderTextColor={colors.textMuted}
+        maxLength={5}
+      />
+      <Text style={styles.timeSeparator}>–</Text>
+      <TextInput
+        style={[styles.timeInput, !isValidTime(range.close) && styles.inputError]}
+        value={range.close}
+        onChangeText={(close) => onRangeChange({ ...range, close })}
+        placeholder="02:00"
+        placeholderTextColor={colors.textMuted}
+        maxLength={5}
+      />
+      {isValidTime(range.open) && isValidTime(range.close) && range.close <= range.open && (
+        <Text style={styles.nextDay}>+1</Text>
+      )}
+    </View>
+  );
+
+  const renderOpenToggle = (range: TimeRange | null, onToggle: () => void) => (
+    <TouchableOpacity style={[styles.toggle, range && styles.toggleOpen]} onPress={onToggle}>
+      <Text style={[styles.toggleText, range && styles.toggleTextOpen]}>{range ? 'Open' : 'Closed'}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <View style={styles.card}>
+        {DAY_ORDER.map((day) => {
+          const range = value.weekly[day];
+          return (
+            <View key={day} style={styles.dayRow}>
+              <Text style={styles.dayLabel}>{WEEKDAY_LABELS[day].slice(0, 3)}</Text>
+              {renderOpenToggle(range, () => updateDay(day, range ? null : DEFAULT_RANGE))}
+              {range && renderTimeInputs(range, (next) => updateDay(day, next))}
+            </View>
+          );
+        })}
+      </View>
+
+      <Text style={styles.subTitle}>Exceptions</Text>
+      <Text style={styles.hint}>Holidays or special closures. Date as YYYY-MM-DD.</Text>
+      {value.exceptions.map((exception, index) => (
+        <View key={index} style={styles.exceptionCard}>
+          <View style={styles.exceptionHeader}>
+            <TextInput
+              style={[styles.dateInput, !isValidDateKey(exception.date) && styles.inputError]}
+              value={exception.date}
+              onChangeText={(date) => updateException(index, { date })}
+              placeholder="2025-12-25"
+              placeholderTextColor={colors.textMuted}
+              maxLength={10}
+            />
+            <TextInput
+              style={styles.labelInput}
+              value={exception.label ?? ''}
+              onChangeText={(label) => updateException(index, { label })}
+              placeholder="Label (optional)"
+              placeholderTextColor={colors.textMuted}
+            />
+            <TouchableOpacity onPress={() => removeException(index)} style={styles.removeButton}>
+              <Icon name="delete-outline" size={20} color={colors.error} />
+            </TouchableOpacity>
+          </View>
+          <View style={styles.dayRow}>
+            {renderOpenToggle(exception.hours, () =>
+              updateException(index, { hours: exception.hours ? null : DEFAULT_RANGE })
+            )}
+            {exception.hours && renderTimeInputs(exception.hours, (hours) => updateException(index, { hours }))}
+          </View>
+        </View>
+      ))}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.actionButton} onPress={addException}>
+          <Icon name="event-busy" size={18} color={colors.primary} />
+          <Text style={styles.actionText}>Add exception</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={() => onChange(null)}>
+          <Icon name="clear" size={18} color={colors.textSecondary} />
+          <Text style={[styles.actionText, styles.actionTextMuted]}>Remove hours</Text>
+        </TouchableOpacity>
+      </View>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  emptyCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderStyle: 'dashed',
+    borderRadius: 12,
+    padding: 16,
+  },
+  emptyText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    padding: 12,
+    gap: 8,
+  },
+  dayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    minHeight: 40,
+  },
+  dayLabel: {
+    width: 40,
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  toggle: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.border,
+    minWidth: 64,
+    alignItems: 'center',
+  },
+  toggleOpen: {
+    borderColor: colors.success,
+  },
+  toggleText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textMuted,
+  },
+  toggleTextOpen: {
+    color: colors.success,
+  },
+  timeInputs: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  timeInput: {
+    width: 64,
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: colors.text,
+    textAlign: 'center',
+  },
+  inputError: {
+    borderColor: colors.error,
+  },
+  timeSeparator: {
+    color: colors.textSecondary,
+  },
+  nextDay: {
+    fontSize: 12,
+    color: colors.textMuted,
+  },
+  subTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 16,
+  },
+  hint: {
+    fontSize: 12,
+    color: colors.textMuted,
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  exceptionCard: {
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    gap: 8,
+  },
+  exceptionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dateInput: {
+    width: 110,
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: colors.text,
+  },
+  labelInput: {
+    flex: 1,
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: colors.text,
+  },
+  removeButton: {
+    padding: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  actionTextMuted: {
+    color: colors.textSecondary,
+  },
+  errorText: {
+    fontSize: 12,
+    color: colors.error,
+    marginTop: 4,
+  },
+});
+
+export default OpeningHoursEditor;
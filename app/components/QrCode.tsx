@@ -0,0 +1,65 @@
+import React, { useMemo } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { encodeQrCode } from '../services/QrCodeService';
+
+// Zona blanca alrededor que piden los lectores, en módulos
+const QUIET_ZONE = 4;
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+  color?: string;
+  backgroundColor?: string;
+}
+
+// Dibuja el código con Views; los módulos oscuros seguidos de una fila se juntan en uno solo
+const QrCode: React.FC<QrCodeProps> = ({ value, size = 200, color = '#000000', backgroundColor = '#ffffff' }) => {
+  const matrix = useMemo(() => encodeQrCode(value), [value]);
+  // Módulos de pixeles enteros para que no queden líneas entre filas
+  const moduleSize = Math.max(1, Math.floor(size / (matrix.length + QUIET_ZONE * 2)));
+  const actualSize = moduleSize * (matrix.length + QUIET_ZONE * 2);
+
+  const rows = useMemo(() => matrix.map((row) => {
+    const runs: { start: number; length: number }[] = [];
+    row.forEach((dark, x) => {
+      if (!dark) return;
+      const last = runs[runs.length - 1];
+      if (last && last.start + last.length === x) {
+        last.length++;
+      } else {
+        runs.push({ start: x, length: 1 });
+      }
+    });
+    return runs;
+  }), [matrix]);
+
+  return (
+    <View style={[styles.container, { width: actualSize, height: actualSize, backgroundColor, padding: moduleSize * QUIET_ZONE }]}>
+      {rows.map((runs, y) => (
+        <View key={y} style={{ height: moduleSize }}>
+          {runs.map((run) => (
+            <View
+              key={run.start}
+              style={[
+                styles.module,
+                { left: run.start * moduleSize, width: run.length * moduleSize, height: moduleSize, backgroundColor: color },
+              ]}
+            />
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 8,
+  },
+  module: {
+    position: 'absolute',
+    top: 0,
+  },
+});
+
+export default QrCode;
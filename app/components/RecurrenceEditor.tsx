@@ -0,0 +1,206 @@
+import React from 'react';
+import { StyleSheet, Switch, Text, TextInput, View } from 'react-native';
+import { RecurrenceDraft } from '../services/EventRecurrenceService';
+import { RECURRENCE_FREQUENCIES, RecurrenceFrequency } from '../types/models';
+import FilterChip from './FilterChip';
+
+const colors = {
+  surface: '#1a1a1a',
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  textMuted: '#71717a',
+  border: '#27272a',
+};
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+const INTERVAL_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
+
+const END_LABELS: Record<RecurrenceDraft['endType'], string> = {
+  never: 'Never',
+  until: 'On date',
+  count: 'After',
+};
+
+const WEEKDAY_SHORT_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface RecurrenceEditorProps {
+  value: RecurrenceDraft;
+  onChange: (value: RecurrenceDraft) => void;
+  // Día de inicio del evento; las reglas semanales sin días elegidos usan ese
+  startDay: number | null;
+}
+
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, onChange, startDay }) => {
+  const update = (changes: Partial<RecurrenceDraft>) => onChange({ ...value, ...changes });
+
+  const toggleWeekday = (weekday: number) => {
+    const selected = value.weekdays.length > 0 || startDay === null ? value.weekdays : [startDay];
+    update({
+      weekdays: selected.includes(weekday)
+        ? selected.filter((current) => current !== weekday)
+        : [...selected, weekday].sort((a, b) => a - b),
+    });
+  };
+
+  return (
+    <View>
+      <View style={styles.switchRow}>
+        <View style={styles.switchInfo}>
+          <Text style={styles.switchLabel}>Repeat event</Text>
+          <Text style={styles.hint}>For weekly trivia, live music nights and other regular events.</Text>
+        </View>
+        <Switch
+          value={value.enabled}
+          onValueChange={(enabled) => update({ enabled })}
+          trackColor={{ false: colors.surfaceVariant, true: colors.primary }}
+        />
+      </View>
+
+      {value.enabled && (
+        <View style={styles.card}>
+          <View style={styles.chips}>
+            {RECURRENCE_FREQUENCIES.map((frequency) => (
+              <FilterChip
+                key={frequency}
+                label={FREQUENCY_LABELS[frequency]}
+                selected={value.frequency === frequency}
+                onPress={() => update({ frequency })}
+              />
+            ))}
+          </View>
+
+          <View style={styles.inlineRow}>
+            <Text style={styles.label}>Every</Text>
+            <TextInput
+              style={[styles.input, styles.smallInput]}
+              value={value.interval}
+              onChangeText={(interval) => update({ interval })}
+              keyboardType="number-pad"
+            />
+            <Text style={styles.label}>{INTERVAL_UNITS[value.frequency]}</Text>
+          </View>
+
+          {value.frequency === 'weekly' && (
+            <>
+              <Text style={styles.label}>On</Text>
+              <View style={styles.chips}>
+                {WEEKDAY_SHORT_LABELS.map((label, weekday) => (
+                  <FilterChip
+                    key={label}
+                    label={label}
+                    selected={value.weekdays.length > 0 ? value.weekdays.includes(weekday) : weekday === startDay}
+                    onPress={() => toggleWeekday(weekday)}
+                  />
+                ))}
+              </View>
+            </>
+          )}
+
+          <Text style={styles.label}>Ends</Text>
+          <View style={styles.chips}>
+            {(Object.keys(END_LABELS) as RecurrenceDraft['endType'][]).map((endType) => (
+              <FilterChip
+                key={endType}
+                label={END_LABELS[endType]}
+                selected={value.endType === endType}
+                onPress={() => update({ endType })}
+              />
+            ))}
+          </View>
+          {value.endType === 'until' && (
+            <TextInput
+              style={styles.input}
+              value={value.until}
+              onChangeText={(until) => update({ until })}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={colors.textMuted}
+              autoCapitalize="none"
+            />
+          )}
+          {value.endType === 'count' && (
+            <View style={styles.inlineRow}>
+              <TextInput
+                style={[styles.input, styles.smallInput]}
+                value={value.count}
+                onChangeText={(count) => update({ count })}
+                keyboardType="number-pad"
+              />
+              <Text style={styles.label}>occurrences</Text>
+            </View>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  switchInfo: {
+    flex: 1,
+  },
+  switchLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    padding: 12,
+    gap: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  inlineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  input: {
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: colors.text,
+  },
+  smallInput: {
+    width: 64,
+    textAlign: 'center',
+  },
+});
+
+export default RecurrenceEditor;
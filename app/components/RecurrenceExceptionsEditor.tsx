@@ -0,0 +1,234 @@
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { listSeriesOccurrences, rescheduleOccurrence } from '../services/EventRecurrenceService';
+import { APP_TIMEZONE, formatTijuanaTime, toTijuanaWallTime } from '../services/TimeZoneService';
+import { isValidTime, RecurrenceException, RecurrenceRule } from '../types/models';
+
+const colors = {
+  surface: '#1a1a1a',
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  textMuted: '#71717a',
+  border: '#27272a',
+  warning: '#f59e0b',
+  error: '#ef4444',
+};
+
+// Ocurrencias próximas que se pueden cancelar o cambiar de horario
+const VISIBLE_OCCURRENCES = 8;
+
+interface RecurrenceExceptionsEditorProps {
+  start: Date;
+  end: Date;
+  recurrence: RecurrenceRule;
+  value: RecurrenceException[];
+  onChange: (exceptions: RecurrenceException[]) => void;
+}
+
+interface TimeDraft {
+  date: string;
+  start: string;
+  end: string;
+}
+
+// Las ocurrencias se muestran y editan en hora de Tijuana, la zona con la que se recorren las series
+const formatSeriesDate = (date: Date): string =>
+  toTijuanaWallTime(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+const formatSeriesClock = (date: Date): string =>
+  toTijuanaWallTime(date).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: 'UTC' });
+
+const RecurrenceExceptionsEditor: React.FC<RecurrenceExceptionsEditorProps> = ({ start, end, recurrence, value, onChange }) => {
+  const [editing, setEditing] = useState<TimeDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const occurrences = useMemo(
+    () => listSeriesOccurrences(
+      { start: start.toISOString(), end: end.toISOString(), recurrence, recurrenceExceptions: [] },
+      new Date(),
+      VISIBLE_OCCURRENCES
+    ),
+    [start, end, recurrence]
+  );
+
+  // Reemplaza la excepción de ese día; null la quita
+  const setException = (date: string, exception: RecurrenceException | null) => {
+    const others = value.filter((current) => current.date !== date);
+    onChange(exception ? [...others, exception] : others);
+  };
+
+  const saveTime = () => {
+    if (!editing) return;
+    if (!isValidTime(editing.start) || !isValidTime(editing.end)) {
+      setError('Use the HH:MM format, e.g. 21:30');
+      return;
+    }
+    setException(editing.date, rescheduleOccurrence(editing.date, editing.start, editing.end));
+    setEditing(null);
+    setError(null);
+  };
+
+  if (occurrences.length === 0) {
+    return <Text style={styles.hint}>There are no upcoming dates in this series.</Text>;
+  }
+
+  return (
+    <View style={styles.list}>
+      <Text style={styles.hint}>Times are in Baja California time ({APP_TIMEZONE}).</Text>
+      {occurrences.map((occurrence) => {
+        const exception = value.find((current) => current.date === occurrence.date);
+        const cancelled = exception?.cancelled ?? false;
+        const shownStart = exception?.start ? new Date(exception.start) : occurrence.start;
+        const shownEnd = exception?.end ? new Date(exception.end) : occurrence.end;
+        const isEditing = editing?.date === occurrence.date;
+
+        return (
+          <View key={occurrence.date} style={styles.row}>
+            <View style={styles.rowHeader}>
+              <View style={styles.rowInfo}>
+                <Text style={[styles.date, cancelled && styles.cancelledText]}>
+                  {formatSeriesDate(occurrence.start)}
+                </Text>
+                <Text style={[styles.time, exception && !cancelled && styles.modifiedText]}>
+                  {cancelled ? 'Cancelled' : `${formatSeriesClock(shownStart)} - ${formatSeriesClock(shownEnd)}`}
+                </Text>
+              </View>
+              {exception ? (
+                <TouchableOpacity style={styles.action} onPress={() => setException(occurrence.date, null)}>
+                  <Icon name="undo" size={18} color={colors.primary} />
+                  <Text style={styles.actionText}>Restore</Text>
+                </TouchableOpacity>
+              ) : (
+                <>
+                  <TouchableOpacity
+                    style={styles.action}
+                    onPress={() => {
+                      setEditing({ date: occurrence.date, start: formatTijuanaTime(occurrence.start), end: formatTijuanaTime(occurrence.end) });
+                      setError(null);
+                    }}
+                  >
+                    <Icon name="schedule" size={18} color={colors.primary} />
+                    <Text style={styles.actionText}>Time</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.action}
+                    onPress={() => setException(occurrence.date, { date: occurrence.date, cancelled: true })}
+                  >
+                    <Icon name="event-busy" size={18} color={colors.error} />
+                    <Text style={[styles.actionText, styles.cancelAction]}>Cancel</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+
+            {isEditing && editing && (
+              <View style={styles.timeEditor}>
+                <TextInput
+                  style={styles.input}
+                  value={editing.start}
+                  onChangeText={(text) => setEditing({ ...editing, start: text })}
+                  placeholder="Start"
+                  placeholderTextColor={colors.textMuted}
+                />
+                <TextInput
+                  style={styles.input}
+                  value={editing.end}
+                  onChangeText={(text) => setEditing({ ...editing, end: text })}
+                  placeholder="End"
+                  placeholderTextColor={colors.textMuted}
+                />
+                <TouchableOpacity onPress={saveTime}>
+                  <Icon name="check" size={22} color={colors.primary} />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => setEditing(null)}>
+                  <Icon name="close" size={22} color={colors.textMuted} />
+                </TouchableOpacity>
+              </View>
+            )}
+            {isEditing && error && <Text style={styles.error}>{error}</Text>}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  list: {
+    gap: 8,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.textMuted,
+  },
+  row: {
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    padding: 12,
+    gap: 8,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  date: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  time: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  cancelledText: {
+    color: colors.textMuted,
+    textDecorationLine: 'line-through',
+  },
+  modifiedText: {
+    color: colors.warning,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  cancelAction: {
+    color: colors.error,
+  },
+  timeEditor: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: colors.text,
+  },
+  error: {
+    fontSize: 12,
+    color: colors.error,
+  },
+});
+
+export default RecurrenceExceptionsEditor;
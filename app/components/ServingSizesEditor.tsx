@@ -0,0 +1,158 @@
+import React from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { SERVING_FORMAT_ICONS, SERVING_FORMAT_LABELS } from '../services/BeerService';
+import { ServingDraft } from '../services/MenuItemFormService';
+import { SERVING_FORMATS } from '../types/models';
+
+const colors = {
+  surface: '#1a1a1a',
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  textMuted: '#71717a',
+  border: '#27272a',
+  error: '#ef4444',
+};
+
+interface ServingSizesEditorProps {
+  value: ServingDraft[];
+  onChange: (servings: ServingDraft[]) => void;
+}
+
+const ServingSizesEditor: React.FC<ServingSizesEditorProps> = ({ value, onChange }) => {
+  const update = (index: number, changes: Partial<ServingDraft>) => {
+    onChange(value.map((serving, current) => (current === index ? { ...serving, ...changes } : serving)));
+  };
+
+  return (
+    <View>
+      {value.map((serving, index) => (
+        <View key={index} style={styles.card}>
+          <View style={styles.formatsRow}>
+            {SERVING_FORMATS.map((format) => {
+              const selected = serving.format === format;
+              return (
+                <TouchableOpacity
+                  key={format}
+                  style={[styles.formatChip, selected && styles.formatChipSelected]}
+                  onPress={() => update(index, { format })}
+                >
+                  <Icon name={SERVING_FORMAT_ICONS[format]} size={16} color={selected ? colors.text : colors.textMuted} />
+                  <Text style={[styles.formatText, selected && styles.formatTextSelected]}>
+                    {SERVING_FORMAT_LABELS[format]}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => onChange(value.filter((_, current) => current !== index))}
+            >
+              <Icon name="delete-outline" size={20} color={colors.error} />
+            </TouchableOpacity>
+          </View>
+          <View style={styles.fieldsRow}>
+            <TextInput
+              style={styles.input}
+              value={serving.volume}
+              onChangeText={(volume) => update(index, { volume })}
+              placeholder="Volume (ml)"
+              placeholderTextColor={colors.textMuted}
+              keyboardType="number-pad"
+            />
+            <TextInput
+              style={styles.input}
+              value={serving.price}
+              onChangeText={(price) => update(index, { price })}
+              placeholder="Price"
+              placeholderTextColor={colors.textMuted}
+              keyboardType="decimal-pad"
+            />
+          </View>
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={styles.addButton}
+        onPress={() => onChange([...value, { format: 'tap', volume: '', price: '' }])}
+      >
+        <Icon name="add" size={18} color={colors.primary} />
+        <Text style={styles.addButtonText}>Add serving size</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 10,
+  },
+  formatsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  formatChip: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  formatChipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  formatText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textMuted,
+  },
+  formatTextSelected: {
+    color: colors.text,
+  },
+  removeButton: {
+    padding: 4,
+  },
+  fieldsRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: colors.text,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+  },
+  addButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+});
+
+export default ServingSizesEditor;
@@ -0,0 +1,190 @@
+import React from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {
+  createTicketTierDraft,
+  MAX_TICKET_TIERS,
+  TICKET_TIER_ICONS,
+  TICKET_TIER_LABELS,
+  TicketTierDraft,
+} from '../services/EventTicketService';
+import { TICKET_TIER_TYPES } from '../types/models';
+
+const colors = {
+  surface: '#1a1a1a',
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  textMuted: '#71717a',
+  border: '#27272a',
+  error: '#ef4444',
+};
+
+interface TicketTiersEditorProps {
+  value: TicketTierDraft[];
+  onChange: (tiers: TicketTierDraft[]) => void;
+}
+
+const TicketTiersEditor: React.FC<TicketTiersEditorProps> = ({ value, onChange }) => {
+  const update = (index: number, changes: Partial<TicketTierDraft>) => {
+    onChange(value.map((tier, current) => (current === index ? { ...tier, ...changes } : tier)));
+  };
+
+  return (
+    <View>
+      {value.map((tier, index) => (
+        <View key={tier.id} style={styles.card}>
+          <View style={styles.typesRow}>
+            {TICKET_TIER_TYPES.map((type) => {
+              const selected = tier.type === type;
+              return (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.typeChip, selected && styles.typeChipSelected]}
+                  onPress={() => update(index, { type })}
+                >
+                  <Icon name={TICKET_TIER_ICONS[type]} size={16} color={selected ? colors.text : colors.textMuted} />
+                  <Text style={[styles.typeText, selected && styles.typeTextSelected]}>{TICKET_TIER_LABELS[type]}</Text>
+                </TouchableOpacity>
+              );
+            })}
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => onChange(value.filter((_, current) => current !== index))}
+            >
+              <Icon name="delete-outline" size={20} color={colors.error} />
+            </TouchableOpacity>
+          </View>
+          <View style={styles.fieldsRow}>
+            <TextInput
+              style={[styles.input, styles.nameInput]}
+              value={tier.name}
+              onChangeText={(name) => update(index, { name })}
+              placeholder="Name"
+              placeholderTextColor={colors.textMuted}
+            />
+            <TextInput
+              style={styles.input}
+              value={tier.price}
+              onChangeText={(price) => update(index, { price })}
+              placeholder="Price"
+              placeholderTextColor={colors.textMuted}
+              keyboardType="decimal-pad"
+            />
+          </View>
+          <Text style={styles.label}>On sale (optional, YYYY-MM-DD)</Text>
+          <View style={styles.fieldsRow}>
+            <TextInput
+              style={styles.input}
+              value={tier.salesStart}
+              onChangeText={(salesStart) => update(index, { salesStart })}
+              placeholder="From"
+              placeholderTextColor={colors.textMuted}
+              autoCapitalize="none"
+            />
+            <TextInput
+              style={styles.input}
+              value={tier.salesEnd}
+              onChangeText={(salesEnd) => update(index, { salesEnd })}
+              placeholder="Until"
+              placeholderTextColor={colors.textMuted}
+              autoCapitalize="none"
+            />
+          </View>
+        </View>
+      ))}
+
+      {value.length < MAX_TICKET_TIERS ? (
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => onChange([...value, createTicketTierDraft(value.length === 0 ? 'general' : 'vip')])}
+        >
+          <Icon name="add" size={18} color={colors.primary} />
+          <Text style={styles.addButtonText}>Add ticket type</Text>
+        </TouchableOpacity>
+      ) : (
+        <Text style={styles.label}>Up to {MAX_TICKET_TIERS} ticket types</Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 10,
+  },
+  typesRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  typeChip: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  typeChipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  typeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textMuted,
+  },
+  typeTextSelected: {
+    color: colors.text,
+  },
+  removeButton: {
+    padding: 4,
+  },
+  fieldsRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: colors.text,
+  },
+  nameInput: {
+    flex: 2,
+  },
+  label: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+  },
+  addButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+});
+
+export default TicketTiersEditor;
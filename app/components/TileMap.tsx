@@ -0,0 +1,374 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  Image,
+  LayoutChangeEvent,
+  PanResponder,
+  StyleProp,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+  ViewStyle,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { Coordinates } from '../types/models';
+
+const colors = {
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  accent: '#8b5cf6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  border: '#27272a',
+  overlay: 'rgba(0, 0, 0, 0.7)',
+};
+
+const TILE_SIZE = 256;
+const MAX_LATITUDE = 85.05112878;
+// Movimiento máximo (px) para que un toque cuente como tap y no como arrastre
+const TAP_SLOP = 6;
+
+export const MIN_ZOOM = 2;
+export const MAX_ZOOM = 18;
+
+// Centro de Mexicali; se usa cuando no hay puntos que mostrar
+export const DEFAULT_MAP_CENTER: Coordinates = { latitude: 32.6245, longitude: -115.4523 };
+
+export interface MapRegion {
+  center: Coordinates;
+  zoom: number;
+}
+
+export interface MapMarker {
+  id: string;
+  coordinates: Coordinates;
+  // Más de 1 se dibuja como cluster con el número de bares
+  count?: number;
+  selected?: boolean;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const tileUrl = (zoom: number, x: number, y: number) => `https://tile.openstreetmap.org/${zoom}/${x}/${y}.png`;
+
+const worldSize = (zoom: number) => TILE_SIZE * 2 ** zoom;
+
+const normalizeLongitude = (longitude: number) => ((((longitude + 180) % 360) + 360) % 360) - 180;
+
+export const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, Math.round(zoom)));
+
+// Proyección Web Mercator (la de los tiles de OpenStreetMap) a pixeles del mundo en ese zoom
+export const project = (coordinates: Coordinates, zoom: number): Point => {
+  const size = worldSize(zoom);
+  const latitude = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, coordinates.latitude));
+  const sinLat = Math.sin((latitude * Math.PI) / 180);
+  return {
+    x: ((coordinates.longitude + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * size,
+  };
+};
+
+export const unproject = (point: Point, zoom: number): Coordinates => {
+  const size = worldSize(zoom);
+  const y = 0.5 - point.y / size;
+  return {
+    latitude: 90 - (360 * Math.atan(Math.exp(-y * 2 * Math.PI))) / Math.PI,
+    longitude: normalizeLongitude((point.x / size) * 360 - 180),
+  };
+};
+
+// Agrupa los puntos que en este zoom quedarían a menos de `radius` px del primero del grupo
+export const clusterPoints = <T extends { id: string; coordinates: Coordinates }>(
+  points: T[],
+  zoom: number,
+  radius: number = 48
+): { id: string; coordinates: Coordinates; members: T[] }[] => {
+  const clusters: { anchor: Point; members: T[] }[] = [];
+
+  points.forEach((point) => {
+    const pixel = project(point.coordinates, zoom);
+    const cluster = clusters.find(({ anchor }) => Math.hypot(anchor.x - pixel.x, anchor.y - pixel.y) < radius);
+    if (cluster) {
+      cluster.members.push(point);
+    } else {
+      clusters.push({ anchor: pixel, members: [point] });
+    }
+  });
+
+  return clusters.map(({ members }) => ({
+    id: members.map((member) => member.id).join('|'),
+    coordinates: {
+      latitude: members.reduce((sum, member) => sum + member.coordinates.latitude, 0) / members.length,
+      longitude: members.reduce((sum, member) => sum + member.coordinates.longitude, 0) / members.length,
+    },
+    members,
+  }));
+};
+
+// Centro y zoom más cercano en el que caben todos los puntos
+export const fitRegion = (points: Coordinates[], width: number, height: number, padding: number = 48): MapRegion => {
+  if (points.length === 0) return { center: DEFAULT_MAP_CENTER, zoom: 12 };
+  if (points.length === 1) return { center: points[0], zoom: 15 };
+
+  const latitudes = points.map((point) => point.latitude);
+  const longitudes = points.map((point) => point.longitude);
+  const north = Math.max(...latitudes);
+  const south = Math.min(...latitudes);
+  const east = Math.max(...longitudes);
+  const west = Math.min(...longitudes);
+  const center = { latitude: (north + south) / 2, longitude: (east + west) / 2 };
+
+  for (let zoom = 16; zoom > MIN_ZOOM; zoom--) {
+    const northEast = project({ latitude: north, longitude: east }, zoom);
+    const southWest = project({ latitude: south, longitude: west }, zoom);
+    if (northEast.x - southWest.x <= width - padding * 2 && southWest.y - northEast.y <= height - padding * 2) {
+      return { center, zoom };
+    }
+  }
+  return { center, zoom: MIN_ZOOM };
+};
+
+interface TileMapProps {
+  region: MapRegion;
+  onRegionChange: (region: MapRegion) => void;
+  markers?: MapMarker[];
+  userLocation?: Coordinates | null;
+  onMarkerPress?: (marker: MapMarker) => void;
+  onMapPress?: (coordinates: Coordinates) => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Mapa de tiles de OpenStreetMap dibujado con Image, sin módulos nativos,
+ * así funciona igual en web y en móvil. Se arrastra para moverlo y tiene
+ * botones de zoom; la región la controla la pantalla que lo usa.
+ */
+const TileMap: React.FC<TileMapProps> = ({
+  region,
+  onRegionChange,
+  markers = [],
+  userLocation,
+  onMarkerPress,
+  onMapPress,
+  style,
+}) => {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [drag, setDrag] = useState<Point>({ x: 0, y: 0 });
+  const containerRef = useRef<View>(null);
+  const windowOffset = useRef<Point>({ x: 0, y: 0 });
+
+  // El PanResponder se crea una sola vez, así que lee las props más recientes desde aquí
+  const latest = useRef({ region, size, onRegionChange, onMapPress });
+  latest.current = { region, size, onRegionChange, onMapPress };
+
+  const panResponder = useMemo(() => PanResponder.create({
+    onStartShouldSetPanResponder: () => true,
+    onMoveShouldSetPanResponder: (_, gesture) => Math.abs(gesture.dx) + Math.abs(gesture.dy) > TAP_SLOP,
+    // Dentro de un ScrollView el arrastre es del mapa, no del scroll
+    onPanResponderTerminationRequest: () => false,
+    onPanResponderGrant: () => {
+      containerRef.current?.measureInWindow((x, y) => {
+        windowOffset.current = { x, y };
+      });
+    },
+    onPanResponderMove: (_, gesture) => setDrag({ x: gesture.dx, y: gesture.dy }),
+    onPanResponderRelease: (event, gesture) => {
+      setDrag({ x: 0, y: 0 });
+      const current = latest.current;
+      const centerPixel = project(current.region.center, current.region.zoom);
+
+      if (Math.abs(gesture.dx) + Math.abs(gesture.dy) <= TAP_SLOP) {
+        if (!current.onMapPress) return;
+        const tapX = event.nativeEvent.pageX - windowOffset.current.x;
+        const tapY = event.nativeEvent.pageY - windowOffset.current.y;
+        current.onMapPress(unproject({
+          x: centerPixel.x + tapX - current.size.width / 2,
+          y: centerPixel.y + tapY - current.size.height / 2,
+        }, current.region.zoom));
+        return;
+      }
+
+      current.onRegionChange({
+        center: unproject({ x: centerPixel.x - gesture.dx, y: centerPixel.y - gesture.dy }, current.region.zoom),
+        zoom: current.region.zoom,
+      });
+    },
+    onPanResponderTerminate: () => setDrag({ x: 0, y: 0 }),
+  }), []);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const zoom = clampZoom(region.zoom);
+  const centerPixel = project(region.center, zoom);
+  const left = centerPixel.x - size.width / 2 - drag.x;
+  const top = centerPixel.y - size.height / 2 - drag.y;
+  const tilesPerSide = 2 ** zoom;
+
+  const toScreen = (coordinates: Coordinates): Point => {
+    const pixel = project(coordinates, zoom);
+    return { x: pixel.x - left, y: pixel.y - top };
+  };
+
+  const isVisible = (point: Point) =>
+    point.x > -40 && point.y > -40 && point.x < size.width + 40 && point.y < size.height + 40;
+
+  const tiles: React.ReactNode[] = [];
+  if (size.width > 0 && size.height > 0) {
+    const firstX = Math.floor(left / TILE_SIZE);
+    const lastX = Math.floor((left + size.width) / TILE_SIZE);
+    const firstY = Math.max(0, Math.floor(top / TILE_SIZE));
+    const lastY = Math.min(tilesPerSide - 1, Math.floor((top + size.height) / TILE_SIZE));
+
+    for (let x = firstX; x <= lastX; x++) {
+      for (let y = firstY; y <= lastY; y++) {
+        const wrappedX = ((x % tilesPerSide) + tilesPerSide) % tilesPerSide;
+        tiles.push(
+          <Image
+            key={`${zoom}/${x}/${y}`}
+            source={{ uri: tileUrl(zoom, wrappedX, y) }}
+            style={[styles.tile, { left: x * TILE_SIZE - left, top: y * TILE_SIZE - top }]}
+          />
+        );
+      }
+    }
+  }
+
+  const changeZoom = (delta: number) => {
+    onRegionChange({ center: region.center, zoom: clampZoom(zoom + delta) });
+  };
+
+  const userPoint = userLocation ? toScreen(userLocation) : null;
+
+  return (
+    <View
+      ref={containerRef}
+      style={[styles.container, style]}
+      onLayout={handleLayout}
+      {...panResponder.panHandlers}
+    >
+      {tiles}
+
+      {userPoint && isVisible(userPoint) && (
+        <View pointerEvents="none" style={[styles.userDot, { left: userPoint.x - 8, top: userPoint.y - 8 }]} />
+      )}
+
+      {markers.map((marker) => {
+        const point = toScreen(marker.coordinates);
+        if (!isVisible(point)) return null;
+
+        const isCluster = (marker.count ?? 1) > 1;
+        const content = isCluster ? (
+          <Text style={styles.clusterText}>{marker.count}</Text>
+        ) : (
+          <Icon name="place" size={36} color={marker.selected ? colors.accent : colors.primary} />
+        );
+        // El pin apunta con la punta; el cluster se centra en el punto
+        const position = isCluster
+          ? { left: point.x - 20, top: point.y - 20 }
+          : { left: point.x - 18, top: point.y - 36 };
+
+        return onMarkerPress ? (
+          <TouchableOpacity
+            key={marker.id}
+            style={[isCluster ? styles.cluster : styles.pin, position]}
+            onPress={() => onMarkerPress(marker)}
+            activeOpacity={0.8}
+          >
+            {content}
+          </TouchableOpacity>
+        ) : (
+          <View key={marker.id} pointerEvents="none" style={[isCluster ? styles.cluster : styles.pin, position]}>
+            {content}
+          </View>
+        );
+      })}
+
+      <View style={styles.zoomControls}>
+        <TouchableOpacity style={styles.zoomButton} onPress={() => changeZoom(1)} disabled={zoom >= MAX_ZOOM}>
+          <Icon name="add" size={20} color={colors.text} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.zoomButton} onPress={() => changeZoom(-1)} disabled={zoom <= MIN_ZOOM}>
+          <Icon name="remove" size={20} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <Text pointerEvents="none" style={styles.attribution}>© OpenStreetMap contributors</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+    backgroundColor: colors.surfaceVariant,
+  },
+  tile: {
+    position: 'absolute',
+    width: TILE_SIZE,
+    height: TILE_SIZE,
+  },
+  pin: {
+    position: 'absolute',
+    width: 36,
+    height: 36,
+  },
+  cluster: {
+    position: 'absolute',
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.primary,
+    borderWidth: 3,
+    borderColor: colors.text,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  clusterText: {
+    color: colors.text,
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  userDot: {
+    position: 'absolute',
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    backgroundColor: colors.primary,
+    borderWidth: 3,
+    borderColor: colors.text,
+  },
+  zoomControls: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    gap: 8,
+  },
+  zoomButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 8,
+    backgroundColor: colors.overlay,
+    borderWidth: 1,
+    borderColor: colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  attribution: {
+    position: 'absolute',
+    bottom: 4,
+    left: 6,
+    fontSize: 10,
+    color: colors.textSecondary,
+    backgroundColor: colors.overlay,
+    paddingHorizontal: 4,
+    borderRadius: 4,
+  },
+});
+
+export default TileMap;
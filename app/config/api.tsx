@@ -0,0 +1,111 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+
+// Entornos disponibles para la API
+// "mock" responde desde el backend simulado en memoria (app/mocks), sin red
+export type ApiEnvironment = 'local' | 'staging' | 'production' | 'mock';
+
+export const API_ENVIRONMENTS: ApiEnvironment[] = ['local', 'staging', 'production', 'mock'];
+
+// Override guardado desde la pantalla de ajustes de desarrollador
+export interface ApiOverride {
+  environment?: ApiEnvironment;
+  baseUrl?: string;
+}
+
+interface ApiExtraConfig {
+  environment?: string;
+  urls?: Partial<Record<ApiEnvironment, string>>;
+}
+
+const OVERRIDE_KEY = 'api_config_override';
+
+const PRODUCTION_URL = 'http://44.202.149.213:3000/api';
+const MOCK_URL = 'mock://rutacervecera/api';
+
+// El emulador de Android no ve localhost de la máquina, usa 10.0.2.2
+const LOCAL_URL = Platform.select({
+  android: 'http://10.0.2.2:3000/api',
+  default: 'http://localhost:3000/api',
+});
+
+const extra: ApiExtraConfig = Constants.expoConfig?.extra?.api ?? {};
+
+const isApiEnvironment = (value: unknown): value is ApiEnvironment =>
+  typeof value === 'string' && API_ENVIRONMENTS.includes(value as ApiEnvironment);
+
+// URLs por entorno: variables EXPO_PUBLIC_* > extra.api.urls > valores por defecto
+const environmentUrls: Record<ApiEnvironment, string> = {
+  local: process.env.EXPO_PUBLIC_API_LOCAL_URL || extra.urls?.local || LOCAL_URL,
+  staging: process.env.EXPO_PUBLIC_API_STAGING_URL || extra.urls?.staging || PRODUCTION_URL,
+  production: process.env.EXPO_PUBLIC_API_PRODUCTION_URL || extra.urls?.production || PRODUCTION_URL,
+  mock: MOCK_URL,
+};
+
+const envEnvironment = process.env.EXPO_PUBLIC_API_ENV || extra.environment;
+
+// Entorno con el que se compiló la app
+export const DEFAULT_API_ENVIRONMENT: ApiEnvironment = isApiEnvironment(envEnvironment)
+  ? envEnvironment
+  : 'production';
+
+let override: ApiOverride | null = null;
+let loadPromise: Promise<void> | null = null;
+
+const stripTrailingSlash = (url: string): string => url.replace(/\/+$/, '');
+
+// Carga el override guardado una sola vez; las peticiones lo esperan antes de salir
+export const loadApiConfig = (): Promise<void> => {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(OVERRIDE_KEY);
+        override = stored ? JSON.parse(stored) : null;
+        console.log('🔧 ApiConfig: Loaded override:', override);
+      } catch (error) {
+        console.error('❌ ApiConfig: Error loading override:', error);
+        override = null;
+      }
+    })();
+  }
+  return loadPromise;
+};
+
+export const getApiEnvironment = (): ApiEnvironment =>
+  override?.environment ?? DEFAULT_API_ENVIRONMENT;
+
+export const getEnvironmentUrl = (environment: ApiEnvironment): string =>
+  environmentUrls[environment];
+
+// URL base que deben usar todos los servicios
+export const getApiBaseUrl = (): string => {
+  if (override?.baseUrl) return stripTrailingSlash(override.baseUrl);
+  return stripTrailingSlash(getEnvironmentUrl(getApiEnvironment()));
+};
+
+// El backend simulado solo aplica si no hay una URL personalizada
+export const isMockApiEnabled = (): boolean =>
+  !override?.baseUrl && getApiEnvironment() === 'mock';
+
+export const getApiOverride = (): ApiOverride | null => override;
+
+export const setApiOverride = async (value: ApiOverride): Promise<void> => {
+  const baseUrl = value.baseUrl?.trim();
+  if (baseUrl && !/^https?:\/\//.test(baseUrl)) {
+    throw new Error('La URL debe empezar con http:// o https://');
+  }
+
+  override = {
+    environment: value.environment,
+    baseUrl: baseUrl || undefined,
+  };
+  await AsyncStorage.setItem(OVERRIDE_KEY, JSON.stringify(override));
+  console.log('🔧 ApiConfig: Override saved:', override);
+};
+
+export const clearApiOverride = async (): Promise<void> => {
+  override = null;
+  await AsyncStorage.removeItem(OVERRIDE_KEY);
+  console.log('🔧 ApiConfig: Override cleared');
+};
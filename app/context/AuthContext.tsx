@@ -7,6 +7,7 @@ interface AuthState {
   isLoading: boolean;
   user: User | null;
   error: string | null;
+  sessionExpired: boolean;
 }
 
 // Tipos para las acciones del reducer
@@ -14,9 +15,10 @@ type AuthAction =
   | { type: 'AUTH_START' }
   | { type: 'AUTH_SUCCESS'; payload: { user: User } }
   | { type: 'AUTH_FAILURE'; payload: { error: string } }
-  | { type: 'AUTH_LOGOUT' }
+  | { type: 'AUTH_LOGOUT'; payload?: { sessionExpired?: boolean } }
   | { type: 'UPDATE_USER'; payload: { user: User } }
-  | { type: 'CLEAR_ERROR' };
+  | { type: 'CLEAR_ERROR' }
+  | { type: 'CLEAR_SESSION_EXPIRED' };
 
 // Tipos para el contexto
 interface AuthContextType {
@@ -25,6 +27,7 @@ interface AuthContextType {
   isLoading: boolean;
   user: User | null;
   error: string | null;
+  sessionExpired: boolean;
   
   // Métodos
   login: (credentials: LoginData) => Promise<AuthResponse>;
@@ -35,6 +38,7 @@ interface AuthContextType {
   clearError: () => void;
   refreshUser: () => Promise<void>;
   getCurrentUser: () => User | null;
+  clearSessionExpired: () => void;
 }
 
 // Estado inicial
@@ -43,6 +47,7 @@ const initialState: AuthState = {
   isLoading: true, // Inicia en true para verificar token existente
   user: null,
   error: null,
+  sessionExpired: false,
 };
 
 // Variable global para almacenar el usuario actual (accessible from anywhere)
@@ -71,6 +76,7 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
         isLoading: false,
         user: action.payload.user,
         error: null,
+        sessionExpired: false,
       };
       // Update global user reference
       globalCurrentUser = action.payload.user;
@@ -95,6 +101,7 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
         isLoading: false,
         user: null,
         error: null,
+        sessionExpired: action.payload?.sessionExpired ?? false,
       };
       // Clear global user reference
       globalCurrentUser = null;
@@ -117,6 +124,13 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
       };
       break;
 
+    case 'CLEAR_SESSION_EXPIRED':
+      newState = {
+        ...state,
+        sessionExpired: false,
+      };
+      break;
+
     default:
       console.log('⚠️ AuthContext: Unknown action type:', action);
       newState = state;
@@ -147,6 +161,15 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     checkExistingAuth();
   }, []);
 
+  // Cerrar sesión cuando el token expiró y no se pudo refrescar
+  useEffect(() => {
+    const unsubscribe = authService.onSessionExpired(() => {
+      console.log('⌛ AuthContext: Session expired, setting AUTH_LOGOUT');
+      dispatch({ type: 'AUTH_LOGOUT', payload: { sessionExpired: true } });
+    });
+    return unsubscribe;
+  }, []);
+
   // Verificar si hay un token válido guardado
   const checkExistingAuth = async () => {
     try {
@@ -309,6 +332,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     dispatch({ type: 'CLEAR_ERROR' });
   };
 
+  // Ocultar el aviso de sesión expirada
+  const clearSessionExpired = () => {
+    dispatch({ type: 'CLEAR_SESSION_EXPIRED' });
+  };
+
   // Valor del contexto
   const contextValue: AuthContextType = {
     // Estado
@@ -316,6 +344,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     isLoading: state.isLoading,
     user: state.user,
     error: state.error,
+    sessionExpired: state.sessionExpired,
     
     // Métodos
     login,
@@ -326,6 +355,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     clearError,
     refreshUser,
     getCurrentUser,
+    clearSessionExpired,
   };
 
   console.log('📊 AuthContext: Providing context value:', {
@@ -0,0 +1,127 @@
+import { useCallback, useMemo } from 'react';
+import { Alert, Platform } from 'react-native';
+import { ApiError, ApiErrorKind, ValidationError } from '../services/ApiErrors';
+import { ModelValidationError } from '../types/models';
+
+// Contexto de la acción que falló; cambia el mensaje para algunos tipos de error
+export type ErrorContext = 'default' | 'login' | 'register' | 'load' | 'save' | 'delete';
+
+type Language = 'es' | 'en';
+
+type MessageTable = Record<ApiErrorKind, string>;
+
+const messages: Record<Language, MessageTable> = {
+  es: {
+    network: 'No hay conexión. Revisa tu internet e intenta de nuevo.',
+    timeout: 'El servidor tardó demasiado en responder. Intenta de nuevo.',
+    unauthorized: 'Necesitas iniciar sesión para continuar.',
+    'auth-expired': 'Tu sesión expiró. Inicia sesión de nuevo.',
+    forbidden: 'No tienes permiso para realizar esta acción.',
+    validation: 'Revisa los datos del formulario.',
+    'not-found': 'No encontramos lo que buscas.',
+    conflict: 'Esta acción entra en conflicto con datos existentes.',
+    server: 'Ocurrió un error en el servidor. Intenta más tarde.',
+    unknown: 'Ocurrió un error inesperado. Intenta de nuevo.',
+  },
+  en: {
+    network: 'No connection. Check your internet and try again.',
+    timeout: 'The server took too long to respond. Please try again.',
+    unauthorized: 'You need to log in to continue.',
+    'auth-expired': 'Your session expired. Please log in again.',
+    forbidden: "You don't have permission to do this.",
+    validation: 'Please review the form data.',
+    'not-found': "We couldn't find what you're looking for.",
+    conflict: 'This action conflicts with existing data.',
+    server: 'Something went wrong on the server. Please try again later.',
+    unknown: 'An unexpected error occurred. Please try again.',
+  },
+};
+
+const contextMessages: Record<Language, Partial<Record<ErrorContext, Partial<MessageTable>>>> = {
+  es: {
+    login: { unauthorized: 'Correo o contraseña incorrectos.' },
+    load: { 'not-found': 'Este elemento ya no existe.' },
+    save: { forbidden: 'No puedes modificar este elemento.' },
+    delete: { 'not-found': 'Este elemento ya había sido eliminado.', forbidden: 'No puedes eliminar este elemento.' },
+  },
+  en: {
+    login: { unauthorized: 'Incorrect email or password.' },
+    load: { 'not-found': 'This item no longer exists.' },
+    save: { forbidden: "You can't modify this item." },
+    delete: { 'not-found': 'This item was already deleted.', forbidden: "You can't delete this item." },
+  },
+};
+
+const errorTitles: Record<Language, string> = { es: 'Error', en: 'Error' };
+
+// Tipos en los que el mensaje del backend es más útil que el genérico
+const SERVER_MESSAGE_KINDS: ApiErrorKind[] = ['validation', 'conflict'];
+
+const getDeviceLanguage = (): Language => {
+  try {
+    const locale = Intl.DateTimeFormat().resolvedOptions().locale;
+    return locale.toLowerCase().startsWith('en') ? 'en' : 'es';
+  } catch {
+    return 'es';
+  }
+};
+
+const getErrorKind = (error: unknown): ApiErrorKind => {
+  if (error instanceof ApiError) return error.kind;
+  // El backend respondió algo que no pudimos interpretar
+  if (error instanceof ModelValidationError) return 'server';
+  return 'unknown';
+};
+
+// Mensaje para mostrar al usuario; se puede usar fuera de componentes
+export const getErrorMessage = (
+  error: unknown,
+  context: ErrorContext = 'default',
+  language: Language = getDeviceLanguage()
+): string => {
+  const kind = getErrorKind(error);
+  const contextual = contextMessages[language][context]?.[kind];
+  if (contextual) return contextual;
+
+  if (error instanceof ApiError && SERVER_MESSAGE_KINDS.includes(kind) && error.data?.message) {
+    return error.data.message;
+  }
+  return messages[language][kind];
+};
+
+// Errores por campo del formulario; solo se devuelven los campos que la pantalla conoce
+export const getFieldErrors = <F extends string>(
+  error: unknown,
+  fields: readonly F[]
+): Partial<Record<F, string>> => {
+  const fieldErrors: Partial<Record<F, string>> = {};
+  if (!(error instanceof ValidationError)) return fieldErrors;
+
+  error.fieldErrors.forEach(({ field, message }) => {
+    if ((fields as readonly string[]).includes(field) && !fieldErrors[field as F]) {
+      fieldErrors[field as F] = message;
+    }
+  });
+  return fieldErrors;
+};
+
+// Convierte errores de los servicios en mensajes de UI según el contexto de la pantalla
+export const useApiError = (context: ErrorContext = 'default') => {
+  const language = useMemo(getDeviceLanguage, []);
+
+  const getMessage = useCallback(
+    (error: unknown) => getErrorMessage(error, context, language),
+    [context, language]
+  );
+
+  const showError = useCallback((error: unknown, title: string = errorTitles[language]) => {
+    const message = getMessage(error);
+    if (Platform.OS === 'web') {
+      window.alert(`${title}: ${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  }, [getMessage, language]);
+
+  return { getMessage, showError, getFieldErrors };
+};
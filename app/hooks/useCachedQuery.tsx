@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isConnectivityError } from '../services/ApiErrors';
+import { queryCache } from '../services/QueryCache';
+
+interface CachedQueryState<T> {
+  data?: T;
+  updatedAt?: number;
+  loading: boolean;
+  refreshing: boolean;
+  error?: unknown;
+}
+
+// Stale-while-revalidate: muestra lo último guardado y pide datos frescos en segundo plano.
+// Si la petición falla se conservan los datos del cache y `isOffline` queda en true.
+export const useCachedQuery = <T,>(key: string | null, fetcher: () => Promise<T>) => {
+  const [state, setState] = useState<CachedQueryState<T>>({ loading: !!key, refreshing: false });
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  // Evita que la respuesta de una llave anterior pise la actual
+  const keyRef = useRef(key);
+  keyRef.current = key;
+
+  const revalidate = useCallback(async () => {
+    if (!key) return;
+
+    try {
+      const entry = await queryCache.fetch(key, fetcherRef.current);
+      if (keyRef.current !== key) return;
+      setState({ data: entry.data, updatedAt: entry.updatedAt, loading: false, refreshing: false });
+    } catch (error) {
+      if (keyRef.current !== key) return;
+      console.log('📴 useCachedQuery: Revalidation failed for', key);
+      setState((prev) => ({ ...prev, loading: false, refreshing: false, error }));
+    }
+  }, [key]);
+
+  useEffect(() => {
+    if (!key) {
+      setState({ loading: false, refreshing: false });
+      return;
+    }
+
+    let active = true;
+    setState({ loading: true, refreshing: false });
+
+    const load = async () => {
+      const cached = await queryCache.get<T>(key);
+      if (active && cached) {
+        setState({ data: cached.data, updatedAt: cached.updatedAt, loading: false, refreshing: false });
+      }
+      if (active) await revalidate();
+    };
+    load();
+
+    return () => {
+      active = false;
+    };
+  }, [key, revalidate]);
+
+  // Otras pantallas o cambios optimistas pueden escribir la misma llave
+  useEffect(() => {
+    if (!key) return;
+    return queryCache.subscribe((changedKey, entry) => {
+      if (changedKey !== key) return;
+      // Un `updatedAt` nuevo significa que llegó respuesta del servidor
+      setState((prev) => ({
+        ...prev,
+        data: entry.data,
+        updatedAt: entry.updatedAt,
+        loading: false,
+        error: entry.updatedAt !== prev.updatedAt ? undefined : prev.error,
+      }));
+    });
+  }, [key]);
+
+  // Pull-to-refresh
+  const refresh = useCallback(async () => {
+    setState((prev) => ({ ...prev, refreshing: true }));
+    await revalidate();
+  }, [revalidate]);
+
+  const error = state.error;
+  const isOffline = state.data !== undefined && isConnectivityError(error);
+
+  return {
+    data: state.data,
+    updatedAt: state.updatedAt,
+    loading: state.loading,
+    refreshing: state.refreshing,
+    error,
+    isOffline,
+    refresh,
+  };
+};
@@ -0,0 +1,465 @@
+import { fromTijuanaWallTime, toTijuanaDateKey, toTijuanaWallTime } from '../services/TimeZoneService';
+import {
+  BarDocument,
+  CheckInDocument,
+  EventDocument,
+  FavoriteDocument,
+  MenuItemDocument,
+  ReservationDocument,
+  ReviewDocument,
+  RsvpDocument,
+  UserDocument,
+} from './types';
+
+// Datos semilla del backend simulado. Las contraseñas de todos los usuarios son "password123".
+
+export const MOCK_PASSWORD = 'password123';
+
+export const mockUsers: UserDocument[] = [
+  {
+    _id: 'user-1',
+    name: 'Ana López',
+    email: 'ana@example.com',
+    phone: '6861234567',
+    birthDate: '1995-04-12T00:00:00.000Z',
+    photo: '',
+    accountType: 'user',
+    createdAt: '2024-01-10T18:00:00.000Z',
+    updatedAt: '2024-01-10T18:00:00.000Z',
+  },
+  {
+    _id: 'owner-1',
+    name: 'Carlos Ramírez',
+    email: 'carlos@example.com',
+    phone: '6867654321',
+    birthDate: '1988-09-30T00:00:00.000Z',
+    photo: '',
+    accountType: 'business',
+    createdAt: '2023-11-02T18:00:00.000Z',
+    updatedAt: '2023-11-02T18:00:00.000Z',
+  },
+];
+
+export const mockBars: BarDocument[] = [
+  {
+    _id: 'bar-1',
+    owner: 'owner-1',
+    name: 'Cervecería Cachanilla',
+    description: 'Cerveza artesanal de Mexicali con terraza y música en vivo los fines de semana.',
+    photo: 'https://images.unsplash.com/photo-1514933651103-005eec06c04b?w=800',
+    address: {
+      street: 'Av. Reforma 1234',
+      city: 'Mexicali',
+      state: 'Baja California',
+      zipCode: '21100',
+    },
+    coordinates: { latitude: 32.6278, longitude: -115.4545 },
+    openingHours: {
+      weekly: [
+        { open: '13:00', close: '22:00' },
+        null,
+        { open: '17:00', close: '00:00' },
+        { open: '17:00', close: '00:00' },
+        { open: '17:00', close: '01:00' },
+        { open: '17:00', close: '02:30' },
+        { open: '13:00', close: '02:30' },
+      ],
+      exceptions: [
+        { date: '2026-12-25', hours: null, label: 'Navidad' },
+        { date: '2026-12-31', hours: { open: '18:00', close: '04:00' }, label: 'Año nuevo' },
+      ],
+    },
+    happyHours: [
+      {
+        id: 'hh-1',
+        label: 'Happy hour',
+        days: [2, 3, 4, 5],
+        start: '17:00',
+        end: '19:00',
+        discounts: { alcohol: 20 },
+      },
+    ],
+    menuSections: [
+      { id: 'sec-1', name: 'Cervezas de la casa' },
+      { id: 'sec-2', name: 'Micheladas y cocteles' },
+      { id: 'sec-3', name: 'Botanas' },
+    ],
+    mapsUrl: 'https://maps.google.com/?q=Cerveceria+Cachanilla+Mexicali',
+    phone: '6865551234',
+    tags: ['Cerveza artesanal', 'Terraza', 'Música en vivo'],
+    ratingAverage: 4.5,
+    ratingQuantity: 2,
+    createdAt: '2024-02-01T18:00:00.000Z',
+    updatedAt: '2024-02-01T18:00:00.000Z',
+  },
+  {
+    _id: 'bar-2',
+    owner: 'owner-1',
+    name: 'La Chinesca Taproom',
+    description: 'Taproom con 20 grifos rotativos y botanas estilo mexicali-chino.',
+    photo: 'https://images.unsplash.com/photo-1572116469696-31de0f17cc34?w=800',
+    address: {
+      street: 'Calle Juárez 56',
+      city: 'Mexicali',
+      state: 'Baja California',
+      zipCode: '21000',
+    },
+    coordinates: { latitude: 32.6633, longitude: -115.4889 },
+    openingHours: {
+      weekly: Array.from({ length: 7 }, () => ({ open: '12:00', close: '00:00' })),
+      exceptions: [],
+    },
+    happyHours: [
+      {
+        id: 'hh-2',
+        label: 'Late night',
+        days: [0, 1, 2, 3, 4, 5, 6],
+        start: '22:00',
+        end: '00:00',
+        discounts: { alcohol: 15, comida: 10 },
+      },
+    ],
+    mapsUrl: 'https://maps.google.com/?q=La+Chinesca+Mexicali',
+    phone: '6865555678',
+    tags: ['Sports bar', 'Cerveza artesanal'],
+    ratingAverage: 4,
+    ratingQuantity: 1,
+    createdAt: '2024-03-15T18:00:00.000Z',
+    updatedAt: '2024-03-15T18:00:00.000Z',
+  },
+  {
+    _id: 'bar-3',
+    owner: 'owner-2',
+    name: 'Ensenada Brew House',
+    description: 'Cervezas de la ruta del vino con vista al mar.',
+    photo: 'https://images.unsplash.com/photo-1559526324-593bc073d938?w=800',
+    address: {
+      street: 'Blvd. Costero 900',
+      city: 'Ensenada',
+      state: 'Baja California',
+      zipCode: '22800',
+    },
+    coordinates: { latitude: 31.8578, longitude: -116.6258 },
+    mapsUrl: 'https://maps.google.com/?q=Ensenada+Brew+House',
+    phone: '6465550000',
+    tags: ['Terraza', 'Pet friendly'],
+    ratingAverage: 0,
+    ratingQuantity: 0,
+    createdAt: '2024-04-20T18:00:00.000Z',
+    updatedAt: '2024-04-20T18:00:00.000Z',
+  },
+];
+
+export const mockMenuItems: MenuItemDocument[] = [
+  {
+    _id: 'item-1',
+    bar: 'bar-1',
+    name: 'Cachanilla IPA',
+    description: 'IPA de la casa con lúpulo Cascade.',
+    price: 85,
+    happyHourPrice: 60,
+    photo: 'https://images.unsplash.com/photo-1608270586620-248524c67de9?w=800',
+    type: 'alcohol',
+    alcoholPercentage: 6.5,
+    volume: 473,
+    beer: { style: 'IPA', ibu: 65, brewery: 'Cervecería Cachanilla', origin: 'Mexicali, B.C.' },
+    servings: [
+      { format: 'tap', volume: 355, price: 65 },
+      { format: 'tap', volume: 473, price: 85 },
+      { format: 'can', volume: 355, price: 70 },
+    ],
+    dietaryTags: ['vegan'],
+    availability: 'available',
+    sectionId: 'sec-1',
+    position: 0,
+    featured: true,
+    createdAt: '2024-02-02T18:00:00.000Z',
+    updatedAt: '2024-02-02T18:00:00.000Z',
+  },
+  {
+    _id: 'item-2',
+    bar: 'bar-1',
+    name: 'Michelada clásica',
+    description: 'Cerveza clara con limón, sal y salsas.',
+    price: 75,
+    photo: '',
+    type: 'alcohol',
+    alcoholPercentage: 4.5,
+    volume: 500,
+    allergens: ['shellfish'],
+    spicyLevel: 2,
+    availability: 'available',
+    sectionId: 'sec-2',
+    position: 0,
+    createdAt: '2024-02-02T18:00:00.000Z',
+    updatedAt: '2024-02-02T18:00:00.000Z',
+  },
+  {
+    _id: 'item-3',
+    bar: 'bar-1',
+    name: 'Papas gajo',
+    description: 'Con chipotle y queso.',
+    price: 95,
+    photo: '',
+    type: 'comida',
+    alcoholPercentage: 0,
+    volume: 0,
+    dietaryTags: ['vegetarian', 'gluten_free'],
+    allergens: ['dairy'],
+    spicyLevel: 1,
+    availability: 'available',
+    sectionId: 'sec-3',
+    position: 0,
+    featured: true,
+    createdAt: '2024-02-02T18:00:00.000Z',
+    updatedAt: '2024-02-02T18:00:00.000Z',
+  },
+  {
+    _id: 'item-4',
+    bar: 'bar-1',
+    name: 'Agua mineral',
+    description: '',
+    price: 35,
+    photo: '',
+    type: 'bebida',
+    alcoholPercentage: 0,
+    volume: 355,
+    dietaryTags: ['vegan', 'gluten_free'],
+    availability: 'available',
+    position: 0,
+    createdAt: '2024-02-02T18:00:00.000Z',
+    updatedAt: '2024-02-02T18:00:00.000Z',
+  },
+  {
+    _id: 'item-5',
+    bar: 'bar-2',
+    name: 'Stout de Café',
+    description: 'Stout con café de Chiapas.',
+    price: 90,
+    photo: '',
+    type: 'alcohol',
+    alcoholPercentage: 7,
+    volume: 473,
+    beer: { style: 'Stout', ibu: 40, brewery: 'Cerveza Fauna', origin: 'Mexicali, B.C.' },
+    servings: [
+      { format: 'tap', volume: 473, price: 90 },
+      { format: 'bottle', volume: 355, price: 80 },
+    ],
+    dietaryTags: ['vegan'],
+    availability: 'seasonal',
+    createdAt: '2024-03-16T18:00:00.000Z',
+    updatedAt: '2024-03-16T18:00:00.000Z',
+  },
+  {
+    _id: 'item-6',
+    bar: 'bar-2',
+    name: 'Rollos primavera',
+    description: 'Orden de 4 piezas.',
+    price: 70,
+    photo: '',
+    type: 'comida',
+    alcoholPercentage: 0,
+    volume: 0,
+    allergens: ['soy', 'egg'],
+    availability: 'available',
+    createdAt: '2024-03-16T18:00:00.000Z',
+    updatedAt: '2024-03-16T18:00:00.000Z',
+  },
+];
+
+// Fechas relativas para que siempre haya eventos próximos; las horas son de Tijuana, como las series
+const today = toTijuanaWallTime(new Date());
+const daysFromNow = (days: number, hour: number): string =>
+  fromTijuanaWallTime(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() + days, hour, 0).toISOString();
+
+const dateKeyFromNow = (days: number): string => toTijuanaDateKey(new Date(daysFromNow(days, 12)));
+
+export const mockEvents: EventDocument[] = [
+  {
+    _id: 'event-1',
+    bar: 'bar-1',
+    name: 'Noche de trivia cervecera',
+    description: 'Equipos de hasta 5 personas, premios para los 3 primeros lugares.',
+    location: 'Terraza',
+    start: daysFromNow(0, 20),
+    end: daysFromNow(0, 23),
+    image: 'https://images.unsplash.com/photo-1543007630-9710e4a00a20?w=800',
+    price: 0,
+    recurrence: { frequency: 'weekly', interval: 1, weekdays: [] },
+    // La trivia de dentro de dos semanas se cancela por el partido
+    recurrenceExceptions: [{ date: dateKeyFromNow(14), cancelled: true }],
+    createdAt: '2024-02-03T18:00:00.000Z',
+    updatedAt: '2024-02-03T18:00:00.000Z',
+  },
+  {
+    _id: 'event-2',
+    bar: 'bar-1',
+    name: 'Rock en vivo',
+    description: 'Banda local tocando clásicos del rock en español.',
+    location: 'Escenario principal',
+    start: daysFromNow(3, 21),
+    end: daysFromNow(4, 1),
+    image: '',
+    price: 80,
+    capacity: 60,
+    ticketTiers: [
+      { id: 'tier-1', type: 'early_bird', name: 'Preventa', price: 80, salesEnd: dateKeyFromNow(-1) },
+      { id: 'tier-2', type: 'general', name: 'General', price: 100 },
+      { id: 'tier-3', type: 'vip', name: 'VIP con mesa', price: 250 },
+    ],
+    createdAt: '2024-02-03T18:00:00.000Z',
+    updatedAt: '2024-02-03T18:00:00.000Z',
+  },
+  {
+    _id: 'event-3',
+    bar: 'bar-2',
+    name: 'Lanzamiento Stout de Café',
+    description: 'Primer barril de la temporada con maridaje.',
+    location: '',
+    start: daysFromNow(20, 19),
+    end: daysFromNow(20, 22),
+    image: '',
+    price: 150,
+    capacity: 40,
+    createdAt: '2024-03-17T18:00:00.000Z',
+    updatedAt: '2024-03-17T18:00:00.000Z',
+  },
+  {
+    _id: 'event-4',
+    bar: 'bar-2',
+    name: 'Cata de lagers mexicanas',
+    description: 'Seis lagers de cervecerías locales con guía del maestro cervecero.',
+    location: 'Barra principal',
+    start: daysFromNow(-12, 19),
+    end: daysFromNow(-12, 22),
+    image: '',
+    price: 200,
+    createdAt: '2024-03-17T18:00:00.000Z',
+    updatedAt: '2024-03-17T18:00:00.000Z',
+  },
+];
+
+export const mockReviews: ReviewDocument[] = [
+  {
+    _id: 'review-1',
+    bar: 'bar-1',
+    user: 'user-1',
+    rating: 5,
+    comment: 'La mejor IPA de Mexicali.',
+    photos: [],
+    createdAt: '2024-05-01T18:00:00.000Z',
+    updatedAt: '2024-05-01T18:00:00.000Z',
+  },
+  {
+    _id: 'review-2',
+    bar: 'bar-1',
+    user: 'owner-1',
+    rating: 4,
+    comment: 'Buen ambiente, algo lleno los viernes.',
+    photos: [],
+    createdAt: '2024-05-03T18:00:00.000Z',
+    updatedAt: '2024-05-03T18:00:00.000Z',
+  },
+  {
+    _id: 'review-3',
+    bar: 'bar-2',
+    user: 'user-1',
+    rating: 4,
+    comment: 'Mucha variedad de grifos.',
+    photos: [],
+    createdAt: '2024-05-10T18:00:00.000Z',
+    updatedAt: '2024-05-10T18:00:00.000Z',
+  },
+];
+
+export const mockFavorites: FavoriteDocument[] = [
+  {
+    _id: 'favorite-1',
+    user: 'user-1',
+    bar: 'bar-2',
+    createdAt: '2024-05-11T18:00:00.000Z',
+  },
+];
+
+export const mockCheckIns: CheckInDocument[] = [
+  {
+    _id: 'checkin-1',
+    user: 'user-1',
+    bar: 'bar-1',
+    createdAt: '2024-05-03T22:15:00.000Z',
+  },
+  {
+    _id: 'checkin-2',
+    user: 'user-1',
+    bar: 'bar-2',
+    createdAt: '2024-05-11T19:40:00.000Z',
+  },
+  {
+    _id: 'checkin-3',
+    user: 'user-1',
+    bar: 'bar-1',
+    createdAt: '2024-05-18T23:05:00.000Z',
+  },
+];
+
+export const mockRsvps: RsvpDocument[] = [
+  {
+    _id: 'rsvp-1',
+    user: 'user-1',
+    event: 'event-1',
+    status: 'going',
+    createdAt: '2024-05-20T18:00:00.000Z',
+    updatedAt: '2024-05-20T18:00:00.000Z',
+  },
+  {
+    _id: 'rsvp-2',
+    user: 'owner-1',
+    event: 'event-1',
+    status: 'interested',
+    createdAt: '2024-05-20T19:00:00.000Z',
+    updatedAt: '2024-05-20T19:00:00.000Z',
+  },
+  {
+    _id: 'rsvp-3',
+    user: 'user-1',
+    event: 'event-3',
+    status: 'interested',
+    createdAt: '2024-05-21T18:00:00.000Z',
+    updatedAt: '2024-05-21T18:00:00.000Z',
+  },
+  {
+    _id: 'rsvp-4',
+    user: 'user-1',
+    event: 'event-4',
+    status: 'going',
+    createdAt: '2024-05-01T18:00:00.000Z',
+    updatedAt: '2024-05-01T18:00:00.000Z',
+  },
+];
+
+export const mockReservations: ReservationDocument[] = [
+  {
+    _id: 'reservation-1',
+    user: 'user-1',
+    event: 'event-2',
+    tierId: 'tier-2',
+    tierName: 'General',
+    unitPrice: 100,
+    quantity: 2,
+    code: 'BR-K7M4QX',
+    status: 'confirmed',
+    createdAt: '2024-05-22T18:00:00.000Z',
+  },
+  {
+    _id: 'reservation-2',
+    user: 'owner-1',
+    event: 'event-2',
+    tierId: 'tier-3',
+    tierName: 'VIP con mesa',
+    unitPrice: 250,
+    quantity: 4,
+    code: 'BR-P9T2WD',
+    status: 'confirmed',
+    createdAt: '2024-05-22T19:00:00.000Z',
+  },
+];
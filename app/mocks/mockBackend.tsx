@@ -0,0 +1,1076 @@
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { matchesBeerFilter, validateBeerAttributes } from '../services/BeerService';
+import { buildCalendarFeed } from '../services/CalendarExportService';
+import { validateHappyHourPrice, validateHappyHours } from '../services/HappyHourService';
+import { validateDietaryAttributes, validateDietaryPreferences } from '../services/DietaryService';
+import { getOccurrence, hasEventEnded, validateRecurrence } from '../services/EventRecurrenceService';
+import {
+  generateReservationCode,
+  getEventTiers,
+  getTierSaleStatus,
+  MAX_RESERVATION_QUANTITY,
+  validateEventTickets,
+} from '../services/EventTicketService';
+import { distanceKm } from '../services/LocationService';
+import { resolveAvailability, validateAvailability } from '../services/MenuAvailabilityService';
+import { matchesMenuSearch } from '../services/MenuSearchService';
+import { validateMenuSections } from '../services/MenuSectionService';
+import { validateOpeningHours } from '../services/OpeningHoursService';
+import { toTijuanaDateKey } from '../services/TimeZoneService';
+import {
+  BarSummary,
+  CheckIn,
+  Event,
+  EventAttendance,
+  isMenuItemType,
+  isRsvpStatus,
+  isServingFormat,
+  isValidCoordinates,
+  isValidDateKey,
+  MenuItem,
+  MenuSection,
+  Review,
+  ReviewAuthor,
+  RsvpState,
+} from '../types/models';
+import {
+  MOCK_PASSWORD,
+  mockBars,
+  mockCheckIns,
+  mockEvents,
+  mockFavorites,
+  mockMenuItems,
+  mockReservations,
+  mockReviews,
+  mockRsvps,
+  mockUsers,
+} from './fixtures';
+import {
+  BarDocument,
+  CheckInDocument,
+  EventDocument,
+  FavoriteDocument,
+  MenuItemDocument,
+  ReservationDocument,
+  ReviewDocument,
+  RsvpDocument,
+  UserDocument,
+} from './types';
+
+// Backend simulado en memoria que implementa las rutas que usan los servicios.
+// Se conecta como adapter de axios en ApiService cuando el entorno es "mock".
+
+type Db = {
+  users: UserDocument[];
+  passwords: Record<string, string>;
+  refreshTokens: Record<string, string>;
+  // Token del feed de calendario -> usuario
+  calendarFeeds: Record<string, string>;
+  bars: BarDocument[];
+  menuItems: MenuItemDocument[];
+  events: EventDocument[];
+  reviews: ReviewDocument[];
+  favorites: FavoriteDocument[];
+  checkIns: CheckInDocument[];
+  rsvps: RsvpDocument[];
+  reservations: ReservationDocument[];
+};
+
+// El cuerpo llega tal cual lo manda el cliente; cada ruta lo valida campo por campo como el backend real
+type MockBody = any;
+
+interface MockRequest {
+  method: string;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: MockBody;
+  userId: string | null;
+}
+
+interface MockResult {
+  status: number;
+  data: unknown;
+}
+
+// Cuerpo de las respuestas con status de error
+interface MockErrorBody {
+  success: false;
+  message: string;
+  errors?: { field: string; description: string }[];
+}
+
+type Handler = (req: MockRequest) => MockResult;
+
+interface Route {
+  method: string;
+  segments: string[];
+  auth: boolean;
+  handler: Handler;
+}
+
+const MOCK_LATENCY_MS = 250;
+const TOKEN_PREFIX = 'mock-token-';
+const REFRESH_PREFIX = 'mock-refresh-';
+// Al expirar el token de acceso el cliente debe usar /auth/refresh
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+// Evita check-ins repetidos en el mismo bar durante una misma visita
+const CHECK_IN_COOLDOWN_MS = 60 * 60 * 1000;
+
+const clone = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const seed = (): Db => ({
+  users: clone(mockUsers),
+  passwords: Object.fromEntries(mockUsers.map((user) => [user._id, MOCK_PASSWORD])),
+  refreshTokens: {},
+  calendarFeeds: {},
+  bars: clone(mockBars),
+  menuItems: clone(mockMenuItems),
+  events: clone(mockEvents),
+  reviews: clone(mockReviews),
+  favorites: clone(mockFavorites),
+  checkIns: clone(mockCheckIns),
+  rsvps: clone(mockRsvps),
+  reservations: clone(mockReservations),
+});
+
+let db: Db = seed();
+let idCounter = 0;
+
+// Restablece los datos semilla (útil entre pruebas)
+export const resetMockDatabase = (): void => {
+  db = seed();
+  idCounter = 0;
+};
+
+const newId = (prefix: string): string => `${prefix}-${Date.now()}-${++idCounter}`;
+const now = (): string => new Date().toISOString();
+
+const ok = (data: unknown, status: number = 200): MockResult => ({ status, data });
+const fail = (status: number, message: string, errors?: MockErrorBody['errors']): MockResult => {
+  const data: MockErrorBody = { success: false, message, ...(errors ? { errors } : {}) };
+  return { status, data };
+};
+const wrapped = (data: unknown, message: string, status: number = 200): MockResult =>
+  ok({ success: true, message, data }, status);
+
+const findBar = (id: string): BarDocument | undefined => db.bars.find((bar) => bar._id === id);
+const findUser = (id: string): UserDocument | undefined => db.users.find((user) => user._id === id);
+const barSummary = (id: string): BarSummary => {
+  const bar = findBar(id);
+  return bar ? { _id: bar._id, name: bar.name } : { _id: id, name: '' };
+};
+const userSummary = (id: string): ReviewAuthor => {
+  const user = findUser(id);
+  return user ? { _id: user._id, name: user.name, photo: user.photo } : { _id: id, name: 'Usuario' };
+};
+
+const populateMenuItem = (item: MenuItemDocument): MenuItem => ({
+  dietaryTags: [],
+  allergens: [],
+  spicyLevel: 0,
+  ...item,
+  bar: barSummary(item.bar),
+});
+
+// Aplica el reinicio automático de los agotados al leerlos
+const refreshAvailability = (item: MenuItemDocument): MenuItemDocument => {
+  if (item.availability === 'sold_out' && resolveAvailability(item, findBar(item.bar)?.openingHours) === 'available') {
+    item.availability = 'available';
+    delete item.soldOutAt;
+  }
+  return item;
+};
+// Lo que ven los clientes: sin items ocultos
+const isPublicItem = (item: MenuItemDocument): boolean => refreshAvailability(item).availability !== 'hidden';
+const eventAttendance = (eventId: string): EventAttendance => {
+  const rsvps = db.rsvps.filter((rsvp) => rsvp.event === eventId);
+  return {
+    going: rsvps.filter((rsvp) => rsvp.status === 'going').length,
+    interested: rsvps.filter((rsvp) => rsvp.status === 'interested').length,
+  };
+};
+// Lugares ocupados por reservaciones vigentes; en las series, los de una sola ocurrencia
+const reservedSpots = (eventId: string, occurrenceDate?: string): number =>
+  db.reservations
+    .filter((reservation) =>
+      reservation.event === eventId && reservation.status === 'confirmed' && reservation.occurrenceDate === occurrenceDate)
+    .reduce((sum, reservation) => sum + reservation.quantity, 0);
+const reservedSpotsByDate = (eventId: string): Record<string, number> => {
+  const spots: Record<string, number> = {};
+  db.reservations
+    .filter((reservation) => reservation.event === eventId && reservation.status === 'confirmed' && reservation.occurrenceDate)
+    .forEach((reservation) => {
+      const date = reservation.occurrenceDate!;
+      spots[date] = (spots[date] ?? 0) + reservation.quantity;
+    });
+  return spots;
+};
+// El cupo vale por ocurrencia, así que en una serie cuenta la fecha por venir más llena
+const peakReservedSpots = (event: EventDocument): number => {
+  if (!event.recurrence) return reservedSpots(event._id);
+  const today = toTijuanaDateKey(new Date());
+  const upcoming = Object.entries(reservedSpotsByDate(event._id)).filter(([date]) => date >= today);
+  return Math.max(0, ...upcoming.map(([, spots]) => spots));
+};
+const populateEvent = (event: EventDocument): Event => ({
+  ticketTiers: [],
+  recurrenceExceptions: [],
+  ...event,
+  bar: barSummary(event.bar),
+  attendance: eventAttendance(event._id),
+  reservedSpots: peakReservedSpots(event),
+  reservedSpotsByDate: event.recurrence ? reservedSpotsByDate(event._id) : {},
+});
+const rsvpState = (eventId: string, userId: string | null): RsvpState => ({
+  status: db.rsvps.find((rsvp) => rsvp.event === eventId && rsvp.user === userId)?.status ?? null,
+  attendance: eventAttendance(eventId),
+});
+const populateReview = (review: ReviewDocument): Review => ({ ...review, user: userSummary(review.user) });
+const populateCheckIn = (checkIn: CheckInDocument): CheckIn => ({ ...checkIn, bar: barSummary(checkIn.bar) });
+
+const recalculateRating = (barId: string): void => {
+  const bar = findBar(barId);
+  if (!bar) return;
+  const ratings = db.reviews.filter((review) => review.bar === barId).map((review) => review.rating);
+  bar.ratingQuantity = ratings.length;
+  bar.ratingAverage = ratings.length
+    ? Math.round((ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length) * 10) / 10
+    : 0;
+};
+
+// Las coordenadas son opcionales; null las quita del bar
+const invalidCoordinates = (body: MockBody): MockResult | null => {
+  if (body?.coordinates === undefined || body.coordinates === null || isValidCoordinates(body.coordinates)) return null;
+  return fail(400, 'Datos inválidos', [{ field: 'coordinates', description: 'Latitud o longitud fuera de rango' }]);
+};
+
+const invalidOpeningHours = (body: MockBody): MockResult | null => {
+  if (body?.openingHours === undefined || body.openingHours === null) return null;
+  const message = typeof body.openingHours === 'object'
+    ? validateOpeningHours({ exceptions: [], ...body.openingHours })
+    : 'Formato de horario inválido';
+  return message ? fail(400, 'Datos inválidos', [{ field: 'openingHours', description: message }]) : null;
+};
+
+const invalidHappyHours = (body: MockBody): MockResult | null => {
+  if (body?.happyHours === undefined || body.happyHours === null) return null;
+  const message = Array.isArray(body.happyHours)
+    ? validateHappyHours(body.happyHours.map((happyHour: MockBody) => ({ discounts: {}, ...happyHour })))
+    : 'Formato de happy hours inválido';
+  return message ? fail(400, 'Datos inválidos', [{ field: 'happyHours', description: message }]) : null;
+};
+
+const invalidMenuSections = (body: MockBody): MockResult | null => {
+  if (body?.menuSections === undefined || body.menuSections === null) return null;
+  const message = Array.isArray(body.menuSections)
+    ? validateMenuSections(body.menuSections)
+    : 'Formato de secciones inválido';
+  return message ? fail(400, 'Datos inválidos', [{ field: 'menuSections', description: message }]) : null;
+};
+
+// En un PUT el precio regular puede venir del item guardado
+const invalidHappyHourPrice = (body: MockBody, current?: MenuItemDocument): MockResult | null => {
+  if (body?.happyHourPrice === undefined || body.happyHourPrice === null) return null;
+  const message = validateHappyHourPrice(Number(body.price ?? current?.price), Number(body.happyHourPrice));
+  return message ? fail(400, 'Datos inválidos', [{ field: 'happyHourPrice', description: message }]) : null;
+};
+
+const invalidBeerAttributes = (body: MockBody): MockResult | null => {
+  const message = validateBeerAttributes(body ?? {});
+  return message ? fail(400, 'Datos inválidos', [{ field: 'servings', description: message }]) : null;
+};
+
+const invalidDietaryAttributes = (body: MockBody): MockResult | null => {
+  const message = validateDietaryAttributes(body ?? {});
+  return message ? fail(400, 'Datos inválidos', [{ field: 'dietaryTags', description: message }]) : null;
+};
+
+const invalidDietaryPreferences = (body: MockBody): MockResult | null => {
+  if (body?.dietaryPreferences === undefined) return null;
+  const message = validateDietaryPreferences(body.dietaryPreferences);
+  return message ? fail(400, 'Datos inválidos', [{ field: 'dietaryPreferences', description: message }]) : null;
+};
+
+const invalidRecurrence = (body: MockBody): MockResult | null => {
+  const message = validateRecurrence(body ?? {});
+  return message ? fail(400, 'Datos inválidos', [{ field: 'recurrence', description: message }]) : null;
+};
+
+// El cupo no puede quedar por debajo de lo que ya se reservó
+const invalidEventTickets = (body: MockBody, reserved: number = 0): MockResult | null => {
+  const message = validateEventTickets(body ?? {});
+  if (message) return fail(400, 'Datos inválidos', [{ field: 'ticketTiers', description: message }]);
+  if (typeof body?.capacity === 'number' && body.capacity < reserved) {
+    return fail(400, 'Datos inválidos', [{
+      field: 'capacity',
+      description: `El cupo no puede ser menor a los ${reserved} lugares ya reservados`,
+    }]);
+  }
+  return null;
+};
+
+const invalidAvailability = (body: MockBody): MockResult | null => {
+  const message = validateAvailability(body ?? {});
+  return message ? fail(400, 'Datos inválidos', [{ field: 'availability', description: message }]) : null;
+};
+
+// Marca la hora en que se agotó; cualquier otro estado la borra
+const availabilityChanges = (body: MockBody, current?: MenuItemDocument): Partial<MenuItemDocument> => {
+  if (body.availability === undefined) return {};
+  if (body.availability !== 'sold_out') return { soldOutAt: undefined };
+  return current?.availability === 'sold_out' ? {} : { soldOutAt: now() };
+};
+
+const requireFields = (body: MockBody, fields: string[]): MockResult | null => {
+  const errors = fields
+    .filter((field) => body?.[field] === undefined || body?.[field] === '')
+    .map((field) => ({ field, description: `${field} es requerido` }));
+  return errors.length ? fail(400, 'Datos inválidos', errors) : null;
+};
+
+// Verifica que la ruta /bars/owner/:userId sea del usuario autenticado
+const ownerOnly = (req: MockRequest): MockResult | null =>
+  req.params.userId !== req.userId ? fail(403, 'No tienes permiso para este recurso') : null;
+
+// Además, que el bar de /bars/owner/:userId/:barId sea suyo
+const ownedBar = (req: MockRequest): { bar: BarDocument; error?: undefined } | { bar?: undefined; error: MockResult } => {
+  const forbidden = ownerOnly(req);
+  if (forbidden) return { error: forbidden };
+  const bar = findBar(req.params.barId);
+  if (!bar) return { error: fail(404, 'Bar no encontrado') };
+  if (bar.owner !== req.userId) return { error: fail(403, 'No eres dueño de este bar') };
+  return { bar };
+};
+
+const menuByType = (type: string): Handler => (req) => {
+  if (!findBar(req.params.id)) return fail(404, 'Bar no encontrado');
+  const items = db.menuItems.filter((item) => item.bar === req.params.id && item.type === type && isPublicItem(item));
+  return ok({ items: items.map(populateMenuItem) });
+};
+
+// Tokens: "mock-token-<userId>.<expiraEn>" y un refresh token opaco guardado en la db
+const issueTokens = (userId: string) => {
+  const refreshToken = `${REFRESH_PREFIX}${newId(userId)}`;
+  db.refreshTokens[refreshToken] = userId;
+  return { token: `${TOKEN_PREFIX}${userId}.${Date.now() + ACCESS_TOKEN_TTL_MS}`, refreshToken };
+};
+
+// Un token nuevo invalida el anterior, así el usuario puede revocar un enlace compartido
+const issueCalendarFeedToken = (userId: string): string => {
+  Object.keys(db.calendarFeeds)
+    .filter((token) => db.calendarFeeds[token] === userId)
+    .forEach((token) => delete db.calendarFeeds[token]);
+  const token = `${newId('feed')}-${Math.random().toString(36).slice(2, 10)}`;
+  db.calendarFeeds[token] = userId;
+  return token;
+};
+
+// Eventos del feed: los marcados como "voy" o "me interesa" y los de sus bares favoritos
+const calendarFeedEvents = (userId: string): Event[] => {
+  const eventIds = new Set(db.rsvps
+    .filter((rsvp) => rsvp.user === userId && rsvp.status !== 'not_going')
+    .map((rsvp) => rsvp.event));
+  const favoriteBars = new Set(db.favorites.filter((favorite) => favorite.user === userId).map((favorite) => favorite.bar));
+  return db.events
+    .filter((event) => eventIds.has(event._id) || favoriteBars.has(event.bar))
+    .map(populateEvent);
+};
+
+const authPayload = (user: UserDocument, message: string, status: number = 200) =>
+  ok({ success: true, message, user, ...issueTokens(user._id) }, status);
+
+const routes: Route[] = [];
+const route = (method: string, path: string, handler: Handler, auth: boolean = true) => {
+  routes.push({ method, segments: path.split('/').filter(Boolean), auth, handler });
+};
+
+// ---------- Salud ----------
+route('GET', '/health', () => ok({ status: 'ok' }), false);
+
+// ---------- Auth ----------
+route('POST', '/auth/register', ({ body }) => {
+  const missing = requireFields(body, ['name', 'email', 'password']);
+  if (missing) return missing;
+  if (db.users.some((user) => user.email === body.email)) {
+    return fail(400, 'El correo ya está registrado', [{ field: 'email', description: 'El correo ya está registrado' }]);
+  }
+  const user = {
+    _id: newId('user'),
+    name: body.name,
+    email: body.email,
+    phone: body.phone || '',
+    birthDate: body.birthDate || '',
+    photo: body.photo || '',
+    accountType: body.accountType || 'user',
+    createdAt: now(),
+    updatedAt: now(),
+  };
+  db.users.push(user);
+  db.passwords[user._id] = body.password;
+  return authPayload(user, 'Usuario registrado exitosamente', 201);
+}, false);
+
+route('POST', '/auth/login', ({ body }) => {
+  const user = db.users.find((candidate) => candidate.email === body?.email);
+  if (!user || db.passwords[user._id] !== body?.password) return fail(401, 'Credenciales inválidas');
+  return authPayload(user, 'Login exitoso');
+}, false);
+
+route('GET', '/auth/validate', ({ userId }) => ok({ success: true, user: findUser(userId!) }));
+route('GET', '/auth/profile', ({ userId }) => ok({ success: true, user: findUser(userId!) }));
+route('PUT', '/auth/profile', ({ userId, body }) => {
+  const invalid = invalidDietaryPreferences(body);
+  if (invalid) return invalid;
+  const user = findUser(userId!);
+  if (!user) return fail(404, 'Usuario no encontrado');
+  Object.assign(user, body, { updatedAt: now() });
+  return ok({ success: true, message: 'Perfil actualizado exitosamente', user });
+});
+route('PUT', '/auth/change-password', ({ userId, body }) => {
+  if (db.passwords[userId!] !== body?.currentPassword) {
+    return fail(400, 'La contraseña actual es incorrecta', [{ field: 'currentPassword', description: 'La contraseña actual es incorrecta' }]);
+  }
+  db.passwords[userId!] = body.newPassword;
+  return ok({ success: true, message: 'Contraseña actualizada' });
+});
+route('POST', '/auth/refresh', ({ body }) => {
+  const userId = db.refreshTokens[body?.refreshToken];
+  if (!userId || !findUser(userId)) return fail(401, 'Refresh token inválido');
+  delete db.refreshTokens[body.refreshToken];
+  return ok({ success: true, ...issueTokens(userId) });
+}, false);
+route('POST', '/auth/logout', ({ userId }) => {
+  Object.keys(db.refreshTokens)
+    .filter((token) => db.refreshTokens[token] === userId)
+    .forEach((token) => delete db.refreshTokens[token]);
+  return ok({ success: true, message: 'Logout exitoso' });
+});
+
+// ---------- Bares del dueño (van antes que /bars/:id) ----------
+route('GET', '/bars/owner/:userId', (req) => {
+  const forbidden = ownerOnly(req);
+  if (forbidden) return forbidden;
+  return ok(db.bars.filter((bar) => bar.owner === req.userId));
+});
+route('POST', '/bars/owner/:userId', (req) => {
+  const forbidden = ownerOnly(req);
+  if (forbidden) return forbidden;
+  const missing = requireFields(req.body, ['name', 'description'])
+    || invalidCoordinates(req.body)
+    || invalidOpeningHours(req.body)
+    || invalidHappyHours(req.body)
+    || invalidMenuSections(req.body);
+  if (missing) return missing;
+  const bar = {
+    tags: [],
+    ...req.body,
+    _id: newId('bar'),
+    owner: req.userId,
+    ratingAverage: 0,
+    ratingQuantity: 0,
+    createdAt: now(),
+    updatedAt: now(),
+  };
+  db.bars.push(bar);
+  return wrapped(bar, 'Bar creado exitosamente', 201);
+});
+route('GET', '/bars/owner/:userId/:barId', (req) => {
+  const { bar, error } = ownedBar(req);
+  return error || ok(bar);
+});
+route('PUT', '/bars/owner/:userId/:barId', (req) => {
+  const { bar, error } = ownedBar(req);
+  if (error) return error;
+  const invalid = invalidCoordinates(req.body)
+    || invalidOpeningHours(req.body)
+    || invalidHappyHours(req.body)
+    || invalidMenuSections(req.body);
+  if (invalid) return invalid;
+  Object.assign(bar, req.body, { _id: bar._id, owner: bar.owner, updatedAt: now() });
+  return wrapped(bar, 'Bar actualizado exitosamente');
+});
+route('DELETE', '/bars/owner/:userId/:barId', (req) => {
+  const { bar, error } = ownedBar(req);
+  if (error) return error;
+  db.bars = db.bars.filter((candidate) => candidate._id !== bar._id);
+  db.menuItems = db.menuItems.filter((item) => item.bar !== bar._id);
+  const eventIds = new Set(db.events.filter((event) => event.bar === bar._id).map((event) => event._id));
+  db.rsvps = db.rsvps.filter((rsvp) => !eventIds.has(rsvp.event));
+  db.reservations = db.reservations.filter((reservation) => !eventIds.has(reservation.event));
+  db.events = db.events.filter((event) => event.bar !== bar._id);
+  db.reviews = db.reviews.filter((review) => review.bar !== bar._id);
+  db.favorites = db.favorites.filter((favorite) => favorite.bar !== bar._id);
+  db.checkIns = db.checkIns.filter((checkIn) => checkIn.bar !== bar._id);
+  return ok({ success: true, message: 'Bar eliminado exitosamente' });
+});
+route('GET', '/bars/owner/:userId/:barId/menu', (req) => {
+  const { bar, error } = ownedBar(req);
+  if (error) return error;
+  return ok(db.menuItems.filter((item) => item.bar === bar._id).map(refreshAvailability));
+});
+route('POST', '/bars/owner/:userId/:barId/menu', (req) => {
+  const { bar, error } = ownedBar(req);
+  if (error) return error;
+  const missing = requireFields(req.body, ['name', 'price', 'type'])
+    || invalidHappyHourPrice(req.body)
+    || invalidBeerAttributes(req.body)
+    || invalidDietaryAttributes(req.body)
+    || invalidAvailability(req.body);
+  if (missing) return missing;
+  const item = {
+    availability: 'available',
+    // Los nuevos van al final del menú
+    position: db.menuItems.filter((candidate) => candidate.bar === bar._id).length,
+    ...req.body,
+    ...availabilityChanges(req.body),
+    _id: newId('item'),
+    bar: bar._id,
+    createdAt: now(),
+    updatedAt: now(),
+  };
+  db.menuItems.push(item);
+  return wrapped(item, 'Item creado exitosamente', 201);
+});
+// Secciones, orden y recomendados en una sola petición (va antes que /menu/:itemId)
+route('PUT', '/bars/owner/:userId/:barId/menu/layout', (req) => {
+  const { bar, error } = ownedBar(req);
+  if (error) return error;
+  const sections = req.body?.sections;
+  const items = req.body?.items;
+  if (!Array.isArray(sections) || !Array.isArray(items)) {
+    return fail(400, 'Datos inválidos', [{ field: 'sections', description: 'Se requieren las secciones y los items' }]);
+  }
+  const invalid = invalidMenuSections({ menuSections: sections });
+  if (invalid) return invalid;
+
+  const validSections: MenuSection[] = sections;
+  const sectionIds = new Set(validSections.map((section) => section.id));
+  const barItems = db.menuItems.filter((item) => item.bar === bar._id);
+  for (const entry of items) {
+    if (!barItems.some((item) => item._id === entry?._id)) return fail(404, `Item no encontrado: ${entry?._id}`);
+    if (entry.sectionId !== null && entry.sectionId !== undefined && !sectionIds.has(entry.sectionId)) {
+      return fail(400, 'Datos inválidos', [{ field: 'items', description: `La sección ${entry.sectionId} no existe` }]);
+    }
+  }
+
+  bar.menuSections = validSections.map((section) => ({ id: section.id, name: section.name.trim() }));
+  bar.updatedAt = now();
+  items.forEach((entry: MockBody) => {
+    const item = barItems.find((candidate) => candidate._id === entry._id)!;
+    Object.assign(item, {
+      sectionId: entry.sectionId ?? undefined,
+      position: Number.isFinite(entry.position) ? entry.position : item.position,
+      featured: entry.featured === true,
+      updatedAt: now(),
+    });
+  });
+  // Los items de secciones borradas pasan a "sin sección"
+  barItems
+    .filter((item) => item.sectionId && !sectionIds.has(item.sectionId))
+    .forEach((item) => delete item.sectionId);
+  return wrapped({ menuSections: bar.menuSections, items: barItems }, 'Menú acomodado exitosamente');
+});
+route('PUT', '/bars/owner/:userId/:barId/menu/:itemId', (req) => {
+  const { bar, error } = ownedBar(req);
+  if (error) return error;
+  const item = db.menuItems.find((candidate) => candidate._id === req.params.itemId && candidate.bar === bar._id);
+  if (!item) return fail(404, 'Item no encontrado');
+  // Las etiquetas que no vienen se validan contra las guardadas (un vegano no puede recibir lácteos)
+  const invalid = invalidHappyHourPrice(req.body, item)
+    || invalidBeerAttributes(req.body)
+    || invalidDietaryAttributes({
+      dietaryTags: req.body?.dietaryTags ?? item.dietaryTags,
+      allergens: req.body?.allergens ?? item.allergens,
+      spicyLevel: req.body?.spicyLevel,
+    })
+    || invalidAvailability(req.body);
+  if (invalid) return invalid;
+  Object.assign(item, req.body, availabilityChanges(req.body, item), { _id: item._id, bar: item.bar, updatedAt: now() });
+  return wrapped(item, 'Item actualizado exitosamente');
+});
+route('DELETE', '/bars/owner/:userId/:barId/menu/:itemId', (req) => {
+  const { bar, error } = ownedBar(req);
+  if (error) return error;
+  const before = db.menuItems.length;
+  db.menuItems = db.menuItems.filter((item) => !(item._id === req.params.itemId && item.bar === bar._id));
+  if (db.menuItems.length === before) return fail(404, 'Item no encontrado');
+  return ok({ success: true, message: 'Item eliminado exitosamente' });
+});
+route('GET', '/bars/owner/:userId/:barId/events', (req) => {
+  const { bar, error } = ownedBar(req);
+  if (error) return error;
+  return ok(db.events.filter((event) => event.bar === bar._id));
+});
+route('POST', '/bars/owner/:userId/:barId/events', (req) => {
+  const { bar, error } = ownedBar(req);
+  if (error) return error;
+  const missing = requireFields(req.body, ['name', 'start', 'end']);
+  if (missing) return missing;
+  const invalid = invalidEventTickets(req.body) ?? invalidRecurrence(req.body);
+  if (invalid) return invalid;
+  const event = { price: 0, ticketTiers: [], recurrenceExceptions: [], ...req.body, _id: newId('event'), bar: bar._id, createdAt: now(), updatedAt: now() };
+  db.events.push(event);
+  return wrapped(event, 'Evento creado exitosamente', 201);
+});
+route('GET', '/bars/owner/:userId/:barId/events/:eventId', (req) => {
+  const { bar, error } = ownedBar(req);
+  if (error) return error;
+  const event = db.events.find((candidate) => candidate._id === req.params.eventId && candidate.bar === bar._id);
+  return event ? ok({ ...event, reservedSpots: peakReservedSpots(event) }) : fail(404, 'Evento no encontrado');
+});
+route('PUT', '/bars/owner/:userId/:barId/events/:eventId', (req) => {
+  const { bar, error } = ownedBar(req);
+  if (error) return error;
+  const event = db.events.find((candidate) => candidate._id === req.params.eventId && candidate.bar === bar._id);
+  if (!event) return fail(404, 'Evento no encontrado');
+  const invalid = invalidEventTickets(req.body, peakReservedSpots(event)) ?? invalidRecurrence(req.body);
+  if (invalid) return invalid;
+  Object.assign(event, req.body, { _id: event._id, bar: event.bar, updatedAt: now() });
+  return wrapped(event, 'Evento actualizado exitosamente');
+});
+route('DELETE', '/bars/owner/:userId/:barId/events/:eventId', (req) => {
+  const { bar, error } = ownedBar(req);
+  if (error) return error;
+  const before = db.events.length;
+  db.events = db.events.filter((event) => !(event._id === req.params.eventId && event.bar === bar._id));
+  if (db.events.length === before) return fail(404, 'Evento no encontrado');
+  db.rsvps = db.rsvps.filter((rsvp) => rsvp.event !== req.params.eventId);
+  db.reservations = db.reservations.filter((reservation) => reservation.event !== req.params.eventId);
+  return ok({ success: true, message: 'Evento eliminado exitosamente' });
+});
+route('GET', '/bars/owner/:userId/:barId/reviews', (req) => {
+  const { bar, error } = ownedBar(req);
+  if (error) return error;
+  return ok(db.reviews.filter((review) => review.bar === bar._id).map(populateReview));
+});
+
+// ---------- Bares públicos ----------
+const BAR_SORTERS: Record<string, (a: BarDocument, b: BarDocument) => number> = {
+  rating: (a, b) => b.ratingAverage - a.ratingAverage || b.ratingQuantity - a.ratingQuantity,
+  reviews: (a, b) => b.ratingQuantity - a.ratingQuantity || b.ratingAverage - a.ratingAverage,
+  name: (a, b) => a.name.localeCompare(b.name),
+};
+
+// Filtros: tags (separadas por coma, el bar debe tenerlas todas), minRating, minReviews, city, state y sort.
+// sort=distance requiere lat y lng; los bares sin coordenadas quedan al final
+route('GET', '/bars', ({ query }) => {
+  const tags = query.tags ? query.tags.split(',').filter(Boolean) : [];
+  const minRating = Number(query.minRating ?? 0);
+  const minReviews = Number(query.minReviews ?? 0);
+  if (Number.isNaN(minRating) || Number.isNaN(minReviews)) return fail(400, 'Filtros de búsqueda inválidos');
+
+  const sort = query.sort;
+  const origin = { latitude: Number(query.lat), longitude: Number(query.lng) };
+  if (sort === 'distance' && !isValidCoordinates(origin)) {
+    return fail(400, 'Se requieren lat y lng válidos para ordenar por distancia');
+  }
+  if (sort && sort !== 'distance' && !BAR_SORTERS[sort]) return fail(400, `Orden no soportado: ${sort}`);
+
+  const beerStyles = query.beerStyles ? query.beerStyles.split(',').filter(Boolean) : [];
+  if (query.servingFormat && !isServingFormat(query.servingFormat)) {
+    return fail(400, `Formato no soportado: ${query.servingFormat}`);
+  }
+  const servingFormat = isServingFormat(query.servingFormat) ? query.servingFormat : null;
+  // Un bar cumple si alguna de sus cervezas cumple estilo y formato a la vez
+  const pours = (bar: BarDocument) => (beerStyles.length === 0 && !servingFormat)
+    || db.menuItems.some((item) => item.bar === bar._id && isPublicItem(item)
+      && matchesBeerFilter(populateMenuItem(item), beerStyles, servingFormat));
+
+  const city = query.city?.trim().toLowerCase();
+  const state = query.state?.trim().toLowerCase();
+  const bars = db.bars.filter((bar) =>
+    tags.every((tag) => bar.tags.includes(tag)) &&
+    bar.ratingAverage >= minRating &&
+    bar.ratingQuantity >= minReviews &&
+    (!city || bar.address.city.toLowerCase().includes(city)) &&
+    (!state || bar.address.state.toLowerCase().includes(state)) &&
+    pours(bar)
+  );
+  if (sort === 'distance') {
+    const distance = (bar: BarDocument) => (bar.coordinates ? distanceKm(origin, bar.coordinates) : Infinity);
+    return ok([...bars].sort((a, b) => distance(a) - distance(b)));
+  }
+  return ok(sort ? [...bars].sort(BAR_SORTERS[sort]) : bars);
+});
+route('GET', '/bars/:id', ({ params }) => {
+  const bar = findBar(params.id);
+  return bar ? ok(bar) : fail(404, 'Bar no encontrado');
+});
+route('GET', '/bars/:id/menu', ({ params }) => {
+  if (!findBar(params.id)) return fail(404, 'Bar no encontrado');
+  return ok(db.menuItems.filter((item) => item.bar === params.id && isPublicItem(item)).map(populateMenuItem));
+});
+route('GET', '/bars/:id/menu/:itemId', ({ params }) => {
+  const item = db.menuItems.find((candidate) => candidate._id === params.itemId && candidate.bar === params.id);
+  return item && isPublicItem(item) ? ok(populateMenuItem(item)) : fail(404, 'Item no encontrado');
+});
+route('GET', '/bars/:id/food', menuByType('comida'));
+route('GET', '/bars/:id/drinks', menuByType('bebida'));
+route('GET', '/bars/:id/alcohol', menuByType('alcohol'));
+route('GET', '/bars/:id/events', ({ params }) => {
+  if (!findBar(params.id)) return fail(404, 'Bar no encontrado');
+  return ok(db.events.filter((event) => event.bar === params.id).map(populateEvent));
+});
+route('GET', '/bars/:id/reviews', ({ params }) => {
+  if (!findBar(params.id)) return fail(404, 'Bar no encontrado');
+  return ok(db.reviews.filter((review) => review.bar === params.id).map(populateReview));
+});
+route('POST', '/bars/:id/reviews', ({ params, body, userId }) => {
+  if (!findBar(params.id)) return fail(404, 'Bar no encontrado');
+  const missing = requireFields(body, ['rating']);
+  if (missing) return missing;
+  if (db.reviews.some((review) => review.bar === params.id && review.user === userId)) {
+    return fail(409, 'Ya hiciste una review para este bar');
+  }
+  const review: ReviewDocument = {
+    _id: newId('review'),
+    bar: params.id,
+    user: userId!,
+    rating: body.rating,
+    comment: body.comment || '',
+    photos: body.photos || [],
+    createdAt: now(),
+    updatedAt: now(),
+  };
+  db.reviews.push(review);
+  recalculateRating(params.id);
+  return ok(populateReview(review), 201);
+});
+route('GET', '/bars/:id/reviews/stats', ({ params }) => {
+  const bar = findBar(params.id);
+  if (!bar) return fail(404, 'Bar no encontrado');
+  const distribution = [1, 2, 3, 4, 5].reduce<Record<number, number>>((acc, rating) => {
+    acc[rating] = db.reviews.filter((review) => review.bar === params.id && review.rating === rating).length;
+    return acc;
+  }, {});
+  return ok({ ratingAverage: bar.ratingAverage, ratingQuantity: bar.ratingQuantity, distribution });
+});
+
+route('POST', '/bars/:id/checkins', ({ params, userId }) => {
+  if (!findBar(params.id)) return fail(404, 'Bar no encontrado');
+  const recent = db.checkIns.some((checkIn) =>
+    checkIn.bar === params.id &&
+    checkIn.user === userId &&
+    Date.now() - new Date(checkIn.createdAt).getTime() < CHECK_IN_COOLDOWN_MS
+  );
+  if (recent) return fail(409, 'Ya hiciste check-in en este bar hace menos de una hora');
+  const checkIn: CheckInDocument = { _id: newId('checkin'), user: userId!, bar: params.id, createdAt: now() };
+  db.checkIns.push(checkIn);
+  return ok(populateCheckIn(checkIn), 201);
+});
+
+// ---------- Búsqueda en menús ----------
+// Filtros: q (nombre o estilo), types (separados por coma), minPrice/maxPrice y minAbv/maxAbv.
+// El precio que cuenta es el más bajo del item, incluyendo sus presentaciones
+route('GET', '/menu/search', ({ query }) => {
+  const types = query.types ? query.types.split(',').filter(Boolean) : [];
+  if (!types.every(isMenuItemType)) return fail(400, `Tipo no soportado: ${types.find((type) => !isMenuItemType(type))}`);
+
+  const range = (value?: string) => (value === undefined || value === '' ? null : Number(value));
+  const filters = {
+    query: query.q ?? '',
+    types,
+    minPrice: range(query.minPrice),
+    maxPrice: range(query.maxPrice),
+    minAbv: range(query.minAbv),
+    maxAbv: range(query.maxAbv),
+  };
+  if ([filters.minPrice, filters.maxPrice, filters.minAbv, filters.maxAbv].some((value) => Number.isNaN(value))) {
+    return fail(400, 'Filtros de búsqueda inválidos');
+  }
+
+  const results = db.bars
+    .map((bar) => ({
+      bar,
+      items: db.menuItems
+        .filter((item) => item.bar === bar._id && isPublicItem(item))
+        .map(populateMenuItem)
+        .filter((item) => matchesMenuSearch(item, filters)),
+    }))
+    .filter((result) => result.items.length > 0);
+  return ok(results);
+});
+
+// ---------- Reviews ----------
+route('PUT', '/reviews/:id', ({ params, body, userId }) => {
+  const review = db.reviews.find((candidate) => candidate._id === params.id);
+  if (!review) return fail(404, 'Review no encontrada');
+  if (review.user !== userId) return fail(403, 'No puedes editar esta review');
+  Object.assign(review, body, { _id: review._id, bar: review.bar, user: review.user, updatedAt: now() });
+  recalculateRating(review.bar);
+  return ok(populateReview(review));
+});
+route('DELETE', '/reviews/:id', ({ params, userId }) => {
+  const review = db.reviews.find((candidate) => candidate._id === params.id);
+  if (!review) return fail(404, 'Review no encontrada');
+  if (review.user !== userId) return fail(403, 'No puedes eliminar esta review');
+  db.reviews = db.reviews.filter((candidate) => candidate._id !== params.id);
+  recalculateRating(review.bar);
+  return ok({ success: true, message: 'Review eliminada' });
+});
+
+// ---------- Usuarios ----------
+route('GET', '/users/me', ({ userId }) => ok(findUser(userId!)));
+route('PUT', '/users/me', ({ userId, body }) => {
+  const invalid = invalidDietaryPreferences(body);
+  if (invalid) return invalid;
+  const user = findUser(userId!);
+  if (!user) return fail(404, 'Usuario no encontrado');
+  Object.assign(user, body, { _id: user._id, updatedAt: now() });
+  return ok(user);
+});
+route('GET', '/users/:id/reviews', ({ params }) =>
+  ok(db.reviews.filter((review) => review.user === params.id).map(populateReview)));
+route('GET', '/users/:id/reviews/count', ({ params }) =>
+  ok({ count: db.reviews.filter((review) => review.user === params.id).length }));
+route('GET', '/users/:id/reviews/:barId/check', ({ params }) => {
+  const review = db.reviews.find((candidate) => candidate.user === params.id && candidate.bar === params.barId);
+  return ok({ hasReviewed: !!review, review: review ? populateReview(review) : undefined });
+});
+route('GET', '/users/:id/checkins', ({ params, userId }) => {
+  if (params.id !== userId) return fail(403, 'No tienes permiso para este recurso');
+  return ok(db.checkIns.filter((checkIn) => checkIn.user === params.id).map(populateCheckIn));
+});
+route('GET', '/users/:id/favorites', ({ params, userId }) => {
+  if (params.id !== userId) return fail(403, 'No tienes permiso para este recurso');
+  return ok(db.favorites
+    .filter((favorite) => favorite.user === params.id && findBar(favorite.bar))
+    .map((favorite) => ({ ...favorite, bar: findBar(favorite.bar) })));
+});
+route('GET', '/users/:id/favorites/:barId/check', ({ params }) =>
+  ok({ isFavorite: db.favorites.some((favorite) => favorite.user === params.id && favorite.bar === params.barId) }));
+route('POST', '/users/:id/favorites/:barId', ({ params, userId }) => {
+  if (params.id !== userId) return fail(403, 'No tienes permiso para este recurso');
+  if (!findBar(params.barId)) return fail(404, 'Bar no encontrado');
+  if (db.favorites.some((favorite) => favorite.user === params.id && favorite.bar === params.barId)) {
+    return fail(400, 'El bar ya está en favoritos');
+  }
+  const favorite = { _id: newId('favorite'), user: params.id, bar: params.barId, createdAt: now() };
+  db.favorites.push(favorite);
+  return ok(favorite, 201);
+});
+route('DELETE', '/users/:id/favorites/:barId', ({ params, userId }) => {
+  if (params.id !== userId) return fail(403, 'No tienes permiso para este recurso');
+  const before = db.favorites.length;
+  db.favorites = db.favorites.filter((favorite) => !(favorite.user === params.id && favorite.bar === params.barId));
+  if (db.favorites.length === before) return fail(404, 'El bar no está en favoritos');
+  return ok({ success: true, message: 'Bar eliminado de favoritos' });
+});
+route('GET', '/users/:id/calendar-feed', ({ params, userId }) => {
+  if (params.id !== userId) return fail(403, 'No tienes permiso para este recurso');
+  const token = Object.keys(db.calendarFeeds).find((candidate) => db.calendarFeeds[candidate] === userId);
+  return ok({ token: token ?? issueCalendarFeedToken(userId) });
+});
+route('POST', '/users/:id/calendar-feed/reset', ({ params, userId }) => {
+  if (params.id !== userId) return fail(403, 'No tienes permiso para este recurso');
+  return ok({ token: issueCalendarFeedToken(userId) });
+});
+route('GET', '/users/:id/rsvps', ({ params, userId }) => {
+  if (params.id !== userId) return fail(403, 'No tienes permiso para este recurso');
+  return ok(db.rsvps
+    .filter((rsvp) => rsvp.user === params.id)
+    .flatMap((rsvp) => {
+      const event = db.events.find((candidate) => candidate._id === rsvp.event);
+      return event ? [{ ...rsvp, event: populateEvent(event) }] : [];
+    }));
+});
+
+// ---------- Calendario ----------
+// El token del feed es la única credencial: los calendarios suscritos no mandan sesión
+route('GET', '/calendar/:file', ({ params }) => {
+  const userId = params.file.endsWith('.ics') ? db.calendarFeeds[params.file.slice(0, -'.ics'.length)] : undefined;
+  if (!userId || !findUser(userId)) return fail(404, 'Calendario no encontrado');
+  return ok(buildCalendarFeed(calendarFeedEvents(userId)));
+}, false);
+
+// ---------- Eventos ----------
+route('GET', '/events', () => ok(db.events.map(populateEvent)));
+route('GET', '/events/:id', ({ params }) => {
+  const event = db.events.find((candidate) => candidate._id === params.id);
+  return event ? ok(populateEvent(event)) : fail(404, 'Evento no encontrado');
+});
+route('GET', '/events/:id/reservations', ({ params, userId }) =>
+  ok(db.reservations
+    .filter((reservation) => reservation.event === params.id && reservation.user === userId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))));
+route('POST', '/events/:id/reservations', ({ params, body, userId }) => {
+  const event = db.events.find((candidate) => candidate._id === params.id);
+  if (!event) return fail(404, 'Evento no encontrado');
+  const populated = populateEvent(event);
+  if (hasEventEnded(populated)) return fail(400, 'El evento ya terminó');
+
+  // En las series se reserva una ocurrencia; el cupo y el código son de esa fecha
+  let occurrenceDate: string | undefined;
+  if (populated.recurrence) {
+    occurrenceDate = body?.occurrenceDate;
+    if (populated.recurrenceExceptions.some((exception) => exception.date === occurrenceDate && exception.cancelled)) {
+      return fail(400, 'Esa fecha del evento se canceló');
+    }
+    const occurrence = isValidDateKey(occurrenceDate) ? getOccurrence(populated, occurrenceDate) : null;
+    if (!occurrence) {
+      return fail(400, 'Datos inválidos', [{ field: 'occurrenceDate', description: 'Fecha del evento no encontrada' }]);
+    }
+    if (new Date(occurrence.end) < new Date()) return fail(400, 'Esa fecha del evento ya terminó');
+  }
+
+  const tier = getEventTiers({ price: event.price ?? 0, ticketTiers: event.ticketTiers ?? [] })
+    .find((candidate) => candidate.id === body?.tierId);
+  if (!tier) return fail(400, 'Datos inválidos', [{ field: 'tierId', description: 'Tipo de entrada no encontrado' }]);
+  const saleStatus = getTierSaleStatus(tier);
+  if (saleStatus !== 'on_sale') {
+    return fail(400, saleStatus === 'upcoming' ? `La venta de ${tier.name} aún no empieza` : `La venta de ${tier.name} ya terminó`);
+  }
+
+  const quantity = body?.quantity;
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_RESERVATION_QUANTITY) {
+    return fail(400, 'Datos inválidos', [{
+      field: 'quantity',
+      description: `Puedes reservar de 1 a ${MAX_RESERVATION_QUANTITY} lugares`,
+    }]);
+  }
+  if (typeof event.capacity === 'number') {
+    const remaining = event.capacity - reservedSpots(event._id, occurrenceDate);
+    if (remaining <= 0) return fail(409, 'Ya no hay lugares disponibles');
+    if (quantity > remaining) return fail(409, `Solo quedan ${remaining} lugares`);
+  }
+
+  let code = generateReservationCode();
+  while (db.reservations.some((reservation) => reservation.code === code)) code = generateReservationCode();
+  const reservation: ReservationDocument = {
+    _id: newId('reservation'),
+    user: userId!,
+    event: event._id,
+    ...(occurrenceDate ? { occurrenceDate } : {}),
+    tierId: tier.id,
+    tierName: tier.name,
+    unitPrice: tier.price,
+    quantity,
+    code,
+    status: 'confirmed',
+    createdAt: now(),
+  };
+  db.reservations.push(reservation);
+  return ok(reservation, 201);
+});
+// Cancelar libera los lugares; la reservación se conserva como cancelada
+route('DELETE', '/events/:id/reservations/:reservationId', ({ params, userId }) => {
+  const reservation = db.reservations.find((candidate) =>
+    candidate._id === params.reservationId && candidate.event === params.id);
+  if (!reservation) return fail(404, 'Reservación no encontrada');
+  if (reservation.user !== userId) return fail(403, 'No puedes cancelar esta reservación');
+  if (reservation.status === 'cancelled') return fail(400, 'La reservación ya estaba cancelada');
+  reservation.status = 'cancelled';
+  return ok(reservation);
+});
+route('GET', '/events/:id/rsvp', ({ params, userId }) => {
+  if (!db.events.some((event) => event._id === params.id)) return fail(404, 'Evento no encontrado');
+  return ok(rsvpState(params.id, userId));
+});
+// Una sola respuesta por usuario y evento; responder de nuevo la reemplaza
+route('PUT', '/events/:id/rsvp', ({ params, body, userId }) => {
+  if (!db.events.some((event) => event._id === params.id)) return fail(404, 'Evento no encontrado');
+  if (!isRsvpStatus(body?.status)) {
+    return fail(400, 'Datos inválidos', [{ field: 'status', description: 'Respuesta no soportada' }]);
+  }
+  const rsvp = db.rsvps.find((candidate) => candidate.event === params.id && candidate.user === userId);
+  if (rsvp) {
+    Object.assign(rsvp, { status: body.status, updatedAt: now() });
+  } else {
+    db.rsvps.push({ _id: newId('rsvp'), user: userId!, event: params.id, status: body.status, createdAt: now(), updatedAt: now() });
+  }
+  return ok(rsvpState(params.id, userId));
+});
+route('DELETE', '/events/:id/rsvp', ({ params, userId }) => {
+  if (!db.events.some((event) => event._id === params.id)) return fail(404, 'Evento no encontrado');
+  db.rsvps = db.rsvps.filter((rsvp) => !(rsvp.event === params.id && rsvp.user === userId));
+  return ok(rsvpState(params.id, userId));
+});
+
+const matchRoute = (method: string, path: string): { route: Route; params: Record<string, string> } | null => {
+  const segments = path.split('/').filter(Boolean);
+  for (const candidate of routes) {
+    if (candidate.method !== method || candidate.segments.length !== segments.length) continue;
+    const params: Record<string, string> = {};
+    const matches = candidate.segments.every((segment, index) => {
+      if (segment.startsWith(':')) {
+        params[segment.slice(1)] = decodeURIComponent(segments[index]);
+        return true;
+      }
+      return segment === segments[index];
+    });
+    if (matches) return { route: candidate, params };
+  }
+  return null;
+};
+
+const getUserIdFromHeaders = (config: InternalAxiosRequestConfig): string | null => {
+  const header = config.headers?.Authorization ?? config.headers?.authorization;
+  if (typeof header !== 'string' || !header.startsWith(`Bearer ${TOKEN_PREFIX}`)) return null;
+  const [userId, expiresAt] = header.slice(`Bearer ${TOKEN_PREFIX}`.length).split('.');
+  if (!findUser(userId) || Number(expiresAt) < Date.now()) return null;
+  return userId;
+};
+
+// Resuelve una petición contra el backend simulado sin pasar por la red
+export const handleMockRequest = (
+  method: string,
+  url: string,
+  options: { body?: MockBody; params?: Record<string, unknown>; userId?: string | null } = {}
+): MockResult => {
+  const [path, queryString = ''] = url.split('?');
+  const query: Record<string, string> = Object.fromEntries(new URLSearchParams(queryString).entries());
+  Object.entries(options.params ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) query[key] = String(value);
+  });
+
+  const match = matchRoute(method.toUpperCase(), path);
+  if (!match) return fail(404, `Ruta no encontrada: ${method.toUpperCase()} ${path}`);
+
+  const userId = options.userId ?? null;
+  if (match.route.auth && !userId) return fail(401, 'Token inválido o expirado');
+
+  try {
+    return match.route.handler({
+      method: method.toUpperCase(),
+      params: match.params,
+      query,
+      body: options.body,
+      userId,
+    });
+  } catch (error) {
+    console.error('❌ MockBackend: Handler error:', error);
+    return fail(500, 'Error interno del servidor simulado');
+  }
+};
+
+// Adapter de axios que responde desde el backend simulado
+export const mockAdapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+  const body = typeof config.data === 'string' && config.data ? JSON.parse(config.data) : config.data;
+  const result = handleMockRequest(config.method ?? 'GET', config.url ?? '/', {
+    body,
+    params: config.params,
+    userId: getUserIdFromHeaders(config),
+  });
+
+  await new Promise((resolve) => setTimeout(resolve, MOCK_LATENCY_MS));
+  console.log('🧪 MockBackend:', config.method?.toUpperCase(), config.url, '→', result.status);
+
+  const response: AxiosResponse = {
+    data: clone(result.data),
+    status: result.status,
+    statusText: result.status < 400 ? 'OK' : 'Error',
+    headers: {},
+    config,
+  };
+
+  if (result.status >= 400) {
+    throw new AxiosError(
+      (result.data as MockErrorBody).message,
+      result.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      null,
+      response
+    );
+  }
+  return response;
+};
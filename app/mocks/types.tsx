@@ -0,0 +1,48 @@
+import { User } from '../services/AuthService';
+import { Bar, Event, MenuItem, Reservation, Review, RsvpStatus } from '../types/models';
+
+// Documentos como los guarda el backend simulado: las referencias a otros documentos van como id
+// y los campos que el cliente completa con valores por defecto pueden faltar.
+
+export type UserDocument = User;
+
+export type BarDocument = Omit<Bar, 'owner'> & { owner: string };
+
+export type MenuItemDocument = Omit<MenuItem, 'bar' | 'dietaryTags' | 'allergens' | 'spicyLevel'>
+  & Partial<Pick<MenuItem, 'dietaryTags' | 'allergens' | 'spicyLevel'>>
+  & { bar: string };
+
+// La asistencia y los lugares reservados se calculan al leer el evento
+export type EventDocument = Omit<
+  Event,
+  'bar' | 'attendance' | 'reservedSpots' | 'reservedSpotsByDate' | 'occurrenceDate' | 'ticketTiers' | 'recurrenceExceptions'
+>
+  & Partial<Pick<Event, 'ticketTiers' | 'recurrenceExceptions'>>
+  & { bar: string };
+
+export type ReviewDocument = Omit<Review, 'bar' | 'user' | 'pending'> & { bar: string; user: string };
+
+export interface FavoriteDocument {
+  _id: string;
+  user: string;
+  bar: string;
+  createdAt: string;
+}
+
+export interface CheckInDocument {
+  _id: string;
+  user: string;
+  bar: string;
+  createdAt: string;
+}
+
+export interface RsvpDocument {
+  _id: string;
+  user: string;
+  event: string;
+  status: RsvpStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ReservationDocument = Omit<Reservation, 'eventId'> & { user: string; event: string };
@@ -14,13 +14,18 @@ import AddEventScreen from '../screens/business/events/AddEventScreen';
 import EditEventScreen from '../screens/business/events/EditEventScreen';
 import AddMenuItemScreen from '../screens/business/menu/AddMenuItemScreen';
 import EditMenuItemScreen from '../screens/business/menu/EditMenuItemScreen';
+import MenuImportExportScreen from '../screens/business/menu/MenuImportExportScreen';
+import MenuLayoutScreen from '../screens/business/menu/MenuLayoutScreen';
 
 // User screens
 import BarDetailsScreen from '../screens/user/bars/BarDetailsScreen';
 import BarsListScreen from '../screens/user/bars/BarsListScreen';
 import MenuItemScreen from '../screens/user/bars/MenuItemScreen';
+import MenuSearchScreen from '../screens/user/bars/MenuSearchScreen';
 import EventDetailsScreen from '../screens/user/events/EventDetailsScreen';
 import EventsListScreen from '../screens/user/events/EventsListScreen';
+import RoutePlannerScreen from '../screens/user/routes/RoutePlannerScreen';
+import RoutesListScreen from '../screens/user/routes/RoutesListScreen';
 
 // Profile screens
 import EditProfileScreen from '../screens/user/profile/EditProfileScreen';
@@ -32,6 +37,9 @@ import LoginScreen from '../screens/user/auth/LoginScreen';
 import RegisterScreen from '../screens/user/auth/RegisterScreen';
 import WelcomeScreen from '../screens/user/auth/WelcomeScreen';
 
+// Settings screens
+import DeveloperSettingsScreen from '../screens/user/settings/DeveloperSettingsScreen';
+
 const { width, height } = Dimensions.get('window');
 const isTablet = width >= 768;
 const isDesktop = width >= 1024;
@@ -67,6 +75,7 @@ export type BarsStackParamList = {
   BarsList: undefined;
   BarDetails: { barId: string };
   MenuItem: { barId: string; itemId: string };
+  MenuSearch: undefined;
 };
 
 export type EventsStackParamList = {
@@ -74,18 +83,26 @@ export type EventsStackParamList = {
   EventDetails: { eventId: string };
 };
 
+export type RoutesStackParamList = {
+  RoutesList: undefined;
+  // Sin routeId se edita el borrador armado desde la lista de bares o favoritos
+  RoutePlanner: { routeId?: string };
+};
+
 export type ProfileStackParamList = {
   Profile: undefined;
   EditProfile: undefined;
   Favorites: undefined;
   BusinessBars: undefined;
   BusinessEvents: undefined;
+  DeveloperSettings: undefined;
 };
 
 export type AuthStackParamList = {
   Welcome: undefined;
   Login: undefined;
   Register: undefined;
+  DeveloperSettings: undefined;
 };
 
 export type BusinessStackParamList = {
@@ -114,6 +131,14 @@ export type BusinessStackParamList = {
     barName: string;
     itemName?: string;
   };
+  MenuImportExportScreen: {
+    barId: string;
+    barName: string;
+  };
+  MenuLayoutScreen: {
+    barId: string;
+    barName: string;
+  };
   EventListScreen: {
     barId: string;
     barName: string;
@@ -163,6 +188,10 @@ function AuthNavigator() {
         name="Register" 
         component={RegisterScreen}
       />
+      <AuthStack.Screen 
+        name="DeveloperSettings" 
+        component={DeveloperSettingsScreen}
+      />
     </AuthStack.Navigator>
   );
 }
@@ -188,6 +217,10 @@ function BarsStack() {
         name="MenuItem" 
         component={MenuItemScreen}
       />
+      <BarsStackNav.Screen 
+        name="MenuSearch" 
+        component={MenuSearchScreen}
+      />
     </BarsStackNav.Navigator>
   );
 }
@@ -213,6 +246,27 @@ function EventsStack() {
   );
 }
 
+// Routes Stack Navigator
+const RoutesStackNav = createStackNavigator<RoutesStackParamList>();
+function RoutesStack() {
+  return (
+    <RoutesStackNav.Navigator
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <RoutesStackNav.Screen 
+        name="RoutesList" 
+        component={RoutesListScreen}
+      />
+      <RoutesStackNav.Screen 
+        name="RoutePlanner" 
+        component={RoutePlannerScreen}
+      />
+    </RoutesStackNav.Navigator>
+  );
+}
+
 // Profile Stack Navigator
 const ProfileStackNav = createStackNavigator<ProfileStackParamList>();
 function ProfileStack() {
@@ -238,6 +292,10 @@ function ProfileStack() {
         name="BusinessBars" 
         component={BusinessBars} 
       />
+      <ProfileStackNav.Screen 
+        name="DeveloperSettings" 
+        component={DeveloperSettingsScreen}
+      />
     </ProfileStackNav.Navigator>
   );
 }
@@ -294,6 +352,16 @@ function BusinessNavigator() {
           name="EditMenuItemScreen"
           component={EditMenuItemScreen}
         />
+
+        <BusinessStack.Screen
+          name="MenuImportExportScreen"
+          component={MenuImportExportScreen}
+        />
+
+        <BusinessStack.Screen
+          name="MenuLayoutScreen"
+          component={MenuLayoutScreen}
+        />
       </BusinessStack.Navigator>
     </BusinessProtectedRoute>
   );
@@ -314,6 +382,12 @@ const tabScreens = [
     label: 'Eventos',
     icon: 'event',
   },
+  {
+    name: 'RoutesTab',
+    component: RoutesStack,
+    label: 'Rutas',
+    icon: 'route',
+  },
   {
     name: 'ProfileTab',
     component: ProfileStack,
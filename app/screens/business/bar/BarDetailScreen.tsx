@@ -1,12 +1,15 @@
 import { RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import React, { useEffect, useState } from 'react';
-import { ActivityIndicator, Dimensions, Image, Linking, Modal, Platform, RefreshControl, ScrollView, StatusBar, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { ActivityIndicator, Alert, Dimensions, Image, Linking, Modal, Platform, RefreshControl, ScrollView, StatusBar, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import { BusinessStackParamList } from '../../../navigation/userNavigation';
 import BarService from '../../../services/BarService';
 import BusinessService from '../../../services/BusinessService';
+import { AVAILABILITY_ICONS, AVAILABILITY_LABELS, isOrderable, resolveAvailability } from '../../../services/MenuAvailabilityService';
+import { groupMenuBySections } from '../../../services/MenuSectionService';
+import { Bar, Event, MENU_ITEM_AVAILABILITIES, MenuItem, MenuItemAvailability, MenuItemType, Review } from '../../../types/models';
 
 const { width, height } = Dimensions.get('window');
 const isTablet = width >= 768;
@@ -43,53 +46,6 @@ type BarDetailsScreenProps = {
   navigation: BarDetailsScreenNavigationProp;
 };
 
-interface Address {
-  street?: string;
-  city: string;
-  state: string;
-  zipCode?: string;
-}
-
-interface Bar {
-  _id: string;
-  name: string;
-  description: string;
-  photo?: string;
-  address: Address;
-  mapsUrl?: string;
-  phone?: string;
-  tags: string[];
-  ratingAverage: number;
-  ratingQuantity: number;
-}
-
-interface MenuItem {
-  _id: string;
-  name: string;
-  description?: string;
-  price: number;
-  category: 'food' | 'drinks' | 'alcohol';
-  isAlcoholic?: boolean;
-}
-
-interface Review {
-  _id: string;
-  user: {
-    name: string;
-  };
-  rating: number;
-  comment: string;
-  createdAt: string;
-}
-
-interface Event {
-  _id: string;
-  title: string;
-  description: string;
-  date: string;
-  time?: string;
-}
-
 const BarDetailsScreen: React.FC<BarDetailsScreenProps> = ({ route, navigation }) => {
   const { barId } = route.params;
   
@@ -106,39 +62,31 @@ const BarDetailsScreen: React.FC<BarDetailsScreenProps> = ({ route, navigation }
   const [deleteType, setDeleteType] = useState<'bar' | 'menuItem' | 'event'>('bar');
   const [deleteItemId, setDeleteItemId] = useState<string>('');
   const [deleteItemName, setDeleteItemName] = useState<string>('');
+  // Item con el selector de disponibilidad abierto
+  const [availabilityItem, setAvailabilityItem] = useState<MenuItem | null>(null);
+  const [autoReset, setAutoReset] = useState(false);
 
   const fetchBarData = async () => {
     try {
-      const barResponse = await BarService.getBarById(barId);
-      setBar(barResponse.data);
+      setBar(await BarService.getBarById(barId));
 
       try {
-        const foodResponse = await BarService.getFoodByBarId(barId);
-        const drinksResponse = await BarService.getDrinksByBarId(barId);
-        const alcoholResponse = await BarService.getAlcoholByBarId(barId);
-
-        const allMenuItems = [
-          ...(foodResponse.data?.items || []),
-          ...(drinksResponse.data?.items || []),
-          ...(alcoholResponse.data?.items || []),
-        ];
-        setMenu(allMenuItems);
+        // El menú del dueño incluye los items ocultos
+        setMenu(await BusinessService.getMyBarMenu(barId));
       } catch (menuError) {
         console.error('Error fetching menu items:', menuError);
         setMenu([]);
       }
       
       try {
-        const reviewsResponse = await BarService.getReviewsByBarId(barId);
-        setReviews(reviewsResponse.data);
+        setReviews(await BarService.getReviewsByBarId(barId));
       } catch (reviewsError) {
         console.error('Error fetching reviews:', reviewsError);
         setReviews([]);
       }
 
       try {
-        const eventsResponse = await BarService.getEventsByBarId(barId);
-        setEvents(eventsResponse.data);
+        setEvents(await BarService.getEventsByBarId(barId));
       } catch (eventsError) {
         console.error('Error fetching events:', eventsError);
         setEvents([]);
@@ -200,13 +148,43 @@ const BarDetailsScreen: React.FC<BarDetailsScreenProps> = ({ route, navigation }
     setDeleteModalVisible(true);
   };
 
+  const openAvailability = (item: MenuItem) => {
+    setAutoReset(item.autoReset ?? false);
+    setAvailabilityItem(item);
+  };
+
+  // Optimista: se muestra el cambio de inmediato y se revierte si falla
+  const handleSetAvailability = async (item: MenuItem, availability: MenuItemAvailability) => {
+    setAvailabilityItem(null);
+    const previous = menu;
+    setMenu(menu.map((current) => (current._id === item._id ? { ...current, availability, autoReset } : current)));
+
+    try {
+      const updated = await BusinessService.setMenuItemAvailability(barId, item._id, availability, autoReset);
+      setMenu((current) => current.map((candidate) => (candidate._id === updated._id ? updated : candidate)));
+    } catch (error) {
+      console.error('Error updating availability:', error);
+      setMenu(previous);
+      Alert.alert('Error', 'Failed to update availability');
+    }
+  };
+
+  const getAvailabilityColor = (availability: MenuItemAvailability) => {
+    switch (availability) {
+      case 'available': return colors.success;
+      case 'sold_out': return colors.error;
+      case 'seasonal': return colors.warning;
+      default: return colors.textMuted;
+    }
+  };
+
   const handleEditEvent = (event: Event) => {
     if (bar) {
       navigation.navigate('EditEventScreen', { 
         barId: bar._id,
         eventId: event._id,
         barName: bar.name,
-        eventName: event.title
+        eventName: event.name
       });
     }
   };
@@ -214,7 +192,7 @@ const BarDetailsScreen: React.FC<BarDetailsScreenProps> = ({ route, navigation }
   const handleDeleteEvent = (event: Event) => {
     setDeleteType('event');
     setDeleteItemId(event._id);
-    setDeleteItemName(event.title);
+    setDeleteItemName(event.name);
     setDeleteModalVisible(true);
   };
 
@@ -227,6 +205,24 @@ const BarDetailsScreen: React.FC<BarDetailsScreenProps> = ({ route, navigation }
     }
   };
 
+  const handleImportExportMenu = () => {
+    if (bar) {
+      navigation.navigate('MenuImportExportScreen', {
+        barId: bar._id,
+        barName: bar.name
+      });
+    }
+  };
+
+  const handleArrangeMenu = () => {
+    if (bar) {
+      navigation.navigate('MenuLayoutScreen', {
+        barId: bar._id,
+        barName: bar.name
+      });
+    }
+  };
+
   const handleAddEvent = () => {
     if (bar) {
       navigation.navigate('AddEventScreen', { 
@@ -279,10 +275,10 @@ const BarDetailsScreen: React.FC<BarDetailsScreenProps> = ({ route, navigation }
     return stars;
   };
 
-  const getCategoryIcon = (category: string) => {
-    switch (category) {
-      case 'food': return 'restaurant';
-      case 'drinks': return 'local-cafe';
+  const getTypeIcon = (type: MenuItemType) => {
+    switch (type) {
+      case 'comida': return 'restaurant';
+      case 'bebida': return 'local-cafe';
       case 'alcohol': return 'wine-bar';
       default: return 'restaurant-menu';
     }
@@ -297,6 +293,77 @@ const BarDetailsScreen: React.FC<BarDetailsScreenProps> = ({ route, navigation }
     });
   };
 
+  const formatTime = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  const renderMenuCard = (item: MenuItem) => {
+    const availability = resolveAvailability(item, bar?.openingHours);
+    return (
+      <View
+        key={item._id}
+        style={[styles.menuCard, !isOrderable(availability) && styles.menuCardUnavailable]}
+      >
+        <TouchableOpacity 
+          style={styles.menuCardContent}
+          onPress={() => handleEditMenuItem(item)}
+          activeOpacity={0.8}
+        >
+          <View style={styles.menuCardHeader}>
+            <View style={styles.menuItemInfo}>
+              <View style={styles.menuItemNameRow}>
+                {item.featured && <Icon name="star" size={16} color={colors.star} />}
+                <Text style={styles.menuItemName} numberOfLines={1}>{item.name}</Text>
+              </View>
+              <Text style={styles.menuItemPrice}>${item.price.toFixed(2)}</Text>
+            </View>
+            <View style={[styles.categoryBadge, { backgroundColor: getTypeColor(item.type) }]}>
+              <Icon name={getTypeIcon(item.type)} size={16} color={colors.text} />
+            </View>
+          </View>
+          {item.description && (
+            <Text style={styles.menuItemDescription} numberOfLines={2}>
+              {item.description}
+            </Text>
+          )}
+          {item.type === 'alcohol' && (
+            <View style={styles.alcoholBadge}>
+              <Text style={styles.alcoholBadgeText}>21+</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+        <View style={styles.itemActions}>
+          <TouchableOpacity
+            style={[styles.availabilityPill, { borderColor: getAvailabilityColor(availability) }]}
+            onPress={() => openAvailability(item)}
+          >
+            <Icon name={AVAILABILITY_ICONS[availability]} size={14} color={getAvailabilityColor(availability)} />
+            <Text style={[styles.availabilityPillText, { color: getAvailabilityColor(availability) }]}>
+              {AVAILABILITY_LABELS[availability]}
+            </Text>
+            <Icon name="arrow-drop-down" size={16} color={getAvailabilityColor(availability)} />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.actionButtonSmall}
+            onPress={() => handleEditMenuItem(item)}
+          >
+            <Icon name="edit" size={16} color={colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.actionButtonSmall}
+            onPress={() => handleDeleteMenuItem(item)}
+          >
+            <Icon name="delete" size={16} color={colors.error} />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
   const renderTabContent = () => {
     switch (activeTab) {
       case 'menu':
@@ -311,6 +378,13 @@ const BarDetailsScreen: React.FC<BarDetailsScreenProps> = ({ route, navigation }
                   <Icon name="add" size={20} color={colors.text} />
                   <Text style={styles.createButtonText}>Add Menu Item</Text>
                 </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.importMenuButton, styles.importMenuButtonEmpty]}
+                  onPress={handleImportExportMenu}
+                >
+                  <Icon name="file-upload" size={20} color={colors.primary} />
+                  <Text style={styles.importMenuButtonText}>Import from CSV or JSON</Text>
+                </TouchableOpacity>
               </View>
             ) : (
               <View style={styles.menuGrid}>
@@ -318,47 +392,20 @@ const BarDetailsScreen: React.FC<BarDetailsScreenProps> = ({ route, navigation }
                   <Icon name="add" size={32} color={colors.primary} />
                   <Text style={styles.addItemText}>Add Menu Item</Text>
                 </TouchableOpacity>
-                {menu.map((item) => (
-                  <View key={item._id} style={styles.menuCard}>
-                    <TouchableOpacity 
-                      style={styles.menuCardContent}
-                      onPress={() => handleEditMenuItem(item)}
-                      activeOpacity={0.8}
-                    >
-                      <View style={styles.menuCardHeader}>
-                        <View style={styles.menuItemInfo}>
-                          <Text style={styles.menuItemName} numberOfLines={1}>{item.name}</Text>
-                          <Text style={styles.menuItemPrice}>${item.price.toFixed(2)}</Text>
-                        </View>
-                        <View style={[styles.categoryBadge, { backgroundColor: getCategoryColor(item.category) }]}>
-                          <Icon name={getCategoryIcon(item.category)} size={16} color={colors.text} />
-                        </View>
-                      </View>
-                      {item.description && (
-                        <Text style={styles.menuItemDescription} numberOfLines={2}>
-                          {item.description}
-                        </Text>
-                      )}
-                      {item.isAlcoholic && (
-                        <View style={styles.alcoholBadge}>
-                          <Text style={styles.alcoholBadgeText}>21+</Text>
-                        </View>
-                      )}
-                    </TouchableOpacity>
-                    <View style={styles.itemActions}>
-                      <TouchableOpacity 
-                        style={styles.actionButtonSmall}
-                        onPress={() => handleEditMenuItem(item)}
-                      >
-                        <Icon name="edit" size={16} color={colors.primary} />
-                      </TouchableOpacity>
-                      <TouchableOpacity 
-                        style={styles.actionButtonSmall}
-                        onPress={() => handleDeleteMenuItem(item)}
-                      >
-                        <Icon name="delete" size={16} color={colors.error} />
-                      </TouchableOpacity>
-                    </View>
+                <View style={styles.menuToolsRow}>
+                  <TouchableOpacity style={[styles.importMenuButton, styles.menuToolButton]} onPress={handleArrangeMenu}>
+                    <Icon name="reorder" size={20} color={colors.primary} />
+                    <Text style={styles.importMenuButtonText}>Arrange</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={[styles.importMenuButton, styles.menuToolButton]} onPress={handleImportExportMenu}>
+                    <Icon name="import-export" size={20} color={colors.primary} />
+                    <Text style={styles.importMenuButtonText}>Import / Export</Text>
+                  </TouchableOpacity>
+                </View>
+                {groupMenuBySections(menu, bar?.menuSections).map((group) => (
+                  <View key={group.key} style={styles.menuGroup}>
+                    <Text style={styles.menuGroupTitle}>{group.title}</Text>
+                    {group.items.map(renderMenuCard)}
                   </View>
                 ))}
               </View>
@@ -394,14 +441,12 @@ const BarDetailsScreen: React.FC<BarDetailsScreenProps> = ({ route, navigation }
                     >
                       <View style={styles.eventHeader}>
                         <View style={styles.eventDateBadge}>
-                          <Text style={styles.eventDateText}>{formatDate(event.date)}</Text>
-                          {event.time && (
-                            <Text style={styles.eventTimeText}>{event.time}</Text>
-                          )}
+                          <Text style={styles.eventDateText}>{formatDate(event.start)}</Text>
+                          <Text style={styles.eventTimeText}>{formatTime(event.start)}</Text>
                         </View>
                         <Icon name="event" size={24} color={colors.primary} />
                       </View>
-                      <Text style={styles.eventTitle}>{event.title}</Text>
+                      <Text style={styles.eventTitle}>{event.name}</Text>
                       <Text style={styles.eventDescription}>{event.description}</Text>
                     </TouchableOpacity>
                     <View style={styles.itemActions}>
@@ -477,15 +522,62 @@ const BarDetailsScreen: React.FC<BarDetailsScreenProps> = ({ route, navigation }
     }
   };
 
-  const getCategoryColor = (category: string) => {
-    switch (category) {
-      case 'food': return colors.success;
-      case 'drinks': return colors.primary;
+  const getTypeColor = (type: MenuItemType) => {
+    switch (type) {
+      case 'comida': return colors.success;
+      case 'bebida': return colors.primary;
       case 'alcohol': return colors.accent;
       default: return colors.textMuted;
     }
   };
 
+  const AvailabilityModal = () => {
+    const current = availabilityItem ? resolveAvailability(availabilityItem, bar?.openingHours) : 'available';
+    return (
+      <Modal
+        animationType="fade"
+        transparent={true}
+        visible={availabilityItem !== null}
+        onRequestClose={() => setAvailabilityItem(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.availabilityTitle}>Availability</Text>
+            <Text style={styles.availabilitySubtitle} numberOfLines={1}>{availabilityItem?.name}</Text>
+            {MENU_ITEM_AVAILABILITIES.map((availability) => (
+              <TouchableOpacity
+                key={availability}
+                style={[styles.availabilityOption, current === availability && styles.availabilityOptionSelected]}
+                onPress={() => availabilityItem && handleSetAvailability(availabilityItem, availability)}
+              >
+                <Icon name={AVAILABILITY_ICONS[availability]} size={20} color={getAvailabilityColor(availability)} />
+                <Text style={styles.availabilityOptionText}>{AVAILABILITY_LABELS[availability]}</Text>
+                {current === availability && <Icon name="check" size={20} color={colors.primary} />}
+              </TouchableOpacity>
+            ))}
+            <View style={styles.autoResetRow}>
+              <View style={styles.autoResetInfo}>
+                <Text style={styles.autoResetLabel}>Reset sold out automatically</Text>
+                <Text style={styles.autoResetHint}>
+                  {bar?.openingHours ? 'Back to available when the bar opens' : 'Back to available at midnight'}
+                </Text>
+              </View>
+              <Switch
+                value={autoReset}
+                onValueChange={setAutoReset}
+                trackColor={{ false: colors.surfaceVariant, true: colors.primary }}
+                thumbColor={colors.text}
+              />
+            </View>
+            <TouchableOpacity style={styles.modalCancelButton} onPress={() => setAvailabilityItem(null)}>
+              <Text style={styles.modalCancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    );
+  };
+
   const DeleteModal = () => (
     <Modal
       animationType="fade"
@@ -696,6 +788,7 @@ const BarDetailsScreen: React.FC<BarDetailsScreenProps> = ({ route, navigation }
       </ScrollView>
 
       <DeleteModal />
+      <AvailabilityModal />
     </SafeAreaView>
   );
 };
@@ -1003,6 +1096,41 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginTop: 8,
   },
+  importMenuButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  menuToolsRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  menuToolButton: {
+    flex: 1,
+  },
+  menuGroup: {
+    gap: 12,
+  },
+  menuGroupTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginTop: 8,
+  },
+  importMenuButtonEmpty: {
+    marginTop: 12,
+    paddingHorizontal: 20,
+  },
+  importMenuButtonText: {
+    color: colors.primary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
   menuCard: {
     backgroundColor: colors.surface,
     borderRadius: 12,
@@ -1023,7 +1151,13 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: 12,
   },
+  menuItemNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
   menuItemName: {
+    flexShrink: 1,
     fontSize: 16,
     fontWeight: '600',
     color: colors.text,
@@ -1064,6 +1198,24 @@ const styles = StyleSheet.create({
     paddingTop: 0,
     gap: 8,
   },
+  menuCardUnavailable: {
+    opacity: 0.6,
+  },
+  availabilityPill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginRight: 'auto',
+    paddingLeft: 10,
+    paddingRight: 4,
+    paddingVertical: 4,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  availabilityPillText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
   actionButtonSmall: {
     backgroundColor: colors.surfaceVariant,
     borderRadius: 16,
@@ -1257,6 +1409,57 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  availabilityTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  availabilitySubtitle: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  availabilityOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginBottom: 4,
+  },
+  availabilityOptionSelected: {
+    backgroundColor: colors.surfaceVariant,
+  },
+  availabilityOptionText: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.text,
+  },
+  autoResetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 16,
+    marginBottom: 8,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    marginTop: 8,
+  },
+  autoResetInfo: {
+    flex: 1,
+  },
+  autoResetLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  autoResetHint: {
+    fontSize: 12,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
 });
 
 export { BarDetailsScreen };
@@ -8,6 +8,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import { BusinessStackParamList } from '../../../navigation/userNavigation';
 import BusinessService from '../../../services/BusinessService';
+import { Bar } from '../../../types/models';
 
 const { width } = Dimensions.get('window');
 const isTablet = width >= 768;
@@ -36,23 +37,6 @@ const colors = {
 
 type BusinessBarNavigationProp = StackNavigationProp<BusinessStackParamList, 'BusinessDashboard'>;
 
-interface Bar {
-  _id: string;
-  name: string;
-  description?: string;
-  photo?: string;
-  address?: {
-    street: string;
-    city: string;
-    state: string;
-    zipCode: string;
-  };
-  phone?: string;
-  type?: string[];
-  ratingAverage?: number;
-  ratingQuantity?: number;
-}
-
 const BarListScreen: React.FC = () => {
   const navigation = useNavigation<BusinessBarNavigationProp>();
   const [bars, setBars] = useState<Bar[]>([]);
@@ -71,8 +55,7 @@ const BarListScreen: React.FC = () => {
   const loadBars = async () => {
     try {
       setLoading(true);
-      const response = await BusinessService.getMyBars();
-      const barsData = response.data || [];
+      const barsData = await BusinessService.getMyBars();
       setBars(barsData);
       setFilteredBars(barsData);
     } catch (error) {
@@ -96,8 +79,8 @@ const BarListScreen: React.FC = () => {
     } else {
       const filtered = bars.filter(bar =>
         bar.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        bar.type?.some(type => type.toLowerCase().includes(searchQuery.toLowerCase())) ||
-        bar.address?.city.toLowerCase().includes(searchQuery.toLowerCase())
+        bar.tags.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase())) ||
+        bar.address.city.toLowerCase().includes(searchQuery.toLowerCase())
       );
       setFilteredBars(filtered);
     }
@@ -271,7 +254,7 @@ const handleBarPress = (bar: Bar) => {
                   resizeMode="cover"
                 />
                 <View style={styles.imageOverlay}>
-                  {bar.ratingAverage && (
+                  {bar.ratingAverage > 0 && (
                     <View style={styles.ratingBadge}>
                       <Icon name="star" size={14} color={colors.star} />
                       <Text style={styles.ratingBadgeText}>{bar.ratingAverage.toFixed(1)}</Text>
@@ -285,42 +268,42 @@ const handleBarPress = (bar: Bar) => {
                 <Text style={styles.barName} numberOfLines={1}>{bar.name}</Text>
                 
                 {/* Rating */}
-                {bar.ratingAverage && (
+                {bar.ratingAverage > 0 && (
                   <View style={styles.ratingContainer}>
                     <View style={styles.starsContainer}>
                       {renderStars(Math.round(bar.ratingAverage))}
                     </View>
                     <Text style={styles.ratingText}>
-                      ({bar.ratingQuantity || 0})
+                      ({bar.ratingQuantity})
                     </Text>
                   </View>
                 )}
 
                 {/* Tags/Types */}
-                {bar.type && bar.type.length > 0 && (
+                {bar.tags.length > 0 && (
                   <View style={styles.tagsContainer}>
-                    {bar.type.slice(0, 3).map((type, index) => (
+                    {bar.tags.slice(0, 3).map((tag, index) => (
                       <View key={index} style={styles.tag}>
-                        <Text style={styles.tagText}>{type}</Text>
+                        <Text style={styles.tagText}>{tag}</Text>
                       </View>
                     ))}
-                    {bar.type.length > 3 && (
+                    {bar.tags.length > 3 && (
                       <View style={styles.tagMore}>
-                        <Text style={styles.tagMoreText}>+{bar.type.length - 3}</Text>
+                        <Text style={styles.tagMoreText}>+{bar.tags.length - 3}</Text>
                       </View>
                     )}
                   </View>
                 )}
 
                 {/* Description */}
-                {bar.description && (
+                {!!bar.description && (
                   <Text style={styles.description} numberOfLines={2}>
                     {bar.description}
                   </Text>
                 )}
 
                 {/* Location */}
-                {bar.address && (
+                {!!bar.address.city && (
                   <View style={styles.locationContainer}>
                     <Icon name="location-on" size={16} color={colors.textMuted} />
                     <Text style={styles.address} numberOfLines={1}>
@@ -17,8 +17,13 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import CoordinatesPicker from '../../../components/CoordinatesPicker';
+import OpeningHoursEditor from '../../../components/OpeningHoursEditor';
+import { useApiError } from '../../../hooks/useApiError';
 import { BusinessStackParamList } from '../../../navigation/userNavigation';
 import BusinessService from '../../../services/BusinessService';
+import { validateOpeningHours } from '../../../services/OpeningHoursService';
+import { BAR_TAGS, Coordinates, OpeningHours } from '../../../types/models';
 
 const { width } = Dimensions.get('window');
 const isTablet = width >= 768;
@@ -44,21 +49,22 @@ const colors = {
 
 type CreateBarNavigationProp = StackNavigationProp<BusinessStackParamList, 'CreateBarScreen'>;
 
-// Available tags from your schema
-const AVAILABLE_TAGS = [
-  "Beer Garden", 
-  "Refrigerado", 
-  "Talento cachanilla", 
-  "Cervezas locales", 
-  "Cervezas exportadas", 
-  "Comida",
-  "Música en vivo", 
-  "Ambiente familiar", 
-  "Terraza", 
-  "Solo adultos", 
-  "Barra libre", 
-  "Sports bar"
-];
+// Campos del formulario que pueden recibir errores del backend
+const BAR_FIELDS = [
+  'name',
+  'description',
+  'photo',
+  'phone',
+  'mapsUrl',
+  'address.street',
+  'address.city',
+  'address.state',
+  'address.zipCode',
+  'coordinates',
+  'openingHours',
+] as const;
+
+type BarField = typeof BAR_FIELDS[number];
 
 interface CreateBarForm {
   name: string;
@@ -71,6 +77,8 @@ interface CreateBarForm {
     zipCode: string;
   };
   mapsUrl: string;
+  coordinates: Coordinates | null;
+  openingHours: OpeningHours | null;
   phone: string;
   tags: string[];
 }
@@ -78,6 +86,8 @@ interface CreateBarForm {
 const CreateBarScreen: React.FC = () => {
   const navigation = useNavigation<CreateBarNavigationProp>();
   const [loading, setLoading] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<BarField, string>>>({});
+  const { getFieldErrors, showError } = useApiError('save');
   const [formData, setFormData] = useState<CreateBarForm>({
     name: '',
     description: '',
@@ -89,11 +99,17 @@ const CreateBarScreen: React.FC = () => {
       zipCode: ''
     },
     mapsUrl: '',
+    coordinates: null,
+    openingHours: null,
     phone: '',
     tags: []
   });
 
-  const updateFormData = (field: string, value: any) => {
+  const updateFormData = (field: BarField, value: any) => {
+    if (fieldErrors[field]) {
+      setFieldErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+
     if (field.includes('.')) {
       const [parent, child] = field.split('.');
       setFormData((prev: CreateBarForm) => {
@@ -142,6 +158,11 @@ const CreateBarScreen: React.FC = () => {
       Alert.alert('Error', 'La descripción no puede exceder 1000 caracteres');
       return false;
     }
+    const hoursError = formData.openingHours && validateOpeningHours(formData.openingHours);
+    if (hoursError) {
+      setFieldErrors(prev => ({ ...prev, openingHours: hoursError }));
+      return false;
+    }
     return true;
   };
 
@@ -161,32 +182,40 @@ const CreateBarScreen: React.FC = () => {
           zipCode: formData.address.zipCode.trim() || undefined,
         },
         mapsUrl: formData.mapsUrl.trim() || undefined,
+        coordinates: formData.coordinates ?? undefined,
+        openingHours: formData.openingHours ?? undefined,
         phone: formData.phone.trim() || undefined,
         tags: formData.tags.length > 0 ? formData.tags : undefined
-      };      const response = await BusinessService.createBar(cleanFormData);
-      
-      if (response.data) {
-        if (Platform.OS === 'web') {
-          window.alert('Bar creado exitosamente');
-        } else {
-          Alert.alert('Éxito', 'Bar creado exitosamente');
-        }
-        navigation.navigate({ name: 'BarListScreen', params: undefined });
+      };      await BusinessService.createBar(cleanFormData);
+
+      if (Platform.OS === 'web') {
+        window.alert('Bar creado exitosamente');
+      } else {
+        Alert.alert('Éxito', 'Bar creado exitosamente');
       }
+      navigation.navigate({ name: 'BarListScreen', params: undefined });
     } catch (error) {
       console.error('Error creating bar:', error);
-      Alert.alert('Error', 'No se pudo crear el bar. Intenta nuevamente.');
+      // Los errores por campo se muestran debajo de cada input
+      const errors = getFieldErrors(error, BAR_FIELDS);
+      setFieldErrors(errors);
+      if (Object.keys(errors).length === 0) {
+        showError(error);
+      }
     } finally {
       setLoading(false);
     }
   };
 
+  const renderFieldError = (field: BarField) =>
+    fieldErrors[field] ? <Text style={styles.errorText}>{fieldErrors[field]}</Text> : null;
+
   const renderTagSelector = () => (
     <View style={styles.section}>
       <Text style={styles.sectionTitle}>Etiquetas</Text>
       <Text style={styles.sectionSubtitle}>Selecciona las características de tu bar</Text>
       <View style={styles.tagsContainer}>
-        {AVAILABLE_TAGS.map((tag) => (
+        {BAR_TAGS.map((tag) => (
           <TouchableOpacity
             key={tag}
             style={[
@@ -241,20 +270,21 @@ const CreateBarScreen: React.FC = () => {
             <View style={styles.inputGroup}>
               <Text style={styles.label}>Nombre del Bar *</Text>
               <TextInput
-                style={styles.input}
+                style={[styles.input, fieldErrors['name'] && styles.inputError]}
                 placeholder="Ej: Mi Bar Favorito"
                 placeholderTextColor={colors.textMuted}
                 value={formData.name}
                 onChangeText={(value) => updateFormData('name', value)}
                 maxLength={100}
               />
+              {renderFieldError('name')}
               <Text style={styles.charCounter}>{formData.name.length}/100</Text>
             </View>
 
             <View style={styles.inputGroup}>
               <Text style={styles.label}>Descripción *</Text>
               <TextInput
-                style={[styles.input, styles.textArea]}
+                style={[styles.input, styles.textArea, fieldErrors['description'] && styles.inputError]}
                 placeholder="Describe tu bar, ambiente, especialidades..."
                 placeholderTextColor={colors.textMuted}
                 value={formData.description}
@@ -263,18 +293,20 @@ const CreateBarScreen: React.FC = () => {
                 numberOfLines={4}
                 maxLength={1000}
               />
+              {renderFieldError('description')}
               <Text style={styles.charCounter}>{formData.description.length}/1000</Text>
             </View>
 
             <View style={styles.inputGroup}>
               <Text style={styles.label}>URL de Foto</Text>
               <TextInput
-                style={styles.input}
+                style={[styles.input, fieldErrors['photo'] && styles.inputError]}
                 placeholder="https://ejemplo.com/foto.jpg"
                 placeholderTextColor={colors.textMuted}
                 value={formData.photo}
                 onChangeText={(value) => updateFormData('photo', value)}
               />
+              {renderFieldError('photo')}
             </View>
           </View>
 
@@ -284,13 +316,14 @@ const CreateBarScreen: React.FC = () => {
             <View style={styles.inputGroup}>
               <Text style={styles.label}>Teléfono</Text>
               <TextInput
-                style={styles.input}
+                style={[styles.input, fieldErrors['phone'] && styles.inputError]}
                 placeholder="(686) 123-4567"
                 placeholderTextColor={colors.textMuted}
                 value={formData.phone}
                 onChangeText={(value) => updateFormData('phone', value)}
                 keyboardType="phone-pad"
               />
+              {renderFieldError('phone')}
             </View>
           </View>
 
@@ -300,56 +333,80 @@ const CreateBarScreen: React.FC = () => {
             <View style={styles.inputGroup}>
               <Text style={styles.label}>Calle</Text>
               <TextInput
-                style={styles.input}
+                style={[styles.input, fieldErrors['address.street'] && styles.inputError]}
                 placeholder="Calle y número"
                 placeholderTextColor={colors.textMuted}
                 value={formData.address.street}
                 onChangeText={(value) => updateFormData('address.street', value)}
               />
+              {renderFieldError('address.street')}
             </View>
 
             <View style={styles.row}>
               <View style={[styles.inputGroup, styles.flex1]}>
                 <Text style={styles.label}>Ciudad</Text>
                 <TextInput
-                  style={styles.input}
+                  style={[styles.input, fieldErrors['address.city'] && styles.inputError]}
                   value={formData.address.city}
                   onChangeText={(value) => updateFormData('address.city', value)}
                 />
+                {renderFieldError('address.city')}
               </View>
               
               <View style={[styles.inputGroup, styles.flex1, styles.marginLeft]}>
                 <Text style={styles.label}>Código Postal</Text>
                 <TextInput
-                  style={styles.input}
+                  style={[styles.input, fieldErrors['address.zipCode'] && styles.inputError]}
                   placeholder="21000"
                   placeholderTextColor={colors.textMuted}
                   value={formData.address.zipCode}
                   onChangeText={(value) => updateFormData('address.zipCode', value)}
                   keyboardType="numeric"
                 />
+                {renderFieldError('address.zipCode')}
               </View>
             </View>
 
             <View style={styles.inputGroup}>
               <Text style={styles.label}>Estado</Text>
               <TextInput
-                style={styles.input}
+                style={[styles.input, fieldErrors['address.state'] && styles.inputError]}
                 value={formData.address.state}
                 onChangeText={(value) => updateFormData('address.state', value)}
               />
+              {renderFieldError('address.state')}
             </View>
 
             <View style={styles.inputGroup}>
               <Text style={styles.label}>URL de Google Maps</Text>
               <TextInput
-                style={styles.input}
+                style={[styles.input, fieldErrors['mapsUrl'] && styles.inputError]}
                 placeholder="https://maps.google.com/..."
                 placeholderTextColor={colors.textMuted}
                 value={formData.mapsUrl}
                 onChangeText={(value) => updateFormData('mapsUrl', value)}
               />
+              {renderFieldError('mapsUrl')}
             </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Ubicación en el mapa</Text>
+              <CoordinatesPicker
+                value={formData.coordinates}
+                onChange={(value) => updateFormData('coordinates', value)}
+                error={fieldErrors['coordinates']}
+              />
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Horario</Text>
+            <Text style={styles.sectionSubtitle}>Los clientes verán si tu bar está abierto ahora</Text>
+            <OpeningHoursEditor
+              value={formData.openingHours}
+              onChange={(value) => updateFormData('openingHours', value)}
+              error={fieldErrors['openingHours']}
+            />
           </View>
 
           {renderTagSelector()}
@@ -484,6 +541,14 @@ const styles = StyleSheet.create({
     textAlign: 'right',
     marginTop: 4,
   },
+  inputError: {
+    borderColor: colors.error,
+  },
+  errorText: {
+    fontSize: 12,
+    color: colors.error,
+    marginTop: 4,
+  },
   row: {
     flexDirection: 'row',
   },
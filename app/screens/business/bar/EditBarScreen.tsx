@@ -15,8 +15,15 @@ import {
   View
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import CoordinatesPicker from '../../../components/CoordinatesPicker';
+import HappyHoursEditor from '../../../components/HappyHoursEditor';
+import OpeningHoursEditor from '../../../components/OpeningHoursEditor';
 import { BusinessStackParamList } from '../../../navigation/userNavigation';
+import { ApiError } from '../../../services/ApiErrors';
 import BusinessService from '../../../services/BusinessService';
+import { validateHappyHours } from '../../../services/HappyHourService';
+import { validateOpeningHours } from '../../../services/OpeningHoursService';
+import { Coordinates, HappyHour, OpeningHours } from '../../../types/models';
 
 // Dark theme colors
 const colors = {
@@ -58,6 +65,9 @@ interface BarData {
     zipCode: string;
   };
   mapsUrl: string;
+  coordinates: Coordinates | null;
+  openingHours: OpeningHours | null;
+  happyHours: HappyHour[];
   phone: string;
   tags: string[];
 }
@@ -95,6 +105,9 @@ const EditBarScreen: React.FC<Props> = ({ route, navigation }) => {
       zipCode: '',
     },
     mapsUrl: '',
+    coordinates: null,
+    openingHours: null,
+    happyHours: [],
     phone: '',
     tags: [],
   });
@@ -108,58 +121,34 @@ const EditBarScreen: React.FC<Props> = ({ route, navigation }) => {
       setLoading(true);
       console.log('Loading bar data for barId:', barId);
       
-      const response = await BusinessService.getMyBar(barId);
-      console.log('Bar data response:', response.data);
-      
-      if (response && response.data) {
-        let bar;
-        
-        // Handle different response structures
-        if (response.data.success && response.data.data) {
-          bar = response.data.data;
-        } else if (response.data.success === false) {
-          console.error('API returned success: false', response.data);
-          Alert.alert('Error', response.data.message || 'Failed to load bar information');
-          return;
-        } else {
-          // Direct bar data without success wrapper
-          bar = response.data;
-        }
-        
-        if (bar) {
-          const barInfo = {
-            name: bar.name || '',
-            description: bar.description || '',
-            photo: bar.photo || '',
-            address: {
-              street: bar.address?.street || '',
-              city: bar.address?.city || 'Mexicali',
-              state: bar.address?.state || 'Baja California',
-              zipCode: bar.address?.zipCode || '',
-            },
-            mapsUrl: bar.mapsUrl || '',
-            phone: bar.phone || '',
-            tags: Array.isArray(bar.tags) ? bar.tags : [],
-          };
-          
-          console.log('Processed bar info:', barInfo);
-          
-          // Save original data and current data
-          setOriginalBarData(barInfo);
-          setBarData(barInfo);
-        } else {
-          console.error('No bar data found in response');
-          Alert.alert('Error', 'No bar data found');
-        }
-      } else {
-        console.error('Invalid response structure:', response);
-        Alert.alert('Error', 'Invalid response from server');
-      }
+      const bar = await BusinessService.getMyBar(barId);
+      const barInfo = {
+        name: bar.name,
+        description: bar.description,
+        photo: bar.photo || '',
+        address: {
+          street: bar.address.street || '',
+          city: bar.address.city || 'Mexicali',
+          state: bar.address.state || 'Baja California',
+          zipCode: bar.address.zipCode || '',
+        },
+        mapsUrl: bar.mapsUrl || '',
+        coordinates: bar.coordinates ?? null,
+        openingHours: bar.openingHours ?? null,
+        happyHours: bar.happyHours ?? [],
+        phone: bar.phone || '',
+        tags: bar.tags,
+      };
+
+      console.log('Processed bar info:', barInfo);
+
+      // Save original data and current data
+      setOriginalBarData(barInfo);
+      setBarData(barInfo);
     } catch (error) {
       console.error('Error loading bar data:', error);
-      if (typeof error === 'object' && error !== null && 'response' in error) {
-        // @ts-expect-error: dynamic error shape from axios or fetch
-        console.error('Error details:', error.response?.data);
+      if (error instanceof ApiError) {
+        console.error('Error details:', error.data);
       }
       Alert.alert('Error', 'Could not load bar information. Please try again.');
     } finally {
@@ -179,32 +168,40 @@ const EditBarScreen: React.FC<Props> = ({ route, navigation }) => {
       return;
     }
 
+    const hoursError = barData.openingHours && validateOpeningHours(barData.openingHours);
+    if (hoursError) {
+      Alert.alert('Error', hoursError);
+      return;
+    }
+
+    const happyHoursError = validateHappyHours(barData.happyHours);
+    if (happyHoursError) {
+      Alert.alert('Error', happyHoursError);
+      return;
+    }
+
     try {
       setSaving(true);
-      const response = await BusinessService.updateBar(barId, barData);
-      
-      if (response.status === 200 || (response.data && response.data.success)) {
-        if (Platform.OS === 'web') {
-          setShowSuccessModal(true);
-        } else {
-          Alert.alert(
-            'Success',
-            'Bar updated successfully',
-            [
-              {
-                text: 'OK',
-                onPress: () => {
-                  navigation.navigate('BusinessDetails', { 
-                    barId, 
-                    barName: barData.name 
-                  });
-                }
-              }
-            ]
-          );
-        }
+      await BusinessService.updateBar(barId, barData);
+
+      if (Platform.OS === 'web') {
+        setShowSuccessModal(true);
       } else {
-        Alert.alert('Error', response.data?.message || 'Failed to update bar');
+        Alert.alert(
+          'Success',
+          'Bar updated successfully',
+          [
+            {
+              text: 'OK',
+              onPress: () => {
+                navigation.navigate('BusinessDetails', { 
+                  barId, 
+                  barName: barData.name 
+                });
+              }
+            }
+          ]
+        );
       }
     } catch (error) {
       console.error('Error updating bar:', error);
@@ -432,6 +429,38 @@ const EditBarScreen: React.FC<Props> = ({ route, navigation }) => {
               placeholderTextColor={colors.textMuted}
             />
           </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Map Location</Text>
+            <CoordinatesPicker
+              value={barData.coordinates}
+              onChange={(coordinates) => setBarData(prev => ({ ...prev, coordinates }))}
+            />
+          </View>
+        </View>
+
+        {/* Opening hours */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Opening Hours</Text>
+          <Text style={styles.sectionSubtitle}>
+            Customers will see whether your bar is open right now
+          </Text>
+          <OpeningHoursEditor
+            value={barData.openingHours}
+            onChange={(openingHours) => setBarData(prev => ({ ...prev, openingHours }))}
+          />
+        </View>
+
+        {/* Happy hours */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Happy Hours</Text>
+          <Text style={styles.sectionSubtitle}>
+            Discounts by menu type during these hours. Items with their own happy hour price use that price instead.
+          </Text>
+          <HappyHoursEditor
+            value={barData.happyHours}
+            onChange={(happyHours) => setBarData(prev => ({ ...prev, happyHours }))}
+          />
         </View>
 
         {/* Tags */}
@@ -13,20 +13,7 @@ import {
 } from 'react-native';
 import { BarsStackParamList } from '../../../navigation/userNavigation';
 import BusinessService from '../../../services/BusinessService';
-
-interface Bar {
-  _id: string;
-  name: string;
-  description?: string;
-  address?: {
-    street: string;
-    city: string;
-    state: string;
-    zipCode: string;
-  };
-  phone?: string;
-  type?: string[];
-}
+import { Bar } from '../../../types/models';
 
 const BusinessDashboardScreen: React.FC = () => {
   const navigation = useNavigation<StackNavigationProp<BarsStackParamList>>();
@@ -44,8 +31,7 @@ const BusinessDashboardScreen: React.FC = () => {
   const loadBars = async () => {
     try {
       setLoading(true);
-      const response = await BusinessService.getMyBars();
-      setBars(response.data || []);
+      setBars(await BusinessService.getMyBars());
     } catch (error) {
       console.error('Error cargando bares:', error);
       Alert.alert('Error', 'No se pudieron cargar los bares');
@@ -75,7 +61,7 @@ const BusinessDashboardScreen: React.FC = () => {
     >
       <View style={styles.barInfo}>
         <Text style={styles.barName}>{item.name}</Text>
-        {item.description && (
+        {!!item.description && (
           <Text style={styles.barDescription} numberOfLines={2}>
             {item.description}
           </Text>
@@ -86,9 +72,9 @@ const BusinessDashboardScreen: React.FC = () => {
           </Text>
         )}
         <View style={styles.barTypes}>
-          {item.type?.map((type, index) => (
+          {item.tags.map((tag, index) => (
             <View key={index} style={styles.typeTag}>
-              <Text style={styles.typeText}>{type}</Text>
+              <Text style={styles.typeText}>{tag}</Text>
             </View>
           ))}
         </View>
@@ -19,8 +19,13 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import RecurrenceEditor from '../../../components/RecurrenceEditor';
+import TicketTiersEditor from '../../../components/TicketTiersEditor';
 import { BusinessStackParamList } from '../../../navigation/userNavigation';
 import BusinessService from '../../../services/BusinessService';
+import { EMPTY_RECURRENCE_DRAFT, parseRecurrenceDraft, RecurrenceDraft } from '../../../services/EventRecurrenceService';
+import { getLowestTierPrice, parseTicketTierDrafts, TicketTierDraft } from '../../../services/EventTicketService';
+import { getTijuanaWeekday } from '../../../services/TimeZoneService';
 
 const { width } = Dimensions.get('window');
 const isTablet = width >= 768;
@@ -64,6 +69,9 @@ interface EventForm {
   endDate: Date | null;
   image: string;
   price: string;
+  capacity: string;
+  ticketTiers: TicketTierDraft[];
+  recurrence: RecurrenceDraft;
 }
 
 // Universal DatePicker Component
@@ -160,6 +168,9 @@ const AddEventScreen: React.FC<AddEventScreenProps> = ({ route, navigation }) =>
     endDate: null,
     image: '',
     price: '0',
+    capacity: '',
+    ticketTiers: [],
+    recurrence: EMPTY_RECURRENCE_DRAFT,
   });
 
   const [errors, setErrors] = useState<Partial<Record<keyof EventForm, string>>>({});
@@ -184,10 +195,29 @@ const AddEventScreen: React.FC<AddEventScreenProps> = ({ route, navigation }) =>
       newErrors.description = 'Event description is required';
     }
 
-    if (form.price.trim() && (isNaN(parseFloat(form.price)) || parseFloat(form.price) < 0)) {
+    if (form.ticketTiers.length === 0 && form.price.trim() && (isNaN(parseFloat(form.price)) || parseFloat(form.price) < 0)) {
       newErrors.price = 'Price must be a positive number';
     }
 
+    const capacity = form.capacity.trim();
+    if (capacity && (!/^\d+$/.test(capacity) || parseInt(capacity, 10) < 1)) {
+      newErrors.capacity = 'Capacity must be a whole number greater than 0';
+    }
+
+    const { error: tiersError } = parseTicketTierDrafts(form.ticketTiers);
+    if (tiersError) {
+      newErrors.ticketTiers = tiersError;
+    }
+
+    if (form.recurrence.enabled && !form.startDate) {
+      newErrors.recurrence = 'Choose a start date to repeat the event';
+    } else {
+      const { error: recurrenceError } = parseRecurrenceDraft(form.recurrence, form.startDate);
+      if (recurrenceError) {
+        newErrors.recurrence = recurrenceError;
+      }
+    }
+
     if (form.startDate && form.endDate && form.startDate >= form.endDate) {
       newErrors.endDate = 'End date must be after start date';
     }
@@ -216,6 +246,8 @@ const AddEventScreen: React.FC<AddEventScreenProps> = ({ route, navigation }) =>
     try {
       setLoading(true);
 
+      const { tiers } = parseTicketTierDrafts(form.ticketTiers);
+      const { rule } = parseRecurrenceDraft(form.recurrence, form.startDate);
       const eventData = {
         bar: barId,
         name: form.name.trim(),
@@ -224,7 +256,11 @@ const AddEventScreen: React.FC<AddEventScreenProps> = ({ route, navigation }) =>
         start: form.startDate || undefined,
         end: form.endDate || undefined,
         image: form.image || undefined,
-        price: parseFloat(form.price) || 0,
+        // Con tipos de entrada el precio del evento es el "desde"
+        price: tiers.length > 0 ? getLowestTierPrice(tiers) : parseFloat(form.price) || 0,
+        capacity: form.capacity.trim() ? parseInt(form.capacity, 10) : undefined,
+        ticketTiers: tiers,
+        recurrence: rule ?? undefined,
       };
 
       await BusinessService.createEvent(barId, eventData);
@@ -346,18 +382,49 @@ const AddEventScreen: React.FC<AddEventScreenProps> = ({ route, navigation }) =>
                 />
               </View>
 
+              {form.ticketTiers.length === 0 && (
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Price</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="0.00"
+                    placeholderTextColor={colors.textMuted}
+                    value={form.price}
+                    onChangeText={(text) => setForm({ ...form, price: text })}
+                    keyboardType="decimal-pad"
+                  />
+                  {errors.price && <Text style={styles.errorText}>{errors.price}</Text>}
+                </View>
+              )}
+            </View>
+
+            {/* Tickets */}
+            <View style={styles.formSection}>
+              <Text style={styles.sectionTitle}>Tickets</Text>
+
               <View style={styles.inputGroup}>
-                <Text style={styles.inputLabel}>Price</Text>
+                <Text style={styles.inputLabel}>Capacity</Text>
                 <TextInput
                   style={styles.input}
-                  placeholder="0.00"
+                  placeholder="Unlimited"
                   placeholderTextColor={colors.textMuted}
-                  value={form.price}
-                  onChangeText={(text) => setForm({ ...form, price: text })}
-                  keyboardType="decimal-pad"
+                  value={form.capacity}
+                  onChangeText={(text) => setForm({ ...form, capacity: text })}
+                  keyboardType="number-pad"
                 />
-                {errors.price && <Text style={styles.errorText}>{errors.price}</Text>}
+                {form.recurrence.enabled && (
+                  <Text style={styles.helperText}>Capacity applies to each date of the series</Text>
+                )}
+                {errors.capacity && <Text style={styles.errorText}>{errors.capacity}</Text>}
               </View>
+
+              <Text style={styles.inputLabel}>Ticket types</Text>
+              <Text style={styles.helperText}>Without ticket types, every guest pays the event price.</Text>
+              <TicketTiersEditor
+                value={form.ticketTiers}
+                onChange={(ticketTiers) => setForm({ ...form, ticketTiers })}
+              />
+              {errors.ticketTiers && <Text style={styles.errorText}>{errors.ticketTiers}</Text>}
             </View>
 
             {/* Date and Time */}
@@ -423,6 +490,15 @@ const AddEventScreen: React.FC<AddEventScreenProps> = ({ route, navigation }) =>
                 <Icon name="clear" size={16} color={colors.textMuted} />
                 <Text style={styles.clearDatesText}>Clear Dates</Text>
               </TouchableOpacity>
+
+              <View style={styles.recurrenceGroup}>
+                <RecurrenceEditor
+                  value={form.recurrence}
+                  onChange={(recurrence) => setForm({ ...form, recurrence })}
+                  startDay={form.startDate ? getTijuanaWeekday(form.startDate) : null}
+                />
+                {errors.recurrence && <Text style={styles.errorText}>{errors.recurrence}</Text>}
+              </View>
             </View>
 
             {/* Submit Button */}
@@ -636,6 +712,9 @@ const styles = StyleSheet.create({
     alignSelf: 'flex-start',
     marginTop: 8,
   },
+  recurrenceGroup: {
+    marginTop: 20,
+  },
   clearDatesText: {
     color: colors.textMuted,
     marginLeft: 4,
@@ -646,6 +725,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginTop: 4,
   },
+  helperText: {
+    fontSize: 13,
+    color: colors.textMuted,
+    marginBottom: 12,
+  },
   buttonContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1,7 +1,7 @@
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   KeyboardAvoidingView,
@@ -15,8 +15,26 @@ import {
   View
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import RecurrenceEditor from '../../../components/RecurrenceEditor';
+import RecurrenceExceptionsEditor from '../../../components/RecurrenceExceptionsEditor';
+import TicketTiersEditor from '../../../components/TicketTiersEditor';
 import { BusinessStackParamList } from '../../../navigation/userNavigation';
+import { ApiError } from '../../../services/ApiErrors';
 import BusinessService from '../../../services/BusinessService';
+import {
+  EMPTY_RECURRENCE_DRAFT,
+  parseRecurrenceDraft,
+  RecurrenceDraft,
+  toRecurrenceDraft,
+} from '../../../services/EventRecurrenceService';
+import {
+  getLowestTierPrice,
+  parseTicketTierDrafts,
+  TicketTierDraft,
+  toTicketTierDrafts,
+} from '../../../services/EventTicketService';
+import { getTijuanaWeekday } from '../../../services/TimeZoneService';
+import { RecurrenceException } from '../../../types/models';
 
 const isWeb = Platform.OS === 'web';
 
@@ -58,6 +76,10 @@ interface EventData {
   end: Date;
   image: string;
   price: string;
+  capacity: string;
+  ticketTiers: TicketTierDraft[];
+  recurrence: RecurrenceDraft;
+  recurrenceExceptions: RecurrenceException[];
 }
 
 // Universal DatePicker Component
@@ -164,7 +186,17 @@ const EditEventScreen: React.FC<Props> = ({ route, navigation }) => {
     end: new Date(Date.now() + 3600000), // 1 hour later
     image: '',
     price: '0',
+    capacity: '',
+    ticketTiers: [],
+    recurrence: EMPTY_RECURRENCE_DRAFT,
+    recurrenceExceptions: [],
   });
+  const [reservedSpots, setReservedSpots] = useState(0);
+  // Regla vigente del formulario, para listar las fechas que se pueden cambiar
+  const recurrenceRule = useMemo(
+    () => parseRecurrenceDraft(eventData.recurrence, eventData.start).rule,
+    [eventData.recurrence, eventData.start]
+  );
 
   // Universal date picker states
   const [showStartDatePicker, setShowStartDatePicker] = useState(false);
@@ -184,50 +216,31 @@ const EditEventScreen: React.FC<Props> = ({ route, navigation }) => {
       setLoading(true);
       console.log('Loading event data for eventId:', eventId);
       
-      const response = await BusinessService.getEvent(barId, eventId);
-      console.log('Event data response:', response.data);
-      
-      if (response && response.data) {
-        let event;
-        
-        // Handle different response structures
-        if (response.data.success && response.data.data) {
-          event = response.data.data;
-        } else if (response.data.success === false) {
-          console.error('API returned success: false', response.data);
-          return;
-        } else {
-          // Direct event data without success wrapper
-          event = response.data;
-        }
-        
-        if (event) {
-          const eventInfo = {
-            name: event.name || '',
-            description: event.description || '',
-            location: event.location || '',
-            start: new Date(event.start || Date.now()),
-            end: new Date(event.end || Date.now() + 3600000),
-            image: event.image || '',
-            price: event.price?.toString() || '0',
-          };
-          
-          console.log('Processed event info:', eventInfo);
-          
-          // Save original data and current data
-          setOriginalEventData(eventInfo);
-          setEventData(eventInfo);
-        } else {
-          console.error('No event data found in response');
-        }
-      } else {
-        console.error('Invalid response structure:', response);
-      }
+      const event = await BusinessService.getEvent(barId, eventId);
+      const eventInfo = {
+        name: event.name,
+        description: event.description,
+        location: event.location,
+        start: new Date(event.start),
+        end: new Date(event.end),
+        image: event.image,
+        price: event.price.toString(),
+        capacity: event.capacity?.toString() ?? '',
+        ticketTiers: toTicketTierDrafts(event.ticketTiers),
+        recurrence: toRecurrenceDraft(event.recurrence),
+        recurrenceExceptions: event.recurrenceExceptions,
+      };
+
+      console.log('Processed event info:', eventInfo);
+
+      // Save original data and current data
+      setOriginalEventData(eventInfo);
+      setEventData(eventInfo);
+      setReservedSpots(event.reservedSpots);
     } catch (error) {
       console.error('Error loading event data:', error);
-      if (typeof error === 'object' && error !== null && 'response' in error) {
-        // @ts-expect-error: dynamic error shape from axios or fetch
-        console.error('Error details:', error.response?.data);
+      if (error instanceof ApiError) {
+        console.error('Error details:', error.data);
       }
     } finally {
       setLoading(false);
@@ -244,18 +257,40 @@ const EditEventScreen: React.FC<Props> = ({ route, navigation }) => {
     }
 
     const price = parseFloat(eventData.price);
-    if (isNaN(price) || price < 0) {
+    if (eventData.ticketTiers.length === 0 && (isNaN(price) || price < 0)) {
       return 'Price must be a positive number';
     }
 
+    const capacity = eventData.capacity.trim();
+    if (capacity && (!/^\d+$/.test(capacity) || parseInt(capacity, 10) < 1)) {
+      return 'Capacity must be a whole number greater than 0';
+    }
+
+    if (capacity && parseInt(capacity, 10) < reservedSpots) {
+      return eventData.recurrence.enabled
+        ? `Capacity cannot be lower than the ${reservedSpots} spots already reserved for a single date`
+        : `Capacity cannot be lower than the ${reservedSpots} spots already reserved`;
+    }
+
+    const { error: tiersError } = parseTicketTierDrafts(eventData.ticketTiers);
+    if (tiersError) {
+      return tiersError;
+    }
+
     if (eventData.start >= eventData.end) {
       return 'End time must be after start time';
     }
 
-    if (eventData.start < new Date()) {
+    // Una serie que ya empezó conserva su primer inicio
+    if (eventData.start < new Date() && !eventData.recurrence.enabled) {
       return 'Start time cannot be in the past';
     }
 
+    const { error: recurrenceError } = parseRecurrenceDraft(eventData.recurrence, eventData.start);
+    if (recurrenceError) {
+      return recurrenceError;
+    }
+
     return null;
   };
 
@@ -269,6 +304,8 @@ const EditEventScreen: React.FC<Props> = ({ route, navigation }) => {
     try {
       setSaving(true);
       
+      const { tiers } = parseTicketTierDrafts(eventData.ticketTiers);
+      const { rule } = parseRecurrenceDraft(eventData.recurrence, eventData.start);
       const updateData = {
         name: eventData.name.trim(),
         description: eventData.description.trim(),
@@ -276,14 +313,18 @@ const EditEventScreen: React.FC<Props> = ({ route, navigation }) => {
         start: eventData.start,
         end: eventData.end,
         image: eventData.image.trim() || undefined,
-        price: parseFloat(eventData.price),
+        // Con tipos de entrada el precio del evento es el "desde"
+        price: tiers.length > 0 ? getLowestTierPrice(tiers) : parseFloat(eventData.price),
+        // null quita el cupo que tuviera el evento
+        capacity: eventData.capacity.trim() ? parseInt(eventData.capacity, 10) : null,
+        ticketTiers: tiers,
+        // null quita la repetición; las excepciones solo aplican a una serie
+        recurrence: rule,
+        recurrenceExceptions: rule ? eventData.recurrenceExceptions : [],
       };
 
-      const response = await BusinessService.updateEvent(barId, eventId, updateData);
-      
-      if (response.data && response.data.success) {
-        setSuccessModalVisible(true);
-      }
+      await BusinessService.updateEvent(barId, eventId, updateData);
+      setSuccessModalVisible(true);
     } catch (error) {
       console.error('Error updating event:', error);
     } finally {
@@ -419,17 +460,19 @@ const EditEventScreen: React.FC<Props> = ({ route, navigation }) => {
             />
           </View>
 
-          <View style={styles.inputGroup}>
-            <Text style={styles.label}>Price</Text>
-            <TextInput
-              style={styles.input}
-              value={eventData.price}
-              onChangeText={(text) => setEventData(prev => ({ ...prev, price: text }))}
-              placeholder="0.00"
-              placeholderTextColor={colors.textMuted}
-              keyboardType="decimal-pad"
-            />
-          </View>
+          {eventData.ticketTiers.length === 0 && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Price</Text>
+              <TextInput
+                style={styles.input}
+                value={eventData.price}
+                onChangeText={(text) => setEventData(prev => ({ ...prev, price: text }))}
+                placeholder="0.00"
+                placeholderTextColor={colors.textMuted}
+                keyboardType="decimal-pad"
+              />
+            </View>
+          )}
 
           <View style={styles.inputGroup}>
             <Text style={styles.label}>Event Image URL</Text>
@@ -445,6 +488,39 @@ const EditEventScreen: React.FC<Props> = ({ route, navigation }) => {
           </View>
         </View>
 
+        {/* Tickets */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Tickets</Text>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Capacity</Text>
+            <TextInput
+              style={styles.input}
+              value={eventData.capacity}
+              onChangeText={(text) => setEventData(prev => ({ ...prev, capacity: text }))}
+              placeholder="Unlimited"
+              placeholderTextColor={colors.textMuted}
+              keyboardType="number-pad"
+            />
+            {eventData.recurrence.enabled && (
+              <Text style={styles.helperText}>Capacity applies to each date of the series</Text>
+            )}
+            {reservedSpots > 0 && (
+              <Text style={styles.helperText}>
+                {eventData.recurrence.enabled
+                  ? `Up to ${reservedSpots} spots already reserved for a single date`
+                  : `${reservedSpots} spots already reserved`}
+              </Text>
+            )}
+          </View>
+
+          <Text style={styles.label}>Ticket types</Text>
+          <TicketTiersEditor
+            value={eventData.ticketTiers}
+            onChange={(ticketTiers) => setEventData(prev => ({ ...prev, ticketTiers }))}
+          />
+        </View>
+
         {/* Date and Time */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Date & Time</Text>
@@ -498,8 +574,28 @@ const EditEventScreen: React.FC<Props> = ({ route, navigation }) => {
               </TouchableOpacity>
             </View>
           </View>
+
+          <RecurrenceEditor
+            value={eventData.recurrence}
+            onChange={(recurrence) => setEventData(prev => ({ ...prev, recurrence }))}
+            startDay={getTijuanaWeekday(eventData.start)}
+          />
         </View>
 
+        {recurrenceRule && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Upcoming Dates</Text>
+            <Text style={styles.sectionHint}>Cancel or move a single date without changing the rest of the series.</Text>
+            <RecurrenceExceptionsEditor
+              start={eventData.start}
+              end={eventData.end}
+              recurrence={recurrenceRule}
+              value={eventData.recurrenceExceptions}
+              onChange={(recurrenceExceptions) => setEventData(prev => ({ ...prev, recurrenceExceptions }))}
+            />
+          </View>
+        )}
+
         <View style={styles.bottomPadding} />
       </ScrollView>
 
@@ -699,6 +795,17 @@ const styles = StyleSheet.create({
     textAlign: 'right',
     marginTop: 4,
   },
+  helperText: {
+    fontSize: 12,
+    color: colors.textMuted,
+    marginTop: 4,
+  },
+  sectionHint: {
+    fontSize: 14,
+    color: colors.textMuted,
+    marginTop: -8,
+    marginBottom: 12,
+  },
   // New date/time picker styles
   dateTimeContainer: {
     flexDirection: 'row',
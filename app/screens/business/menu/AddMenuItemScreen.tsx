@@ -18,8 +18,19 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import DietaryTagsEditor from '../../../components/DietaryTagsEditor';
+import ServingSizesEditor from '../../../components/ServingSizesEditor';
 import { BusinessStackParamList } from '../../../navigation/userNavigation';
+import { MAX_IBU } from '../../../services/BeerService';
 import BusinessService from '../../../services/BusinessService';
+import {
+  EMPTY_MENU_ITEM_FORM,
+  MenuItemForm,
+  MenuItemFormErrors,
+  toMenuItemPayload,
+  validateMenuItemForm,
+} from '../../../services/MenuItemFormService';
+import { BEER_STYLES, MenuItemType } from '../../../types/models';
 
 const { width } = Dimensions.get('window');
 const isTablet = width >= 768;
@@ -53,83 +64,21 @@ type AddMenuItemScreenProps = {
   navigation: AddMenuItemScreenNavigationProp;
 };
 
-interface MenuItemForm {
-  name: string;
-  description: string;
-  price: string;
-  photo: string;
-  type: 'alcohol' | 'comida' | 'bebida';
-  alcoholPercentage: string;
-  volume: string;
-}
-
 const AddMenuItemScreen: React.FC<AddMenuItemScreenProps> = ({ route, navigation }) => {
   const { barId, barName } = route.params;
 
-  const [form, setForm] = useState<MenuItemForm>({
-    name: '',
-    description: '',
-    price: '',
-    photo: '',
-    type: 'comida', // Default to food
-    alcoholPercentage: '',
-    volume: '',
-  });
-
-  const [errors, setErrors] = useState<Partial<Record<keyof MenuItemForm, string>>>({});
+  const [form, setForm] = useState<MenuItemForm>(EMPTY_MENU_ITEM_FORM);
+
+  const [errors, setErrors] = useState<MenuItemFormErrors>({});
   const [loading, setLoading] = useState(false);
   const [photoLoading, setPhotoLoading] = useState(false);
 
   const validateForm = (): boolean => {
-    const newErrors: Partial<Record<keyof MenuItemForm, string>> = {};
-
-    if (!form.name.trim()) {
-      newErrors.name = 'Name is required';
-    }
-
-    if (!form.description.trim()) {
-      newErrors.description = 'Description is required';
-    }
-
-    if (!form.price.trim()) {
-      newErrors.price = 'Price is required';
-    } else if (isNaN(parseFloat(form.price)) || parseFloat(form.price) < 0) {
-      newErrors.price = 'Price must be a positive number';
-    }
-
-    if (form.type === 'alcohol') {
-      if (!form.alcoholPercentage.trim()) {
-        newErrors.alcoholPercentage = 'Alcohol percentage is required for alcoholic items';
-      } else {
-        const alcoholPercent = parseFloat(form.alcoholPercentage);
-        if (isNaN(alcoholPercent) || alcoholPercent <= 0 || alcoholPercent > 100) {
-          newErrors.alcoholPercentage = 'Alcohol percentage must be between 0 and 100';
-        }
-      }
-    }
-
-    if (form.volume.trim() && (isNaN(parseFloat(form.volume)) || parseFloat(form.volume) < 0)) {
-      newErrors.volume = 'Volume must be a positive number';
-    }
-
-    // Validate URL if provided
-    if (form.photo && !isValidUrl(form.photo)) {
-      newErrors.photo = 'Please enter a valid URL';
-    }
-
+    const newErrors = validateMenuItemForm(form);
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
-  const isValidUrl = (url: string): boolean => {
-    try {
-      new URL(url);
-      return true;
-    } catch (e) {
-      return false;
-    }
-  };
-
   const handleSubmit = async () => {
     if (!validateForm()) return;
 
@@ -138,13 +87,7 @@ const AddMenuItemScreen: React.FC<AddMenuItemScreenProps> = ({ route, navigation
 
       const menuItemData = {
         bar: barId,
-        name: form.name.trim(),
-        description: form.description.trim(),
-        price: parseFloat(form.price),
-        photo: form.photo.trim() || undefined,
-        type: form.type,
-        alcoholPercentage: form.type === 'alcohol' ? parseFloat(form.alcoholPercentage) : 0,
-        volume: form.volume ? parseFloat(form.volume) : 0,
+        ...toMenuItemPayload(form),
       };
 
       await BusinessService.addMenuItem(barId, menuItemData);
@@ -167,7 +110,7 @@ const AddMenuItemScreen: React.FC<AddMenuItemScreenProps> = ({ route, navigation
     }
   };
 
-  const renderTypeOption = (type: 'alcohol' | 'comida' | 'bebida', label: string, icon: string) => (
+  const renderTypeOption = (type: MenuItemType, label: string, icon: string) => (
     <TouchableOpacity
       style={[
         styles.typeOption,
@@ -293,6 +236,19 @@ const AddMenuItemScreen: React.FC<AddMenuItemScreenProps> = ({ route, navigation
                 />
                 {errors.price && <Text style={styles.errorText}>{errors.price}</Text>}
               </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Happy Hour Price</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Optional, overrides the bar's happy hour discount"
+                  placeholderTextColor={colors.textMuted}
+                  value={form.happyHourPrice}
+                  onChangeText={(text) => setForm({ ...form, happyHourPrice: text })}
+                  keyboardType="decimal-pad"
+                />
+                {errors.happyHourPrice && <Text style={styles.errorText}>{errors.happyHourPrice}</Text>}
+              </View>
             </View>
 
             {/* Alcohol-specific fields */}
@@ -315,6 +271,92 @@ const AddMenuItemScreen: React.FC<AddMenuItemScreenProps> = ({ route, navigation
               </View>
             )}
 
+            {/* Beer details */}
+            {form.type === 'alcohol' && (
+              <View style={styles.formSection}>
+                <Text style={styles.sectionTitle}>Beer Details</Text>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Style</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="IPA, Stout, Lager..."
+                    placeholderTextColor={colors.textMuted}
+                    value={form.beerStyle}
+                    onChangeText={(text) => setForm({ ...form, beerStyle: text })}
+                  />
+                  <View style={styles.styleChips}>
+                    {BEER_STYLES.map((style) => {
+                      const selected = form.beerStyle === style;
+                      return (
+                        <TouchableOpacity
+                          key={style}
+                          style={[styles.styleChip, selected && styles.styleChipSelected]}
+                          onPress={() => setForm({ ...form, beerStyle: selected ? '' : style })}
+                        >
+                          <Text style={[styles.styleChipText, selected && styles.styleChipTextSelected]}>{style}</Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>IBU</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder={`0-${MAX_IBU}`}
+                    placeholderTextColor={colors.textMuted}
+                    value={form.ibu}
+                    onChangeText={(text) => setForm({ ...form, ibu: text })}
+                    keyboardType="number-pad"
+                  />
+                  {errors.ibu && <Text style={styles.errorText}>{errors.ibu}</Text>}
+                </View>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Brewery</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Who brews it"
+                    placeholderTextColor={colors.textMuted}
+                    value={form.brewery}
+                    onChangeText={(text) => setForm({ ...form, brewery: text })}
+                  />
+                </View>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Origin</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="City, region or country"
+                    placeholderTextColor={colors.textMuted}
+                    value={form.origin}
+                    onChangeText={(text) => setForm({ ...form, origin: text })}
+                  />
+                </View>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Serving Sizes</Text>
+                  <ServingSizesEditor
+                    value={form.servings}
+                    onChange={(servings) => setForm({ ...form, servings })}
+                  />
+                  {errors.servings && <Text style={styles.errorText}>{errors.servings}</Text>}
+                </View>
+              </View>
+            )}
+
+            {/* Dietary info */}
+            <View style={styles.formSection}>
+              <Text style={styles.sectionTitle}>Dietary Info</Text>
+              <DietaryTagsEditor
+                value={form}
+                onChange={({ dietaryTags, allergens, spicyLevel }) => setForm({ ...form, dietaryTags, allergens, spicyLevel })}
+              />
+              {errors.allergens && <Text style={styles.errorText}>{errors.allergens}</Text>}
+            </View>
+
             {/* Volume (optional for all types) */}
             <View style={styles.formSection}>
               <Text style={styles.sectionTitle}>Additional Details</Text>
@@ -481,6 +523,31 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginTop: 4,
   },
+  styleChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  styleChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  styleChipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  styleChipText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  styleChipTextSelected: {
+    color: colors.text,
+  },
   buttonContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -14,8 +14,20 @@ import {
     View
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import DietaryTagsEditor from '../../../components/DietaryTagsEditor';
+import ServingSizesEditor from '../../../components/ServingSizesEditor';
 import { BusinessStackParamList } from '../../../navigation/userNavigation';
+import { ApiError } from '../../../services/ApiErrors';
+import { MAX_IBU } from '../../../services/BeerService';
 import BusinessService from '../../../services/BusinessService';
+import {
+    EMPTY_MENU_ITEM_FORM,
+    MenuItemForm,
+    toMenuItemForm,
+    toMenuItemPayload,
+    validateMenuItemForm,
+} from '../../../services/MenuItemFormService';
+import { BEER_STYLES, MenuItemType } from '../../../types/models';
 
 // Dark theme colors
 const colors = {
@@ -45,31 +57,12 @@ interface Props {
   navigation: EditMenuItemScreenNavigationProp;
 }
 
-interface MenuItemData {
-  name: string;
-  description: string;
-  price: string;
-  photo: string;
-  type: 'alcohol' | 'comida' | 'bebida';
-  alcoholPercentage: string;
-  volume: string;
-}
-
 const EditMenuItemScreen: React.FC<Props> = ({ route, navigation }) => {
   const { barId, itemId, barName, itemName } = route.params;
   
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [originalItemData, setOriginalItemData] = useState<MenuItemData | null>(null);
-  const [itemData, setItemData] = useState<MenuItemData>({
-    name: '',
-    description: '',
-    price: '0',
-    photo: '',
-    type: 'comida',
-    alcoholPercentage: '0',
-    volume: '0',
-  });
+  const [itemData, setItemData] = useState<MenuItemForm>(EMPTY_MENU_ITEM_FORM);
 
   useEffect(() => {
     loadMenuItemData();
@@ -79,8 +72,8 @@ const EditMenuItemScreen: React.FC<Props> = ({ route, navigation }) => {
       setLoading(true);
       console.log('Loading menu item data for itemId:', itemId);
       
-      const response = await BusinessService.getMyBarMenu(barId);
-      const item = response.data.find((menuItem: any) => menuItem._id === itemId);
+      const menu = await BusinessService.getMyBarMenu(barId);
+      const item = menu.find((menuItem) => menuItem._id === itemId);
       console.log('Menu item data response:', item);
       
       if (!item) {
@@ -89,26 +82,11 @@ const EditMenuItemScreen: React.FC<Props> = ({ route, navigation }) => {
         return;
       }
       
-      const itemInfo = {
-        name: item.name || '',
-        description: item.description || '',
-        price: item.price?.toString() || '0',
-        photo: item.photo || '',
-        type: item.type || 'comida',
-        alcoholPercentage: item.alcoholPercentage?.toString() || '0',
-        volume: item.volume?.toString() || '0',
-      };
-      
-      console.log('Processed item info:', itemInfo);
-      
-      // Save original data and current data
-      setOriginalItemData(itemInfo);
-      setItemData(itemInfo);
+      setItemData(toMenuItemForm(item));
     } catch (error) {
       console.error('Error loading menu item data:', error);
-      if (typeof error === 'object' && error !== null && 'response' in error) {
-        // @ts-expect-error: dynamic error shape from axios or fetch
-        console.error('Error details:', error.response?.data);
+      if (error instanceof ApiError) {
+        console.error('Error details:', error.data);
       }
       Alert.alert('Error', 'Could not load menu item information. Please try again.');
     } finally {
@@ -116,39 +94,13 @@ const EditMenuItemScreen: React.FC<Props> = ({ route, navigation }) => {
     }
   };
 
+  // Mismas reglas que el alta y la importación; se avisa del primer problema
   const validateForm = (): boolean => {
-    if (!itemData.name.trim()) {
-      Alert.alert('Error', 'Item name is required');
-      return false;
-    }
-
-    if (!itemData.description.trim()) {
-      Alert.alert('Error', 'Item description is required');
-      return false;
-    }
-
-    const price = parseFloat(itemData.price);
-    if (isNaN(price) || price < 0) {
-      Alert.alert('Error', 'Price must be a positive number');
+    const [firstError] = Object.values(validateMenuItemForm(itemData));
+    if (firstError) {
+      Alert.alert('Error', firstError);
       return false;
     }
-
-    if (itemData.type === 'alcohol') {
-      const alcoholPercentage = parseFloat(itemData.alcoholPercentage);
-      if (isNaN(alcoholPercentage) || alcoholPercentage <= 0 || alcoholPercentage > 100) {
-        Alert.alert('Error', 'Alcohol percentage must be between 0 and 100 for alcoholic items');
-        return false;
-      }
-    }
-
-    if (itemData.volume.trim()) {
-      const volume = parseFloat(itemData.volume);
-      if (isNaN(volume) || volume < 0) {
-        Alert.alert('Error', 'Volume must be a positive number');
-        return false;
-      }
-    }
-
     return true;
   };
 
@@ -158,37 +110,23 @@ const EditMenuItemScreen: React.FC<Props> = ({ route, navigation }) => {
     try {
       setSaving(true);
       
-      const updateData = {
-        name: itemData.name.trim(),
-        description: itemData.description.trim(),
-        price: parseFloat(itemData.price),
-        photo: itemData.photo.trim() || undefined,
-        type: itemData.type,
-        alcoholPercentage: itemData.type === 'alcohol' ? parseFloat(itemData.alcoholPercentage) : 0,
-        volume: itemData.volume ? parseFloat(itemData.volume) : 0,
-      };
+      await BusinessService.updateMenuItem(barId, itemId, toMenuItemPayload(itemData));
 
-      const response = await BusinessService.updateMenuItem(barId, itemId, updateData);
-      
-      if (response.data && response.data.success) {
-        Alert.alert(
-          'Success',
-          'Menu item updated successfully',
-          [
-            {
-              text: 'OK',
-              onPress: () => {
-                navigation.navigate('BusinessDetails', { 
-                  barId, 
-                  barName 
-                });
-              }
+      Alert.alert(
+        'Success',
+        'Menu item updated successfully',
+        [
+          {
+            text: 'OK',
+            onPress: () => {
+              navigation.navigate('BusinessDetails', { 
+                barId, 
+                barName 
+              });
             }
-          ]
-        );
-      } else {
-        Alert.alert('Error', 'Failed to update menu item');
-      }
+          }
+        ]
+      );
     } catch (error) {
       console.error('Error updating menu item:', error);
       Alert.alert('Error', 'Could not update menu item');
@@ -197,7 +135,7 @@ const EditMenuItemScreen: React.FC<Props> = ({ route, navigation }) => {
     }
   };
 
-  const renderTypeOption = (type: 'alcohol' | 'comida' | 'bebida', label: string, icon: string) => (
+  const renderTypeOption = (type: MenuItemType, label: string, icon: string) => (
     <TouchableOpacity
       key={type}
       style={[
@@ -315,6 +253,18 @@ const EditMenuItemScreen: React.FC<Props> = ({ route, navigation }) => {
             />
           </View>
 
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Happy Hour Price</Text>
+            <TextInput
+              style={styles.input}
+              value={itemData.happyHourPrice}
+              onChangeText={(text) => setItemData(prev => ({ ...prev, happyHourPrice: text }))}
+              placeholder="Optional, overrides the bar's happy hour discount"
+              placeholderTextColor={colors.textMuted}
+              keyboardType="decimal-pad"
+            />
+          </View>
+
           <View style={styles.inputGroup}>
             <Text style={styles.label}>Photo URL</Text>
             <TextInput
@@ -351,6 +301,91 @@ const EditMenuItemScreen: React.FC<Props> = ({ route, navigation }) => {
           </View>
         )}
 
+        {/* Beer details */}
+        {itemData.type === 'alcohol' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Beer Details</Text>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Style</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="IPA, Stout, Lager..."
+                placeholderTextColor={colors.textMuted}
+                value={itemData.beerStyle}
+                onChangeText={(text) => setItemData(prev => ({ ...prev, beerStyle: text }))}
+              />
+              <View style={styles.styleChips}>
+                {BEER_STYLES.map((style) => {
+                  const selected = itemData.beerStyle === style;
+                  return (
+                    <TouchableOpacity
+                      key={style}
+                      style={[styles.styleChip, selected && styles.styleChipSelected]}
+                      onPress={() => setItemData(prev => ({ ...prev, beerStyle: selected ? '' : style }))}
+                    >
+                      <Text style={[styles.styleChipText, selected && styles.styleChipTextSelected]}>{style}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>IBU</Text>
+              <TextInput
+                style={styles.input}
+                placeholder={`0-${MAX_IBU}`}
+                placeholderTextColor={colors.textMuted}
+                value={itemData.ibu}
+                onChangeText={(text) => setItemData(prev => ({ ...prev, ibu: text }))}
+                keyboardType="number-pad"
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Brewery</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Who brews it"
+                placeholderTextColor={colors.textMuted}
+                value={itemData.brewery}
+                onChangeText={(text) => setItemData(prev => ({ ...prev, brewery: text }))}
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Origin</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="City, region or country"
+                placeholderTextColor={colors.textMuted}
+                value={itemData.origin}
+                onChangeText={(text) => setItemData(prev => ({ ...prev, origin: text }))}
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Serving Sizes</Text>
+              <ServingSizesEditor
+                value={itemData.servings}
+                onChange={(servings) => setItemData(prev => ({ ...prev, servings }))}
+              />
+            </View>
+          </View>
+        )}
+
+        {/* Dietary Info */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Dietary Info</Text>
+          <DietaryTagsEditor
+            value={itemData}
+            onChange={({ dietaryTags, allergens, spicyLevel }) =>
+              setItemData(prev => ({ ...prev, dietaryTags, allergens, spicyLevel }))
+            }
+          />
+        </View>
+
         {/* Additional Details */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Additional Details</Text>
@@ -528,6 +563,31 @@ const styles = StyleSheet.create({
     color: colors.textMuted,
     marginTop: 4,
   },
+  styleChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  styleChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  styleChipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  styleChipText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  styleChipTextSelected: {
+    color: colors.text,
+  },
   bottomPadding: {
     height: 50,
   },
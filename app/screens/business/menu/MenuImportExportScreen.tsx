@@ -0,0 +1,743 @@
+import { RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { BusinessStackParamList } from '../../../navigation/userNavigation';
+import BusinessService from '../../../services/BusinessService';
+import { pickTextFile, shareTextFile } from '../../../services/FileService';
+import {
+  MENU_CSV_TEMPLATE,
+  MenuFileFormat,
+  MenuImportAction,
+  MenuImportRow,
+  menuToCsv,
+  menuToJson,
+  planMenuImport,
+  readMenuFile,
+  toImportPayload,
+} from '../../../services/MenuImportService';
+import { MenuItem } from '../../../types/models';
+
+// Dark theme colors
+const colors = {
+  background: '#0a0a0a',
+  surface: '#1a1a1a',
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  textMuted: '#71717a',
+  border: '#27272a',
+  success: '#10b981',
+  warning: '#f59e0b',
+  error: '#ef4444',
+  inputBackground: '#27272a',
+};
+
+type MenuImportExportScreenRouteProp = RouteProp<BusinessStackParamList, 'MenuImportExportScreen'>;
+type MenuImportExportScreenNavigationProp = StackNavigationProp<BusinessStackParamList>;
+
+type MenuImportExportScreenProps = {
+  route: MenuImportExportScreenRouteProp;
+  navigation: MenuImportExportScreenNavigationProp;
+};
+
+type Tab = 'import' | 'export';
+
+const FORMAT_LABELS: Record<MenuFileFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+};
+
+const FORMAT_MIME_TYPES: Record<MenuFileFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+// Algunos sistemas reportan los CSV como texto plano o como hoja de cálculo
+const IMPORT_MIME_TYPES = ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel', 'application/json'];
+
+const exportFileName = (barName: string, format: MenuFileFormat): string => {
+  const slug = barName
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'bar'}-menu.${format}`;
+};
+
+const ACTION_LABELS: Record<MenuImportAction, string> = {
+  create: 'New',
+  update: 'Update',
+  skip: 'Skip',
+  invalid: 'Error',
+};
+
+const ACTION_COLORS: Record<MenuImportAction, string> = {
+  create: colors.success,
+  update: colors.primary,
+  skip: colors.textMuted,
+  invalid: colors.error,
+};
+
+const MenuImportExportScreen: React.FC<MenuImportExportScreenProps> = ({ route, navigation }) => {
+  const { barId, barName } = route.params;
+
+  const [activeTab, setActiveTab] = useState<Tab>('import');
+  const [menu, setMenu] = useState<MenuItem[]>([]);
+  const [menuLoading, setMenuLoading] = useState(true);
+
+  const [importFormat, setImportFormat] = useState<MenuFileFormat>('csv');
+  const [input, setInput] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [updateExisting, setUpdateExisting] = useState(true);
+  const [rows, setRows] = useState<MenuImportRow[] | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const [exportFormat, setExportFormat] = useState<MenuFileFormat>('csv');
+
+  const loadMenu = useCallback(async () => {
+    try {
+      setMenuLoading(true);
+      // El menú del dueño incluye los items ocultos, así se comparan todos por nombre
+      setMenu(await BusinessService.getMyBarMenu(barId));
+    } catch (error) {
+      console.error('Error fetching menu items:', error);
+      Alert.alert('Error', 'Could not load the current menu');
+    } finally {
+      setMenuLoading(false);
+    }
+  }, [barId]);
+
+  useEffect(() => {
+    loadMenu();
+  }, [loadMenu]);
+
+  const exported = useMemo(
+    () => (exportFormat === 'csv' ? menuToCsv(menu) : menuToJson(menu)),
+    [menu, exportFormat]
+  );
+
+  const pending = rows?.filter((row) => row.action === 'create' || row.action === 'update') ?? [];
+  const counts = (rows ?? []).reduce<Record<MenuImportAction, number>>(
+    (total, row) => ({ ...total, [row.action]: total[row.action] + 1 }),
+    { create: 0, update: 0, skip: 0, invalid: 0 }
+  );
+
+  // Cualquier cambio en la entrada invalida la vista previa
+  const resetPreview = () => {
+    setRows(null);
+    setFileError(null);
+  };
+
+  const handlePreview = () => {
+    const { records, error } = readMenuFile(input, importFormat);
+    if (error) {
+      setRows(null);
+      setFileError(error);
+      return;
+    }
+    if (records.length === 0) {
+      setRows(null);
+      setFileError('The file has no items');
+      return;
+    }
+    setFileError(null);
+    setRows(planMenuImport(records, menu, { updateExisting }));
+  };
+
+  const handleImport = async () => {
+    if (pending.length === 0) return;
+
+    setImporting(true);
+    setProgress(0);
+    const failed: string[] = [];
+
+    // Uno por uno para no saturar la API y poder reportar qué filas fallaron
+    for (const row of pending) {
+      try {
+        if (row.action === 'update' && row.existing) {
+          await BusinessService.updateMenuItem(barId, row.existing._id, toImportPayload(row));
+        } else {
+          await BusinessService.addMenuItem(barId, { bar: barId, ...toImportPayload(row) });
+        }
+      } catch (error) {
+        console.error(`Error importing row ${row.line}:`, error);
+        failed.push(`Row ${row.line}: ${row.form.name}`);
+      }
+      setProgress((current) => current + 1);
+    }
+
+    setImporting(false);
+    const imported = pending.length - failed.length;
+    console.log(`📥 Menú importado: ${imported}/${pending.length} items`);
+
+    if (failed.length === 0) {
+      Alert.alert('Import complete', `${imported} item${imported === 1 ? '' : 's'} saved`);
+      setInput('');
+      setFileName(null);
+    } else {
+      Alert.alert('Import finished with errors', `${imported} saved, ${failed.length} failed:\n${failed.join('\n')}`);
+    }
+    setRows(null);
+    await loadMenu();
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const file = await pickTextFile(IMPORT_MIME_TYPES);
+      if (!file) return;
+      // El formato se deduce de la extensión; lo demás se lee como CSV
+      setImportFormat(file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+      setInput(file.contents);
+      setFileName(file.name);
+      resetPreview();
+    } catch (error) {
+      console.error('Error reading menu file:', error);
+      Alert.alert('Error', 'Could not read the selected file');
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      await shareTextFile(exportFileName(barName, exportFormat), exported, FORMAT_MIME_TYPES[exportFormat]);
+    } catch (error) {
+      console.error('Error sharing menu:', error);
+      Alert.alert('Error', 'Could not share the menu');
+    }
+  };
+
+  const renderFormatChips = (value: MenuFileFormat, onChange: (format: MenuFileFormat) => void) => (
+    <View style={styles.chipsRow}>
+      {(Object.keys(FORMAT_LABELS) as MenuFileFormat[]).map((format) => {
+        const selected = value === format;
+        return (
+          <TouchableOpacity
+            key={format}
+            style={[styles.chip, selected && styles.chipSelected]}
+            onPress={() => onChange(format)}
+          >
+            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{FORMAT_LABELS[format]}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderRow = (row: MenuImportRow) => (
+    <View key={row.line} style={styles.rowCard}>
+      <View style={styles.rowHeader}>
+        <Text style={styles.rowLine}>#{row.line}</Text>
+        <Text style={styles.rowName} numberOfLines={1}>
+          {row.form.name || 'Unnamed item'}
+        </Text>
+        <View style={[styles.actionBadge, { borderColor: ACTION_COLORS[row.action] }]}>
+          <Text style={[styles.actionBadgeText, { color: ACTION_COLORS[row.action] }]}>
+            {ACTION_LABELS[row.action]}
+          </Text>
+        </View>
+      </View>
+      {row.action === 'skip' && (
+        <Text style={styles.rowNote}>
+          {updateExisting ? 'Already on the menu with the same details' : 'Already on the menu'}
+        </Text>
+      )}
+      {row.errors.map((error) => (
+        <Text key={error} style={styles.rowError}>
+          • {error}
+        </Text>
+      ))}
+    </View>
+  );
+
+  const renderImport = () => (
+    <View>
+      <Text style={styles.sectionTitle}>File format</Text>
+      {renderFormatChips(importFormat, (format) => {
+        setImportFormat(format);
+        resetPreview();
+      })}
+
+      <TouchableOpacity style={[styles.secondaryButton, styles.pickFileButton]} onPress={handlePickFile}>
+        <Icon name="folder-open" size={20} color={colors.text} />
+        <Text style={styles.secondaryButtonText} numberOfLines={1}>{fileName ?? 'Choose a file'}</Text>
+      </TouchableOpacity>
+
+      <View style={styles.labelRow}>
+        <Text style={styles.inputLabel}>Or paste the file contents</Text>
+        <TouchableOpacity
+          style={styles.linkButton}
+          onPress={() => {
+            setImportFormat('csv');
+            setInput(MENU_CSV_TEMPLATE);
+            setFileName(null);
+            resetPreview();
+          }}
+        >
+          <Icon name="description" size={16} color={colors.primary} />
+          <Text style={styles.linkButtonText}>Load CSV template</Text>
+        </TouchableOpacity>
+      </View>
+      <TextInput
+        style={[styles.input, styles.fileInput]}
+        value={input}
+        onChangeText={(text) => {
+          setInput(text);
+          setFileName(null);
+          resetPreview();
+        }}
+        placeholder={importFormat === 'csv' ? 'name,description,price,type,...' : '[{ "name": "...", "price": 75 }]'}
+        placeholderTextColor={colors.textMuted}
+        multiline
+        autoCapitalize="none"
+        autoCorrect={false}
+        textAlignVertical="top"
+      />
+      {fileError && <Text style={styles.errorText}>{fileError}</Text>}
+
+      <View style={styles.switchRow}>
+        <View style={styles.switchInfo}>
+          <Text style={styles.switchLabel}>Update existing items</Text>
+          <Text style={styles.switchHint}>Items are matched by name. When off, they are skipped.</Text>
+        </View>
+        <Switch
+          value={updateExisting}
+          onValueChange={(value) => {
+            setUpdateExisting(value);
+            resetPreview();
+          }}
+          trackColor={{ false: colors.surfaceVariant, true: colors.primary }}
+        />
+      </View>
+
+      <TouchableOpacity
+        style={[styles.secondaryButton, (!input.trim() || menuLoading) && styles.buttonDisabled]}
+        onPress={handlePreview}
+        disabled={!input.trim() || menuLoading}
+      >
+        <Icon name="visibility" size={20} color={colors.text} />
+        <Text style={styles.secondaryButtonText}>Preview</Text>
+      </TouchableOpacity>
+
+      {rows && (
+        <View style={styles.previewContainer}>
+          <View style={styles.summaryRow}>
+            {(Object.keys(ACTION_LABELS) as MenuImportAction[]).map((action) => (
+              <View key={action} style={styles.summaryItem}>
+                <Text style={[styles.summaryCount, { color: ACTION_COLORS[action] }]}>{counts[action]}</Text>
+                <Text style={styles.summaryLabel}>{ACTION_LABELS[action]}</Text>
+              </View>
+            ))}
+          </View>
+
+          {rows.map(renderRow)}
+
+          <TouchableOpacity
+            style={[styles.primaryButton, (pending.length === 0 || importing) && styles.buttonDisabled]}
+            onPress={handleImport}
+            disabled={pending.length === 0 || importing}
+          >
+            {importing ? (
+              <>
+                <ActivityIndicator size="small" color={colors.text} />
+                <Text style={styles.primaryButtonText}>
+                  Importing {progress}/{pending.length}
+                </Text>
+              </>
+            ) : (
+              <>
+                <Icon name="file-upload" size={20} color={colors.text} />
+                <Text style={styles.primaryButtonText}>
+                  {pending.length === 0 ? 'Nothing to import' : `Import ${pending.length} item${pending.length === 1 ? '' : 's'}`}
+                </Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+
+  const renderExport = () => (
+    <View>
+      <Text style={styles.sectionTitle}>File format</Text>
+      {renderFormatChips(exportFormat, setExportFormat)}
+
+      {menuLoading ? (
+        <ActivityIndicator size="large" color={colors.primary} style={styles.loader} />
+      ) : menu.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Icon name="restaurant-menu" size={48} color={colors.textMuted} />
+          <Text style={styles.emptyStateText}>This bar has no menu items to export</Text>
+        </View>
+      ) : (
+        <>
+          <Text style={styles.inputLabel}>
+            {menu.length} item{menu.length === 1 ? '' : 's'}, including hidden ones
+          </Text>
+          <TextInput
+            style={[styles.input, styles.fileInput, styles.exportOutput]}
+            value={exported}
+            editable={false}
+            multiline
+            scrollEnabled
+            textAlignVertical="top"
+          />
+          <TouchableOpacity style={styles.primaryButton} onPress={handleShare}>
+            <Icon name={Platform.OS === 'web' ? 'file-download' : 'share'} size={20} color={colors.text} />
+            <Text style={styles.primaryButtonText}>
+              {Platform.OS === 'web' ? 'Download' : 'Share'} {FORMAT_LABELS[exportFormat]} file
+            </Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.background} />
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardAvoidingView}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+            <Icon name="arrow-back" size={24} color={colors.text} />
+          </TouchableOpacity>
+          <View style={styles.headerCenter}>
+            <Text style={styles.headerTitle}>Import & Export</Text>
+            <Text style={styles.headerSubtitle} numberOfLines={1}>{barName}</Text>
+          </View>
+          <View style={styles.headerRight} />
+        </View>
+
+        <View style={styles.tabs}>
+          {(['import', 'export'] as Tab[]).map((tab) => (
+            <TouchableOpacity
+              key={tab}
+              style={[styles.tab, activeTab === tab && styles.tabActive]}
+              onPress={() => setActiveTab(tab)}
+            >
+              <Icon
+                name={tab === 'import' ? 'file-upload' : 'file-download'}
+                size={18}
+                color={activeTab === tab ? colors.primary : colors.textMuted}
+              />
+              <Text style={[styles.tabText, activeTab === tab && styles.tabTextActive]}>
+                {tab === 'import' ? 'Import' : 'Export'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {activeTab === 'import' ? renderImport() : renderExport()}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  keyboardAvoidingView: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  headerRight: {
+    width: 40, // For balance with back button
+  },
+  tabs: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  tab: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 14,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabActive: {
+    borderBottomColor: colors.primary,
+  },
+  tabText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textMuted,
+  },
+  tabTextActive: {
+    color: colors.primary,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  chipsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 20,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: colors.text,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  inputLabel: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 8,
+  },
+  linkButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  input: {
+    backgroundColor: colors.inputBackground,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: colors.text,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  fileInput: {
+    minHeight: 180,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  exportOutput: {
+    maxHeight: 360,
+    marginBottom: 16,
+  },
+  errorText: {
+    color: colors.error,
+    fontSize: 14,
+    marginTop: 4,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginVertical: 20,
+  },
+  switchInfo: {
+    flex: 1,
+  },
+  switchLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  switchHint: {
+    fontSize: 13,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: colors.primary,
+    paddingVertical: 16,
+    borderRadius: 8,
+  },
+  primaryButtonText: {
+    color: colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: colors.surfaceVariant,
+    paddingVertical: 14,
+    borderRadius: 8,
+  },
+  secondaryButtonText: {
+    color: colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  pickFileButton: {
+    marginBottom: 16,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  previewContainer: {
+    marginTop: 24,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryCount: {
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  rowCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 12,
+    marginBottom: 10,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rowLine: {
+    fontSize: 13,
+    color: colors.textMuted,
+  },
+  rowName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  actionBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  actionBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  rowNote: {
+    fontSize: 13,
+    color: colors.textMuted,
+    marginTop: 6,
+  },
+  rowError: {
+    fontSize: 13,
+    color: colors.error,
+    marginTop: 4,
+  },
+  loader: {
+    marginTop: 32,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyStateText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+});
+
+export default MenuImportExportScreen;
@@ -0,0 +1,598 @@
+import { RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import DraggableList from '../../../components/DraggableList';
+import { BusinessStackParamList } from '../../../navigation/userNavigation';
+import BusinessService from '../../../services/BusinessService';
+import { MENU_TYPE_LABELS } from '../../../services/HappyHourService';
+import {
+  createMenuSection,
+  MAX_SECTION_NAME_LENGTH,
+  MenuGroup,
+  moveInList,
+  sortMenuItems,
+  toMenuLayout,
+  validateMenuSections,
+} from '../../../services/MenuSectionService';
+import { MenuItem, MenuSection } from '../../../types/models';
+
+// Dark theme colors
+const colors = {
+  background: '#0a0a0a',
+  surface: '#1a1a1a',
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  textMuted: '#71717a',
+  border: '#27272a',
+  warning: '#f59e0b',
+  error: '#ef4444',
+  star: '#fbbf24',
+  inputBackground: '#27272a',
+};
+
+type MenuLayoutScreenRouteProp = RouteProp<BusinessStackParamList, 'MenuLayoutScreen'>;
+type MenuLayoutScreenNavigationProp = StackNavigationProp<BusinessStackParamList>;
+
+type MenuLayoutScreenProps = {
+  route: MenuLayoutScreenRouteProp;
+  navigation: MenuLayoutScreenNavigationProp;
+};
+
+const UNSECTIONED_KEY = 'unsectioned';
+
+const MenuLayoutScreen: React.FC<MenuLayoutScreenProps> = ({ route, navigation }) => {
+  const { barId, barName } = route.params;
+
+  const [sections, setSections] = useState<MenuSection[]>([]);
+  const [items, setItems] = useState<MenuItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  // Mientras se arrastra una fila el ScrollView no debe moverse
+  const [dragging, setDragging] = useState(false);
+  const [newSectionName, setNewSectionName] = useState('');
+  // Item con el selector de sección abierto
+  const [movingItem, setMovingItem] = useState<MenuItem | null>(null);
+
+  const loadLayout = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [bar, menu] = await Promise.all([BusinessService.getMyBar(barId), BusinessService.getMyBarMenu(barId)]);
+      setSections(bar.menuSections ?? []);
+      setItems(menu);
+      setDirty(false);
+    } catch (error) {
+      console.error('Error loading menu layout:', error);
+      Alert.alert('Error', 'Could not load the menu. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [barId]);
+
+  useEffect(() => {
+    loadLayout();
+  }, [loadLayout]);
+
+  const sectionIds = new Set(sections.map((section) => section.id));
+  // Un item con una sección borrada cuenta como "sin sección"
+  const itemsIn = (sectionId: string | null): MenuItem[] =>
+    sortMenuItems(
+      items.filter((item) =>
+        sectionId ? item.sectionId === sectionId : !item.sectionId || !sectionIds.has(item.sectionId)
+      )
+    );
+
+  // A diferencia del menú del cliente, aquí se muestran también las secciones vacías
+  const groups: MenuGroup[] = [
+    ...sections.map((section) => ({ key: section.id, title: section.name, section, items: itemsIn(section.id) })),
+    { key: UNSECTIONED_KEY, title: 'No section', items: itemsIn(null) },
+  ];
+
+  // Aplica cambios a algunos items y marca la pantalla con cambios sin guardar
+  const patchItems = (changes: Record<string, Partial<MenuItem>>) => {
+    setItems((current) => current.map((item) => (changes[item._id] ? { ...item, ...changes[item._id] } : item)));
+    setDirty(true);
+  };
+
+  const handleReorderItems = (group: MenuGroup, from: number, to: number) => {
+    const ordered = moveInList(group.items, from, to);
+    patchItems(Object.fromEntries(ordered.map((item, position) => [item._id, { position }])));
+  };
+
+  const handleMoveToSection = (item: MenuItem, sectionId: string | null) => {
+    setMovingItem(null);
+    const target = itemsIn(sectionId).filter((candidate) => candidate._id !== item._id);
+    patchItems({ [item._id]: { sectionId: sectionId ?? undefined, position: target.length } });
+  };
+
+  const handleToggleFeatured = (item: MenuItem) => {
+    patchItems({ [item._id]: { featured: !item.featured } });
+  };
+
+  const handleAddSection = () => {
+    const name = newSectionName.trim();
+    if (!name) return;
+    const section = createMenuSection(name);
+    const error = validateMenuSections([...sections, section]);
+    if (error) {
+      Alert.alert('Error', error);
+      return;
+    }
+    setSections([...sections, section]);
+    setNewSectionName('');
+    setDirty(true);
+  };
+
+  const handleRenameSection = (id: string, name: string) => {
+    setSections(sections.map((section) => (section.id === id ? { ...section, name } : section)));
+    setDirty(true);
+  };
+
+  const handleDeleteSection = (section: MenuSection) => {
+    const count = itemsIn(section.id).length;
+    Alert.alert(
+      'Delete section',
+      count > 0
+        ? `"${section.name}" has ${count} item${count === 1 ? '' : 's'}. They will be moved to "No section".`
+        : `Delete "${section.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            const remaining = itemsIn(null).length;
+            setSections((current) => current.filter((candidate) => candidate.id !== section.id));
+            patchItems(
+              Object.fromEntries(
+                itemsIn(section.id).map((item, index) => [item._id, { sectionId: undefined, position: remaining + index }])
+              )
+            );
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSave = async () => {
+    const trimmed = sections.map((section) => ({ ...section, name: section.name.trim() }));
+    const error = validateMenuSections(trimmed);
+    if (error) {
+      Alert.alert('Error', error);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const saved = await BusinessService.saveMenuLayout(barId, toMenuLayout(trimmed, groups));
+      setSections(saved.sections);
+      setItems(saved.items);
+      setDirty(false);
+      console.log('📋 Menú acomodado:', saved.sections.length, 'secciones');
+      Alert.alert('Success', 'Menu layout saved', [{ text: 'OK', onPress: () => navigation.goBack() }]);
+    } catch (saveError) {
+      console.error('Error saving menu layout:', saveError);
+      Alert.alert('Error', 'Failed to save the menu layout. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (!dirty) {
+      navigation.goBack();
+      return;
+    }
+    Alert.alert('Discard changes?', 'Your menu layout changes have not been saved.', [
+      { text: 'Keep editing', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => navigation.goBack() },
+    ]);
+  };
+
+  const renderSectionRow = (section: MenuSection) => (
+    <View style={styles.sectionRow}>
+      <TextInput
+        style={styles.sectionInput}
+        value={section.name}
+        onChangeText={(name) => handleRenameSection(section.id, name)}
+        maxLength={MAX_SECTION_NAME_LENGTH}
+        placeholder="Section name"
+        placeholderTextColor={colors.textMuted}
+      />
+      <Text style={styles.sectionCount}>{itemsIn(section.id).length}</Text>
+      <TouchableOpacity style={styles.iconButton} onPress={() => handleDeleteSection(section)}>
+        <Icon name="delete-outline" size={20} color={colors.error} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderItemRow = (item: MenuItem) => (
+    <View style={styles.itemRow}>
+      <TouchableOpacity style={styles.iconButton} onPress={() => handleToggleFeatured(item)}>
+        <Icon name={item.featured ? 'star' : 'star-border'} size={22} color={item.featured ? colors.star : colors.textMuted} />
+      </TouchableOpacity>
+      <View style={styles.itemInfo}>
+        <Text style={styles.itemName} numberOfLines={1}>{item.name}</Text>
+        <Text style={styles.itemMeta}>
+          {MENU_TYPE_LABELS[item.type]} · ${item.price.toFixed(2)}
+        </Text>
+      </View>
+      <TouchableOpacity style={styles.moveButton} onPress={() => setMovingItem(item)}>
+        <Icon name="low-priority" size={18} color={colors.primary} />
+        <Text style={styles.moveButtonText}>Move</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderSectionPicker = () => (
+    <Modal
+      animationType="fade"
+      transparent={true}
+      visible={movingItem !== null}
+      onRequestClose={() => setMovingItem(null)}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>Move to section</Text>
+          <Text style={styles.modalSubtitle} numberOfLines={1}>{movingItem?.name}</Text>
+          {groups.map((group) => {
+            const sectionId = group.section?.id ?? null;
+            const current = movingItem && (group.section ? movingItem.sectionId === sectionId : itemsIn(null).includes(movingItem));
+            return (
+              <TouchableOpacity
+                key={group.key}
+                style={[styles.modalOption, current && styles.modalOptionSelected]}
+                onPress={() => movingItem && handleMoveToSection(movingItem, sectionId)}
+              >
+                <Icon name={group.section ? 'folder-open' : 'view-list'} size={20} color={colors.textSecondary} />
+                <Text style={styles.modalOptionText} numberOfLines={1}>{group.title || 'Untitled section'}</Text>
+                {current && <Icon name="check" size={20} color={colors.primary} />}
+              </TouchableOpacity>
+            );
+          })}
+          <TouchableOpacity style={styles.modalCancel} onPress={() => setMovingItem(null)}>
+            <Text style={styles.modalCancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.background} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={handleBack}>
+          <Icon name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>Arrange Menu</Text>
+          <Text style={styles.headerSubtitle} numberOfLines={1}>{barName}</Text>
+        </View>
+        <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={saving || !dirty}>
+          {saving ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : (
+            <Text style={[styles.saveButtonText, !dirty && styles.saveButtonTextDisabled]}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.content} scrollEnabled={!dragging}>
+          {/* Sections */}
+          <Text style={styles.sectionTitle}>Sections</Text>
+          <Text style={styles.hint}>
+            Customers see sections in this order. Drag the handle to reorder them.
+          </Text>
+          <DraggableList
+            items={sections}
+            keyExtractor={(section) => section.id}
+            renderItem={renderSectionRow}
+            onReorder={(from, to) => {
+              setSections(moveInList(sections, from, to));
+              setDirty(true);
+            }}
+            onDragChange={setDragging}
+          />
+          <View style={styles.addSectionRow}>
+            <TextInput
+              style={styles.sectionInput}
+              value={newSectionName}
+              onChangeText={setNewSectionName}
+              placeholder="New section, e.g. Cervezas de la casa"
+              placeholderTextColor={colors.textMuted}
+              maxLength={MAX_SECTION_NAME_LENGTH}
+              onSubmitEditing={handleAddSection}
+              returnKeyType="done"
+            />
+            <TouchableOpacity
+              style={[styles.addSectionButton, !newSectionName.trim() && styles.buttonDisabled]}
+              onPress={handleAddSection}
+              disabled={!newSectionName.trim()}
+            >
+              <Icon name="add" size={20} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          {/* Items */}
+          <Text style={[styles.sectionTitle, styles.itemsTitle]}>Items</Text>
+          <Text style={styles.hint}>
+            Tap the star to mark an item as recommended. Without sections, customers see items grouped by type.
+          </Text>
+          {groups.map((group) => (
+            <View key={group.key} style={styles.groupCard}>
+              <View style={styles.groupHeader}>
+                <Text style={styles.groupTitle} numberOfLines={1}>{group.title.trim() || 'Untitled section'}</Text>
+                <Text style={styles.groupCount}>{group.items.length}</Text>
+              </View>
+              {group.items.length === 0 ? (
+                <Text style={styles.groupEmpty}>No items yet. Use Move on an item to add it here.</Text>
+              ) : (
+                <DraggableList
+                  items={group.items}
+                  keyExtractor={(item) => item._id}
+                  renderItem={renderItemRow}
+                  onReorder={(from, to) => handleReorderItems(group, from, to)}
+                  onDragChange={setDragging}
+                />
+              )}
+            </View>
+          ))}
+        </ScrollView>
+      )}
+
+      {renderSectionPicker()}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  saveButton: {
+    padding: 8,
+    minWidth: 48,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  saveButtonTextDisabled: {
+    color: colors.textMuted,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  itemsTitle: {
+    marginTop: 32,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.textMuted,
+    marginBottom: 12,
+  },
+  sectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  sectionInput: {
+    flex: 1,
+    backgroundColor: colors.inputBackground,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: colors.text,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  sectionCount: {
+    fontSize: 13,
+    color: colors.textMuted,
+    minWidth: 20,
+    textAlign: 'center',
+  },
+  iconButton: {
+    padding: 6,
+  },
+  addSectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+    marginRight: 38, // Alineado con las filas, que llevan la manija a la derecha
+  },
+  addSectionButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    padding: 10,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  groupCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 12,
+    marginBottom: 12,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  groupTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  groupCount: {
+    fontSize: 13,
+    color: colors.textMuted,
+  },
+  groupEmpty: {
+    fontSize: 13,
+    color: colors.textMuted,
+    paddingVertical: 8,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.text,
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  moveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  moveButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  modalOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  modalOptionSelected: {
+    backgroundColor: colors.surfaceVariant,
+  },
+  modalOptionText: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.text,
+  },
+  modalCancel: {
+    marginTop: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  modalCancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+});
+
+export default MenuLayoutScreen;
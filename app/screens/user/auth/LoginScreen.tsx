@@ -19,6 +19,7 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import { useAuth } from '../../../context/AuthContext';
+import { useApiError } from '../../../hooks/useApiError';
 import { LoginData } from '../../../services/AuthService';
 
 const { width, height } = Dimensions.get('window');
@@ -56,6 +57,7 @@ interface LoginScreenProps {
 
 const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
   const { login } = useAuth();
+  const { getMessage, showError } = useApiError('login');
   const [formData, setFormData] = useState<LoginData>({
     email: '',
     password: '',
@@ -122,10 +124,10 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
       if (response.success) {
         Alert.alert('Éxito', 'Inicio de sesión exitoso');
       } else {
-        Alert.alert('Error', response.message || 'Error al iniciar sesión');
+        Alert.alert('Error', response.error ? getMessage(response.error) : response.message || 'Error al iniciar sesión');
       }
     } catch (error) {
-      Alert.alert('Error', 'Error de conexión. Intenta de nuevo.');
+      showError(error);
     } finally {
       setIsLoading(false);
     }
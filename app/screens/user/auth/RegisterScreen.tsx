@@ -21,6 +21,7 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import { useAuth } from '../../../context/AuthContext';
+import { useApiError } from '../../../hooks/useApiError';
 import { RegisterData } from '../../../services/AuthService';
 
 const { width, height } = Dimensions.get('window');
@@ -63,6 +64,9 @@ interface ExtendedRegisterData extends RegisterData {
   photo?: string;
 }
 
+// Campos del formulario que pueden recibir errores del backend
+const REGISTER_FIELDS = ['name', 'email', 'phone', 'birthDate', 'photo', 'password'] as const;
+
 // Universal DatePicker Component
 const UniversalDatePicker: React.FC<{
   isVisible: boolean;
@@ -138,6 +142,7 @@ const UniversalDatePicker: React.FC<{
 
 const RegisterScreen: React.FC<RegisterScreenProps> = ({ navigation }) => {
   const { register } = useAuth();
+  const { getMessage, getFieldErrors, showError } = useApiError('register');
   const [formData, setFormData] = useState<ExtendedRegisterData>({
     name: '',
     email: '',
@@ -263,10 +268,15 @@ const RegisterScreen: React.FC<RegisterScreenProps> = ({ navigation }) => {
           }
         ]);
       } else {
-        Alert.alert('Error', response.message || 'Error al registrarse');
+        // Los errores por campo se muestran debajo de cada input
+        const fieldErrors = getFieldErrors(response.error, REGISTER_FIELDS);
+        setErrors(fieldErrors);
+        if (Object.keys(fieldErrors).length === 0) {
+          Alert.alert('Error', response.error ? getMessage(response.error) : response.message || 'Error al registrarse');
+        }
       }
     } catch (error) {
-      Alert.alert('Error', 'Error de conexión. Intenta de nuevo.');
+      showError(error);
     } finally {
       setIsLoading(false);
     }
@@ -13,6 +13,7 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useAuth } from '../../../context/AuthContext';
 
 const { width, height } = Dimensions.get('window');
 const isTablet = width >= 768;
@@ -42,6 +43,7 @@ interface WelcomeScreenProps {
 }
 
 const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ navigation }) => {
+  const { sessionExpired, clearSessionExpired } = useAuth();
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(50)).current;
   const scaleAnim = useRef(new Animated.Value(0.9)).current;
@@ -99,12 +101,31 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ navigation }) => {
             ]}
           >
             {/* Logo/Icon Section */}
-            <View style={styles.logoContainer}>
+            {/* Aviso de sesión expirada */}
+            {sessionExpired && (
+              <View style={styles.sessionBanner}>
+                <Icon name="schedule" size={20} color={colors.warning} />
+                <Text style={styles.sessionBannerText}>
+                  Tu sesión expiró. Inicia sesión de nuevo para continuar.
+                </Text>
+                <TouchableOpacity onPress={clearSessionExpired}>
+                  <Icon name="close" size={20} color={colors.textSecondary} />
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {/* Long press abre los ajustes de desarrollador (oculto) */}
+            <TouchableOpacity
+              style={styles.logoContainer}
+              onLongPress={() => navigation.navigate('DeveloperSettings')}
+              delayLongPress={1500}
+              activeOpacity={1}
+            >
               <View style={styles.logoBackground}>
                 <Icon name="local-bar" size={isTablet ? 80 : 60} color={colors.text} />
               </View>
               <View style={styles.logoAccent} />
-            </View>
+            </TouchableOpacity>
 
             {/* Title Section */}
             <View style={styles.titleContainer}>
@@ -137,7 +158,10 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ navigation }) => {
             <View style={styles.buttonContainer}>
               <TouchableOpacity
                 style={[styles.button, styles.loginButton]}
-                onPress={() => navigation.navigate('Login')}
+                onPress={() => {
+                  clearSessionExpired();
+                  navigation.navigate('Login');
+                }}
                 activeOpacity={0.8}
               >
                 <LinearGradient
@@ -194,6 +218,25 @@ const styles = StyleSheet.create({
     paddingHorizontal: 24,
     paddingVertical: 40,
   },
+  sessionBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '100%',
+    maxWidth: 420,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.warning,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    marginBottom: 24,
+    gap: 12,
+  },
+  sessionBannerText: {
+    flex: 1,
+    color: colors.text,
+    fontSize: 14,
+  },
   logoContainer: {
     position: 'relative',
     marginBottom: 32,
@@ -1,12 +1,24 @@
 import { RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import axios from 'axios';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { ActivityIndicator, Alert, Dimensions, Image, Linking, Platform, RefreshControl, ScrollView, StatusBar, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import FilterChip from '../../../components/FilterChip';
+import LastUpdatedIndicator from '../../../components/LastUpdatedIndicator';
+import { useAuth } from '../../../context/AuthContext';
+import { useApiError } from '../../../hooks/useApiError';
+import { useCachedQuery } from '../../../hooks/useCachedQuery';
 import { BarsStackParamList } from '../../../navigation/userNavigation';
 import BarService from '../../../services/BarService';
+import { ALLERGEN_LABELS, DIETARY_TAG_ICONS, DIETARY_TAG_LABELS, hasDietaryPreferences, matchesDietaryPreferences } from '../../../services/DietaryService';
+import { getUpcomingOccurrences } from '../../../services/EventRecurrenceService';
+import { describeActiveHappyHour, describeDiscounts, describeHappyHour, getActiveHappyHours, getItemPrice } from '../../../services/HappyHourService';
+import { AVAILABILITY_ICONS, AVAILABILITY_LABELS, isOrderable, resolveAvailability } from '../../../services/MenuAvailabilityService';
+import { getFeaturedItems, groupMenuBySections } from '../../../services/MenuSectionService';
+import { describeOpenStatus, formatTimeRange, getHoursForDate, getOpenStatus, toDateKey, WEEKDAY_LABELS } from '../../../services/OpeningHoursService';
+import { cacheKeys } from '../../../services/QueryCache';
+import { Allergen, ALLERGENS, Bar, DEFAULT_DIETARY_PREFERENCES, DIETARY_TAGS, DietaryPreferences, DietaryTag, Event, MenuItem, MenuItemType, parseDietaryPreferences, Review } from '../../../types/models';
 import ReviewModal from './ReviewModal';
 const { width, height } = Dimensions.get('window');
 const isTablet = width >= 768;
@@ -43,68 +55,60 @@ type BarDetailsScreenProps = {
   navigation: BarDetailsScreenNavigationProp;
 };
 
-interface Address {
-  street?: string;
-  city: string;
-  state: string;
-  zipCode?: string;
-}
-
-interface Bar {
-  _id: string;
-  name: string;
-  description: string;
-  photo?: string;
-  address: Address;
-  mapsUrl?: string;
-  phone?: string;
-  tags: string[];
-  ratingAverage: number;
-  ratingQuantity: number;
-}
-
-interface MenuItem {
-  _id: string;
-  name: string;
-  description?: string;
-  price: number;
-  category: 'food' | 'drinks' | 'alcohol';
-  isAlcoholic?: boolean;
-}
-
-interface Review {
-  _id: string;
-  user: {
-    name: string;
-  };
-  rating: number;
-  comment: string;
-  createdAt: string;
-}
-
-interface Event {
-  _id: string;
-  title: string;
-  description: string;
-  date: string;
-  time?: string;
-}
-
 const BarDetailsScreen: React.FC<BarDetailsScreenProps> = ({ route, navigation }) => {
   const { barId } = route.params;
+  const { showError } = useApiError('load');
+  const { showError: showSaveError } = useApiError('save');
+  const { user } = useAuth();
   
-  const [bar, setBar] = useState<Bar | null>(null);
-  const [menu, setMenu] = useState<MenuItem[]>([]);
-  const [reviews, setReviews] = useState<Review[]>([]);
-  const [events, setEvents] = useState<Event[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
+  // Datos de solo lectura: se sirven desde el cache y se revalidan en segundo plano
+  const barQuery = useCachedQuery<Bar>(cacheKeys.bar(barId), () => BarService.getBarById(barId));
+  const menuQuery = useCachedQuery<MenuItem[]>(cacheKeys.barMenu(barId), async () => {
+    const [foodItems, drinkItems, alcoholItems] = await Promise.all([
+      BarService.getFoodByBarId(barId),
+      BarService.getDrinksByBarId(barId),
+      BarService.getAlcoholByBarId(barId),
+    ]);
+    return [...foodItems, ...drinkItems, ...alcoholItems];
+  });
+  const reviewsQuery = useCachedQuery<Review[]>(cacheKeys.barReviews(barId), () => BarService.getReviewsByBarId(barId));
+  const eventsQuery = useCachedQuery<Event[]>(cacheKeys.barEvents(barId), () => BarService.getEventsByBarId(barId));
+
+  const bar = barQuery.data ?? null;
+  const menu = useMemo(() => menuQuery.data ?? [], [menuQuery.data]);
+  // Filtro de dieta del menú; arranca con las preferencias guardadas del usuario
+  const savedPreferences = useMemo(() => parseDietaryPreferences(user?.dietaryPreferences), [user]);
+  const [dietFilter, setDietFilter] = useState<DietaryPreferences>(savedPreferences);
+  // Si el usuario cambia sus preferencias guardadas, el filtro vuelve a ellas
+  const savedPreferencesKey = JSON.stringify(savedPreferences);
+  const [appliedPreferencesKey, setAppliedPreferencesKey] = useState(savedPreferencesKey);
+  if (appliedPreferencesKey !== savedPreferencesKey) {
+    setAppliedPreferencesKey(savedPreferencesKey);
+    setDietFilter(savedPreferences);
+  }
+  const filteredMenu = useMemo(
+    () => menu.filter((item) => matchesDietaryPreferences(item, dietFilter)),
+    [menu, dietFilter]
+  );
+  // Secciones y orden que eligió el dueño
+  const menuGroups = useMemo(() => groupMenuBySections(filteredMenu, barQuery.data?.menuSections), [filteredMenu, barQuery.data]);
+  const featuredItems = useMemo(() => getFeaturedItems(filteredMenu), [filteredMenu]);
+  const usingSavedPreferences = hasDietaryPreferences(savedPreferences) && JSON.stringify(dietFilter) === savedPreferencesKey;
+  const reviews = useMemo(() => reviewsQuery.data ?? [], [reviewsQuery.data]);
+  // Próximas ocurrencias del mes; una serie semanal llenaría la pestaña con el horizonte completo
+  const events = useMemo(() => getUpcomingOccurrences(eventsQuery.data ?? [], new Date(), 31), [eventsQuery.data]);
+
+  const [updatingFavorite, setUpdatingFavorite] = useState(false);
+  const [checkingIn, setCheckingIn] = useState(false);
   const [isFavorite, setIsFavorite] = useState(false);
   const [activeTab, setActiveTab] = useState<'menu' | 'events' | 'reviews'>('menu');
   const [showReviewModal, setShowReviewModal] = useState(false);
-  const [userReview, setUserReview] = useState<any>(null);
+  const [userReview, setUserReview] = useState<Review | null>(null);
   const [hasUserReviewed, setHasUserReviewed] = useState(false);
 
+  const loading = barQuery.loading || updatingFavorite;
+  const refreshing = barQuery.refreshing || menuQuery.refreshing || reviewsQuery.refreshing || eventsQuery.refreshing;
+
   // Función para verificar review del usuario
   const checkUserReview = async () => {
     try {
@@ -118,90 +122,49 @@ const BarDetailsScreen: React.FC<BarDetailsScreenProps> = ({ route, navigation }
     }
   };
 
+  // Favoritos y review propia dependen del usuario, no se cachean
+  const fetchUserState = async () => {
+    await checkUserReview();
+
+    try {
+      const isFav = await BarService.isBarFavorite(barId);
+      setIsFavorite(isFav);
+    } catch (favError) {
+      console.error('Error checking favorite status:', favError);
+      setIsFavorite(false);
+    }
+  };
+
   // Manejadores de reviews
   const handleReviewPress = () => {
     setShowReviewModal(true);
   };
 
   const handleReviewSubmitted = () => {
-    fetchBarData();
-  };
-
-  const fetchBarData = async () => {
-    try {
-      const barResponse = await BarService.getBarById(barId);
-      setBar(barResponse.data);
-      await checkUserReview();
-
-      try {
-        const foodResponse = await BarService.getFoodByBarId(barId);
-        const drinksResponse = await BarService.getDrinksByBarId(barId);
-        const alcoholResponse = await BarService.getAlcoholByBarId(barId);
-
-        const allMenuItems = [
-          ...(foodResponse.data?.items || []),
-          ...(drinksResponse.data?.items || []),
-          ...(alcoholResponse.data?.items || []),
-        ];
-        setMenu(allMenuItems);
-      } catch (menuError) {
-        console.error('Error fetching menu items:', menuError);
-        setMenu([]);
-      }
-      
-      try {
-        const reviewsResponse = await BarService.getReviewsByBarId(barId);
-        setReviews(reviewsResponse.data);
-      } catch (reviewsError) {
-        console.error('Error fetching reviews:', reviewsError);
-        setReviews([]);
-      }
-
-      try {
-        const eventsResponse = await BarService.getEventsByBarId(barId);
-        setEvents(eventsResponse.data);
-      } catch (eventsError) {
-        console.error('Error fetching events:', eventsError);
-        setEvents([]);
-      }
-
-      try {
-        const isFav = await BarService.isBarFavorite(barId);
-        setIsFavorite(isFav);
-      } catch (favError) {
-        console.error('Error checking favorite status:', favError);
-        setIsFavorite(false);
-      }
-
-    } catch (error) {
-      console.error('Error fetching bar data:', error);
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const message = error.response?.data?.message || 'Unknown error';
-        
-        if (status === 401) {
-          Alert.alert('Error', 'Please log in to view bar details');
-        } else if (status === 500) {
-          Alert.alert('Error', 'Server error. Please try again later.');
-        } else {
-          Alert.alert('Error', `Failed to load bar information: ${message}`);
-        }
-      } else {
-        Alert.alert('Error', 'Failed to load bar information');
-      }
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
+    // La review cambia el rating del bar y la lista de reviews
+    barQuery.refresh();
+    reviewsQuery.refresh();
+    checkUserReview();
   };
 
   useEffect(() => {
-    fetchBarData();
+    fetchUserState();
   }, [barId]);
 
+  // Solo se avisa del error si no hay datos en cache para mostrar
+  useEffect(() => {
+    if (barQuery.error && !barQuery.data) {
+      console.error('Error fetching bar data:', barQuery.error);
+      showError(barQuery.error);
+    }
+  }, [barQuery.error, barQuery.data, showError]);
+
   const onRefresh = () => {
-    setRefreshing(true);
-    fetchBarData();
+    barQuery.refresh();
+    menuQuery.refresh();
+    reviewsQuery.refresh();
+    eventsQuery.refresh();
+    fetchUserState();
   };
 
   const handlePhonePress = (phone: string) => {
@@ -234,10 +197,10 @@ const BarDetailsScreen: React.FC<BarDetailsScreenProps> = ({ route, navigation }
     });
   };
 
-  const getCategoryIcon = (category: string) => {
-    switch (category) {
-      case 'food': return 'restaurant';
-      case 'drinks': return 'local-cafe';
+  const getTypeIcon = (type: MenuItemType) => {
+    switch (type) {
+      case 'comida': return 'restaurant';
+      case 'bebida': return 'local-cafe';
       case 'alcohol': return 'wine-bar';
       default: return 'restaurant-menu';
     }
@@ -252,6 +215,123 @@ const BarDetailsScreen: React.FC<BarDetailsScreenProps> = ({ route, navigation }
     });
   };
 
+  const formatTime = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  const renderMenuCard = (item: MenuItem) => {
+    const itemPrice = getItemPrice(item, bar?.happyHours);
+    const availability = resolveAvailability(item, bar?.openingHours);
+    return (
+      <TouchableOpacity 
+        key={item._id} 
+        style={[styles.menuCard, !isOrderable(availability) && styles.menuCardUnavailable]}
+        onPress={() => handleMenuItemPress(item)}
+        activeOpacity={0.8}
+      >
+        <View style={styles.menuCardHeader}>
+          <View style={styles.menuItemInfo}>
+            <View style={styles.menuItemNameRow}>
+              {item.featured && <Icon name="star" size={16} color={colors.star} />}
+              <Text style={styles.menuItemName} numberOfLines={1}>{item.name}</Text>
+            </View>
+            <View style={styles.menuPriceRow}>
+              <Text style={[styles.menuItemPrice, itemPrice.happyHour && styles.menuItemPromoPrice]}>
+                ${itemPrice.price.toFixed(2)}
+              </Text>
+              {itemPrice.happyHour && (
+                <Text style={styles.menuItemRegularPrice}>${itemPrice.regularPrice.toFixed(2)}</Text>
+              )}
+            </View>
+          </View>
+          <View style={[styles.categoryBadge, { backgroundColor: getTypeColor(item.type) }]}>
+            <Icon name={getTypeIcon(item.type)} size={16} color={colors.text} />
+          </View>
+        </View>
+        {item.description && (
+          <Text style={styles.menuItemDescription} numberOfLines={2}>
+            {item.description}
+          </Text>
+        )}
+        {availability !== 'available' && (
+          <View style={styles.availabilityBadge}>
+            <Icon
+              name={AVAILABILITY_ICONS[availability]}
+              size={14}
+              color={availability === 'seasonal' ? colors.warning : colors.error}
+            />
+            <Text
+              style={[styles.availabilityBadgeText, availability === 'seasonal' && styles.availabilityBadgeTextSeasonal]}
+            >
+              {AVAILABILITY_LABELS[availability]}
+            </Text>
+          </View>
+        )}
+        {item.type === 'alcohol' && (
+          <View style={styles.alcoholBadge}>
+            <Text style={styles.alcoholBadgeText}>21+</Text>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const toggleDiet = (tag: DietaryTag) => {
+    setDietFilter((current) => ({
+      ...current,
+      diets: current.diets.includes(tag) ? current.diets.filter((value) => value !== tag) : [...current.diets, tag],
+    }));
+  };
+
+  const toggleAllergen = (allergen: Allergen) => {
+    setDietFilter((current) => ({
+      ...current,
+      avoidAllergens: current.avoidAllergens.includes(allergen)
+        ? current.avoidAllergens.filter((value) => value !== allergen)
+        : [...current.avoidAllergens, allergen],
+    }));
+  };
+
+  const renderDietFilters = () => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.dietFilters}>
+      {hasDietaryPreferences(savedPreferences) && (
+        <FilterChip
+          label="My preferences"
+          icon="health-and-safety"
+          selected={usingSavedPreferences}
+          onPress={() => setDietFilter(usingSavedPreferences ? DEFAULT_DIETARY_PREFERENCES : savedPreferences)}
+        />
+      )}
+      {DIETARY_TAGS.map((tag) => (
+        <FilterChip
+          key={tag}
+          label={DIETARY_TAG_LABELS[tag]}
+          icon={DIETARY_TAG_ICONS[tag]}
+          selected={dietFilter.diets.includes(tag)}
+          onPress={() => toggleDiet(tag)}
+        />
+      ))}
+      {ALLERGENS.map((allergen) => (
+        <FilterChip
+          key={allergen}
+          label={`No ${ALLERGEN_LABELS[allergen].toLowerCase()}`}
+          selected={dietFilter.avoidAllergens.includes(allergen)}
+          onPress={() => toggleAllergen(allergen)}
+        />
+      ))}
+      <FilterChip
+        label="Not spicy"
+        icon="no-food"
+        selected={dietFilter.maxSpicyLevel === 0}
+        onPress={() => setDietFilter((current) => ({ ...current, maxSpicyLevel: current.maxSpicyLevel === 0 ? null : 0 }))}
+      />
+    </ScrollView>
+  );
+
 const renderTabContent = () => {
   switch (activeTab) {
     case 'menu':
@@ -265,33 +345,30 @@ const renderTabContent = () => {
             </View>
           ) : (
             <View style={styles.menuGrid}>
-              {menu.map((item) => (
-                <TouchableOpacity 
-                  key={item._id} 
-                  style={styles.menuCard}
-                  onPress={() => handleMenuItemPress(item)}
-                  activeOpacity={0.8}
-                >
-                  <View style={styles.menuCardHeader}>
-                    <View style={styles.menuItemInfo}>
-                      <Text style={styles.menuItemName} numberOfLines={1}>{item.name}</Text>
-                      <Text style={styles.menuItemPrice}>${item.price.toFixed(2)}</Text>
-                    </View>
-                    <View style={[styles.categoryBadge, { backgroundColor: getCategoryColor(item.category) }]}>
-                      <Icon name={getCategoryIcon(item.category)} size={16} color={colors.text} />
-                    </View>
+              {renderDietFilters()}
+              {filteredMenu.length === 0 && (
+                <View style={styles.emptyState}>
+                  <Icon name="no-food" size={48} color={colors.textMuted} />
+                  <Text style={styles.emptyStateText}>No items match these filters</Text>
+                  <TouchableOpacity onPress={() => setDietFilter(DEFAULT_DIETARY_PREFERENCES)}>
+                    <Text style={styles.clearFiltersText}>Clear filters</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+              {featuredItems.length > 0 && (
+                <View style={styles.menuGroup}>
+                  <View style={styles.menuGroupHeader}>
+                    <Icon name="star" size={18} color={colors.star} />
+                    <Text style={styles.menuGroupTitle}>Recommended</Text>
                   </View>
-                  {item.description && (
-                    <Text style={styles.menuItemDescription} numberOfLines={2}>
-                      {item.description}
-                    </Text>
-                  )}
-                  {item.isAlcoholic && (
-                    <View style={styles.alcoholBadge}>
-                      <Text style={styles.alcoholBadgeText}>21+</Text>
-                    </View>
-                  )}
-                </TouchableOpacity>
+                  {featuredItems.map(renderMenuCard)}
+                </View>
+              )}
+              {menuGroups.map((group) => (
+                <View key={group.key} style={styles.menuGroup}>
+                  <Text style={styles.menuGroupTitle}>{group.title}</Text>
+                  {group.items.map(renderMenuCard)}
+                </View>
               ))}
             </View>
           )}
@@ -309,17 +386,15 @@ const renderTabContent = () => {
             </View>
           ) : (
             events.map((event) => (
-              <View key={event._id} style={styles.eventCard}>
+              <View key={`${event._id}-${event.occurrenceDate ?? ''}`} style={styles.eventCard}>
                 <View style={styles.eventHeader}>
                   <View style={styles.eventDateBadge}>
-                    <Text style={styles.eventDateText}>{formatDate(event.date)}</Text>
-                    {event.time && (
-                      <Text style={styles.eventTimeText}>{event.time}</Text>
-                    )}
+                    <Text style={styles.eventDateText}>{formatDate(event.start)}</Text>
+                    <Text style={styles.eventTimeText}>{formatTime(event.start)}</Text>
                   </View>
-                  <Icon name="event" size={24} color={colors.primary} />
+                  <Icon name={event.recurrence ? 'repeat' : 'event'} size={24} color={colors.primary} />
                 </View>
-                <Text style={styles.eventTitle}>{event.title}</Text>
+                <Text style={styles.eventTitle}>{event.name}</Text>
                 <Text style={styles.eventDescription}>{event.description}</Text>
               </View>
             ))
@@ -386,6 +461,12 @@ case 'reviews':
                 </View>
               </View>
               <Text style={styles.reviewComment}>{review.comment}</Text>
+              {review.pending && (
+                <View style={styles.pendingBadge}>
+                  <Icon name="cloud-upload" size={14} color={colors.warning} />
+                  <Text style={styles.pendingBadgeText}>Pending sync</Text>
+                </View>
+              )}
             </View>
           ))}
           
@@ -416,10 +497,10 @@ case 'reviews':
       return null;
   }
 }
-  const getCategoryColor = (category: string) => {
-    switch (category) {
-      case 'food': return colors.success;
-      case 'drinks': return colors.primary;
+  const getTypeColor = (type: MenuItemType) => {
+    switch (type) {
+      case 'comida': return colors.success;
+      case 'bebida': return colors.primary;
       case 'alcohol': return colors.accent;
       default: return colors.textMuted;
     }
@@ -427,7 +508,7 @@ case 'reviews':
 
   const handleAddToFavorites = async () => {
     try {
-      setLoading(true);
+      setUpdatingFavorite(true);
       
       if (isFavorite) {
         // If already a favorite, remove it
@@ -451,7 +532,26 @@ case 'reviews':
         Alert.alert('Error', 'An unknown error occurred');
       }
     } finally {
-      setLoading(false);
+      setUpdatingFavorite(false);
+    }
+  };
+
+  // Registra la visita al bar; el backend rechaza un segundo check-in dentro de la misma hora
+  const handleCheckIn = async () => {
+    try {
+      setCheckingIn(true);
+      await BarService.checkIn(barId);
+      const message = `Checked in at ${bar?.name ?? 'this bar'}! A new stamp was added to your passport.`;
+      if (Platform.OS === 'web') {
+        window.alert(message);
+      } else {
+        Alert.alert('Checked in', message);
+      }
+    } catch (error) {
+      console.error('Error checking in:', error);
+      showSaveError(error, 'Could not check in');
+    } finally {
+      setCheckingIn(false);
     }
   };
 
@@ -482,6 +582,16 @@ case 'reviews':
     );
   }
 
+  const now = new Date();
+  const openStatus = getOpenStatus(bar.openingHours, now);
+  const activeHappyHour = getActiveHappyHours(bar.happyHours, now)[0];
+  // Los próximos 7 días a partir de hoy, para que se vean las excepciones de esta semana
+  const upcomingDays = Array.from({ length: 7 }, (_, offset) => {
+    const day = new Date(now);
+    day.setDate(now.getDate() + offset);
+    return day;
+  });
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar barStyle="light-content" backgroundColor={colors.background} />
@@ -528,6 +638,7 @@ case 'reviews':
 
         {/* Bar Info */}
         <View style={styles.infoContainer}>
+          <LastUpdatedIndicator updatedAt={barQuery.updatedAt} isOffline={barQuery.isOffline} />
           <Text style={styles.barName}>{bar.name}</Text>
           
         {/* Rating */}
@@ -540,6 +651,31 @@ case 'reviews':
           </Text>
         </View>
 
+          {/* Open / closed */}
+          {openStatus && (
+            <View style={styles.openStatusRow}>
+              <View style={[styles.openBadge, openStatus.isOpen ? styles.openBadgeOpen : styles.openBadgeClosed]}>
+                <Text style={[styles.openBadgeText, { color: openStatus.isOpen ? colors.success : colors.error }]}>
+                  {openStatus.isOpen ? 'Open now' : 'Closed'}
+                </Text>
+              </View>
+              <Text style={styles.openStatusText}>{describeOpenStatus(openStatus, now)}</Text>
+            </View>
+          )}
+
+          {/* Happy hour */}
+          {activeHappyHour && (
+            <View style={styles.happyHourBanner}>
+              <Icon name="local-offer" size={20} color={colors.warning} />
+              <View style={styles.happyHourBannerInfo}>
+                <Text style={styles.happyHourBannerTitle}>{describeActiveHappyHour(activeHappyHour, now)}</Text>
+                {describeDiscounts(activeHappyHour) !== '' && (
+                  <Text style={styles.happyHourBannerText}>{describeDiscounts(activeHappyHour)}</Text>
+                )}
+              </View>
+            </View>
+          )}
+
           {/* Tags */}
           {bar.tags.length > 0 && (
             <View style={styles.tagsContainer}>
@@ -556,6 +692,18 @@ case 'reviews':
 
           {/* Quick Actions */}
           <View style={styles.quickActions}>
+            <TouchableOpacity
+              style={[styles.quickActionButton, checkingIn && styles.quickActionDisabled]}
+              onPress={handleCheckIn}
+              disabled={checkingIn}
+            >
+              {checkingIn ? (
+                <ActivityIndicator size="small" color={colors.warning} />
+              ) : (
+                <Icon name="where-to-vote" size={20} color={colors.warning} />
+              )}
+              <Text style={styles.quickActionText}>Check in</Text>
+            </TouchableOpacity>
             {bar.mapsUrl && (
               <TouchableOpacity
                 style={styles.quickActionButton}
@@ -589,6 +737,52 @@ case 'reviews':
             </Text>
           </View>
 
+          {/* Hours Card */}
+          {bar.openingHours && (
+            <View style={styles.locationCard}>
+              <View style={styles.locationHeader}>
+                <Icon name="schedule" size={24} color={colors.primary} />
+                <Text style={styles.locationTitle}>Hours</Text>
+              </View>
+              {upcomingDays.map((day, index) => {
+                const isToday = index === 0;
+                const exception = bar.openingHours!.exceptions.find(
+                  (candidate) => candidate.date === toDateKey(day)
+                );
+                return (
+                  <View key={index} style={styles.hoursRow}>
+                    <Text style={[styles.hoursDay, isToday && styles.hoursToday]}>
+                      {isToday ? 'Today' : WEEKDAY_LABELS[day.getDay()]}
+                      {exception?.label ? ` · ${exception.label}` : ''}
+                    </Text>
+                    <Text style={[styles.hoursTime, isToday && styles.hoursToday]}>
+                      {formatTimeRange(getHoursForDate(bar.openingHours!, day))}
+                    </Text>
+                  </View>
+                );
+              })}
+            </View>
+          )}
+
+          {/* Happy Hours Card */}
+          {bar.happyHours && bar.happyHours.length > 0 && (
+            <View style={styles.locationCard}>
+              <View style={styles.locationHeader}>
+                <Icon name="local-offer" size={24} color={colors.warning} />
+                <Text style={styles.locationTitle}>Happy Hours</Text>
+              </View>
+              {bar.happyHours.map((happyHour) => (
+                <View key={happyHour.id} style={styles.happyHourRow}>
+                  <Text style={styles.hoursDay}>{happyHour.label || 'Happy hour'}</Text>
+                  <Text style={styles.happyHourDetail}>{describeHappyHour(happyHour)}</Text>
+                  {describeDiscounts(happyHour) !== '' && (
+                    <Text style={styles.happyHourDetail}>{describeDiscounts(happyHour)}</Text>
+                  )}
+                </View>
+              ))}
+            </View>
+          )}
+
           {/* Tabs */}
           <View style={styles.tabsContainer}>
             <View style={styles.tabsHeader}>
@@ -761,6 +955,67 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     fontWeight: '500',
   },
+  openStatusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: -4,
+    marginBottom: 16,
+  },
+  openBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginRight: 10,
+  },
+  openBadgeOpen: {
+    backgroundColor: 'rgba(16, 185, 129, 0.15)',
+    borderColor: colors.success,
+  },
+  openBadgeClosed: {
+    backgroundColor: 'rgba(239, 68, 68, 0.15)',
+    borderColor: colors.error,
+  },
+  openBadgeText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  openStatusText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  happyHourBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(245, 158, 11, 0.12)',
+    borderWidth: 1,
+    borderColor: colors.warning,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  happyHourBannerInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  happyHourBannerTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.warning,
+  },
+  happyHourBannerText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  happyHourRow: {
+    paddingVertical: 6,
+  },
+  happyHourDetail: {
+    fontSize: 14,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
   tagsContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -829,6 +1084,9 @@ writeReviewButton: {
     marginTop: 6,
     fontWeight: '500',
   },
+  quickActionDisabled: {
+    opacity: 0.6,
+  },
   locationCard: {
     backgroundColor: colors.surface,
     padding: 16,
@@ -853,6 +1111,23 @@ writeReviewButton: {
     color: colors.textSecondary,
     lineHeight: 22,
   },
+  hoursRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  hoursDay: {
+    fontSize: 15,
+    color: colors.textSecondary,
+  },
+  hoursTime: {
+    fontSize: 15,
+    color: colors.textSecondary,
+  },
+  hoursToday: {
+    color: colors.text,
+    fontWeight: '600',
+  },
   tabsContainer: {
     marginTop: 8,
   },
@@ -917,7 +1192,29 @@ writeReviewButton: {
     textAlign: 'center',
   },
   menuGrid: {
-    gap: 16,
+    gap: 24,
+  },
+  dietFilters: {
+    gap: 8,
+  },
+  clearFiltersText: {
+    fontSize: 14,
+    color: colors.primary,
+    fontWeight: '600',
+    marginTop: 12,
+  },
+  menuGroup: {
+    gap: 12,
+  },
+  menuGroupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  menuGroupTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
   },
   menuCard: {
     backgroundColor: colors.surface,
@@ -927,6 +1224,23 @@ writeReviewButton: {
     borderColor: colors.border,
     position: 'relative',
   },
+  menuCardUnavailable: {
+    opacity: 0.6,
+  },
+  availabilityBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  availabilityBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.error,
+    marginLeft: 4,
+  },
+  availabilityBadgeTextSeasonal: {
+    color: colors.warning,
+  },
   menuCardHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -937,17 +1251,36 @@ writeReviewButton: {
     flex: 1,
     marginRight: 12,
   },
+  menuItemNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
   menuItemName: {
+    flexShrink: 1,
     fontSize: 16,
     fontWeight: '600',
     color: colors.text,
     marginBottom: 4,
   },
+  menuPriceRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+  },
   menuItemPrice: {
     fontSize: 18,
     fontWeight: 'bold',
     color: colors.primary,
   },
+  menuItemPromoPrice: {
+    color: colors.warning,
+  },
+  menuItemRegularPrice: {
+    fontSize: 14,
+    color: colors.textMuted,
+    textDecorationLine: 'line-through',
+    marginLeft: 8,
+  },
   categoryBadge: {
     borderRadius: 16,
     padding: 6,
@@ -1062,6 +1395,16 @@ writeReviewButton: {
     color: colors.textSecondary,
     lineHeight: 20,
   },
+  pendingBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  pendingBadgeText: {
+    fontSize: 12,
+    color: colors.warning,
+    marginLeft: 4,
+  },
   moreReviewsButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,384 @@
+import React, { useEffect, useState } from 'react';
+import {
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { SERVING_FORMAT_ICONS, SERVING_FORMAT_LABELS } from '../../../services/BeerService';
+import {
+  BAR_TAGS,
+  BarFilters,
+  BarSortOption,
+  BEER_STYLES,
+  DEFAULT_BAR_FILTERS,
+  SERVING_FORMATS,
+} from '../../../types/models';
+
+// Dark theme colors (same as BarsListScreen)
+const colors = {
+  background: '#0a0a0a',
+  surface: '#1a1a1a',
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  textMuted: '#71717a',
+  border: '#27272a',
+  borderLight: '#3f3f46',
+  star: '#fbbf24',
+};
+
+const SORT_OPTIONS: { value: BarSortOption; label: string; icon: string }[] = [
+  { value: 'rating', label: 'Rating', icon: 'star' },
+  { value: 'reviews', label: 'Reviews', icon: 'rate-review' },
+  { value: 'name', label: 'Name', icon: 'sort-by-alpha' },
+  { value: 'distance', label: 'Near me', icon: 'near-me' },
+];
+
+const RATING_OPTIONS = [0, 3, 3.5, 4, 4.5];
+const REVIEW_OPTIONS = [0, 5, 10, 25];
+
+// Cuántos filtros (sin contar el orden ni el texto) están activos; se muestra en el botón de filtros
+export const countActiveFilters = (filters: BarFilters): number =>
+  filters.tags.length +
+  (filters.minRating > 0 ? 1 : 0) +
+  (filters.minReviews > 0 ? 1 : 0) +
+  (filters.city.trim() ? 1 : 0) +
+  (filters.state.trim() ? 1 : 0) +
+  filters.beerStyles.length +
+  (filters.servingFormat ? 1 : 0);
+
+interface BarFiltersModalProps {
+  visible: boolean;
+  filters: BarFilters;
+  onClose: () => void;
+  onApply: (filters: BarFilters) => void;
+}
+
+const BarFiltersModal: React.FC<BarFiltersModalProps> = ({ visible, filters, onClose, onApply }) => {
+  const [draft, setDraft] = useState<BarFilters>(filters);
+
+  // Cada vez que se abre parte de los filtros aplicados
+  useEffect(() => {
+    if (visible) setDraft(filters);
+  }, [visible, filters]);
+
+  const update = (changes: Partial<BarFilters>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+  };
+
+  const toggleTag = (tag: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      tags: prev.tags.includes(tag) ? prev.tags.filter((t) => t !== tag) : [...prev.tags, tag],
+    }));
+  };
+
+  const toggleBeerStyle = (style: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      beerStyles: prev.beerStyles.includes(style)
+        ? prev.beerStyles.filter((s) => s !== style)
+        : [...prev.beerStyles, style],
+    }));
+  };
+
+  const handleReset = () => {
+    // El texto de búsqueda no es parte del panel, se conserva
+    setDraft({ ...DEFAULT_BAR_FILTERS, query: draft.query });
+  };
+
+  const handleApply = () => {
+    onApply({ ...draft, city: draft.city.trim(), state: draft.state.trim() });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Icon name="close" size={24} color={colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Filters</Text>
+          <TouchableOpacity onPress={handleReset} style={styles.headerButton}>
+            <Text style={styles.resetText}>Reset</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+          {/* Sort */}
+          <Text style={styles.sectionTitle}>Sort by</Text>
+          <View style={styles.chipsContainer}>
+            {SORT_OPTIONS.map((option) => {
+              const selected = draft.sort === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => update({ sort: option.value })}
+                >
+                  <Icon name={option.icon} size={16} color={selected ? colors.text : colors.textSecondary} />
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {draft.sort === 'distance' && (
+            <Text style={styles.hint}>Uses your current location. Bars without a map location are listed last.</Text>
+          )}
+
+          {/* Tags */}
+          <Text style={styles.sectionTitle}>Tags</Text>
+          <View style={styles.chipsContainer}>
+            {BAR_TAGS.map((tag) => {
+              const selected = draft.tags.includes(tag);
+              return (
+                <TouchableOpacity
+                  key={tag}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => toggleTag(tag)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{tag}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {/* Beer */}
+          <Text style={styles.sectionTitle}>Pouring</Text>
+          <View style={styles.chipsContainer}>
+            {BEER_STYLES.map((style) => {
+              const selected = draft.beerStyles.includes(style);
+              return (
+                <TouchableOpacity
+                  key={style}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => toggleBeerStyle(style)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{style}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <View style={styles.chipsContainer}>
+            <TouchableOpacity
+              style={[styles.chip, !draft.servingFormat && styles.chipSelected]}
+              onPress={() => update({ servingFormat: null })}
+            >
+              <Text style={[styles.chipText, !draft.servingFormat && styles.chipTextSelected]}>Any format</Text>
+            </TouchableOpacity>
+            {SERVING_FORMATS.map((format) => {
+              const selected = draft.servingFormat === format;
+              return (
+                <TouchableOpacity
+                  key={format}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => update({ servingFormat: format })}
+                >
+                  <Icon
+                    name={SERVING_FORMAT_ICONS[format]}
+                    size={16}
+                    color={selected ? colors.text : colors.textSecondary}
+                  />
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {SERVING_FORMAT_LABELS[format]}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {(draft.beerStyles.length > 0 || draft.servingFormat) && (
+            <Text style={styles.hint}>Bars with at least one beer matching the style and format.</Text>
+          )}
+
+          {/* Minimum rating */}
+          <Text style={styles.sectionTitle}>Minimum rating</Text>
+          <View style={styles.chipsContainer}>
+            {RATING_OPTIONS.map((rating) => {
+              const selected = draft.minRating === rating;
+              return (
+                <TouchableOpacity
+                  key={rating}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => update({ minRating: rating })}
+                >
+                  {rating > 0 && <Icon name="star" size={14} color={colors.star} />}
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {rating > 0 ? `${rating}+` : 'Any'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {/* Minimum reviews */}
+          <Text style={styles.sectionTitle}>Minimum reviews</Text>
+          <View style={styles.chipsContainer}>
+            {REVIEW_OPTIONS.map((count) => {
+              const selected = draft.minReviews === count;
+              return (
+                <TouchableOpacity
+                  key={count}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => update({ minReviews: count })}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {count > 0 ? `${count}+` : 'Any'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {/* Location */}
+          <Text style={styles.sectionTitle}>Location</Text>
+          <View style={styles.locationRow}>
+            <TextInput
+              style={styles.input}
+              placeholder="City"
+              placeholderTextColor={colors.textMuted}
+              value={draft.city}
+              onChangeText={(city) => update({ city })}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="State"
+              placeholderTextColor={colors.textMuted}
+              value={draft.state}
+              onChangeText={(state) => update({ state })}
+            />
+          </View>
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity style={styles.applyButton} onPress={handleApply}>
+            <Text style={styles.applyButtonText}>Show results</Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    padding: 4,
+    minWidth: 48,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  resetText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+    textAlign: 'right',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  chipsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: colors.surfaceVariant,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.borderLight,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: colors.text,
+  },
+  hint: {
+    fontSize: 12,
+    color: colors.textMuted,
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  locationRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: colors.text,
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  applyButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  applyButtonText: {
+    color: colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default BarFiltersModal;
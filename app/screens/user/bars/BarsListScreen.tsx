@@ -1,5 +1,5 @@
 import { StackNavigationProp } from '@react-navigation/stack';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -17,8 +17,20 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import FilterChip from '../../../components/FilterChip';
+import LastUpdatedIndicator from '../../../components/LastUpdatedIndicator';
+import OpenAtFilter, { OpenAtValue, resolveOpenAt } from '../../../components/OpenAtFilter';
+import { useCachedQuery } from '../../../hooks/useCachedQuery';
 import { BarsStackParamList } from '../../../navigation/userNavigation';
 import BarService from '../../../services/BarService';
+import { getActiveHappyHours } from '../../../services/HappyHourService';
+import { distanceKm, formatDistance, locationService } from '../../../services/LocationService';
+import { isOpenAt } from '../../../services/OpeningHoursService';
+import { cacheKeys } from '../../../services/QueryCache';
+import RouteService from '../../../services/RouteService';
+import { Bar, BarFilters, Coordinates, DEFAULT_BAR_FILTERS } from '../../../types/models';
+import BarFiltersModal, { countActiveFilters } from './BarFiltersModal';
+import BarsMapView from './BarsMapView';
 
 const { width } = Dimensions.get('window');
 const isTablet = width >= 768;
@@ -51,73 +63,119 @@ interface BarsListScreenProps {
   navigation: BarsListScreenNavigationProp;
 }
 
-interface Address {
-  street?: string;
-  city: string;
-  state: string;
-  zipCode?: string;
-}
+// Ordenar por distancia necesita la ubicación; si no se puede obtener se vuelve al orden por rating
+const resolveOrigin = async (filters: BarFilters): Promise<{ filters: BarFilters; origin: Coordinates | null }> => {
+  if (filters.sort !== 'distance') return { filters, origin: null };
 
-interface Bar {
-  _id: string;
-  name: string;
-  description: string;
-  photo?: string;
-  address: Address;
-  mapsUrl?: string;
-  phone?: string;
-  tags: string[];
-  ratingAverage: number;
-  ratingQuantity: number;
-}
+  try {
+    return { filters, origin: await locationService.getCurrentPosition() };
+  } catch (locationError) {
+    console.error('Error getting location:', locationError);
+    Alert.alert(
+      'Location unavailable',
+      locationError instanceof Error ? locationError.message : 'Could not get your location'
+    );
+    return { filters: { ...filters, sort: 'rating' }, origin: null };
+  }
+};
 
 const BarsListScreen: React.FC<BarsListScreenProps> = ({ navigation }) => {
-  const [bars, setBars] = useState<Bar[]>([]);
-  const [filteredBars, setFilteredBars] = useState<Bar[]>([]);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
+  const [filters, setFilters] = useState<BarFilters>(DEFAULT_BAR_FILTERS);
+  const [filtersLoaded, setFiltersLoaded] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
+  // El filtro de horario no se guarda: "abierto ahora" pierde sentido al volver mañana
+  const [openAt, setOpenAt] = useState<OpenAtValue>(null);
+  const [happyHourNow, setHappyHourNow] = useState(false);
+  // Ubicación del usuario; solo se pide al ordenar por distancia
+  const [origin, setOrigin] = useState<Coordinates | null>(null);
+  const searchQuery = filters.query;
 
-  const fetchBars = async () => {
-    try {
-      const response = await BarService.allBars();
-      setBars(response.data);
-      setFilteredBars(response.data);
-    } catch (error) {
-      console.error('Error fetching bars:', error);
-      Alert.alert('Error', 'Failed to load bars');
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  };
+  // Los filtros del panel van al backend; el texto de búsqueda se filtra en el cliente
+  const searchParams = useMemo(
+    () => BarService.buildBarSearchParams(filters, origin ?? undefined),
+    [filters, origin]
+  );
+  const { data, updatedAt, loading, refreshing, error, isOffline, refresh } = useCachedQuery<Bar[]>(
+    filtersLoaded ? cacheKeys.bars(searchParams) : null,
+    () => BarService.allBars(filters, origin ?? undefined)
+  );
+  const bars = useMemo(() => data ?? [], [data]);
+  const activeFilterCount = countActiveFilters(filters);
 
   useEffect(() => {
-    fetchBars();
+    const load = async () => {
+      const resolved = await resolveOrigin(await BarService.getSavedBarFilters());
+      setFilters(resolved.filters);
+      setOrigin(resolved.origin);
+      setFiltersLoaded(true);
+    };
+    load();
   }, []);
 
+  const applyFilters = (next: BarFilters) => {
+    setFilters(next);
+    BarService.saveBarFilters(next).catch((saveError) => {
+      console.error('Error saving bar filters:', saveError);
+    });
+  };
+
+  const setSearchQuery = (query: string) => {
+    applyFilters({ ...filters, query });
+  };
+
+  const handleApplyFilters = async (next: BarFilters) => {
+    setShowFilters(false);
+    const resolved = await resolveOrigin(next);
+    setOrigin(resolved.origin);
+    applyFilters(resolved.filters);
+  };
+
+  // Solo avisamos del error cuando no hay nada en cache para mostrar
   useEffect(() => {
-    if (searchQuery.trim() === '') {
-      setFilteredBars(bars);
-    } else {
-      const filtered = bars.filter(bar =>
-        bar.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        bar.tags.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase())) ||
-        bar.address.city.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-      setFilteredBars(filtered);
+    if (error && !data) {
+      console.error('Error fetching bars:', error);
+      Alert.alert('Error', 'Failed to load bars');
     }
-  }, [searchQuery, bars]);
+  }, [error, data]);
+
+  const filteredBars = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    const moment = resolveOpenAt(openAt);
+    const now = new Date();
+
+    return bars.filter(bar =>
+      (query === '' ||
+        bar.name.toLowerCase().includes(query) ||
+        bar.tags.some(tag => tag.toLowerCase().includes(query)) ||
+        bar.address.city.toLowerCase().includes(query)) &&
+      (!moment || isOpenAt(bar.openingHours, moment)) &&
+      (!happyHourNow || getActiveHappyHours(bar.happyHours, now).length > 0)
+    );
+  }, [searchQuery, bars, openAt, happyHourNow]);
 
   const onRefresh = () => {
-    setRefreshing(true);
-    fetchBars();
+    refresh();
   };
 
   const handleMapsPress = (mapsUrl: string) => {
     Linking.openURL(mapsUrl);
   };
 
+  // Agrega el bar al borrador de la ruta cervecera
+  const handleAddToRoute = async (bar: Bar) => {
+    try {
+      const added = await RouteService.addToDraft(bar);
+      Alert.alert(
+        added ? 'Added to route' : 'Already in route',
+        added ? `${bar.name} was added to your route. Open the Routes tab to plan it.` : `${bar.name} is already in your route.`
+      );
+    } catch (error) {
+      console.error('Error adding bar to route:', error);
+      Alert.alert('Error', 'Failed to add bar to route');
+    }
+  };
+
   const handleBarPress = (barId: string) => {
     navigation.navigate('BarDetails', { barId });
   };
@@ -143,7 +201,68 @@ const BarsListScreen: React.FC<BarsListScreenProps> = ({ navigation }) => {
     return width - 32; // Full width on mobile
   };
 
-  if (loading) {
+  const renderSearchBar = () => (
+    <View style={styles.searchContainer}>
+      <View style={styles.searchRow}>
+        <View style={styles.searchInputContainer}>
+          <Icon name="search" size={20} color={colors.textMuted} style={styles.searchIcon} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search bars...."
+            placeholderTextColor={colors.textMuted}
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+          />
+          {searchQuery !== '' && (
+            <TouchableOpacity onPress={() => setSearchQuery('')} style={styles.clearButton}>
+              <Icon name="close" size={20} color={colors.textMuted} />
+            </TouchableOpacity>
+          )}
+        </View>
+        <TouchableOpacity style={styles.filterButton} onPress={() => navigation.navigate('MenuSearch')}>
+          <Icon name="restaurant-menu" size={22} color={colors.textSecondary} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.filterButton}
+          onPress={() => setViewMode(viewMode === 'list' ? 'map' : 'list')}
+        >
+          <Icon name={viewMode === 'list' ? 'map' : 'view-list'} size={22} color={colors.textSecondary} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.filterButton, activeFilterCount > 0 && styles.filterButtonActive]}
+          onPress={() => setShowFilters(true)}
+        >
+          <Icon name="tune" size={22} color={activeFilterCount > 0 ? colors.text : colors.textSecondary} />
+          {activeFilterCount > 0 && (
+            <View style={styles.filterBadge}>
+              <Text style={styles.filterBadgeText}>{activeFilterCount}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+      </View>
+      <View style={styles.openAtContainer}>
+        <OpenAtFilter value={openAt} onChange={setOpenAt}>
+          <FilterChip
+            label="Happy hour now"
+            selected={happyHourNow}
+            onPress={() => setHappyHourNow(!happyHourNow)}
+            icon="local-offer"
+          />
+        </OpenAtFilter>
+      </View>
+    </View>
+  );
+
+  const filtersModal = (
+    <BarFiltersModal
+      visible={showFilters}
+      filters={filters}
+      onClose={() => setShowFilters(false)}
+      onApply={handleApplyFilters}
+    />
+  );
+
+  if (loading || !filtersLoaded) {
     return (
       <SafeAreaView style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary} />
@@ -155,32 +274,21 @@ const BarsListScreen: React.FC<BarsListScreenProps> = ({ navigation }) => {
   if (filteredBars.length === 0) {
     return (
       <SafeAreaView style={styles.container}>
-        <View style={styles.searchContainer}>
-          <View style={styles.searchInputContainer}>
-            <Icon name="search" size={20} color={colors.textMuted} style={styles.searchIcon} />
-            <TextInput
-              style={styles.searchInput}
-              placeholder="Search bars...."
-              placeholderTextColor={colors.textMuted}
-              value={searchQuery}
-              onChangeText={setSearchQuery}
-            />
-            {searchQuery !== '' && (
-              <TouchableOpacity onPress={() => setSearchQuery('')} style={styles.clearButton}>
-                <Icon name="close" size={20} color={colors.textMuted} />
-              </TouchableOpacity>
-            )}
-          </View>
-        </View>
+        {renderSearchBar()}
         <View style={styles.errorContainer}>
           <Icon name="search-off" size={48} color={colors.textMuted} />
           <Text style={styles.errorText}>
-            {bars.length === 0 ? 'No bars found' : 'No bars match your search'}
+            {bars.length === 0 && activeFilterCount === 0 ? 'No bars found' : 'No bars match your search'}
           </Text>
           <Text style={styles.errorSubtext}>
-            {bars.length === 0 ? 'Try refreshing the page' : 'Try adjusting your search terms'}
+            {(openAt || happyHourNow) && bars.length > 0 && searchQuery.trim() === ''
+              ? 'No bars match that time. Try another time or clear the hours filters'
+              : bars.length === 0 && activeFilterCount === 0
+              ? 'Try refreshing the page'
+              : 'Try adjusting your search terms or filters'}
           </Text>
         </View>
+        {filtersModal}
       </SafeAreaView>
     );
   }
@@ -190,139 +298,146 @@ const BarsListScreen: React.FC<BarsListScreenProps> = ({ navigation }) => {
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Discover Bars</Text>
         <Text style={styles.headerSubtitle}>{filteredBars.length} bars found</Text>
+        <LastUpdatedIndicator updatedAt={updatedAt} isOffline={isOffline} />
       </View>
 
-      <View style={styles.searchContainer}>
-        <View style={styles.searchInputContainer}>
-          <Icon name="search" size={20} color={colors.textMuted} style={styles.searchIcon} />
-          <TextInput
-            style={styles.searchInput}
-            placeholder="Search bars...."
-            placeholderTextColor={colors.textMuted}
-            value={searchQuery}
-            onChangeText={setSearchQuery}
-          />
-          {searchQuery !== '' && (
-            <TouchableOpacity onPress={() => setSearchQuery('')} style={styles.clearButton}>
-              <Icon name="close" size={20} color={colors.textMuted} />
-            </TouchableOpacity>
-          )}
-        </View>
-      </View>
+      {renderSearchBar()}
 
-      <ScrollView
-        style={styles.scrollView}
-        contentContainerStyle={styles.scrollContent}
-        refreshControl={
-          <RefreshControl 
-            refreshing={refreshing} 
-            onRefresh={onRefresh}
-            tintColor={colors.primary}
-            colors={[colors.primary]}
-          />
-        }
-      >
-        <View style={[styles.listContainer, isDesktop && styles.desktopGrid, isTablet && !isDesktop && styles.tabletGrid]}>
-          {filteredBars.map((bar) => (
-            <TouchableOpacity 
-              key={bar._id} 
-              style={[
-                styles.barCard,
-                { width: getCardWidth() },
-                isDesktop && styles.desktopCard,
-                isTablet && !isDesktop && styles.tabletCard
-              ]}
-              onPress={() => handleBarPress(bar._id)}
-              activeOpacity={0.8}
-            >
-              {/* Bar Image */}
-              <View style={styles.imageContainer}>
-                <Image
-                  source={{ uri: bar.photo || 'https://via.placeholder.com/400x200?text=No+Image' }}
-                  style={styles.barImage}
-                  resizeMode="cover"
-                />
-                <View style={styles.imageOverlay}>
-                  <View style={styles.ratingBadge}>
-                    <Icon name="star" size={14} color={colors.star} />
-                    <Text style={styles.ratingBadgeText}>{bar.ratingAverage.toFixed(1)}</Text>
+      {viewMode === 'map' ? (
+        <BarsMapView bars={filteredBars} userLocation={origin} onBarPress={handleBarPress} />
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={
+            <RefreshControl 
+              refreshing={refreshing} 
+              onRefresh={onRefresh}
+              tintColor={colors.primary}
+              colors={[colors.primary]}
+            />
+          }
+        >
+          <View style={[styles.listContainer, isDesktop && styles.desktopGrid, isTablet && !isDesktop && styles.tabletGrid]}>
+            {filteredBars.map((bar) => (
+              <TouchableOpacity 
+                key={bar._id} 
+                style={[
+                  styles.barCard,
+                  { width: getCardWidth() },
+                  isDesktop && styles.desktopCard,
+                  isTablet && !isDesktop && styles.tabletCard
+                ]}
+                onPress={() => handleBarPress(bar._id)}
+                activeOpacity={0.8}
+              >
+                {/* Bar Image */}
+                <View style={styles.imageContainer}>
+                  <Image
+                    source={{ uri: bar.photo || 'https://via.placeholder.com/400x200?text=No+Image' }}
+                    style={styles.barImage}
+                    resizeMode="cover"
+                  />
+                  <View style={styles.imageOverlay}>
+                    <View style={styles.ratingBadge}>
+                      <Icon name="star" size={14} color={colors.star} />
+                      <Text style={styles.ratingBadgeText}>{bar.ratingAverage.toFixed(1)}</Text>
+                    </View>
                   </View>
+                  {getActiveHappyHours(bar.happyHours).length > 0 && (
+                    <View style={styles.happyHourBadge}>
+                      <Icon name="local-offer" size={14} color={colors.warning} />
+                      <Text style={styles.happyHourBadgeText}>Happy hour</Text>
+                    </View>
+                  )}
                 </View>
-              </View>
-
-              {/* Bar Info */}
-              <View style={styles.barInfoContainer}>
-                <Text style={styles.barName} numberOfLines={1}>{bar.name}</Text>
-                
-                {/* Rating */}
-                <View style={styles.ratingContainer}>
-                  <View style={styles.starsContainer}>
-                    {renderStars(Math.round(bar.ratingAverage))}
+
+                {/* Bar Info */}
+                <View style={styles.barInfoContainer}>
+                  <Text style={styles.barName} numberOfLines={1}>{bar.name}</Text>
+                  
+                  {/* Rating */}
+                  <View style={styles.ratingContainer}>
+                    <View style={styles.starsContainer}>
+                      {renderStars(Math.round(bar.ratingAverage))}
+                    </View>
+                    <Text style={styles.ratingText}>
+                      ({bar.ratingQuantity})
+                    </Text>
                   </View>
-                  <Text style={styles.ratingText}>
-                    ({bar.ratingQuantity})
+
+                  {/* Tags */}
+                  {bar.tags.length > 0 && (
+                    <View style={styles.tagsContainer}>
+                      {bar.tags.slice(0, 3).map((tag, index) => (
+                        <View key={index} style={styles.tag}>
+                          <Text style={styles.tagText}>{tag}</Text>
+                        </View>
+                      ))}
+                      {bar.tags.length > 3 && (
+                        <View style={styles.tagMore}>
+                          <Text style={styles.tagMoreText}>+{bar.tags.length - 3}</Text>
+                        </View>
+                      )}
+                    </View>
+                  )}
+
+                  {/* Description */}
+                  <Text style={styles.description} numberOfLines={2}>
+                    {bar.description}
                   </Text>
-                </View>
 
-                {/* Tags */}
-                {bar.tags.length > 0 && (
-                  <View style={styles.tagsContainer}>
-                    {bar.tags.slice(0, 3).map((tag, index) => (
-                      <View key={index} style={styles.tag}>
-                        <Text style={styles.tagText}>{tag}</Text>
-                      </View>
-                    ))}
-                    {bar.tags.length > 3 && (
-                      <View style={styles.tagMore}>
-                        <Text style={styles.tagMoreText}>+{bar.tags.length - 3}</Text>
-                      </View>
-                    )}
+                  {/* Location */}
+                  <View style={styles.locationContainer}>
+                    <Icon name="location-on" size={16} color={colors.textMuted} />
+                    <Text style={styles.address} numberOfLines={1}>
+                      {bar.address.city}, {bar.address.state}
+                      {origin && bar.coordinates && ` · ${formatDistance(distanceKm(origin, bar.coordinates))}`}
+                    </Text>
                   </View>
-                )}
-
-                {/* Description */}
-                <Text style={styles.description} numberOfLines={2}>
-                  {bar.description}
-                </Text>
-
-                {/* Location */}
-                <View style={styles.locationContainer}>
-                  <Icon name="location-on" size={16} color={colors.textMuted} />
-                  <Text style={styles.address} numberOfLines={1}>
-                    {bar.address.city}, {bar.address.state}
-                  </Text>
-                </View>
 
-                {/* Action Buttons */}
-                <View style={styles.actionButtons}>
-                  {bar.mapsUrl && (
+                  {/* Action Buttons */}
+                  <View style={styles.actionButtons}>
+                    {bar.mapsUrl && (
+                      <TouchableOpacity
+                        style={styles.mapButton}
+                        onPress={(e) => {
+                          e.stopPropagation();
+                          handleMapsPress(bar.mapsUrl!);
+                        }}
+                      >
+                        <Icon name="map" size={16} color={colors.primary} />
+                        <Text style={styles.mapButtonText}>Maps</Text>
+                      </TouchableOpacity>
+                    )}
                     <TouchableOpacity
                       style={styles.mapButton}
                       onPress={(e) => {
                         e.stopPropagation();
-                        handleMapsPress(bar.mapsUrl!);
+                        handleAddToRoute(bar);
                       }}
                     >
-                      <Icon name="map" size={16} color={colors.primary} />
-                      <Text style={styles.mapButtonText}>Maps</Text>
+                      <Icon name="add-location" size={16} color={colors.primary} />
+                      <Text style={styles.mapButtonText}>Route</Text>
                     </TouchableOpacity>
-                  )}
-                  <TouchableOpacity 
-                    style={styles.detailsButton}
-                    onPress={(e) => {
-                        e.stopPropagation();
-                        handleBarPress(bar._id);
-                      }}
-                  >
-                    <Text style={styles.detailsButtonText}>View Details</Text>
-                    <Icon name="arrow-forward" size={16} color={colors.text} />
-                  </TouchableOpacity>
+                    <TouchableOpacity 
+                      style={styles.detailsButton}
+                      onPress={(e) => {
+                          e.stopPropagation();
+                          handleBarPress(bar._id);
+                        }}
+                    >
+                      <Text style={styles.detailsButtonText}>View Details</Text>
+                      <Icon name="arrow-forward" size={16} color={colors.text} />
+                    </TouchableOpacity>
+                  </View>
                 </View>
-              </View>
-            </TouchableOpacity>
-          ))}
-        </View>
-      </ScrollView>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </ScrollView>
+      )}
+      {filtersModal}
     </SafeAreaView>
   );
 };
@@ -390,7 +505,16 @@ const styles = StyleSheet.create({
     paddingBottom: 16,
     backgroundColor: colors.background,
   },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  openAtContainer: {
+    marginTop: 12,
+  },
   searchInputContainer: {
+    flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
     backgroundColor: colors.surface,
@@ -412,6 +536,37 @@ const styles = StyleSheet.create({
   clearButton: {
     padding: 4,
   },
+  filterButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  filterButtonActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  filterBadge: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 4,
+    backgroundColor: colors.warning,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  filterBadgeText: {
+    fontSize: 11,
+    fontWeight: 'bold',
+    color: colors.background,
+  },
   listContainer: {
     paddingHorizontal: 20,
   },
@@ -462,6 +617,23 @@ const styles = StyleSheet.create({
     top: 12,
     right: 12,
   },
+  happyHourBadge: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  happyHourBadgeText: {
+    color: colors.warning,
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
   ratingBadge: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import { Dimensions, Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import TileMap, { clampZoom, clusterPoints, fitRegion, MapMarker, MapRegion } from '../../../components/TileMap';
+import { distanceKm, formatDistance } from '../../../services/LocationService';
+import { Bar, Coordinates } from '../../../types/models';
+
+const { width, height } = Dimensions.get('window');
+
+// Dark theme colors (same as BarsListScreen)
+const colors = {
+  surface: '#1a1a1a',
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  textMuted: '#71717a',
+  border: '#27272a',
+  star: '#fbbf24',
+};
+
+type MappedBar = { id: string; coordinates: Coordinates; bar: Bar };
+
+interface BarsMapViewProps {
+  bars: Bar[];
+  userLocation?: Coordinates | null;
+  onBarPress: (barId: string) => void;
+}
+
+const BarsMapView: React.FC<BarsMapViewProps> = ({ bars, userLocation, onBarPress }) => {
+  const mappedBars = useMemo<MappedBar[]>(
+    () => bars
+      .filter((bar) => bar.coordinates)
+      .map((bar) => ({ id: bar._id, coordinates: bar.coordinates!, bar })),
+    [bars]
+  );
+  const unmappedCount = bars.length - mappedBars.length;
+
+  const [region, setRegion] = useState<MapRegion>(() =>
+    fitRegion(mappedBars.map((entry) => entry.coordinates), width, height / 2)
+  );
+  const [selectedBarId, setSelectedBarId] = useState<string | null>(null);
+
+  // Al cambiar los filtros se vuelve a encuadrar con los bares que quedan; una recarga
+  // con los mismos bares no mueve el mapa
+  const barIdsKey = mappedBars.map((entry) => entry.id).join(',');
+  const [fittedKey, setFittedKey] = useState(barIdsKey);
+  if (fittedKey !== barIdsKey) {
+    setFittedKey(barIdsKey);
+    setRegion(fitRegion(mappedBars.map((entry) => entry.coordinates), width, height / 2));
+    if (!mappedBars.some((entry) => entry.id === selectedBarId)) setSelectedBarId(null);
+  }
+
+  const clusters = useMemo(() => clusterPoints(mappedBars, clampZoom(region.zoom)), [mappedBars, region.zoom]);
+
+  const markers: MapMarker[] = clusters.map((cluster) => ({
+    id: cluster.id,
+    coordinates: cluster.coordinates,
+    count: cluster.members.length,
+    selected: cluster.members.length === 1 && cluster.members[0].id === selectedBarId,
+  }));
+
+  const handleMarkerPress = (marker: MapMarker) => {
+    const cluster = clusters.find((candidate) => candidate.id === marker.id);
+    if (!cluster) return;
+
+    if (cluster.members.length === 1) {
+      setSelectedBarId(cluster.members[0].id);
+      return;
+    }
+    // Acercarse al cluster lo separa en grupos más chicos
+    setRegion({ center: cluster.coordinates, zoom: clampZoom(region.zoom + 2) });
+  };
+
+  const selectedBar = mappedBars.find((entry) => entry.id === selectedBarId)?.bar;
+
+  return (
+    <View style={styles.container}>
+      <TileMap
+        style={styles.map}
+        region={region}
+        onRegionChange={setRegion}
+        markers={markers}
+        userLocation={userLocation}
+        onMarkerPress={handleMarkerPress}
+        onMapPress={() => setSelectedBarId(null)}
+      />
+
+      {unmappedCount > 0 && (
+        <View style={styles.notice} pointerEvents="none">
+          <Icon name="location-off" size={14} color={colors.textSecondary} />
+          <Text style={styles.noticeText}>
+            {unmappedCount} {unmappedCount === 1 ? 'bar has' : 'bars have'} no map location
+          </Text>
+        </View>
+      )}
+
+      {selectedBar && (
+        <TouchableOpacity style={styles.barCard} onPress={() => onBarPress(selectedBar._id)} activeOpacity={0.9}>
+          <Image
+            source={{ uri: selectedBar.photo || 'https://via.placeholder.com/120x120?text=No+Image' }}
+            style={styles.barImage}
+          />
+          <View style={styles.barInfo}>
+            <Text style={styles.barName} numberOfLines={1}>{selectedBar.name}</Text>
+            <View style={styles.barMeta}>
+              <Icon name="star" size={14} color={colors.star} />
+              <Text style={styles.barMetaText}>
+                {selectedBar.ratingAverage.toFixed(1)} ({selectedBar.ratingQuantity})
+              </Text>
+              {userLocation && selectedBar.coordinates && (
+                <Text style={styles.barMetaText}>
+                  · {formatDistance(distanceKm(userLocation, selectedBar.coordinates))}
+                </Text>
+              )}
+            </View>
+            <Text style={styles.barAddress} numberOfLines={1}>
+              {selectedBar.address.city}, {selectedBar.address.state}
+            </Text>
+          </View>
+          <Icon name="chevron-right" size={24} color={colors.textMuted} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  map: {
+    flex: 1,
+  },
+  notice: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+  },
+  noticeText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginLeft: 4,
+  },
+  barCard: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 12,
+  },
+  barImage: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    backgroundColor: colors.surfaceVariant,
+  },
+  barInfo: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  barName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  barMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+    gap: 4,
+  },
+  barMetaText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  barAddress: {
+    fontSize: 12,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+});
+
+export default BarsMapView;
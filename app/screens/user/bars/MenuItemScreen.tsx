@@ -1,6 +1,6 @@
 import { RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -16,8 +16,16 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import LastUpdatedIndicator from '../../../components/LastUpdatedIndicator';
+import { useCachedQuery } from '../../../hooks/useCachedQuery';
 import { BarsStackParamList } from '../../../navigation/userNavigation';
 import BarService from '../../../services/BarService';
+import { SERVING_FORMAT_ICONS, SERVING_FORMAT_LABELS } from '../../../services/BeerService';
+import { describeAllergens, DIETARY_TAG_ICONS, DIETARY_TAG_LABELS, SPICY_LEVEL_LABELS } from '../../../services/DietaryService';
+import { describeActiveHappyHour, getItemPrice, getServingPrice } from '../../../services/HappyHourService';
+import { AVAILABILITY_ICONS, AVAILABILITY_LABELS, resolveAvailability } from '../../../services/MenuAvailabilityService';
+import { cacheKeys } from '../../../services/QueryCache';
+import { Bar, MenuItem, MenuItemType } from '../../../types/models';
 
 const { width, height } = Dimensions.get('window');
 const isTablet = width >= 768;
@@ -43,6 +51,7 @@ const colors = {
   error: '#ef4444',
   star: '#fbbf24',
   starEmpty: '#52525b',
+  spicy: '#f97316',
   overlay: 'rgba(0, 0, 0, 0.6)',
 };
 
@@ -54,66 +63,34 @@ interface MenuItemScreenProps {
   navigation: MenuItemScreenNavigationProp;
 }
 
-interface MenuItem {
-  _id: string;
-  bar: {
-    _id: string;
-    name: string;
-  };
-  name: string;
-  description: string;
-  price: number;
-  photo: string;
-  type: 'alcohol' | 'comida' | 'bebida';
-  alcoholPercentage?: number;
-  volume?: number;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface Bar {
-  _id: string;
-  name: string;
-  photo?: string;
-}
-
-type MenuItemType = 'alcohol' | 'comida' | 'bebida';
-
 const MenuItemScreen: React.FC<MenuItemScreenProps> = ({ route, navigation }) => {
   const { itemId, barId } = route.params;
-  const [menuItem, setMenuItem] = useState<MenuItem | null>(null);
-  const [bar, setBar] = useState<Bar | null>(null);
-  const [loading, setLoading] = useState(true);
   const [imageError, setImageError] = useState(false);
   const [barImageError, setBarImageError] = useState(false);
 
-  const fetchMenuItemData = useCallback(async () => {
-    try {
-      setLoading(true);
-      setImageError(false);
-      setBarImageError(false);
-      
-      // Corrected parameter order
-      const menuItemResponse = await BarService.getMenuItemById(barId, itemId);
-      setMenuItem(menuItemResponse);
-  
-      // Fetch bar details
-      const barResponse = await BarService.getBarById(barId);
-      setBar(barResponse.data);
-  
-    } catch (error) {
-      console.error('Error fetching menu item data:', error);
-      Alert.alert('Error', 'Failed to load menu item information');
-      setMenuItem(null);
-      setBar(null);
-    } finally {
-      setLoading(false);
-    }
+  const menuItemQuery = useCachedQuery<MenuItem>(
+    cacheKeys.menuItem(barId, itemId),
+    () => BarService.getMenuItemById(barId, itemId)
+  );
+  // Comparte la llave con el detalle del bar, así que suele estar en cache
+  const barQuery = useCachedQuery<Bar>(cacheKeys.bar(barId), () => BarService.getBarById(barId));
+
+  const menuItem = menuItemQuery.data ?? null;
+  const bar = barQuery.data ?? null;
+  const loading = menuItemQuery.loading;
+
+  useEffect(() => {
+    setImageError(false);
+    setBarImageError(false);
   }, [barId, itemId]);
 
+  // Solo se avisa del error si no hay datos en cache para mostrar
   useEffect(() => {
-    fetchMenuItemData();
-  }, [fetchMenuItemData]);
+    if (menuItemQuery.error && !menuItemQuery.data) {
+      console.error('Error fetching menu item data:', menuItemQuery.error);
+      Alert.alert('Error', 'Failed to load menu item information');
+    }
+  }, [menuItemQuery.error, menuItemQuery.data]);
 
   const getTypeLabel = (type: MenuItemType) => {
     const typeLabels = {
@@ -169,6 +146,10 @@ const MenuItemScreen: React.FC<MenuItemScreenProps> = ({ route, navigation }) =>
     );
   }
 
+  // Sin el bar cargado no se conocen sus happy hours y se muestra el precio regular
+  const itemPrice = getItemPrice(menuItem, bar?.happyHours);
+  const availability = resolveAvailability(menuItem, bar?.openingHours);
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar barStyle="light-content" backgroundColor={colors.background} />
@@ -201,12 +182,44 @@ const MenuItemScreen: React.FC<MenuItemScreenProps> = ({ route, navigation }) =>
 
         {/* Menu Item Info */}
         <View style={styles.infoContainer}>
+          <LastUpdatedIndicator updatedAt={menuItemQuery.updatedAt} isOffline={menuItemQuery.isOffline} />
           <Text style={styles.itemName}>{menuItem.name}</Text>
-          
+
+          {(availability === 'sold_out' || availability === 'seasonal') && (
+            <View style={[styles.availabilityBanner, availability === 'sold_out' && styles.availabilityBannerSoldOut]}>
+              <Icon
+                name={AVAILABILITY_ICONS[availability]}
+                size={20}
+                color={availability === 'sold_out' ? colors.error : colors.warning}
+              />
+              <View style={styles.availabilityBannerContent}>
+                <Text style={styles.availabilityBannerTitle}>{AVAILABILITY_LABELS[availability]}</Text>
+                <Text style={styles.availabilityBannerText}>
+                  {availability === 'seasonal'
+                    ? 'Available for a limited time'
+                    : menuItem.autoReset
+                    ? 'Back on the menu when the bar opens again'
+                    : 'Ask the bar when it will be back'}
+                </Text>
+              </View>
+            </View>
+          )}
+
           {/* Price Badge */}
-          <View style={styles.priceContainer}>
-            <Text style={styles.priceText}>${menuItem.price.toFixed(2)}</Text>
+          <View style={styles.priceRow}>
+            <View style={[styles.priceContainer, itemPrice.happyHour && styles.priceContainerPromo]}>
+              <Text style={styles.priceText}>${itemPrice.price.toFixed(2)}</Text>
+            </View>
+            {itemPrice.happyHour && (
+              <Text style={styles.regularPriceText}>${itemPrice.regularPrice.toFixed(2)}</Text>
+            )}
           </View>
+          {itemPrice.happyHour && (
+            <View style={styles.happyHourNote}>
+              <Icon name="local-offer" size={16} color={colors.warning} />
+              <Text style={styles.happyHourNoteText}>{describeActiveHappyHour(itemPrice.happyHour)}</Text>
+            </View>
+          )}
           
           {/* Bar Info */}
           {bar && (
@@ -264,6 +277,45 @@ const MenuItemScreen: React.FC<MenuItemScreenProps> = ({ route, navigation }) =>
               </View>
             )}
 
+            {/* Beer attributes */}
+            {menuItem.beer?.style && (
+              <View style={styles.detailRow}>
+                <View style={styles.detailIconContainer}>
+                  <Icon name="sports-bar" size={20} color={colors.warning} />
+                </View>
+                <View style={styles.detailContent}>
+                  <Text style={styles.detailLabel}>Style</Text>
+                  <Text style={styles.detailText}>{menuItem.beer.style}</Text>
+                </View>
+              </View>
+            )}
+
+            {menuItem.beer?.ibu !== undefined && (
+              <View style={styles.detailRow}>
+                <View style={styles.detailIconContainer}>
+                  <Icon name="grain" size={20} color={colors.success} />
+                </View>
+                <View style={styles.detailContent}>
+                  <Text style={styles.detailLabel}>Bitterness</Text>
+                  <Text style={styles.detailText}>{menuItem.beer.ibu} IBU</Text>
+                </View>
+              </View>
+            )}
+
+            {(menuItem.beer?.brewery || menuItem.beer?.origin) && (
+              <View style={styles.detailRow}>
+                <View style={styles.detailIconContainer}>
+                  <Icon name="factory" size={20} color={colors.accent} />
+                </View>
+                <View style={styles.detailContent}>
+                  <Text style={styles.detailLabel}>Brewery</Text>
+                  <Text style={styles.detailText}>
+                    {[menuItem.beer.brewery, menuItem.beer.origin].filter(Boolean).join(' · ')}
+                  </Text>
+                </View>
+              </View>
+            )}
+
             {/* Volume (if applicable) */}
             {menuItem.volume && menuItem.volume > 0 && (
               <View style={styles.detailRow}>
@@ -278,6 +330,63 @@ const MenuItemScreen: React.FC<MenuItemScreenProps> = ({ route, navigation }) =>
             )}
           </View>
 
+          {/* Serving sizes */}
+          {menuItem.servings && menuItem.servings.length > 0 && (
+            <View style={styles.detailsCard}>
+              <Text style={styles.sectionTitle}>Serving Sizes</Text>
+              {menuItem.servings.map((serving, index) => {
+                const servingPrice = getServingPrice(menuItem, serving, bar?.happyHours);
+                return (
+                  <View key={index} style={styles.servingRow}>
+                    <Icon name={SERVING_FORMAT_ICONS[serving.format]} size={20} color={colors.primary} />
+                    <Text style={styles.servingText}>
+                      {SERVING_FORMAT_LABELS[serving.format]} · {serving.volume} ml
+                    </Text>
+                    {servingPrice.happyHour && (
+                      <Text style={styles.servingRegularPrice}>${servingPrice.regularPrice.toFixed(2)}</Text>
+                    )}
+                    <Text style={[styles.servingPrice, servingPrice.happyHour && styles.servingPromoPrice]}>
+                      ${servingPrice.price.toFixed(2)}
+                    </Text>
+                  </View>
+                );
+              })}
+            </View>
+          )}
+
+          {/* Dietary info */}
+          {(menuItem.dietaryTags.length > 0 || menuItem.allergens.length > 0 || menuItem.spicyLevel > 0) && (
+            <View style={styles.detailsCard}>
+              <Text style={styles.sectionTitle}>Dietary Info</Text>
+              {menuItem.dietaryTags.length > 0 && (
+                <View style={styles.dietaryBadges}>
+                  {menuItem.dietaryTags.map((tag) => (
+                    <View key={tag} style={styles.dietaryBadge}>
+                      <Icon name={DIETARY_TAG_ICONS[tag]} size={14} color={colors.success} />
+                      <Text style={styles.dietaryBadgeText}>{DIETARY_TAG_LABELS[tag]}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+              {menuItem.allergens.length > 0 && (
+                <View style={styles.dietaryRow}>
+                  <Icon name="warning-amber" size={18} color={colors.warning} />
+                  <Text style={styles.dietaryRowText}>{describeAllergens(menuItem.allergens)}</Text>
+                </View>
+              )}
+              {menuItem.spicyLevel > 0 && (
+                <View style={styles.dietaryRow}>
+                  <View style={styles.spicyIcons}>
+                    {Array.from({ length: menuItem.spicyLevel }, (_, index) => (
+                      <Icon key={index} name="whatshot" size={18} color={colors.spicy} />
+                    ))}
+                  </View>
+                  <Text style={styles.dietaryRowText}>{SPICY_LEVEL_LABELS[menuItem.spicyLevel]}</Text>
+                </View>
+              )}
+            </View>
+          )}
+
           {/* Description */}
           {menuItem.description && (
             <View style={styles.descriptionCard}>
@@ -287,11 +396,13 @@ const MenuItemScreen: React.FC<MenuItemScreenProps> = ({ route, navigation }) =>
           )}
           
           {/* Date Info */}
-          <View style={styles.dateInfo}>
-            <Text style={styles.dateText}>
-              Added on {new Date(menuItem.createdAt).toLocaleDateString()}
-            </Text>
-          </View>
+          {menuItem.createdAt && (
+            <View style={styles.dateInfo}>
+              <Text style={styles.dateText}>
+                Added on {new Date(menuItem.createdAt).toLocaleDateString()}
+              </Text>
+            </View>
+          )}
         </View>
       </ScrollView>
     </SafeAreaView>
@@ -411,14 +522,65 @@ const styles = StyleSheet.create({
     color: colors.text,
     marginBottom: 16,
   },
+  priceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
   priceContainer: {
     backgroundColor: colors.primary,
     paddingHorizontal: 16,
     paddingVertical: 10,
     borderRadius: 8,
     alignSelf: 'flex-start',
+  },
+  priceContainerPromo: {
+    backgroundColor: colors.warning,
+  },
+  regularPriceText: {
+    fontSize: 18,
+    color: colors.textMuted,
+    textDecorationLine: 'line-through',
+    marginLeft: 12,
+  },
+  availabilityBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.warning,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 20,
+  },
+  availabilityBannerSoldOut: {
+    borderColor: colors.error,
+  },
+  availabilityBannerContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  availabilityBannerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  availabilityBannerText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  happyHourNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: -16,
     marginBottom: 24,
   },
+  happyHourNoteText: {
+    fontSize: 14,
+    color: colors.warning,
+    marginLeft: 6,
+  },
   priceText: {
     fontSize: 24,
     fontWeight: 'bold',
@@ -504,6 +666,65 @@ const styles = StyleSheet.create({
     color: colors.text,
     fontWeight: '500',
   },
+  servingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  servingText: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.text,
+    marginLeft: 12,
+  },
+  servingRegularPrice: {
+    fontSize: 14,
+    color: colors.textMuted,
+    textDecorationLine: 'line-through',
+    marginRight: 8,
+  },
+  servingPrice: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  servingPromoPrice: {
+    color: colors.warning,
+  },
+  dietaryBadges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  dietaryBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(16, 185, 129, 0.15)',
+  },
+  dietaryBadgeText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.success,
+  },
+  dietaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  spicyIcons: {
+    flexDirection: 'row',
+  },
+  dietaryRowText: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.text,
+    marginLeft: 12,
+  },
   descriptionCard: {
     backgroundColor: colors.surface,
     padding: 16,
@@ -0,0 +1,523 @@
+import { StackNavigationProp } from '@react-navigation/stack';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import FilterChip from '../../../components/FilterChip';
+import LastUpdatedIndicator from '../../../components/LastUpdatedIndicator';
+import OpenAtFilter, { OpenAtValue, resolveOpenAt } from '../../../components/OpenAtFilter';
+import { useAuth } from '../../../context/AuthContext';
+import { useCachedQuery } from '../../../hooks/useCachedQuery';
+import { BarsStackParamList } from '../../../navigation/userNavigation';
+import BarService from '../../../services/BarService';
+import { describeBeer } from '../../../services/BeerService';
+import { hasDietaryPreferences, matchesDietaryPreferences } from '../../../services/DietaryService';
+import { getItemPrice, MENU_TYPE_LABELS } from '../../../services/HappyHourService';
+import { AVAILABILITY_LABELS, isOrderable, resolveAvailability } from '../../../services/MenuAvailabilityService';
+import { hasMenuSearchCriteria, lowestPrice } from '../../../services/MenuSearchService';
+import { describeOpenStatus, getOpenStatus, isOpenAt } from '../../../services/OpeningHoursService';
+import { cacheKeys } from '../../../services/QueryCache';
+import {
+  Bar,
+  DEFAULT_MENU_SEARCH_FILTERS,
+  MENU_ITEM_TYPES,
+  MenuItem,
+  MenuItemType,
+  MenuSearchFilters,
+  MenuSearchResult,
+  parseDietaryPreferences,
+} from '../../../types/models';
+
+// Dark theme colors
+const colors = {
+  background: '#0a0a0a',
+  surface: '#1a1a1a',
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  textMuted: '#71717a',
+  border: '#27272a',
+  success: '#10b981',
+  warning: '#f59e0b',
+  error: '#ef4444',
+};
+
+// Espera a que el usuario deje de escribir antes de consultar
+const SEARCH_DELAY_MS = 300;
+
+type MenuSearchScreenNavigationProp = StackNavigationProp<BarsStackParamList, 'MenuSearch'>;
+
+interface MenuSearchScreenProps {
+  navigation: MenuSearchScreenNavigationProp;
+}
+
+// Rangos como texto mientras se editan
+interface RangeDraft {
+  minPrice: string;
+  maxPrice: string;
+  minAbv: string;
+  maxAbv: string;
+}
+
+const parseBound = (text: string): number | null => {
+  const value = parseFloat(text);
+  return Number.isNaN(value) ? null : value;
+};
+
+const MenuSearchScreen: React.FC<MenuSearchScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const [query, setQuery] = useState('');
+  const [types, setTypes] = useState<MenuItemType[]>([]);
+  const [ranges, setRanges] = useState<RangeDraft>({ minPrice: '', maxPrice: '', minAbv: '', maxAbv: '' });
+  // "Abierto esta noche" se resuelve en el cliente con el horario de cada bar
+  const [openAt, setOpenAt] = useState<OpenAtValue>(null);
+  const [filters, setFilters] = useState<MenuSearchFilters>(DEFAULT_MENU_SEARCH_FILTERS);
+  // Las preferencias de dieta guardadas se aplican de entrada; el chip permite quitarlas
+  const savedPreferences = useMemo(() => parseDietaryPreferences(user?.dietaryPreferences), [user]);
+  const hasSavedPreferences = hasDietaryPreferences(savedPreferences);
+  const [applyPreferences, setApplyPreferences] = useState(true);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setFilters({
+        query,
+        types,
+        minPrice: parseBound(ranges.minPrice),
+        maxPrice: parseBound(ranges.maxPrice),
+        minAbv: parseBound(ranges.minAbv),
+        maxAbv: parseBound(ranges.maxAbv),
+      });
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [query, types, ranges]);
+
+  const searchParams = useMemo(() => BarService.buildMenuSearchParams(filters), [filters]);
+  const { data, updatedAt, loading, refreshing, isOffline, refresh } = useCachedQuery<MenuSearchResult[]>(
+    hasMenuSearchCriteria(filters) ? cacheKeys.menuSearch(searchParams) : null,
+    () => BarService.searchMenu(filters)
+  );
+
+  const results = useMemo(() => {
+    const moment = resolveOpenAt(openAt);
+    const all = data ?? [];
+    const open = moment ? all.filter((result) => isOpenAt(result.bar.openingHours, moment)) : all;
+    if (!applyPreferences || !hasSavedPreferences) return open;
+    return open
+      .map((result) => ({ ...result, items: result.items.filter((item) => matchesDietaryPreferences(item, savedPreferences)) }))
+      .filter((result) => result.items.length > 0);
+  }, [data, openAt, applyPreferences, hasSavedPreferences, savedPreferences]);
+  const itemCount = results.reduce((count, result) => count + result.items.length, 0);
+
+  const toggleType = (type: MenuItemType) => {
+    setTypes(types.includes(type) ? types.filter((current) => current !== type) : [...types, type]);
+  };
+
+  const updateRange = (field: keyof RangeDraft, text: string) => {
+    setRanges({ ...ranges, [field]: text.replace(/[^0-9.]/g, '') });
+  };
+
+  const handleItemPress = (bar: Bar, item: MenuItem) => {
+    navigation.navigate('MenuItem', { barId: bar._id, itemId: item._id });
+  };
+
+  const renderRangeInputs = (label: string, min: keyof RangeDraft, max: keyof RangeDraft, unit: string) => (
+    <View style={styles.rangeRow}>
+      <Text style={styles.rangeLabel}>{label}</Text>
+      <TextInput
+        style={styles.rangeInput}
+        value={ranges[min]}
+        onChangeText={(text) => updateRange(min, text)}
+        placeholder="Min"
+        placeholderTextColor={colors.textMuted}
+        keyboardType="decimal-pad"
+      />
+      <Text style={styles.rangeSeparator}>–</Text>
+      <TextInput
+        style={styles.rangeInput}
+        value={ranges[max]}
+        onChangeText={(text) => updateRange(max, text)}
+        placeholder="Max"
+        placeholderTextColor={colors.textMuted}
+        keyboardType="decimal-pad"
+      />
+      <Text style={styles.rangeUnit}>{unit}</Text>
+    </View>
+  );
+
+  const renderItem = (bar: Bar, item: MenuItem) => {
+    const itemPrice = getItemPrice(item, bar.happyHours);
+    const fromPrice = lowestPrice(item);
+    const availability = resolveAvailability(item, bar.openingHours);
+    const details = [
+      availability !== 'available' ? AVAILABILITY_LABELS[availability] : undefined,
+      MENU_TYPE_LABELS[item.type],
+      item.alcoholPercentage ? `${item.alcoholPercentage}% ABV` : undefined,
+      describeBeer(item) || undefined,
+    ].filter(Boolean);
+
+    return (
+      <TouchableOpacity
+        key={item._id}
+        style={[styles.itemRow, !isOrderable(availability) && styles.itemRowUnavailable]}
+        onPress={() => handleItemPress(bar, item)}
+      >
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemName} numberOfLines={1}>{item.name}</Text>
+          <Text style={styles.itemDetails} numberOfLines={1}>{details.join(' · ')}</Text>
+        </View>
+        <View style={styles.itemPrices}>
+          {itemPrice.happyHour && <Text style={styles.regularPrice}>${itemPrice.regularPrice.toFixed(2)}</Text>}
+          <Text style={[styles.itemPrice, itemPrice.happyHour && styles.promoPrice]}>
+            ${itemPrice.price.toFixed(2)}
+          </Text>
+          {fromPrice < itemPrice.price && <Text style={styles.fromPrice}>from ${fromPrice.toFixed(2)}</Text>}
+        </View>
+        <Icon name="chevron-right" size={20} color={colors.textMuted} />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderResult = ({ item: result }: { item: MenuSearchResult }) => {
+    const openStatus = getOpenStatus(result.bar.openingHours);
+    return (
+      <View style={styles.barCard}>
+        <TouchableOpacity
+          style={styles.barHeader}
+          onPress={() => navigation.navigate('BarDetails', { barId: result.bar._id })}
+        >
+          <Icon name="storefront" size={20} color={colors.primary} />
+          <View style={styles.barHeaderInfo}>
+            <Text style={styles.barName} numberOfLines={1}>{result.bar.name}</Text>
+            <Text style={styles.barMeta} numberOfLines={1}>
+              {result.bar.address.city}
+              {openStatus && ` · ${describeOpenStatus(openStatus)}`}
+            </Text>
+          </View>
+          <Icon name="chevron-right" size={20} color={colors.textMuted} />
+        </TouchableOpacity>
+        {result.items.map((item) => renderItem(result.bar, item))}
+      </View>
+    );
+  };
+
+  const renderEmpty = () => {
+    if (!hasMenuSearchCriteria(filters)) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Icon name="manage-search" size={48} color={colors.textMuted} />
+          <Text style={styles.emptyText}>Search every menu</Text>
+          <Text style={styles.emptySubtext}>Try a michelada with a max price of 80, open tonight</Text>
+        </View>
+      );
+    }
+    if (loading) {
+      return (
+        <View style={styles.emptyContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      );
+    }
+    return (
+      <View style={styles.emptyContainer}>
+        <Icon name="search-off" size={48} color={colors.textMuted} />
+        <Text style={styles.emptyText}>No items match your search</Text>
+        <Text style={styles.emptySubtext}>
+          {applyPreferences && hasSavedPreferences && (data ?? []).length > 0
+            ? 'No match fits your dietary preferences'
+            : openAt && (data ?? []).length > 0
+              ? 'No bar with a match is open at that time'
+              : 'Try a different name or widen the price and ABV ranges'}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Icon name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerInfo}>
+          <Text style={styles.headerTitle}>Search Menus</Text>
+          {hasMenuSearchCriteria(filters) && !loading && (
+            <Text style={styles.headerSubtitle}>
+              {itemCount} {itemCount === 1 ? 'item' : 'items'} in {results.length} {results.length === 1 ? 'bar' : 'bars'}
+            </Text>
+          )}
+        </View>
+      </View>
+
+      <View style={styles.searchContainer}>
+        <View style={styles.searchInputContainer}>
+          <Icon name="search" size={20} color={colors.textMuted} style={styles.searchIcon} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Michelada, IPA, wings..."
+            placeholderTextColor={colors.textMuted}
+            value={query}
+            onChangeText={setQuery}
+            autoFocus
+          />
+          {query !== '' && (
+            <TouchableOpacity onPress={() => setQuery('')} style={styles.clearButton}>
+              <Icon name="close" size={20} color={colors.textMuted} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.chipsRow}>
+          {hasSavedPreferences && (
+            <FilterChip
+              label="My preferences"
+              icon="health-and-safety"
+              selected={applyPreferences}
+              onPress={() => setApplyPreferences(!applyPreferences)}
+            />
+          )}
+          {MENU_ITEM_TYPES.map((type) => (
+            <FilterChip
+              key={type}
+              label={MENU_TYPE_LABELS[type]}
+              selected={types.includes(type)}
+              onPress={() => toggleType(type)}
+            />
+          ))}
+        </View>
+
+        {renderRangeInputs('Price', 'minPrice', 'maxPrice', '$')}
+        {renderRangeInputs('ABV', 'minAbv', 'maxAbv', '%')}
+
+        <View style={styles.openAtContainer}>
+          <OpenAtFilter value={openAt} onChange={setOpenAt} />
+        </View>
+        {data && <LastUpdatedIndicator updatedAt={updatedAt} isOffline={isOffline} />}
+      </View>
+
+      <FlatList
+        data={results}
+        renderItem={renderResult}
+        keyExtractor={(result) => result.bar._id}
+        ListEmptyComponent={renderEmpty}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={refresh}
+            tintColor={colors.primary}
+            colors={[colors.primary]}
+          />
+        }
+        contentContainerStyle={styles.listContent}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  backButton: {
+    backgroundColor: colors.surfaceVariant,
+    borderRadius: 20,
+    padding: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  searchContainer: {
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    gap: 12,
+  },
+  searchInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  searchIcon: {
+    marginRight: 12,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.text,
+  },
+  clearButton: {
+    padding: 4,
+  },
+  chipsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rangeLabel: {
+    width: 44,
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  rangeInput: {
+    flex: 1,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: colors.text,
+  },
+  rangeSeparator: {
+    fontSize: 14,
+    color: colors.textMuted,
+  },
+  rangeUnit: {
+    width: 16,
+    fontSize: 14,
+    color: colors.textMuted,
+  },
+  openAtContainer: {
+    marginTop: 4,
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+    flexGrow: 1,
+  },
+  barCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginBottom: 16,
+    overflow: 'hidden',
+  },
+  barHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    backgroundColor: colors.surfaceVariant,
+  },
+  barHeaderInfo: {
+    flex: 1,
+  },
+  barName: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  barMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  itemRowUnavailable: {
+    opacity: 0.5,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: colors.text,
+  },
+  itemDetails: {
+    fontSize: 13,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+  itemPrices: {
+    alignItems: 'flex-end',
+  },
+  itemPrice: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  promoPrice: {
+    color: colors.warning,
+  },
+  regularPrice: {
+    fontSize: 12,
+    color: colors.textMuted,
+    textDecorationLine: 'line-through',
+  },
+  fromPrice: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: colors.text,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: colors.textMuted,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
+
+export default MenuSearchScreen;
@@ -14,6 +14,7 @@ import {
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import BarService from '../../../services/BarService';
+import { Review } from '../../../types/models';
 
 // Dark theme colors (same as BarDetailsScreen)
 const colors = {
@@ -44,11 +45,7 @@ interface ReviewModalProps {
   onReviewSubmitted: () => void;
   barId: string;
   barName: string;
-  existingReview?: {
-    _id: string;
-    rating: number;
-    comment: string;
-  } | null;
+  existingReview?: Review | null;
 }
 
 const ReviewModal: React.FC<ReviewModalProps> = ({
@@ -84,12 +81,16 @@ const ReviewModal: React.FC<ReviewModalProps> = ({
 
       if (existingReview) {
         // Update existing review
-        await BarService.updateReview(existingReview._id, reviewData);
-        Alert.alert('Success', 'Your review has been updated!');
+        const review = await BarService.updateReview(existingReview._id, reviewData, barId);
+        Alert.alert('Success', review.pending
+          ? "You're offline. Your review will be updated when you reconnect."
+          : 'Your review has been updated!');
       } else {
         // Create new review
-        await BarService.createReview(barId, reviewData);
-        Alert.alert('Success', 'Thank you for your review!');
+        const review = await BarService.createReview(barId, reviewData);
+        Alert.alert('Success', review.pending
+          ? "You're offline. Your review will be published when you reconnect."
+          : 'Thank you for your review!');
       }
 
       // Reset form
@@ -1,8 +1,9 @@
 import { RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   Dimensions,
   Image,
   Linking,
@@ -18,7 +19,24 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import LastUpdatedIndicator from '../../../components/LastUpdatedIndicator';
+import QrCode from '../../../components/QrCode';
+import { useApiError } from '../../../hooks/useApiError';
+import { useCachedQuery } from '../../../hooks/useCachedQuery';
 import BarService from '../../../services/BarService';
+import { exportEventToCalendar } from '../../../services/CalendarExportService';
+import { describeRecurrence, getNextOccurrence, getOccurrence, hasEventEnded } from '../../../services/EventRecurrenceService';
+import { describeAttendance, RSVP_ICONS, RSVP_LABELS } from '../../../services/EventRsvpService';
+import {
+  getEventTiers,
+  getRemainingSpots,
+  getTierSaleStatus,
+  MAX_RESERVATION_QUANTITY,
+  TICKET_TIER_ICONS,
+  TierSaleStatus,
+} from '../../../services/EventTicketService';
+import { cacheKeys } from '../../../services/QueryCache';
+import { Event, Reservation, RSVP_STATUSES, RsvpState, RsvpStatus, TicketTier } from '../../../types/models';
 import { EventsStackParamList } from '../../../types/navigation';
 
 const { width, height } = Dimensions.get('window');
@@ -48,21 +66,6 @@ const colors = {
   overlay: 'rgba(0, 0, 0, 0.6)',
 };
 
-interface Event {
-  _id: string;
-  name: string;
-  description: string;
-  image: string;
-  location: string;
-  price: number;
-  start: string;
-  end: string;
-  bar: {
-    _id: string;
-    name: string;
-  };
-}
-
 type EventDetailsScreenRouteProp = RouteProp<EventsStackParamList, 'EventDetails'>;
 type EventDetailsScreenNavigationProp = StackNavigationProp<EventsStackParamList, 'EventDetails'>;
 
@@ -72,32 +75,60 @@ interface EventDetailsScreenProps {
 }
 
 const EventDetailsScreen: React.FC<EventDetailsScreenProps> = ({ route, navigation }) => {
-  const { eventId } = route.params;
-  const [event, setEvent] = useState<Event | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [isFavorite, setIsFavorite] = useState(false);
+  const { eventId, occurrenceDate } = route.params;
+  const { showError } = useApiError('save');
+  const [rsvp, setRsvp] = useState<RsvpState | null>(null);
+  const [savingRsvp, setSavingRsvp] = useState(false);
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [selectedTierId, setSelectedTierId] = useState<string | null>(null);
+  const [quantity, setQuantity] = useState(1);
+  const [reserving, setReserving] = useState(false);
+  const { data, updatedAt, loading, refreshing, error, isOffline, refresh } = useCachedQuery<Event>(
+    eventId ? cacheKeys.event(eventId) : null,
+    () => BarService.getEventById(eventId)
+  );
+  const event = data ?? null;
+  // Ocurrencia que se muestra: la elegida en la lista o la siguiente de la serie
+  const occurrence = useMemo(() => {
+    if (!event?.recurrence) return event;
+    return (occurrenceDate ? getOccurrence(event, occurrenceDate) : null) ?? getNextOccurrence(event) ?? event;
+  }, [event, occurrenceDate]);
+  const occurrenceCancelled = !!event?.recurrence && !!occurrenceDate && occurrence?.occurrenceDate !== occurrenceDate;
 
-  const fetchEvent = async () => {
-    try {
-      setLoading(true);
-      const response = await BarService.getEventById(eventId);
-      setEvent(response.data);
-    } catch (error) {
+  useEffect(() => {
+    if (error) {
       console.error('Error fetching event:', error);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
     }
-  };
+  }, [error]);
+
+  const loadRsvp = useCallback(async () => {
+    try {
+      setRsvp(await BarService.getEventRsvp(eventId));
+    } catch (rsvpError) {
+      console.error('Error fetching RSVP:', rsvpError);
+    }
+  }, [eventId]);
 
   useEffect(() => {
-    if (eventId) fetchEvent();
+    loadRsvp();
+  }, [loadRsvp]);
+
+  const loadReservations = useCallback(async () => {
+    try {
+      setReservations(await BarService.getMyEventReservations(eventId));
+    } catch (reservationsError) {
+      console.error('Error fetching reservations:', reservationsError);
+    }
   }, [eventId]);
 
+  useEffect(() => {
+    loadReservations();
+  }, [loadReservations]);
+
   const onRefresh = () => {
-    setRefreshing(true);
-    fetchEvent();
+    refresh();
+    loadRsvp();
+    loadReservations();
   };
 
   const formatDate = (dateString: string) => {
@@ -131,11 +162,11 @@ const EventDetailsScreen: React.FC<EventDetailsScreenProps> = ({ route, navigati
   };
 
   const handleShare = async () => {
-    if (!event) return;
+    if (!event || !occurrence) return;
     
     try {
       await Share.share({
-        message: `¡Mira este evento! ${event.name} en ${event.bar?.name}. ${event.description}. Es en ${event.location} el ${formatDate(event.start)} a las ${formatTime(event.start)}.`,
+        message: `¡Mira este evento! ${event.name} en ${event.bar?.name}. ${event.description}. Es en ${event.location} el ${formatDate(occurrence.start)} a las ${formatTime(occurrence.start)}.`,
         title: event.name,
       });
     } catch (error) {
@@ -143,6 +174,17 @@ const EventDetailsScreen: React.FC<EventDetailsScreenProps> = ({ route, navigati
     }
   };
 
+  // Exporta la serie completa, no solo la ocurrencia que se está viendo
+  const handleAddToCalendar = async () => {
+    if (!event) return;
+    try {
+      await exportEventToCalendar(event);
+    } catch (calendarError) {
+      console.error('Error exporting to calendar:', calendarError);
+      showError(calendarError, 'No se pudo agregar al calendario');
+    }
+  };
+
   const handleOpenMaps = () => {
     if (!event?.location) return;
     
@@ -156,9 +198,71 @@ const EventDetailsScreen: React.FC<EventDetailsScreenProps> = ({ route, navigati
     }
   };
 
-  const toggleFavorite = () => {
-    setIsFavorite(!isFavorite);
-    // Aquí implementarías la lógica para guardar/quitar de favoritos
+  // Tocar la respuesta que ya estaba elegida la quita
+  const handleRsvp = async (status: RsvpStatus) => {
+    if (savingRsvp) return;
+    try {
+      setSavingRsvp(true);
+      setRsvp(await BarService.setEventRsvp(eventId, rsvp?.status === status ? null : status));
+    } catch (rsvpError) {
+      showError(rsvpError);
+    } finally {
+      setSavingRsvp(false);
+    }
+  };
+
+  const handleReserve = async (tier: TicketTier) => {
+    if (reserving) return;
+    try {
+      setReserving(true);
+      const reservation = await BarService.reserveEventTickets(eventId, tier.id, quantity, occurrence?.occurrenceDate);
+      setReservations((current) => [reservation, ...current]);
+      setSelectedTierId(null);
+      setQuantity(1);
+      // Vuelve a pedir el evento para actualizar los lugares disponibles
+      refresh();
+    } catch (reserveError) {
+      showError(reserveError);
+    } finally {
+      setReserving(false);
+    }
+  };
+
+  // Si el dueño canceló la fecha, la reservación se puede seguir cancelando
+  const isReservationPast = (reservation: Reservation): boolean => {
+    if (!event) return true;
+    if (!reservation.occurrenceDate) return hasEventEnded(event);
+    const reserved = getOccurrence(event, reservation.occurrenceDate);
+    return reserved !== null && new Date(reserved.end) < new Date();
+  };
+
+  const handleCancelReservation = (reservation: Reservation) => {
+    Alert.alert(
+      'Cancelar reservación',
+      `¿Cancelar ${reservation.quantity} ${reservation.quantity === 1 ? 'lugar' : 'lugares'} de ${reservation.tierName}?`,
+      [
+        { text: 'No', style: 'cancel' },
+        {
+          text: 'Cancelar reservación',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const cancelled = await BarService.cancelReservation(eventId, reservation._id);
+              setReservations((current) => current.map((item) => (item._id === cancelled._id ? cancelled : item)));
+              refresh();
+            } catch (cancelError) {
+              showError(cancelError);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const describeSaleStatus = (tier: TicketTier, status: TierSaleStatus): string | null => {
+    if (status === 'upcoming') return `A la venta desde ${tier.salesStart}`;
+    if (status === 'ended') return 'Venta terminada';
+    return tier.salesEnd ? `Disponible hasta ${tier.salesEnd}` : null;
   };
 
   if (loading) {
@@ -171,7 +275,7 @@ const EventDetailsScreen: React.FC<EventDetailsScreenProps> = ({ route, navigati
     );
   }
 
-  if (!event) {
+  if (!event || !occurrence) {
     return (
       <SafeAreaView style={styles.errorContainer}>
         <StatusBar barStyle="light-content" backgroundColor={colors.background} />
@@ -188,6 +292,19 @@ const EventDetailsScreen: React.FC<EventDetailsScreenProps> = ({ route, navigati
     );
   }
 
+  // La respuesta del RSVP trae los conteos más recientes
+  const attendance = rsvp?.attendance ?? event.attendance;
+  // En eventos que se repiten, las respuestas valen para toda la serie;
+  // las reservaciones y el cupo, para la ocurrencia que se muestra
+  const hasEnded = hasEventEnded(event);
+  const reservationsClosed = hasEnded || occurrenceCancelled || new Date(occurrence.end) < new Date();
+  const tiers = getEventTiers(event);
+  const remainingSpots = getRemainingSpots(occurrence);
+  const soldOut = remainingSpots === 0;
+  const maxQuantity = Math.min(MAX_RESERVATION_QUANTITY, remainingSpots ?? MAX_RESERVATION_QUANTITY);
+  const selectedTier = tiers.find((tier) => tier.id === selectedTierId) ?? null;
+  const lowestPrice = Math.min(...tiers.map((tier) => tier.price));
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar barStyle="light-content" backgroundColor={colors.background} />
@@ -219,16 +336,6 @@ const EventDetailsScreen: React.FC<EventDetailsScreenProps> = ({ route, navigati
               <Icon name="arrow-back" size={24} color={colors.text} />
             </TouchableOpacity>
             <View style={styles.headerActions}>
-              <TouchableOpacity 
-                style={styles.actionButton}
-                onPress={toggleFavorite}
-              >
-                <Icon 
-                  name={isFavorite ? "favorite" : "favorite-border"} 
-                  size={24} 
-                  color={isFavorite ? colors.error : colors.text} 
-                />
-              </TouchableOpacity>
               <TouchableOpacity 
                 style={styles.actionButton}
                 onPress={handleShare}
@@ -240,7 +347,7 @@ const EventDetailsScreen: React.FC<EventDetailsScreenProps> = ({ route, navigati
           
           {/* Event Status Badge */}
           <View style={styles.statusBadge}>
-            <Text style={styles.statusText}>{getDaysDifference(event.start)}</Text>
+            <Text style={styles.statusText}>{getDaysDifference(occurrence.start)}</Text>
           </View>
           
           {/* Price Badge */}
@@ -253,6 +360,7 @@ const EventDetailsScreen: React.FC<EventDetailsScreenProps> = ({ route, navigati
 
         {/* Event Info */}
         <View style={styles.infoContainer}>
+          <LastUpdatedIndicator updatedAt={updatedAt} isOffline={isOffline} />
           <Text style={styles.eventName}>{event.name}</Text>
           
           {/* Bar Info */}
@@ -262,6 +370,41 @@ const EventDetailsScreen: React.FC<EventDetailsScreenProps> = ({ route, navigati
             <Icon name="arrow-forward-ios" size={16} color={colors.textMuted} />
           </TouchableOpacity>
 
+          {/* RSVP */}
+          <View style={styles.rsvpCard}>
+            <View style={styles.rsvpHeader}>
+              <Icon name="people" size={22} color={colors.primary} />
+              <Text style={styles.rsvpAttendance}>
+                {describeAttendance(attendance)}
+              </Text>
+              {savingRsvp && <ActivityIndicator size="small" color={colors.primary} />}
+            </View>
+            {hasEnded ? (
+              <Text style={styles.rsvpNote}>
+                {rsvp?.status === 'going' ? 'Asististe a este evento' : 'Este evento ya terminó'}
+              </Text>
+            ) : (
+              <View style={styles.rsvpOptions}>
+                {RSVP_STATUSES.map((status) => {
+                  const selected = rsvp?.status === status;
+                  return (
+                    <TouchableOpacity
+                      key={status}
+                      style={[styles.rsvpOption, selected && styles.rsvpOptionSelected]}
+                      onPress={() => handleRsvp(status)}
+                      disabled={savingRsvp}
+                    >
+                      <Icon name={RSVP_ICONS[status]} size={18} color={selected ? colors.text : colors.textSecondary} />
+                      <Text style={[styles.rsvpOptionText, selected && styles.rsvpOptionTextSelected]}>
+                        {RSVP_LABELS[status]}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+          </View>
+
           {/* Event Details Cards */}
           <View style={styles.detailsContainer}>
             {/* Date & Time Card */}
@@ -270,12 +413,27 @@ const EventDetailsScreen: React.FC<EventDetailsScreenProps> = ({ route, navigati
                 <Icon name="event" size={24} color={colors.primary} />
                 <Text style={styles.detailTitle}> Date and time </Text>
               </View>
+              {occurrenceCancelled && (
+                <Text style={styles.cancelledText}>La fecha elegida se canceló; esta es la siguiente</Text>
+              )}
               <Text style={styles.detailText}>
-                {formatDate(event.start)}
+                {formatDate(occurrence.start)}
               </Text>
               <Text style={styles.detailSubtext}>
-                {formatTime(event.start)} - {formatTime(event.end)}
+                {formatTime(occurrence.start)} - {formatTime(occurrence.end)}
               </Text>
+              {event.recurrence && (
+                <View style={styles.recurrenceRow}>
+                  <Icon name="repeat" size={16} color={colors.primary} />
+                  <Text style={styles.recurrenceText}>{describeRecurrence(event.recurrence, event.start)}</Text>
+                </View>
+              )}
+              {!hasEnded && (
+                <TouchableOpacity style={styles.calendarButton} onPress={handleAddToCalendar}>
+                  <Icon name="edit-calendar" size={18} color={colors.primary} />
+                  <Text style={styles.calendarButtonText}>Agregar al calendario</Text>
+                </TouchableOpacity>
+              )}
             </View>
 
             {/* Location Card */}
@@ -298,7 +456,9 @@ const EventDetailsScreen: React.FC<EventDetailsScreenProps> = ({ route, navigati
                 <Text style={styles.detailTitle}>Price</Text>
               </View>
               <Text style={styles.detailText}>
-                {event.price > 0 ? `$${event.price.toFixed(2)}` : 'Entrada gratuita'}
+                {tiers.length > 1
+                  ? `Desde $${lowestPrice.toFixed(2)}`
+                  : event.price > 0 ? `$${event.price.toFixed(2)}` : 'Entrada gratuita'}
               </Text>
               <Text style={styles.detailSubtext}>
                 {event.price > 0 ? 'Por persona' : 'No se requiere pago'}
@@ -306,6 +466,132 @@ const EventDetailsScreen: React.FC<EventDetailsScreenProps> = ({ route, navigati
             </View>
           </View>
 
+          {/* Tickets */}
+          <View style={styles.ticketsContainer}>
+            <View style={styles.ticketsHeader}>
+              <Text style={styles.sectionTitle}>Entradas</Text>
+              {remainingSpots !== null && (
+                <View style={[styles.spotsBadge, soldOut && styles.spotsBadgeSoldOut]}>
+                  <Icon name="event-seat" size={14} color={colors.text} />
+                  <Text style={styles.spotsBadgeText}>
+                    {soldOut ? 'Agotado' : `Quedan ${remainingSpots} ${remainingSpots === 1 ? 'lugar' : 'lugares'}`}
+                  </Text>
+                </View>
+              )}
+            </View>
+
+            {occurrenceCancelled && occurrence.occurrenceDate && (
+              <View style={styles.cancelledNotice}>
+                <Text style={styles.cancelledText}>No se puede reservar para una fecha cancelada</Text>
+                <TouchableOpacity onPress={() => navigation.setParams({ occurrenceDate: occurrence.occurrenceDate })}>
+                  <Text style={styles.recurrenceText}>Reservar para el {formatDate(occurrence.start)}</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {tiers.map((tier) => {
+              const saleStatus = getTierSaleStatus(tier);
+              const available = saleStatus === 'on_sale' && !soldOut && !reservationsClosed;
+              const selected = selectedTierId === tier.id;
+              const saleText = describeSaleStatus(tier, saleStatus);
+              return (
+                <TouchableOpacity
+                  key={tier.id}
+                  style={[styles.tierRow, selected && styles.tierRowSelected, !available && styles.tierRowDisabled]}
+                  onPress={() => {
+                    setSelectedTierId(selected ? null : tier.id);
+                    setQuantity(1);
+                  }}
+                  disabled={!available}
+                >
+                  <Icon name={TICKET_TIER_ICONS[tier.type]} size={22} color={selected ? colors.primary : colors.textSecondary} />
+                  <View style={styles.tierInfo}>
+                    <Text style={styles.tierName}>{tier.name}</Text>
+                    {saleText && <Text style={styles.tierSaleText}>{saleText}</Text>}
+                  </View>
+                  <Text style={styles.tierPrice}>{tier.price > 0 ? `$${tier.price.toFixed(2)}` : 'Gratis'}</Text>
+                </TouchableOpacity>
+              );
+            })}
+
+            {selectedTier && !reservationsClosed && (
+              <View style={styles.reserveCard}>
+                <View style={styles.quantityRow}>
+                  <Text style={styles.quantityLabel}>Lugares</Text>
+                  <View style={styles.stepper}>
+                    <TouchableOpacity
+                      style={styles.stepperButton}
+                      onPress={() => setQuantity((current) => Math.max(1, current - 1))}
+                      disabled={quantity <= 1}
+                    >
+                      <Icon name="remove" size={20} color={quantity <= 1 ? colors.textMuted : colors.text} />
+                    </TouchableOpacity>
+                    <Text style={styles.quantityValue}>{quantity}</Text>
+                    <TouchableOpacity
+                      style={styles.stepperButton}
+                      onPress={() => setQuantity((current) => Math.min(maxQuantity, current + 1))}
+                      disabled={quantity >= maxQuantity}
+                    >
+                      <Icon name="add" size={20} color={quantity >= maxQuantity ? colors.textMuted : colors.text} />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+                <TouchableOpacity
+                  style={[styles.primaryButton, reserving && styles.primaryButtonDisabled]}
+                  onPress={() => handleReserve(selectedTier)}
+                  disabled={reserving}
+                >
+                  {reserving ? (
+                    <ActivityIndicator size="small" color={colors.text} />
+                  ) : (
+                    <>
+                      <Icon name="confirmation-number" size={20} color={colors.text} />
+                      <Text style={styles.primaryButtonText}>
+                        Reservar · {selectedTier.price > 0 ? `$${(selectedTier.price * quantity).toFixed(2)}` : 'Gratis'}
+                      </Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {reservations.length > 0 && (
+              <View style={styles.reservationsContainer}>
+                <Text style={styles.reservationsTitle}>Mis reservaciones</Text>
+                {reservations.map((reservation) => {
+                  const cancelled = reservation.status === 'cancelled';
+                  const past = isReservationPast(reservation);
+                  return (
+                    <View key={reservation._id} style={[styles.reservationCard, cancelled && styles.tierRowDisabled]}>
+                      {!cancelled && (
+                        <View style={styles.qrContainer}>
+                          <QrCode value={reservation.code} size={180} />
+                        </View>
+                      )}
+                      <Text style={styles.reservationCode}>{reservation.code}</Text>
+                      {reservation.occurrenceDate && (
+                        <Text style={styles.reservationDetail}>
+                          Para el {formatDate(`${reservation.occurrenceDate}T00:00:00`)}
+                        </Text>
+                      )}
+                      <Text style={styles.reservationDetail}>
+                        {reservation.tierName} · {reservation.quantity} {reservation.quantity === 1 ? 'lugar' : 'lugares'}
+                        {reservation.unitPrice > 0 ? ` · $${(reservation.unitPrice * reservation.quantity).toFixed(2)}` : ''}
+                      </Text>
+                      {cancelled ? (
+                        <Text style={styles.reservationCancelled}>Cancelada</Text>
+                      ) : !past && (
+                        <TouchableOpacity onPress={() => handleCancelReservation(reservation)}>
+                          <Text style={styles.reservationCancelText}>Cancelar reservación</Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  );
+                })}
+              </View>
+            )}
+          </View>
+
           {/* Description */}
           <View style={styles.descriptionContainer}>
             <Text style={styles.sectionTitle}>Descripción</Text>
@@ -462,6 +748,58 @@ const styles = StyleSheet.create({
     flex: 1,
     marginLeft: 12,
   },
+  rsvpCard: {
+    backgroundColor: colors.surface,
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 24,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  rsvpHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  rsvpAttendance: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  rsvpNote: {
+    fontSize: 14,
+    color: colors.textMuted,
+  },
+  rsvpOptions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  rsvpOption: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: colors.borderLight,
+  },
+  rsvpOptionSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  rsvpOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  rsvpOptionTextSelected: {
+    color: colors.text,
+  },
   detailsContainer: {
     gap: 16,
     marginBottom: 24,
@@ -495,6 +833,179 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: colors.textMuted,
   },
+  cancelledText: {
+    fontSize: 14,
+    color: colors.warning,
+    marginBottom: 8,
+  },
+  cancelledNotice: {
+    marginBottom: 12,
+  },
+  recurrenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  recurrenceText: {
+    fontSize: 14,
+    color: colors.primary,
+    fontWeight: '500',
+  },
+  calendarButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  calendarButtonText: {
+    fontSize: 14,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  ticketsContainer: {
+    marginBottom: 24,
+  },
+  ticketsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  spotsBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: colors.success,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  spotsBadgeSoldOut: {
+    backgroundColor: colors.error,
+  },
+  spotsBadgeText: {
+    color: colors.text,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  tierRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.surface,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginBottom: 8,
+  },
+  tierRowSelected: {
+    borderColor: colors.primary,
+  },
+  tierRowDisabled: {
+    opacity: 0.5,
+  },
+  tierInfo: {
+    flex: 1,
+  },
+  tierName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  tierSaleText: {
+    fontSize: 13,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+  tierPrice: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.success,
+  },
+  reserveCard: {
+    backgroundColor: colors.surfaceElevated,
+    padding: 16,
+    borderRadius: 12,
+    gap: 16,
+    marginTop: 4,
+  },
+  quantityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  quantityLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  stepperButton: {
+    backgroundColor: colors.surfaceVariant,
+    borderRadius: 16,
+    padding: 6,
+  },
+  quantityValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+    minWidth: 20,
+    textAlign: 'center',
+  },
+  reservationsContainer: {
+    marginTop: 16,
+    gap: 12,
+  },
+  reservationsTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  reservationCard: {
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    gap: 6,
+  },
+  qrContainer: {
+    marginBottom: 8,
+  },
+  reservationCode: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+    letterSpacing: 2,
+  },
+  reservationDetail: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  reservationCancelled: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.error,
+  },
+  reservationCancelText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.error,
+    marginTop: 4,
+  },
   descriptionContainer: {
     marginBottom: 32,
   },
@@ -527,6 +1038,9 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
   secondaryButtons: {
     flexDirection: 'row',
     gap: 12,
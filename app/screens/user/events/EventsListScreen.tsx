@@ -1,5 +1,5 @@
 import { StackNavigationProp } from '@react-navigation/stack';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   Dimensions,
@@ -11,12 +11,29 @@ import {
   StatusBar,
   StyleSheet,
   Text,
+  TextInput,
   TouchableOpacity,
   View
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import EventCalendar from '../../../components/EventCalendar';
+import LastUpdatedIndicator from '../../../components/LastUpdatedIndicator';
+import { useCachedQuery } from '../../../hooks/useCachedQuery';
 import BarService from '../../../services/BarService';
+import {
+  CalendarMode,
+  endOfDay,
+  expandEventsInRange,
+  getCalendarRange,
+  groupEventsByDay,
+  toDateRange,
+} from '../../../services/EventCalendarService';
+import { describeAttendance, totalAttendance } from '../../../services/EventRsvpService';
+import { describeRecurrence, getUpcomingOccurrences } from '../../../services/EventRecurrenceService';
+import { toDateKey } from '../../../services/OpeningHoursService';
+import { cacheKeys } from '../../../services/QueryCache';
+import { Event, isValidDateKey } from '../../../types/models';
 import { EventsStackParamList } from '../../../types/navigation';
 
 const { width, height } = Dimensions.get('window');
@@ -46,56 +63,75 @@ const colors = {
   overlay: 'rgba(0, 0, 0, 0.6)',
 };
 
-interface Event {
-  _id: string;
-  name: string;
-  description: string;
-  image: string;
-  location: string;
-  price: number;
-  start: string;
-  end: string;
-  bar: {
-    _id: string;
-    name: string;
-  };
-}
-
 type EventsScreenNavigationProp = StackNavigationProp<EventsStackParamList, 'EventsList'>;
 
 interface EventsScreenProps {
   navigation: EventsScreenNavigationProp;
 }
 
+// Rango inicial del filtro de fechas: las próximas dos semanas
+const DEFAULT_RANGE_DAYS = 14;
+
+const fromDateKey = (key: string): Date => toDateRange(key, key).from;
+
 const EventsScreen: React.FC<EventsScreenProps> = ({ navigation }) => {
-  const [events, setEvents] = useState<Event[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [activeFilter, setActiveFilter] = useState<'all' | 'today' | 'next_week' | 'next_month'>('all');
-
-  const fetchEvents = async () => {
-    try {
-      setLoading(true);
-      const response = await BarService.getAllEvents();
-      // Filter out past events - only show future events
-      const now = new Date();
-      const futureEvents = response.data.filter((event: Event) => new Date(event.start) > now);
-      setEvents(futureEvents);
-    } catch (error) {
-      console.error('Error loading events:', error);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
+  const [activeFilter, setActiveFilter] = useState<'all' | 'today' | 'next_week' | 'next_month' | 'custom'>('all');
+  const [customRange, setCustomRange] = useState(() => {
+    const today = new Date();
+    return {
+      from: toDateKey(today),
+      to: toDateKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() + DEFAULT_RANGE_DAYS)),
+    };
+  });
+  const [viewMode, setViewMode] = useState<'list' | 'calendar'>('list');
+  const [calendarMode, setCalendarMode] = useState<CalendarMode>('month');
+  const [calendarDate, setCalendarDate] = useState(() => new Date());
+  const [selectedDay, setSelectedDay] = useState(() => toDateKey(new Date()));
+  const { data, updatedAt, loading, refreshing, error, isOffline, refresh } = useCachedQuery<Event[]>(
+    cacheKeys.events(),
+    () => BarService.getAllEvents()
+  );
+
+  // Se filtra al mostrar y no al guardar, para que el cache no muestre eventos que ya pasaron;
+  // los eventos que se repiten aparecen una vez por ocurrencia
+  const events = useMemo(() => getUpcomingOccurrences(data ?? []), [data]);
+
+  const customRangeError = !isValidDateKey(customRange.from) || !isValidDateKey(customRange.to)
+    ? 'Usa fechas con el formato AAAA-MM-DD'
+    : customRange.from > customRange.to
+      ? 'La fecha final debe ser posterior a la inicial'
+      : null;
+
+  // El calendario muestra también días pasados, así que expande sobre lo que se ve y no sobre "próximos"
+  const calendarEventsByDay = useMemo(
+    () => groupEventsByDay(expandEventsInRange(data ?? [], getCalendarRange(calendarDate, calendarMode))),
+    [data, calendarDate, calendarMode]
+  );
+  const selectedDayEvents = calendarEventsByDay[selectedDay] ?? [];
+
+  // Al cambiar de mes o semana se selecciona hoy si está visible, o el primer día
+  const handleCalendarChange = (date: Date, mode: CalendarMode = calendarMode) => {
+    const range = getCalendarRange(date, mode);
+    const now = new Date();
+    const firstDay = mode === 'month' ? new Date(date.getFullYear(), date.getMonth(), 1) : range.from;
+    setCalendarDate(date);
+    setSelectedDay(toDateKey(now >= range.from && now <= range.to ? now : firstDay));
+  };
+
+  const handleCalendarModeChange = (mode: CalendarMode) => {
+    setCalendarMode(mode);
+    // La semana que se muestra es la del día seleccionado
+    setCalendarDate(fromDateKey(selectedDay));
   };
 
   useEffect(() => {
-    fetchEvents();
-  }, []);
+    if (error) {
+      console.error('Error loading events:', error);
+    }
+  }, [error]);
 
   const onRefresh = () => {
-    setRefreshing(true);
-    fetchEvents();
+    refresh();
   };
 
   const formatDate = (dateString: string) => {
@@ -138,6 +174,9 @@ const EventsScreen: React.FC<EventsScreenProps> = ({ navigation }) => {
           const eventDate = new Date(event.start);
           return eventDate >= now && eventDate <= nextMonth;
         });
+      case 'custom':
+        // Puede incluir días pasados y fechas más allá del horizonte de las series
+        return customRangeError ? [] : expandEventsInRange(data ?? [], toDateRange(customRange.from, customRange.to));
       default:
         return events;
     }
@@ -162,7 +201,7 @@ const EventsScreen: React.FC<EventsScreenProps> = ({ navigation }) => {
         isDesktop && styles.desktopCard,
         isTablet && !isDesktop && styles.tabletCard
       ]}
-      onPress={() => navigation.navigate('EventDetails', { eventId: item._id })}
+      onPress={() => openEvent(item)}
       activeOpacity={0.8}
     >
       <View style={styles.imageContainer}>
@@ -201,23 +240,57 @@ const EventsScreen: React.FC<EventsScreenProps> = ({ navigation }) => {
             </Text>
           </View>
           
+          {item.recurrence && (
+            <View style={styles.detailRow}>
+              <Icon name="repeat" size={16} color={colors.primary} style={styles.detailIcon} />
+              <Text style={styles.detailText} numberOfLines={1}>
+                {describeRecurrence(item.recurrence, item.start)}
+              </Text>
+            </View>
+          )}
+
           {item.location && (
             <View style={styles.detailRow}>
               <Icon name="location-on" size={16} color={colors.secondary} style={styles.detailIcon} />
               <Text style={styles.detailText} numberOfLines={1}>{item.location}</Text>
             </View>
           )}
+
+          {totalAttendance(item.attendance) > 0 && (
+            <View style={styles.detailRow}>
+              <Icon name="people" size={16} color={colors.success} style={styles.detailIcon} />
+              <Text style={styles.detailText}>
+                {describeAttendance(item.attendance)}
+              </Text>
+            </View>
+          )}
         </View>
       </View>
     </TouchableOpacity>
   );
 
+  const openEvent = (event: Event) => {
+    navigation.navigate('EventDetails', { eventId: event._id, occurrenceDate: event.occurrenceDate });
+  };
+
   const renderHeader = () => (
     <View style={styles.header}>
-      <Text style={styles.headerTitle}>Eventos</Text>
-      <Text style={styles.headerSubtitle}>
-        {filteredEvents.length} {filteredEvents.length === 1 ? 'evento próximo' : 'eventos próximos'}
-      </Text>
+      <View style={styles.headerTitleRow}>
+        <Text style={styles.headerTitle}>Eventos</Text>
+        <TouchableOpacity
+          style={styles.viewToggle}
+          onPress={() => setViewMode(viewMode === 'list' ? 'calendar' : 'list')}
+        >
+          <Icon name={viewMode === 'list' ? 'calendar-month' : 'view-list'} size={20} color={colors.text} />
+          <Text style={styles.viewToggleText}>{viewMode === 'list' ? 'Calendario' : 'Lista'}</Text>
+        </TouchableOpacity>
+      </View>
+      {viewMode === 'list' && (
+        <Text style={styles.headerSubtitle}>
+          {filteredEvents.length} {filteredEvents.length === 1 ? 'evento próximo' : 'eventos próximos'}
+        </Text>
+      )}
+      <LastUpdatedIndicator updatedAt={updatedAt} isOffline={isOffline} />
     </View>
   );
 
@@ -267,10 +340,121 @@ const EventsScreen: React.FC<EventsScreenProps> = ({ navigation }) => {
             Este mes
           </Text>
         </TouchableOpacity>
+
+        <TouchableOpacity 
+          style={[styles.filterButton, activeFilter === 'custom' && styles.activeFilterButton]}
+          onPress={() => setActiveFilter('custom')}
+        >
+          <Icon name="edit-calendar" size={16} color={activeFilter === 'custom' ? colors.text : colors.textSecondary} style={styles.filterIcon} />
+          <Text style={[styles.filterText, activeFilter === 'custom' && styles.activeFilterText]}>
+            Fechas
+          </Text>
+        </TouchableOpacity>
       </ScrollView>
+
+      {activeFilter === 'custom' && (
+        <View style={styles.rangeContainer}>
+          <View style={styles.rangeInputs}>
+            <View style={styles.rangeField}>
+              <Text style={styles.rangeLabel}>Desde</Text>
+              <TextInput
+                style={styles.rangeInput}
+                value={customRange.from}
+                onChangeText={(from) => setCustomRange({ ...customRange, from })}
+                placeholder="AAAA-MM-DD"
+                placeholderTextColor={colors.textMuted}
+                autoCapitalize="none"
+              />
+            </View>
+            <View style={styles.rangeField}>
+              <Text style={styles.rangeLabel}>Hasta</Text>
+              <TextInput
+                style={styles.rangeInput}
+                value={customRange.to}
+                onChangeText={(to) => setCustomRange({ ...customRange, to })}
+                placeholder="AAAA-MM-DD"
+                placeholderTextColor={colors.textMuted}
+                autoCapitalize="none"
+              />
+            </View>
+          </View>
+          {customRangeError && <Text style={styles.rangeError}>{customRangeError}</Text>}
+        </View>
+      )}
     </View>
   );
 
+  const renderCalendarView = () => (
+    <ScrollView
+      contentContainerStyle={styles.calendarContent}
+      refreshControl={
+        <RefreshControl 
+          refreshing={refreshing} 
+          onRefresh={onRefresh}
+          tintColor={colors.primary}
+          colors={[colors.primary]}
+        />
+      }
+    >
+      <View style={styles.calendarModes}>
+        {(['month', 'week'] as const).map((mode) => (
+          <TouchableOpacity
+            key={mode}
+            style={[styles.filterButton, calendarMode === mode && styles.activeFilterButton]}
+            onPress={() => handleCalendarModeChange(mode)}
+          >
+            <Icon
+              name={mode === 'month' ? 'calendar-view-month' : 'calendar-view-week'}
+              size={16}
+              color={calendarMode === mode ? colors.text : colors.textSecondary}
+              style={styles.filterIcon}
+            />
+            <Text style={[styles.filterText, calendarMode === mode && styles.activeFilterText]}>
+              {mode === 'month' ? 'Mes' : 'Semana'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <EventCalendar
+        mode={calendarMode}
+        date={calendarDate}
+        selectedDate={selectedDay}
+        eventsByDay={calendarEventsByDay}
+        onSelectDate={setSelectedDay}
+        onChangeDate={(date) => handleCalendarChange(date)}
+      />
+
+      <Text style={styles.dayTitle}>
+        {fromDateKey(selectedDay).toLocaleDateString('es-ES', { weekday: 'long', day: 'numeric', month: 'long' })}
+      </Text>
+      {selectedDayEvents.length === 0 ? (
+        <Text style={styles.dayEmpty}>No hay eventos este día</Text>
+      ) : (
+        selectedDayEvents.map((event) => (
+          <TouchableOpacity
+            key={`${event._id}-${event.occurrenceDate ?? ''}`}
+            style={styles.dayEvent}
+            onPress={() => openEvent(event)}
+          >
+            <View style={styles.dayEventTime}>
+              <Text style={styles.dayEventTimeText}>{formatTime(event.start)}</Text>
+              {new Date(event.end) <= endOfDay(fromDateKey(selectedDay)) && (
+                <Text style={styles.dayEventEndText}>{formatTime(event.end)}</Text>
+              )}
+            </View>
+            <View style={styles.dayEventInfo}>
+              <Text style={styles.dayEventName} numberOfLines={1}>{event.name || 'Evento sin nombre'}</Text>
+              <Text style={styles.dayEventBar} numberOfLines={1}>{event.bar?.name || 'Bar no disponible'}</Text>
+            </View>
+            {event.recurrence && <Icon name="repeat" size={18} color={colors.primary} />}
+            <Icon name="chevron-right" size={20} color={colors.textMuted} />
+          </TouchableOpacity>
+        ))
+      )}
+    </ScrollView>
+  );
+
   const renderEmptyState = () => (
     <View style={styles.emptyContainer}>
       <Icon name="event-busy" size={80} color={colors.textMuted} />
@@ -296,19 +480,21 @@ const EventsScreen: React.FC<EventsScreenProps> = ({ navigation }) => {
       <StatusBar barStyle="light-content" backgroundColor={colors.background} />
       
       {renderHeader()}
-      {renderFilters()}
+      {viewMode === 'list' && renderFilters()}
       
       {loading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={colors.primary} />
           <Text style={styles.loadingText}>Cargando eventos...</Text>
         </View>
+      ) : viewMode === 'calendar' ? (
+        renderCalendarView()
       ) : filteredEvents.length === 0 ? (
         renderEmptyState()
       ) : (
         <FlatList
           data={filteredEvents}
-          keyExtractor={(item) => item._id}
+          keyExtractor={(item) => `${item._id}-${item.occurrenceDate ?? ''}`}
           renderItem={renderEvent}
           showsVerticalScrollIndicator={false}
           contentContainerStyle={[
@@ -435,6 +621,113 @@ const styles = StyleSheet.create({
     padding: 20,
     paddingBottom: 40,
   },
+  headerTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  viewToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  viewToggleText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  rangeContainer: {
+    marginTop: 12,
+  },
+  rangeInputs: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rangeField: {
+    flex: 1,
+  },
+  rangeLabel: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 6,
+  },
+  rangeInput: {
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: colors.text,
+  },
+  rangeError: {
+    fontSize: 13,
+    color: colors.error,
+    marginTop: 6,
+  },
+  calendarContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  calendarModes: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  dayTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginTop: 20,
+    marginBottom: 12,
+    textTransform: 'capitalize',
+  },
+  dayEmpty: {
+    fontSize: 15,
+    color: colors.textMuted,
+  },
+  dayEvent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 14,
+    marginBottom: 10,
+  },
+  dayEventTime: {
+    width: 56,
+  },
+  dayEventTimeText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.accent,
+  },
+  dayEventEndText: {
+    fontSize: 12,
+    color: colors.textMuted,
+  },
+  dayEventInfo: {
+    flex: 1,
+  },
+  dayEventName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  dayEventBar: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
   desktopGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -17,7 +17,18 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import FilterChip from '../../../components/FilterChip';
 import { useAuth } from '../../../context/AuthContext';
+import { DIETARY_TAG_ICONS, MAX_SPICY_LEVEL } from '../../../services/DietaryService';
+import {
+  Allergen,
+  ALLERGENS,
+  DEFAULT_DIETARY_PREFERENCES,
+  DIETARY_TAGS,
+  DietaryPreferences,
+  DietaryTag,
+  parseDietaryPreferences,
+} from '../../../types/models';
 import { ProfileStackParamList } from '../../../types/navigation';
 
 const { width, height } = Dimensions.get('window');
@@ -46,6 +57,25 @@ const colors = {
   inputFocused: '#3b82f6',
 };
 
+const DIET_LABELS: Record<DietaryTag, string> = {
+  vegetarian: 'Vegetariano',
+  vegan: 'Vegano',
+  gluten_free: 'Sin gluten',
+};
+
+const ALLERGEN_LABELS: Record<Allergen, string> = {
+  nuts: 'Nueces',
+  dairy: 'Lácteos',
+  egg: 'Huevo',
+  shellfish: 'Mariscos',
+  soy: 'Soya',
+};
+
+const SPICY_LABELS = ['Nada', 'Suave', 'Medio', 'Picante'];
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter((current) => current !== value) : [...list, value];
+
 interface EditableUser {
   name: string;
   accountType: 'business' | 'user';
@@ -79,6 +109,7 @@ const EditProfileScreen: React.FC<EditProfileScreenProps> = ({ navigation }) =>
   const [saving, setSaving] = useState(false);
   const [errors, setErrors] = useState<{[key: string]: string}>({});
   const [focusedField, setFocusedField] = useState<string | null>(null);
+  const [dietaryPreferences, setDietaryPreferences] = useState<DietaryPreferences>(DEFAULT_DIETARY_PREFERENCES);
 
   useEffect(() => {
     if (user) {
@@ -90,6 +121,7 @@ const EditProfileScreen: React.FC<EditProfileScreenProps> = ({ navigation }) =>
         confirmPassword: '',
         photo: user.photo || '',
       });
+      setDietaryPreferences(parseDietaryPreferences(user.dietaryPreferences));
     }
   }, [user]);
 
@@ -140,6 +172,7 @@ const EditProfileScreen: React.FC<EditProfileScreenProps> = ({ navigation }) =>
         name: formData.name,
         accountType: formData.accountType,
         photo: formData.photo,
+        dietaryPreferences,
       };
 
       const updateResponse = await updateProfile(profileData);
@@ -403,6 +436,62 @@ const EditProfileScreen: React.FC<EditProfileScreenProps> = ({ navigation }) =>
                 </View>
               </View>
 
+              {/* Dietary Preferences Section */}
+              <Text style={styles.sectionTitle}>Preferencias alimentarias</Text>
+              <Text style={styles.fieldHint}>Las usamos para filtrar los menús de los bares</Text>
+
+              <View style={styles.fieldContainer}>
+                <Text style={styles.fieldLabel}>Dieta</Text>
+                <View style={styles.chipsRow}>
+                  {DIETARY_TAGS.map((tag) => (
+                    <FilterChip
+                      key={tag}
+                      label={DIET_LABELS[tag]}
+                      icon={DIETARY_TAG_ICONS[tag]}
+                      selected={dietaryPreferences.diets.includes(tag)}
+                      onPress={() => setDietaryPreferences({ ...dietaryPreferences, diets: toggle(dietaryPreferences.diets, tag) })}
+                    />
+                  ))}
+                </View>
+              </View>
+
+              <View style={styles.fieldContainer}>
+                <Text style={styles.fieldLabel}>Evitar alérgenos</Text>
+                <View style={styles.chipsRow}>
+                  {ALLERGENS.map((allergen) => (
+                    <FilterChip
+                      key={allergen}
+                      label={ALLERGEN_LABELS[allergen]}
+                      selected={dietaryPreferences.avoidAllergens.includes(allergen)}
+                      onPress={() => setDietaryPreferences({
+                        ...dietaryPreferences,
+                        avoidAllergens: toggle(dietaryPreferences.avoidAllergens, allergen),
+                      })}
+                    />
+                  ))}
+                </View>
+              </View>
+
+              <View style={styles.fieldContainer}>
+                <Text style={styles.fieldLabel}>Picante máximo</Text>
+                <View style={styles.chipsRow}>
+                  <FilterChip
+                    label="Sin límite"
+                    selected={dietaryPreferences.maxSpicyLevel === null}
+                    onPress={() => setDietaryPreferences({ ...dietaryPreferences, maxSpicyLevel: null })}
+                  />
+                  {Array.from({ length: MAX_SPICY_LEVEL + 1 }, (_, level) => (
+                    <FilterChip
+                      key={level}
+                      label={SPICY_LABELS[level]}
+                      icon={level > 0 ? 'whatshot' : undefined}
+                      selected={dietaryPreferences.maxSpicyLevel === level}
+                      onPress={() => setDietaryPreferences({ ...dietaryPreferences, maxSpicyLevel: level })}
+                    />
+                  ))}
+                </View>
+              </View>
+
               {/* Password Change Section */}
               <Text style={styles.sectionTitle}>Cambiar contraseña</Text>
               <Text style={styles.fieldHint}>Completa todos los campos para cambiar tu contraseña</Text>
@@ -637,6 +726,11 @@ const styles = StyleSheet.create({
   fieldContainer: {
     marginBottom: 24,
   },
+  chipsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
   fieldLabel: {
     fontSize: 16,
     fontWeight: '600',
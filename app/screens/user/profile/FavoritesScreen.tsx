@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -14,8 +14,12 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import OpenAtFilter, { OpenAtValue, resolveOpenAt } from '../../../components/OpenAtFilter';
 import { authService } from '../../../services/AuthService'; // Import the singleton instance
 import BarService from '../../../services/BarService';
+import { isOpenAt } from '../../../services/OpeningHoursService';
+import RouteService from '../../../services/RouteService';
+import { Favorite } from '../../../types/models';
 
 const { width, height } = Dimensions.get('window');
 const isTablet = width >= 768;
@@ -44,27 +48,17 @@ const colors = {
   heart: '#ef4444', // Red color for heart icon
 };
 
-interface FavoriteItem {
-  _id: string;
-  user: string;
-  bar: {
-    _id: string;
-    name: string;
-    description: string;
-    photo?: string;
-    address: {
-      street: string;
-      city: string;
-      state: string;
-      zipCode: string;
-    };
-  };
-}
-
 const FavoritesScreen = ({ navigation }: { navigation: any }) => {
-  const [favorites, setFavorites] = useState<FavoriteItem[]>([]);
+  const [favorites, setFavorites] = useState<Favorite[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [openAt, setOpenAt] = useState<OpenAtValue>(null);
+
+  const visibleFavorites = useMemo(() => {
+    const moment = resolveOpenAt(openAt);
+    if (!moment) return favorites;
+    return favorites.filter((favorite) => isOpenAt(favorite.bar.openingHours, moment));
+  }, [favorites, openAt]);
 
   const fetchFavorites = async () => {
     try {
@@ -72,8 +66,7 @@ const FavoritesScreen = ({ navigation }: { navigation: any }) => {
       if (!userId) {
         throw new Error('User ID is undefined');
       }
-      const response = await BarService.getFavorites(userId);
-      setFavorites(response.data);
+      setFavorites(await BarService.getFavorites(userId));
     } catch (error) {
       console.error('Error fetching favorites:', error);
       Alert.alert('Error', 'Failed to load favorites');
@@ -103,7 +96,23 @@ const FavoritesScreen = ({ navigation }: { navigation: any }) => {
   //   }
   // };
 
-  const renderItem = ({ item }: { item: FavoriteItem }) => (
+  // Agrega el bar al borrador de la ruta cervecera
+  const handleAddToRoute = async (favorite: Favorite) => {
+    try {
+      const added = await RouteService.addToDraft(favorite.bar);
+      Alert.alert(
+        added ? 'Added to route' : 'Already in route',
+        added
+          ? `${favorite.bar.name} was added to your route. Open the Routes tab to plan it.`
+          : `${favorite.bar.name} is already in your route.`
+      );
+    } catch (error) {
+      console.error('Error adding bar to route:', error);
+      Alert.alert('Error', 'Failed to add bar to route');
+    }
+  };
+
+  const renderItem = ({ item }: { item: Favorite }) => (
     <TouchableOpacity 
       style={styles.itemCard}
       onPress={() => navigation.navigate('BarDetails', { 
@@ -132,12 +141,20 @@ const FavoritesScreen = ({ navigation }: { navigation: any }) => {
           )}
         </View>
       </View>
-      <TouchableOpacity 
-        style={styles.favoriteButton}
-        // onPress={() => handleRemoveFavorite(item._id)}
-      >
-        <Icon name="favorite" size={24} color={colors.heart} />
-      </TouchableOpacity>
+      <View style={styles.itemActions}>
+        <TouchableOpacity
+          style={styles.routeButton}
+          onPress={() => handleAddToRoute(item)}
+        >
+          <Icon name="add-location" size={24} color={colors.primary} />
+        </TouchableOpacity>
+        <TouchableOpacity 
+          style={styles.favoriteButton}
+          // onPress={() => handleRemoveFavorite(item._id)}
+        >
+          <Icon name="favorite" size={24} color={colors.heart} />
+        </TouchableOpacity>
+      </View>
     </TouchableOpacity>
   );
 
@@ -147,6 +164,16 @@ const FavoritesScreen = ({ navigation }: { navigation: any }) => {
       <Text style={styles.headerSubtitle}>
         {favorites.length} {favorites.length === 1 ? 'bar' : 'bars'} saved
       </Text>
+      <View style={styles.openAtContainer}>
+        <OpenAtFilter value={openAt} onChange={setOpenAt} />
+      </View>
+    </View>
+  );
+
+  const FilteredEmpty = () => (
+    <View style={styles.filteredEmpty}>
+      <Icon name="schedule" size={40} color={colors.textMuted} />
+      <Text style={styles.filteredEmptyText}>None of your favorites are open at that time</Text>
     </View>
   );
 
@@ -194,10 +221,11 @@ const FavoritesScreen = ({ navigation }: { navigation: any }) => {
         <Text style={styles.headerTitle}> Favorites </Text>
       </View>
       <FlatList
-        data={favorites}
+        data={visibleFavorites}
         renderItem={renderItem}
         keyExtractor={(item) => item._id}
         ListHeaderComponent={ListHeader}
+        ListEmptyComponent={FilteredEmpty}
         refreshControl={
           <RefreshControl
             refreshing={refreshing}
@@ -308,6 +336,20 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: colors.textSecondary,
   },
+  openAtContainer: {
+    marginTop: 16,
+  },
+  filteredEmpty: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    paddingHorizontal: 32,
+  },
+  filteredEmptyText: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 12,
+  },
   listContent: {
     paddingBottom: 20,
   },
@@ -358,6 +400,15 @@ const styles = StyleSheet.create({
     color: colors.textMuted,
     lineHeight: 20,
   },
+  itemActions: {
+    justifyContent: 'center',
+  },
+  routeButton: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   favoriteButton: {
     padding: 16,
     justifyContent: 'center',
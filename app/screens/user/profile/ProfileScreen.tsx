@@ -1,9 +1,11 @@
-import React, { useEffect, useState } from 'react';
+import { useFocusEffect } from '@react-navigation/native';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
   Dimensions,
   Image,
+  Linking,
   Platform,
   RefreshControl,
   ScrollView,
@@ -18,6 +20,9 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import { useAuth } from '../../../context/AuthContext';
 import barService from '../../../services/BarService';
+import { toWebcalUrl } from '../../../services/CalendarExportService';
+import { RSVP_ICONS, splitRsvpsByDate } from '../../../services/EventRsvpService';
+import { EventRsvp, Passport, RsvpStatus } from '../../../types/models';
 
 const { width, height } = Dimensions.get('window');
 const isTablet = width >= 768;
@@ -46,6 +51,12 @@ const colors = {
   overlay: 'rgba(0, 0, 0, 0.6)',
 };
 
+const RSVP_BADGE_LABELS: Record<RsvpStatus, string> = {
+  going: 'Going',
+  interested: 'Interested',
+  not_going: 'Not going',
+};
+
 interface ProfileScreenProps {
   navigation: any;
 }
@@ -55,12 +66,20 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [reviewCount, setReviewCount] = useState(0);
+  const [passport, setPassport] = useState<Passport>({ stamps: [], totalCheckIns: 0, uniqueBars: 0 });
+  const [rsvps, setRsvps] = useState<EventRsvp[]>([]);
+  const [showPastEvents, setShowPastEvents] = useState(false);
+  // Se pide al usarla por primera vez; pedirla crea el token del feed
+  const [calendarFeedUrl, setCalendarFeedUrl] = useState<string | null>(null);
+  // Los "no voy" no se listan en Mis eventos
+  const myEvents = useMemo(() => splitRsvpsByDate(rsvps.filter((rsvp) => rsvp.status !== 'not_going')), [rsvps]);
 
   useEffect(() => {
     console.log('[ProfileScreen] useEffect - user:', user);
     if (user) {
       console.log('[ProfileScreen] Loading user data');
       fetchUserReviewCount();
+      fetchPassport();
     }
   }, []);
 
@@ -70,18 +89,44 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
 
   const fetchUserReviewCount = async () => {
     try {
-      const response = await barService.getUserReviewCount();
-      setReviewCount(response.data.count);
+      setReviewCount(await barService.getUserReviewCount());
     } catch (error) {
       console.error('Error fetching review count:', error);
       setReviewCount(0);
     }
   };
 
+  const fetchPassport = async () => {
+    try {
+      setPassport(await barService.getPassport());
+    } catch (error) {
+      console.error('Error fetching passport:', error);
+    }
+  };
+
+  const fetchMyEvents = useCallback(async () => {
+    try {
+      setRsvps(await barService.getMyRsvps());
+    } catch (error) {
+      console.error('Error fetching RSVPs:', error);
+    }
+  }, []);
+
+  // Las respuestas se cambian desde la pestaña de eventos, así que se recargan al volver
+  useFocusEffect(
+    useCallback(() => {
+      fetchMyEvents();
+    }, [fetchMyEvents])
+  );
+
+  const openEvent = (eventId: string, occurrenceDate?: string) => {
+    navigation.getParent()?.navigate('EventsTab', { screen: 'EventDetails', params: { eventId, occurrenceDate } });
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
     try {
-      await fetchUserReviewCount();
+      await Promise.all([fetchUserReviewCount(), fetchPassport(), fetchMyEvents()]);
     } catch (error) {
       console.error('Error refreshing profile:', error);
     } finally {
@@ -184,6 +229,78 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
     }
   };
 
+  const showMessage = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(`${title}: ${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const loadCalendarFeedUrl = async (): Promise<string> => {
+    if (calendarFeedUrl) return calendarFeedUrl;
+    const url = await barService.getCalendarFeedUrl();
+    setCalendarFeedUrl(url);
+    return url;
+  };
+
+  // webcal:// hace que el sistema abra la app de calendario para suscribirse
+  const handleSubscribeCalendar = async () => {
+    try {
+      const webcalUrl = toWebcalUrl(await loadCalendarFeedUrl());
+      if (!webcalUrl) {
+        showMessage('Calendar feed', 'Subscriptions need the real server. Share the link instead.');
+        return;
+      }
+      await Linking.openURL(webcalUrl);
+    } catch (error) {
+      console.error('Error subscribing to calendar feed:', error);
+      showMessage('Error', 'Could not open your calendar app. Try sharing the link instead.');
+    }
+  };
+
+  const handleShareCalendarFeed = async () => {
+    try {
+      const url = await loadCalendarFeedUrl();
+      if (Platform.OS === 'web') {
+        if (navigator.clipboard) {
+          await navigator.clipboard.writeText(url);
+          showMessage('Calendar feed', 'Link copied. Add it to your calendar app as a subscription.');
+        } else {
+          showMessage('Calendar feed', url);
+        }
+      } else {
+        await Share.share({ message: url, title: 'Calendar feed' });
+      }
+    } catch (error) {
+      console.error('Error sharing calendar feed:', error);
+      showMessage('Error', 'Could not load your calendar feed. Please try again.');
+    }
+  };
+
+  // Un enlace nuevo revoca el anterior, por si se compartió con alguien más
+  const performResetCalendarFeed = async () => {
+    try {
+      setCalendarFeedUrl(await barService.resetCalendarFeed());
+      showMessage('Calendar feed', 'New link created. Calendars subscribed with the old link will stop updating.');
+    } catch (error) {
+      console.error('Error resetting calendar feed:', error);
+      showMessage('Error', 'Could not reset your calendar link. Please try again.');
+    }
+  };
+
+  const confirmResetCalendarFeed = () => {
+    const message = 'Calendars subscribed with your current link will stop updating.';
+    if (Platform.OS === 'web') {
+      if (window.confirm(`Reset calendar link? ${message}`)) performResetCalendarFeed();
+      return;
+    }
+    Alert.alert('Reset calendar link', message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Reset', style: 'destructive', onPress: performResetCalendarFeed },
+    ]);
+  };
+
   const formatDate = (dateString: string): string => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -222,6 +339,31 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
     return Math.floor((new Date().getTime() - new Date(createdAt).getTime()) / (1000 * 60 * 60 * 24));
   };
 
+  const renderRsvp = (rsvp: EventRsvp, past: boolean = false) => (
+    <TouchableOpacity
+      key={rsvp._id}
+      style={[styles.eventRow, past && styles.eventRowPast]}
+      onPress={() => openEvent(rsvp.event._id, rsvp.event.occurrenceDate)}
+    >
+      <View style={styles.eventDate}>
+        <Text style={styles.eventDay}>{new Date(rsvp.event.start).getDate()}</Text>
+        <Text style={styles.eventMonth}>
+          {new Date(rsvp.event.start).toLocaleDateString('en-US', { month: 'short' })}
+        </Text>
+      </View>
+      <View style={styles.eventInfo}>
+        <Text style={styles.eventName} numberOfLines={1}>{rsvp.event.name}</Text>
+        <Text style={styles.eventBar} numberOfLines={1}>{rsvp.event.bar.name || 'Bar'}</Text>
+      </View>
+      <View style={[styles.rsvpBadge, rsvp.status === 'going' && styles.rsvpBadgeGoing]}>
+        <Icon name={RSVP_ICONS[rsvp.status]} size={14} color={rsvp.status === 'going' ? colors.success : colors.warning} />
+        <Text style={[styles.rsvpBadgeText, rsvp.status === 'going' && styles.rsvpBadgeTextGoing]}>
+          {past && rsvp.status === 'going' ? 'Attended' : RSVP_BADGE_LABELS[rsvp.status]}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+
   if (!user) {
     return (
       <SafeAreaView style={styles.loadingContainer}>
@@ -276,7 +418,12 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
               </View>
             </View>
             
-            <Text style={styles.name}>{user.name}</Text>
+            <Text
+              style={styles.name}
+              onLongPress={() => navigation.navigate('DeveloperSettings')}
+            >
+              {user.name}
+            </Text>
             <Text style={styles.email}>{user.email}</Text>
             
             <View style={styles.accountTypeContainer}>
@@ -311,6 +458,111 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
             <Text style={styles.statValue}>{reviewCount}</Text>
             <Text style={styles.statLabel}>Reviews written</Text>
           </View>
+
+          <View style={styles.statCard}>
+            <Icon name="where-to-vote" size={24} color={colors.success} />
+            <Text style={styles.statValue}>{passport.totalCheckIns}</Text>
+            <Text style={styles.statLabel}>Check-ins</Text>
+          </View>
+
+          <View style={styles.statCard}>
+            <Icon name="local-bar" size={24} color={colors.secondary} />
+            <Text style={styles.statValue}>{passport.uniqueBars}</Text>
+            <Text style={styles.statLabel}>Bars visited</Text>
+          </View>
+        </View>
+
+        {/* Passport */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Beer Passport</Text>
+
+          {passport.stamps.length === 0 ? (
+            <View style={styles.passportEmpty}>
+              <Icon name="verified" size={40} color={colors.textMuted} />
+              <Text style={styles.passportEmptyText}>No stamps yet</Text>
+              <Text style={styles.passportEmptySubtext}>Check in at a bar to collect your first stamp</Text>
+            </View>
+          ) : (
+            <View style={styles.passportGrid}>
+              {passport.stamps.map((stamp) => (
+                <View key={stamp.bar._id} style={styles.stampCard}>
+                  <View style={styles.stampBadge}>
+                    {stamp.bar.photo ? (
+                      <Image source={{ uri: stamp.bar.photo }} style={StyleSheet.absoluteFill} />
+                    ) : (
+                      <Text style={styles.stampInitial}>{(stamp.bar.name || '?').charAt(0).toUpperCase()}</Text>
+                    )}
+                  </View>
+                  <Text style={styles.stampName} numberOfLines={1}>{stamp.bar.name || 'Bar'}</Text>
+                  <Text style={styles.stampVisits}>
+                    {stamp.visits} {stamp.visits === 1 ? 'visit' : 'visits'}
+                  </Text>
+                  <Text style={styles.stampDates}>First: {formatDate(stamp.firstVisit)}</Text>
+                  <Text style={styles.stampDates}>Last: {formatDate(stamp.lastVisit)}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+
+        {/* My Events */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>My Events</Text>
+
+          {myEvents.upcoming.length === 0 ? (
+            <View style={styles.passportEmpty}>
+              <Icon name="event-available" size={40} color={colors.textMuted} />
+              <Text style={styles.passportEmptyText}>No upcoming events</Text>
+              <Text style={styles.passportEmptySubtext}>Mark an event as going or interested to see it here</Text>
+            </View>
+          ) : (
+            <View style={styles.eventsList}>
+              {myEvents.upcoming.map((rsvp) => renderRsvp(rsvp))}
+            </View>
+          )}
+
+          {myEvents.past.length > 0 && (
+            <>
+              <TouchableOpacity style={styles.pastEventsToggle} onPress={() => setShowPastEvents(!showPastEvents)}>
+                <Icon name="history" size={18} color={colors.textSecondary} />
+                <Text style={styles.pastEventsToggleText}>Past events ({myEvents.past.length})</Text>
+                <Icon name={showPastEvents ? 'expand-less' : 'expand-more'} size={20} color={colors.textSecondary} />
+              </TouchableOpacity>
+              {showPastEvents && (
+                <View style={styles.eventsList}>
+                  {myEvents.past.map((rsvp) => renderRsvp(rsvp, true))}
+                </View>
+              )}
+            </>
+          )}
+
+          <View style={styles.calendarFeedCard}>
+            <View style={styles.calendarFeedHeader}>
+              <Icon name="rss-feed" size={22} color={colors.primary} />
+              <View style={styles.calendarFeedInfo}>
+                <Text style={styles.calendarFeedTitle}>Calendar feed</Text>
+                <Text style={styles.calendarFeedSubtitle}>
+                  Events you are going to or interested in, plus events at your favorite bars, synced to your calendar app
+                </Text>
+              </View>
+            </View>
+            <View style={styles.calendarFeedActions}>
+              {Platform.OS !== 'web' && (
+                <TouchableOpacity style={styles.calendarFeedButton} onPress={handleSubscribeCalendar}>
+                  <Icon name="event-available" size={16} color={colors.primary} />
+                  <Text style={styles.calendarFeedButtonText}>Subscribe</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.calendarFeedButton} onPress={handleShareCalendarFeed}>
+                <Icon name={Platform.OS === 'web' ? 'content-copy' : 'share'} size={16} color={colors.primary} />
+                <Text style={styles.calendarFeedButtonText}>{Platform.OS === 'web' ? 'Copy link' : 'Share link'}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.calendarFeedButton} onPress={confirmResetCalendarFeed}>
+                <Icon name="link-off" size={16} color={colors.textSecondary} />
+                <Text style={[styles.calendarFeedButtonText, styles.calendarFeedResetText]}>Reset link</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
         </View>
 
         {/* Personal Information */}
@@ -532,12 +784,14 @@ const styles = StyleSheet.create({
   },
   statsContainer: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     paddingHorizontal: 20,
     paddingVertical: 20,
     gap: 12,
   },
   statCard: {
-    flex: 1,
+    flexGrow: 1,
+    flexBasis: '30%',
     backgroundColor: colors.surface,
     padding: 16,
     borderRadius: 12,
@@ -561,6 +815,199 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     marginBottom: 24,
   },
+  passportEmpty: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 24,
+    alignItems: 'center',
+  },
+  passportEmptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 12,
+  },
+  passportEmptySubtext: {
+    fontSize: 13,
+    color: colors.textMuted,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  passportGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  stampCard: {
+    flexGrow: 1,
+    flexBasis: isTablet ? '22%' : '45%',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 16,
+    alignItems: 'center',
+  },
+  stampBadge: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    borderWidth: 2,
+    borderColor: colors.warning,
+    borderStyle: 'dashed',
+    backgroundColor: colors.surfaceVariant,
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+    marginBottom: 8,
+  },
+  stampInitial: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: colors.warning,
+  },
+  stampName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  stampVisits: {
+    fontSize: 13,
+    color: colors.success,
+    marginTop: 2,
+    marginBottom: 4,
+  },
+  stampDates: {
+    fontSize: 11,
+    color: colors.textMuted,
+  },
+  eventsList: {
+    gap: 8,
+  },
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 12,
+  },
+  eventRowPast: {
+    opacity: 0.7,
+  },
+  eventDate: {
+    width: 48,
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  eventDay: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  eventMonth: {
+    fontSize: 12,
+    color: colors.textMuted,
+    textTransform: 'uppercase',
+  },
+  eventInfo: {
+    flex: 1,
+  },
+  eventName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  eventBar: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  rsvpBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(245, 158, 11, 0.15)',
+  },
+  rsvpBadgeGoing: {
+    backgroundColor: 'rgba(16, 185, 129, 0.15)',
+  },
+  rsvpBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.warning,
+  },
+  rsvpBadgeTextGoing: {
+    color: colors.success,
+  },
+  pastEventsToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  pastEventsToggleText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  calendarFeedCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 16,
+    marginTop: 12,
+    gap: 12,
+  },
+  calendarFeedHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  calendarFeedInfo: {
+    flex: 1,
+  },
+  calendarFeedTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  calendarFeedSubtitle: {
+    fontSize: 13,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+  calendarFeedActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  calendarFeedButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: colors.surfaceVariant,
+  },
+  calendarFeedButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  calendarFeedResetText: {
+    color: colors.textSecondary,
+  },
   sectionTitle: {
     fontSize: 20,
     fontWeight: 'bold',
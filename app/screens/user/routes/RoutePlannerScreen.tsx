@@ -0,0 +1,547 @@
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useApiError } from '../../../hooks/useApiError';
+import { RoutesStackParamList } from '../../../navigation/userNavigation';
+import BarService from '../../../services/BarService';
+import RouteService from '../../../services/RouteService';
+import { Event, RouteStop } from '../../../types/models';
+
+// Dark theme colors
+const colors = {
+  background: '#0a0a0a',
+  surface: '#1a1a1a',
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  accent: '#8b5cf6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  textMuted: '#71717a',
+  border: '#27272a',
+  success: '#10b981',
+  warning: '#f59e0b',
+  error: '#ef4444',
+};
+
+// Paso de los botones para ajustar la hora de llegada
+const TIME_STEP_MINUTES = 15;
+
+type RoutePlannerScreenRouteProp = RouteProp<RoutesStackParamList, 'RoutePlanner'>;
+type RoutePlannerScreenNavigationProp = StackNavigationProp<RoutesStackParamList, 'RoutePlanner'>;
+
+interface RoutePlannerScreenProps {
+  route: RoutePlannerScreenRouteProp;
+  navigation: RoutePlannerScreenNavigationProp;
+}
+
+const RoutePlannerScreen: React.FC<RoutePlannerScreenProps> = ({ route, navigation }) => {
+  const routeId = route.params?.routeId;
+  const isDraft = !routeId;
+  const { showError: showLoadError } = useApiError('load');
+  const { showError: showSaveError, getFieldErrors } = useApiError('save');
+
+  const [name, setName] = useState('');
+  const [stops, setStops] = useState<RouteStop[]>([]);
+  const [eventsByBar, setEventsByBar] = useState<Record<string, Event[]>>({});
+  const [nameError, setNameError] = useState<string | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const loadRoute = useCallback(async () => {
+    try {
+      if (routeId) {
+        const saved = await RouteService.getRoute(routeId);
+        setName(saved.name);
+        setStops(saved.stops);
+      } else {
+        setStops(await RouteService.getDraft());
+      }
+    } catch (error) {
+      console.error('Error loading route:', error);
+      showLoadError(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [routeId, showLoadError]);
+
+  // El borrador puede crecer desde la pestaña de bares, así que se recarga al volver.
+  // Una ruta guardada solo se carga una vez para no perder cambios sin guardar.
+  useFocusEffect(
+    useCallback(() => {
+      if (isDraft) loadRoute();
+    }, [isDraft, loadRoute])
+  );
+
+  useEffect(() => {
+    if (!isDraft) loadRoute();
+  }, [isDraft, loadRoute]);
+
+  // Eventos de cada bar; solo se piden los de bares que aún no se cargaron
+  const barIds = useMemo(() => Array.from(new Set(stops.map((stop) => stop.bar._id))), [stops]);
+  useEffect(() => {
+    const missing = barIds.filter((barId) => !(barId in eventsByBar));
+    if (missing.length === 0) return;
+
+    const loadEvents = async () => {
+      const results = await Promise.all(missing.map(async (barId) => {
+        try {
+          return [barId, await BarService.getEventsByBarId(barId)] as const;
+        } catch (error) {
+          console.error('Error fetching events for bar', barId, error);
+          return [barId, [] as Event[]] as const;
+        }
+      }));
+      setEventsByBar((current) => ({ ...current, ...Object.fromEntries(results) }));
+    };
+    loadEvents();
+  }, [barIds, eventsByBar]);
+
+  // El borrador se guarda en cada cambio para no perderlo al salir de la pantalla
+  const updateStops = (next: RouteStop[]) => {
+    setStops(next);
+    if (isDraft) {
+      RouteService.setDraft(next).catch((error) => console.error('Error saving draft:', error));
+    }
+  };
+
+  const shiftStop = (index: number, minutes: number) => {
+    const next = stops.map((stop, stopIndex) => {
+      if (stopIndex !== index) return stop;
+      const arrival = new Date(new Date(stop.plannedArrival).getTime() + minutes * 60000);
+      return { ...stop, plannedArrival: arrival.toISOString() };
+    });
+    updateStops(RouteService.sortStops(next));
+  };
+
+  // Mueve toda la ruta de día conservando los horarios
+  const shiftRouteDay = (days: number) => {
+    updateStops(stops.map((stop) => {
+      const arrival = new Date(stop.plannedArrival);
+      arrival.setDate(arrival.getDate() + days);
+      return { ...stop, plannedArrival: arrival.toISOString() };
+    }));
+  };
+
+  const removeStop = (index: number) => {
+    updateStops(stops.filter((_, stopIndex) => stopIndex !== index));
+  };
+
+  const handleSave = async () => {
+    setNameError(undefined);
+    setSaving(true);
+    try {
+      await RouteService.saveRoute({ _id: routeId, name, stops });
+      if (isDraft) {
+        await RouteService.clearDraft();
+      }
+      navigation.goBack();
+    } catch (error) {
+      const fieldErrors = getFieldErrors(error, ['name'] as const);
+      if (fieldErrors.name) {
+        setNameError(fieldErrors.name);
+      } else {
+        showSaveError(error);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openBarsTab = (barId?: string) => {
+    navigation.getParent()?.navigate('BarsTab', barId
+      ? { screen: 'BarDetails', params: { barId } }
+      : { screen: 'BarsList' });
+  };
+
+  const formatTime = (date: Date) =>
+    date.toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' });
+
+  const formatDay = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('es-ES', { weekday: 'long', day: 'numeric', month: 'long' });
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <StatusBar barStyle="light-content" backgroundColor={colors.background} />
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.loadingText}>Cargando ruta...</Text>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.background} />
+
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={() => navigation.goBack()}>
+          <Icon name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{isDraft ? 'Nueva ruta' : 'Editar ruta'}</Text>
+      </View>
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.label}>Nombre de la ruta</Text>
+        <TextInput
+          style={[styles.input, nameError && styles.inputError]}
+          placeholder="Ej. Viernes por el centro"
+          placeholderTextColor={colors.textMuted}
+          value={name}
+          onChangeText={(text) => {
+            setName(text);
+            if (nameError) setNameError(undefined);
+          }}
+        />
+        {nameError && <Text style={styles.errorText}>{nameError}</Text>}
+
+        {stops.length > 0 && (
+          <View style={styles.dayRow}>
+            <TouchableOpacity style={styles.iconButton} onPress={() => shiftRouteDay(-1)}>
+              <Icon name="chevron-left" size={22} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.dayText}>{formatDay(stops[0].plannedArrival)}</Text>
+            <TouchableOpacity style={styles.iconButton} onPress={() => shiftRouteDay(1)}>
+              <Icon name="chevron-right" size={22} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {stops.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Icon name="add-location" size={56} color={colors.textMuted} />
+            <Text style={styles.emptyTitle}>Tu ruta está vacía</Text>
+            <Text style={styles.emptySubtitle}>
+              Agrega bares desde la lista de bares o desde tus favoritos.
+            </Text>
+          </View>
+        ) : (
+          stops.map((stop, index) => {
+            const window = RouteService.getStopWindow(stops, index);
+            const barEvents = eventsByBar[stop.bar._id];
+            const overlapping = barEvents ? RouteService.getOverlappingEvents(barEvents, window) : [];
+
+            return (
+              <View key={`${stop.bar._id}-${index}`} style={styles.stopCard}>
+                <View style={styles.stopHeader}>
+                  <View style={styles.stopNumber}>
+                    <Text style={styles.stopNumberText}>{index + 1}</Text>
+                  </View>
+                  <TouchableOpacity style={styles.stopInfo} onPress={() => openBarsTab(stop.bar._id)}>
+                    <Text style={styles.stopName} numberOfLines={1}>{stop.bar.name}</Text>
+                    <Text style={styles.stopWindow}>
+                      {formatTime(window.start)} – {formatTime(window.end)}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.iconButton}
+                    disabled={index === 0}
+                    onPress={() => updateStops(RouteService.moveStop(stops, index, index - 1))}
+                  >
+                    <Icon name="arrow-upward" size={20} color={index === 0 ? colors.border : colors.text} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.iconButton}
+                    disabled={index === stops.length - 1}
+                    onPress={() => updateStops(RouteService.moveStop(stops, index, index + 1))}
+                  >
+                    <Icon name="arrow-downward" size={20} color={index === stops.length - 1 ? colors.border : colors.text} />
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.iconButton} onPress={() => removeStop(index)}>
+                    <Icon name="close" size={20} color={colors.error} />
+                  </TouchableOpacity>
+                </View>
+
+                <View style={styles.timeRow}>
+                  <Icon name="schedule" size={16} color={colors.accent} />
+                  <Text style={styles.timeLabel}>Llegada</Text>
+                  <TouchableOpacity style={styles.timeButton} onPress={() => shiftStop(index, -TIME_STEP_MINUTES)}>
+                    <Icon name="remove" size={18} color={colors.text} />
+                  </TouchableOpacity>
+                  <Text style={styles.timeValue}>{formatTime(window.start)}</Text>
+                  <TouchableOpacity style={styles.timeButton} onPress={() => shiftStop(index, TIME_STEP_MINUTES)}>
+                    <Icon name="add" size={18} color={colors.text} />
+                  </TouchableOpacity>
+                </View>
+
+                {/* Eventos del bar durante la visita */}
+                {!barEvents ? (
+                  <ActivityIndicator size="small" color={colors.primary} style={styles.eventsLoading} />
+                ) : overlapping.length === 0 ? (
+                  <Text style={styles.noEventsText}>Sin eventos en este horario</Text>
+                ) : (
+                  overlapping.map((event) => (
+                    <View key={`${event._id}-${event.occurrenceDate ?? ''}`} style={styles.eventRow}>
+                      <Icon name="event-available" size={16} color={colors.success} />
+                      <Text style={styles.eventName} numberOfLines={1}>{event.name}</Text>
+                      <Text style={styles.eventTime}>
+                        {formatTime(new Date(event.start))} – {formatTime(new Date(event.end))}
+                      </Text>
+                    </View>
+                  ))
+                )}
+              </View>
+            );
+          })
+        )}
+
+        <TouchableOpacity style={styles.addButton} onPress={() => openBarsTab()}>
+          <Icon name="add-location" size={20} color={colors.primary} />
+          <Text style={styles.addButtonText}>Agregar bares</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.saveButton, (saving || stops.length === 0) && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={saving || stops.length === 0}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color={colors.text} />
+          ) : (
+            <Text style={styles.saveButtonText}>Guardar ruta</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    padding: 4,
+    marginRight: 12,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: colors.text,
+  },
+  inputError: {
+    borderColor: colors.error,
+  },
+  errorText: {
+    fontSize: 12,
+    color: colors.error,
+    marginTop: 4,
+  },
+  dayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  dayText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    textTransform: 'capitalize',
+  },
+  stopCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 12,
+    marginTop: 12,
+  },
+  stopHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stopNumber: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  stopNumberText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  stopInfo: {
+    flex: 1,
+  },
+  stopName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  stopWindow: {
+    fontSize: 12,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  timeLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginLeft: 6,
+  },
+  timeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    backgroundColor: colors.surfaceVariant,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  timeValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginHorizontal: 12,
+    minWidth: 48,
+    textAlign: 'center',
+  },
+  eventsLoading: {
+    marginTop: 12,
+  },
+  noEventsText: {
+    fontSize: 13,
+    color: colors.textMuted,
+    marginTop: 12,
+  },
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  eventName: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text,
+    marginLeft: 6,
+  },
+  eventTime: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginLeft: 8,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 12,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+    paddingHorizontal: 24,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    marginTop: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderStyle: 'dashed',
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+    marginLeft: 8,
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  saveButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+});
+
+export default RoutePlannerScreen;
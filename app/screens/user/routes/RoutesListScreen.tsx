@@ -0,0 +1,320 @@
+import { useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  RefreshControl,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useApiError } from '../../../hooks/useApiError';
+import { RoutesStackParamList } from '../../../navigation/userNavigation';
+import RouteService from '../../../services/RouteService';
+import { BeerRoute, RouteStop } from '../../../types/models';
+
+// Dark theme colors
+const colors = {
+  background: '#0a0a0a',
+  surface: '#1a1a1a',
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  accent: '#8b5cf6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  textMuted: '#71717a',
+  border: '#27272a',
+  warning: '#f59e0b',
+  error: '#ef4444',
+};
+
+type RoutesListScreenNavigationProp = StackNavigationProp<RoutesStackParamList, 'RoutesList'>;
+
+interface RoutesListScreenProps {
+  navigation: RoutesListScreenNavigationProp;
+}
+
+const RoutesListScreen: React.FC<RoutesListScreenProps> = ({ navigation }) => {
+  const { showError } = useApiError('load');
+  const [routes, setRoutes] = useState<BeerRoute[]>([]);
+  const [draft, setDraft] = useState<RouteStop[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchRoutes = useCallback(async () => {
+    try {
+      const [savedRoutes, draftStops] = await Promise.all([
+        RouteService.getRoutes(),
+        RouteService.getDraft(),
+      ]);
+      setRoutes(savedRoutes);
+      setDraft(draftStops);
+    } catch (error) {
+      console.error('Error loading routes:', error);
+      showError(error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [showError]);
+
+  // El borrador cambia desde otras pestañas, así que se recarga al volver a esta
+  useFocusEffect(
+    useCallback(() => {
+      fetchRoutes();
+    }, [fetchRoutes])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchRoutes();
+  };
+
+  const deleteRoute = async (route: BeerRoute) => {
+    try {
+      await RouteService.deleteRoute(route._id);
+      setRoutes((current) => current.filter((candidate) => candidate._id !== route._id));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDeletePress = (route: BeerRoute) => {
+    const message = `¿Eliminar la ruta "${route.name}"?`;
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) deleteRoute(route);
+      return;
+    }
+    Alert.alert('Eliminar ruta', message, [
+      { text: 'Cancelar', style: 'cancel' },
+      { text: 'Eliminar', style: 'destructive', onPress: () => deleteRoute(route) },
+    ]);
+  };
+
+  const formatRouteDate = (stops: RouteStop[]) => {
+    if (stops.length === 0) return 'Sin paradas';
+    const date = new Date(stops[0].plannedArrival);
+    return `${date.toLocaleDateString('es-ES', { weekday: 'short', day: 'numeric', month: 'short' })} · ${date.toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' })}`;
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <StatusBar barStyle="light-content" backgroundColor={colors.background} />
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.loadingText}>Cargando rutas...</Text>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.background} />
+
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Rutas cerveceras</Text>
+        <Text style={styles.headerSubtitle}>
+          {routes.length} {routes.length === 1 ? 'ruta guardada' : 'rutas guardadas'}
+        </Text>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={colors.primary}
+            colors={[colors.primary]}
+          />
+        }
+      >
+        {/* Ruta en progreso */}
+        <TouchableOpacity
+          style={styles.draftCard}
+          onPress={() => navigation.navigate('RoutePlanner', {})}
+          activeOpacity={0.8}
+        >
+          <Icon name={draft.length > 0 ? 'edit-road' : 'add-road'} size={28} color={colors.primary} />
+          <View style={styles.draftInfo}>
+            <Text style={styles.draftTitle}>
+              {draft.length > 0 ? 'Ruta en progreso' : 'Nueva ruta'}
+            </Text>
+            <Text style={styles.draftSubtitle}>
+              {draft.length > 0
+                ? `${draft.length} ${draft.length === 1 ? 'bar elegido' : 'bares elegidos'}`
+                : 'Agrega bares desde la lista de bares o tus favoritos'}
+            </Text>
+          </View>
+          <Icon name="chevron-right" size={24} color={colors.textMuted} />
+        </TouchableOpacity>
+
+        {routes.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Icon name="route" size={64} color={colors.textMuted} />
+            <Text style={styles.emptyTitle}>Aún no tienes rutas</Text>
+            <Text style={styles.emptySubtitle}>
+              Elige varios bares, ordénalos y guarda tu ruta para la noche.
+            </Text>
+          </View>
+        ) : (
+          routes.map((route) => (
+            <TouchableOpacity
+              key={route._id}
+              style={styles.routeCard}
+              onPress={() => navigation.navigate('RoutePlanner', { routeId: route._id })}
+              activeOpacity={0.8}
+            >
+              <View style={styles.routeHeader}>
+                <View style={styles.routeTitleContainer}>
+                  <Text style={styles.routeName} numberOfLines={1}>{route.name}</Text>
+                  <View style={styles.routeMeta}>
+                    <Icon name="schedule" size={14} color={colors.accent} />
+                    <Text style={styles.routeMetaText}>{formatRouteDate(route.stops)}</Text>
+                  </View>
+                </View>
+                <TouchableOpacity style={styles.deleteButton} onPress={() => handleDeletePress(route)}>
+                  <Icon name="delete-outline" size={22} color={colors.error} />
+                </TouchableOpacity>
+              </View>
+              <Text style={styles.routeStops} numberOfLines={2}>
+                {route.stops.map((stop) => stop.bar.name).join('  →  ')}
+              </Text>
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  header: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 12,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  draftCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderStyle: 'dashed',
+    padding: 16,
+    marginBottom: 16,
+  },
+  draftInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  draftTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  draftSubtitle: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  routeCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 16,
+    marginBottom: 12,
+  },
+  routeHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  routeTitleContainer: {
+    flex: 1,
+  },
+  routeName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  routeMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  routeMetaText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginLeft: 4,
+    textTransform: 'capitalize',
+  },
+  deleteButton: {
+    padding: 4,
+  },
+  routeStops: {
+    fontSize: 14,
+    color: colors.textMuted,
+    marginTop: 12,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+    paddingHorizontal: 32,
+  },
+});
+
+export default RoutesListScreen;
@@ -0,0 +1,407 @@
+import { StackNavigationProp } from '@react-navigation/stack';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {
+  API_ENVIRONMENTS,
+  ApiEnvironment,
+  clearApiOverride,
+  DEFAULT_API_ENVIRONMENT,
+  getApiBaseUrl,
+  getApiEnvironment,
+  getApiOverride,
+  getEnvironmentUrl,
+  loadApiConfig,
+  setApiOverride,
+} from '../../../config/api';
+import { AuthStackParamList, ProfileStackParamList } from '../../../navigation/userNavigation';
+import { apiService } from '../../../services/ApiService';
+import { locationService } from '../../../services/LocationService';
+import { queryCache } from '../../../services/QueryCache';
+
+// Dark theme colors
+const colors = {
+  background: '#0a0a0a',
+  surface: '#1a1a1a',
+  surfaceVariant: '#2a2a2a',
+  primary: '#3b82f6',
+  text: '#ffffff',
+  textSecondary: '#a1a1aa',
+  textMuted: '#71717a',
+  border: '#27272a',
+  success: '#10b981',
+  warning: '#f59e0b',
+  error: '#ef4444',
+};
+
+const environmentLabels: Record<ApiEnvironment, string> = {
+  local: 'Local',
+  staging: 'Staging',
+  production: 'Producción',
+  mock: 'Mock (sin red)',
+};
+
+// Se abre tanto desde el login como desde el perfil
+type DeveloperSettingsScreenNavigationProp =
+  | StackNavigationProp<AuthStackParamList, 'DeveloperSettings'>
+  | StackNavigationProp<ProfileStackParamList, 'DeveloperSettings'>;
+
+interface DeveloperSettingsScreenProps {
+  navigation: DeveloperSettingsScreenNavigationProp;
+}
+
+// Pantalla oculta (long press en el logo / nombre) para apuntar la app a otro backend
+const DeveloperSettingsScreen: React.FC<DeveloperSettingsScreenProps> = ({ navigation }) => {
+  const [environment, setEnvironment] = useState<ApiEnvironment>(DEFAULT_API_ENVIRONMENT);
+  const [customUrl, setCustomUrl] = useState('');
+  const [activeUrl, setActiveUrl] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [connectionOk, setConnectionOk] = useState<boolean | null>(null);
+  const [fixedLatitude, setFixedLatitude] = useState('');
+  const [fixedLongitude, setFixedLongitude] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      await loadApiConfig();
+      setEnvironment(getApiEnvironment());
+      setCustomUrl(getApiOverride()?.baseUrl || '');
+      setActiveUrl(getApiBaseUrl());
+
+      const fixedLocation = await locationService.getFixedLocation();
+      setFixedLatitude(fixedLocation ? String(fixedLocation.latitude) : '');
+      setFixedLongitude(fixedLocation ? String(fixedLocation.longitude) : '');
+    };
+    load();
+  }, []);
+
+  // Posición fija para probar "cerca de mí" y el mapa sin GPS
+  const handleSaveFixedLocation = async () => {
+    try {
+      await locationService.setFixedLocation({
+        latitude: Number(fixedLatitude),
+        longitude: Number(fixedLongitude),
+      });
+      Alert.alert('Guardado', 'La app usará esta ubicación en lugar de la del dispositivo.');
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'No se pudo guardar la ubicación');
+    }
+  };
+
+  const handleClearFixedLocation = async () => {
+    await locationService.setFixedLocation(null);
+    setFixedLatitude('');
+    setFixedLongitude('');
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await setApiOverride({ environment, baseUrl: customUrl });
+      // El cache pertenece al backend anterior
+      await queryCache.invalidate();
+      setActiveUrl(getApiBaseUrl());
+      setConnectionOk(null);
+      Alert.alert('Guardado', 'Cierra sesión si cambiaste de backend para obtener un token válido.');
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'No se pudo guardar la configuración');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    await clearApiOverride();
+    await queryCache.invalidate();
+    setEnvironment(DEFAULT_API_ENVIRONMENT);
+    setCustomUrl('');
+    setActiveUrl(getApiBaseUrl());
+    setConnectionOk(null);
+  };
+
+  const handleCheckConnection = async () => {
+    setChecking(true);
+    const ok = await apiService.checkConnection();
+    setConnectionOk(ok);
+    setChecking(false);
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.background} />
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Icon name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Developer Settings</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.card}>
+          <Text style={styles.label}>URL activa</Text>
+          <Text style={styles.activeUrl}>{activeUrl}</Text>
+          <Text style={styles.hint}>Entorno por defecto: {environmentLabels[DEFAULT_API_ENVIRONMENT]}</Text>
+        </View>
+
+        <Text style={styles.sectionTitle}>Entorno</Text>
+        {API_ENVIRONMENTS.map((env) => (
+          <TouchableOpacity
+            key={env}
+            style={[styles.option, environment === env && styles.optionSelected]}
+            onPress={() => setEnvironment(env)}
+          >
+            <Icon
+              name={environment === env ? 'radio-button-checked' : 'radio-button-unchecked'}
+              size={20}
+              color={environment === env ? colors.primary : colors.textMuted}
+            />
+            <View style={styles.optionText}>
+              <Text style={styles.optionTitle}>{environmentLabels[env]}</Text>
+              <Text style={styles.optionSubtitle}>{getEnvironmentUrl(env)}</Text>
+            </View>
+          </TouchableOpacity>
+        ))}
+
+        <Text style={styles.sectionTitle}>URL personalizada</Text>
+        <TextInput
+          style={styles.input}
+          value={customUrl}
+          onChangeText={setCustomUrl}
+          placeholder="http://192.168.0.10:3000/api"
+          placeholderTextColor={colors.textMuted}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+        <Text style={styles.hint}>Si se llena, tiene prioridad sobre el entorno seleccionado.</Text>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={handleSave} disabled={saving}>
+          {saving ? (
+            <ActivityIndicator color={colors.text} size="small" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Guardar</Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleCheckConnection} disabled={checking}>
+          {checking ? (
+            <ActivityIndicator color={colors.text} size="small" />
+          ) : (
+            <Text style={styles.secondaryButtonText}>Probar conexión</Text>
+          )}
+        </TouchableOpacity>
+        {connectionOk !== null && (
+          <Text style={[styles.connectionText, { color: connectionOk ? colors.success : colors.error }]}>
+            {connectionOk ? 'Conexión exitosa' : 'No se pudo conectar'}
+          </Text>
+        )}
+
+        <Text style={styles.sectionTitle}>Ubicación fija</Text>
+        <View style={styles.locationRow}>
+          <TextInput
+            style={[styles.input, styles.locationInput]}
+            value={fixedLatitude}
+            onChangeText={setFixedLatitude}
+            placeholder="Latitud"
+            placeholderTextColor={colors.textMuted}
+            keyboardType="numbers-and-punctuation"
+          />
+          <TextInput
+            style={[styles.input, styles.locationInput]}
+            value={fixedLongitude}
+            onChangeText={setFixedLongitude}
+            placeholder="Longitud"
+            placeholderTextColor={colors.textMuted}
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+        <Text style={styles.hint}>Reemplaza la ubicación del dispositivo en el mapa y al ordenar por distancia.</Text>
+
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={handleSaveFixedLocation}
+          disabled={!fixedLatitude.trim() || !fixedLongitude.trim()}
+        >
+          <Text style={styles.secondaryButtonText}>Usar esta ubicación</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleClearFixedLocation}>
+          <Text style={styles.secondaryButtonText}>Usar la ubicación del dispositivo</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+          <Text style={styles.resetButtonText}>Restablecer valores por defecto</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    backgroundColor: colors.surfaceVariant,
+    borderRadius: 20,
+    padding: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  headerSpacer: {
+    width: 42,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 16,
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 6,
+  },
+  activeUrl: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.textMuted,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 14,
+    marginBottom: 10,
+  },
+  optionSelected: {
+    borderColor: colors.primary,
+  },
+  optionText: {
+    marginLeft: 12,
+    flex: 1,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  optionSubtitle: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  input: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: colors.text,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  locationRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  locationInput: {
+    flex: 1,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    color: colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    backgroundColor: colors.surfaceVariant,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  secondaryButtonText: {
+    color: colors.text,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  connectionText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  resetButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  resetButtonText: {
+    color: colors.warning,
+    fontSize: 15,
+    fontWeight: '500',
+  },
+});
+
+export default DeveloperSettingsScreen;
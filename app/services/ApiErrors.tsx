@@ -0,0 +1,138 @@
+// Jerarquía de errores que producen los servicios. Las pantallas deciden qué mostrar
+// según la clase (o `kind`) en lugar de interpretar códigos HTTP a mano.
+
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'unauthorized'
+  | 'auth-expired'
+  | 'forbidden'
+  | 'validation'
+  | 'not-found'
+  | 'conflict'
+  | 'server'
+  | 'unknown';
+
+// Error de un campo específico reportado por el backend
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status?: number;
+  data?: any;
+
+  constructor(message: string, status?: number, data?: any, kind: ApiErrorKind = 'unknown') {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+    this.data = data;
+  }
+}
+
+// Sin respuesta del servidor (sin internet, DNS, servidor caído)
+export class NetworkError extends ApiError {
+  constructor(message: string = 'Error de conexión') {
+    super(message, undefined, undefined, 'network');
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(message: string = 'La petición tardó demasiado') {
+    super(message, undefined, undefined, 'timeout');
+    this.name = 'TimeoutError';
+  }
+}
+
+// 401 en peticiones sin sesión (p. ej. credenciales incorrectas en el login)
+export class UnauthorizedError extends ApiError {
+  constructor(message: string, data?: any) {
+    super(message, 401, data, 'unauthorized');
+    this.name = 'UnauthorizedError';
+  }
+}
+
+// 401 con sesión: el token expiró y no se pudo refrescar
+export class AuthExpiredError extends ApiError {
+  constructor(message: string = 'La sesión expiró', data?: any) {
+    super(message, 401, data, 'auth-expired');
+    this.name = 'AuthExpiredError';
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message: string, data?: any) {
+    super(message, 403, data, 'forbidden');
+    this.name = 'ForbiddenError';
+  }
+}
+
+// 400/422 con la lista de campos inválidos
+export class ValidationError extends ApiError {
+  fieldErrors: FieldError[];
+
+  constructor(message: string, status: number = 400, data?: any) {
+    super(message, status, data, 'validation');
+    this.name = 'ValidationError';
+    this.fieldErrors = parseFieldErrors(data);
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, data?: any) {
+    super(message, 404, data, 'not-found');
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string, data?: any) {
+    super(message, 409, data, 'conflict');
+    this.name = 'ConflictError';
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message: string, status: number = 500, data?: any) {
+    super(message, status, data, 'server');
+    this.name = 'ServerError';
+  }
+}
+
+// Acepta { errors: [{ field, description }] } y el formato de express-validator ({ path | param, msg })
+export const parseFieldErrors = (data: any): FieldError[] => {
+  if (!Array.isArray(data?.errors)) return [];
+
+  return data.errors.reduce((fieldErrors: FieldError[], entry: any) => {
+    const field = entry?.field ?? entry?.path ?? entry?.param;
+    const message = entry?.description ?? entry?.msg ?? entry?.message;
+    if (typeof field === 'string' && typeof message === 'string') {
+      fieldErrors.push({ field, message });
+    }
+    return fieldErrors;
+  }, []);
+};
+
+// Construye el error adecuado para una respuesta HTTP fallida
+export const createApiError = (
+  status: number,
+  data?: any,
+  message: string = data?.message || `HTTP Error: ${status}`,
+  hasSession: boolean = false
+): ApiError => {
+  if (status === 400 || status === 422) return new ValidationError(message, status, data);
+  if (status === 401) return hasSession ? new AuthExpiredError(message, data) : new UnauthorizedError(message, data);
+  if (status === 403) return new ForbiddenError(message, data);
+  if (status === 404) return new NotFoundError(message, data);
+  if (status === 409) return new ConflictError(message, data);
+  if (status >= 500) return new ServerError(message, status, data);
+  return new ApiError(message, status, data);
+};
+
+// El servidor no respondió: la petición puede reintentarse más tarde
+export const isConnectivityError = (error: unknown): boolean =>
+  error instanceof ApiError && (error.kind === 'network' || error.kind === 'timeout');
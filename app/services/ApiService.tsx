@@ -1,21 +1,73 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import axios, { AxiosAdapter, AxiosInstance, AxiosRequestConfig, isAxiosError, Method } from 'axios';
+import { getApiBaseUrl, isMockApiEnabled, loadApiConfig } from '../config/api';
+import { ApiError, AuthExpiredError, createApiError, NetworkError, TimeoutError } from './ApiErrors';
 
 // Configuración base de la API
-const API_BASE_URL = 'http://44.202.149.213:3000/api';
 const TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+const REFRESH_ENDPOINT = '/auth/refresh';
+const REQUEST_TIMEOUT_MS = 10000;
 
-interface ApiResponse<T = any> {
+// El backend simulado se carga solo cuando se usa. Fuera de desarrollo únicamente se empaqueta
+// si la app se compiló con EXPO_PUBLIC_API_ENV=mock; en los demás builds el bundler descarta el import
+const getMockAdapter = (): AxiosAdapter | undefined => {
+  if (!isMockApiEnabled()) return undefined;
+  if (__DEV__ || process.env.EXPO_PUBLIC_API_ENV === 'mock') {
+    return async (config) => (await import('../mocks/mockBackend')).mockAdapter(config);
+  }
+  console.warn('⚠️ El backend simulado no está incluido en este build');
+  return undefined;
+};
+
+// Sobre común para todas las respuestas de la API
+export interface ApiResponse<T = any> {
   success: boolean;
+  status?: number;
   message?: string;
   data?: T;
+  error?: ApiError;
 }
 
+// Lanza el error tipado de una respuesta fallida para que las pantallas usen try/catch
+export const ensureSuccess = <T = any>(response: ApiResponse<T>): ApiResponse<T> => {
+  if (!response.success) {
+    const message = response.message || 'Error en la petición';
+    throw response.error ?? (response.status ? createApiError(response.status, response.data, message) : new NetworkError(message));
+  }
+  return response;
+};
+
+// Cuerpo de una respuesta exitosa; algunos endpoints lo envuelven en { success, message, data }
+export const unwrapData = (response: ApiResponse): unknown => {
+  const body = ensureSuccess(response).data;
+  if (body && typeof body === 'object' && typeof body.success === 'boolean' && 'data' in body) {
+    return body.data;
+  }
+  return body;
+};
+
+type SessionExpiredListener = () => void;
+
 class ApiService {
-  private baseUrl: string;
+  private baseUrl?: string;
+  private client: AxiosInstance;
+  private refreshPromise: Promise<boolean> | null = null;
+  private sessionExpiredListeners = new Set<SessionExpiredListener>();
 
-  constructor(baseUrl: string = API_BASE_URL) {
+  // Sin baseUrl explícita se usa la del módulo de configuración (con su override)
+  constructor(baseUrl?: string) {
     this.baseUrl = baseUrl;
-    console.log('🔧 ApiService initialized with baseUrl:', baseUrl);
+    this.client = axios.create({
+      timeout: REQUEST_TIMEOUT_MS,
+      headers: { 'Content-Type': 'application/json' },
+    });
+    console.log('🔧 ApiService initialized with baseUrl:', baseUrl ?? 'config');
+  }
+
+  // URL base usada por todas las peticiones
+  getBaseUrl(): string {
+    return this.baseUrl ?? getApiBaseUrl();
   }
 
   // ✅ HACER PÚBLICO - Obtener token del almacenamiento
@@ -42,186 +94,217 @@ class ApiService {
     }
   }
 
-  // Eliminar token del almacenamiento
+  // Eliminar tokens (acceso y refresh) del almacenamiento
   async removeToken(): Promise<void> {
     try {
-      console.log('🗑️ Removing token from AsyncStorage...');
-      await AsyncStorage.removeItem(TOKEN_KEY);
-      console.log('✅ Token removed successfully');
+      console.log('🗑️ Removing tokens from AsyncStorage...');
+      await AsyncStorage.multiRemove([TOKEN_KEY, REFRESH_TOKEN_KEY]);
+      console.log('✅ Tokens removed successfully');
     } catch (error) {
       console.error('❌ Error removing token:', error);
     }
   }
 
+  async getRefreshToken(): Promise<string | null> {
+    try {
+      return await AsyncStorage.getItem(REFRESH_TOKEN_KEY);
+    } catch (error) {
+      console.error('❌ Error getting refresh token:', error);
+      return null;
+    }
+  }
+
+  async saveRefreshToken(refreshToken: string): Promise<void> {
+    try {
+      await AsyncStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    } catch (error) {
+      console.error('❌ Error saving refresh token:', error);
+    }
+  }
+
+  // Suscribirse a la expiración de la sesión (refresh imposible); devuelve la función para desuscribirse
+  onSessionExpired(listener: SessionExpiredListener): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
+  private async expireSession(): Promise<void> {
+    console.log('⌛ Session expired, clearing tokens');
+    await this.removeToken();
+    this.sessionExpiredListeners.forEach((listener) => listener());
+  }
+
+  // Pide un nuevo token de acceso; peticiones concurrentes comparten el mismo intento
+  private refreshAccessToken(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = (async () => {
+        const refreshToken = await this.getRefreshToken();
+        if (!refreshToken) return false;
+
+        console.log('🔄 Refreshing access token...');
+        const response = await this.send('POST', REFRESH_ENDPOINT, { data: { refreshToken } }, false);
+        const body = response.data?.data ?? response.data;
+        if (!response.success || !body?.token) {
+          console.log('❌ Token refresh failed:', response.status);
+          return false;
+        }
+
+        await this.saveToken(body.token);
+        if (body.refreshToken) {
+          await this.saveRefreshToken(body.refreshToken);
+        }
+        console.log('✅ Access token refreshed');
+        return true;
+      })().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
   // Headers por defecto
   private async getHeaders(includeAuth: boolean = true): Promise<Record<string, string>> {
-    console.log('📋 Building headers, includeAuth:', includeAuth);
-    
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
+    const headers: Record<string, string> = {};
 
     if (includeAuth) {
       const token = await this.getToken();
       if (token) {
         headers.Authorization = `Bearer ${token}`;
-        console.log('🔐 Authorization header added');
       } else {
         console.log('⚠️ No token available for authorization');
       }
     }
 
-    console.log('📋 Final headers:', headers);
     return headers;
   }
 
-  // Método genérico para hacer peticiones
-  private async request<T = any>(
+  // Método genérico para hacer peticiones; ante un 401 refresca el token y repite la petición una vez
+  async request<T = any>(
+    method: Method,
     endpoint: string,
-    options: RequestInit = {},
+    config: AxiosRequestConfig = {},
     includeAuth: boolean = true
   ): Promise<ApiResponse<T>> {
-    try {
-      const url = `${this.baseUrl}${endpoint}`;
-      console.log(`🌐 Making ${options.method || 'GET'} request to:`, url);
-      console.log('🌐 Request options:', options);
-      
-      const headers = await this.getHeaders(includeAuth);
+    const response = await this.send<T>(method, endpoint, config, includeAuth);
+    if (response.status !== 401 || !includeAuth || !(await this.getToken())) {
+      return response;
+    }
 
-      const config: RequestInit = {
-        ...options,
-        headers: {
-          ...headers,
-          ...options.headers,
-        },
-      };
+    if (await this.refreshAccessToken()) {
+      const retried = await this.send<T>(method, endpoint, config, includeAuth);
+      if (retried.status !== 401) return retried;
+    }
 
-      console.log('🌐 Final request config:', config);
+    await this.expireSession();
+    return { ...response, error: new AuthExpiredError(response.message, response.data) };
+  }
 
-      // Agregar timeout de 10 segundos
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => {
-        console.log('⏰ Request timeout after 10 seconds');
-        controller.abort();
-      }, 10000);
+  private async send<T = any>(
+    method: Method,
+    endpoint: string,
+    config: AxiosRequestConfig,
+    includeAuth: boolean
+  ): Promise<ApiResponse<T>> {
+    try {
+      await loadApiConfig();
+      const baseUrl = this.getBaseUrl();
+      console.log(`🌐 Making ${method.toUpperCase()} request to:`, `${baseUrl}${endpoint}`);
 
-      const fetchConfig = {
+      const headers = await this.getHeaders(includeAuth);
+      const response = await this.client.request({
         ...config,
-        signal: controller.signal,
-      };
-
-      console.log('🚀 Starting fetch request...');
-      const response = await fetch(url, fetchConfig);
-      clearTimeout(timeoutId);
-      
-      console.log('📡 Response received:', {
-        status: response.status,
-        statusText: response.statusText,
-        ok: response.ok
+        method,
+        url: endpoint,
+        baseURL: baseUrl,
+        adapter: getMockAdapter() ?? config.adapter,
+        headers: {
+          ...headers,
+          ...config.headers,
+        },
       });
 
-      const data = await response.json();
-      console.log('📦 Response data:', data);
-
-      if (!response.ok) {
-        console.error('❌ API Error:', {
-          status: response.status,
-          statusText: response.statusText,
-          data
-        });
-
-        return {
-          success: false,
-          message: data.message || `HTTP Error: ${response.status}`,
-          data: undefined
-        };
-      }
+      console.log('📡 Response received:', response.status);
 
-      const result = {
+      return {
         success: true,
-        message: data.message,
-        data: data.user || data.data || data
+        status: response.status,
+        message: response.data?.message,
+        data: response.data,
       };
 
-      console.log('✅ Request successful, returning:', result);
-      return result;
-
     } catch (error) {
-      console.error('❌ Network Error in request:', error);
-      if (typeof error === 'object' && error !== null && 'name' in error && 'message' in error) {
-        console.error('❌ Error name:', (error as { name: string }).name);
-        console.error('❌ Error message:', (error as { message: string }).message);
-        if ((error as { name: string }).name === 'AbortError') {
+      if (isAxiosError(error)) {
+        if (error.response) {
+          console.error('❌ API Error:', {
+            status: error.response.status,
+            data: error.response.data
+          });
+
+          const message = error.response.data?.message || `HTTP Error: ${error.response.status}`;
+          return {
+            success: false,
+            status: error.response.status,
+            message,
+            data: error.response.data,
+            error: createApiError(error.response.status, error.response.data, message),
+          };
+        }
+
+        if (error.code === 'ECONNABORTED') {
+          console.log('⏰ Request timeout after', REQUEST_TIMEOUT_MS, 'ms');
+          const message = 'Request timeout - Check your internet connection and API server';
           return {
             success: false,
-            message: 'Request timeout - Check your internet connection and API server',
-            data: undefined
+            message,
+            data: undefined,
+            error: new TimeoutError(message),
           };
         }
       }
 
+      console.error('❌ Network Error in request:', error);
+      const message = 'Error de conexión. Verifica tu internet y que la API esté corriendo.';
       return {
         success: false,
-        message: 'Error de conexión. Verifica tu internet y que la API esté corriendo.',
-        data: undefined
+        message,
+        data: undefined,
+        error: new NetworkError(message),
       };
     }
   }
 
   // Métodos HTTP específicos
-  async get<T = any>(endpoint: string, includeAuth: boolean = true): Promise<ApiResponse<T>> {
-    console.log('📥 GET request to:', endpoint);
-    return this.request<T>(endpoint, { method: 'GET' }, includeAuth);
+  async get<T = any>(endpoint: string, includeAuth: boolean = true, config: AxiosRequestConfig = {}): Promise<ApiResponse<T>> {
+    return this.request<T>('GET', endpoint, config, includeAuth);
   }
 
-  async post<T = any>(endpoint: string, data?: any, includeAuth: boolean = true): Promise<ApiResponse<T>> {
-    console.log('📤 POST request to:', endpoint, 'with data:', data);
-    return this.request<T>(
-      endpoint,
-      {
-        method: 'POST',
-        body: data ? JSON.stringify(data) : undefined,
-      },
-      includeAuth
-    );
+  async post<T = any>(endpoint: string, data?: any, includeAuth: boolean = true, config: AxiosRequestConfig = {}): Promise<ApiResponse<T>> {
+    return this.request<T>('POST', endpoint, { ...config, data }, includeAuth);
   }
 
-  async put<T = any>(endpoint: string, data?: any, includeAuth: boolean = true): Promise<ApiResponse<T>> {
-    console.log('📝 PUT request to:', endpoint, 'with data:', data);
-    return this.request<T>(
-      endpoint,
-      {
-        method: 'PUT',
-        body: data ? JSON.stringify(data) : undefined,
-      },
-      includeAuth
-    );
+  async put<T = any>(endpoint: string, data?: any, includeAuth: boolean = true, config: AxiosRequestConfig = {}): Promise<ApiResponse<T>> {
+    return this.request<T>('PUT', endpoint, { ...config, data }, includeAuth);
   }
 
-  async delete<T = any>(endpoint: string, includeAuth: boolean = true): Promise<ApiResponse<T>> {
-    console.log('🗑️ DELETE request to:', endpoint);
-    return this.request<T>(endpoint, { method: 'DELETE' }, includeAuth);
+  async delete<T = any>(endpoint: string, includeAuth: boolean = true, config: AxiosRequestConfig = {}): Promise<ApiResponse<T>> {
+    return this.request<T>('DELETE', endpoint, config, includeAuth);
   }
 
   // Método para verificar si hay conexión
   async checkConnection(): Promise<boolean> {
     try {
-      console.log('🔍 Checking connection to:', this.baseUrl);
-      
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => {
-        console.log('⏰ Connection check timeout');
-        controller.abort();
-      }, 5000);
-      
-      const response = await fetch(`${this.baseUrl}/health`, {
-        method: 'GET',
-        signal: controller.signal
+      await loadApiConfig();
+      const baseUrl = this.getBaseUrl();
+      console.log('🔍 Checking connection to:', baseUrl);
+      const response = await this.client.get('/health', {
+        baseURL: baseUrl,
+        adapter: getMockAdapter(),
+        timeout: 5000,
       });
-      
-      clearTimeout(timeoutId);
-      console.log('🔍 Connection check result:', response.ok);
-      return response.ok;
+      console.log('🔍 Connection check result:', response.status);
+      return true;
     } catch (error) {
       console.error('❌ Connection check failed:', error);
       return false;
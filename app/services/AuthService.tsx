@@ -1,3 +1,5 @@
+import { DietaryPreferences } from '../types/models';
+import { ApiError } from './ApiErrors';
 import { apiService } from './ApiService';
 
 // Tipos para las peticiones de autenticación
@@ -21,6 +23,7 @@ export interface UpdateProfileData {
   phone?: string;
   birthDate?: string;
   photo?: string;
+  dietaryPreferences?: DietaryPreferences;
 }
 
 export interface ChangePasswordData {
@@ -37,6 +40,8 @@ export interface User {
   birthDate: string;
   photo: string;
   accountType: 'user' | 'business';
+  // Se usan como filtro por defecto en los menús
+  dietaryPreferences?: DietaryPreferences;
   createdAt: string;
   updatedAt: string;
 }
@@ -47,8 +52,14 @@ export interface AuthResponse {
   message: string;
   user?: User;
   token?: string;
+  error?: ApiError;
 }
 
+// El backend puede responder { user, token } o envolverlo en { data: ... }
+const getUserFromBody = (body: any): User => body?.user || body?.data?.user || body?.data || body;
+const getTokenFromBody = (body: any): string | undefined => body?.token || body?.data?.token;
+const getRefreshTokenFromBody = (body: any): string | undefined => body?.refreshToken || body?.data?.refreshToken;
+
 class AuthService {
   private currentUser: User | null = null;
 
@@ -78,20 +89,25 @@ class AuthService {
 
       if (response.success && response.data) {
         // Guardar token si viene en la respuesta
-        if (response.data.token) {
+        const token = getTokenFromBody(response.data);
+        if (token) {
           console.log('🔑 AuthService: Saving token from registration');
-          await apiService.saveToken(response.data.token);
+          await apiService.saveToken(token);
+        }
+        const refreshToken = getRefreshTokenFromBody(response.data);
+        if (refreshToken) {
+          await apiService.saveRefreshToken(refreshToken);
         }
 
         // ✅ NUEVO: Guardar el usuario actual
-        const user = response.data.user || response.data;
+        const user = getUserFromBody(response.data);
         this.setCurrentUser(user);
 
         const result = {
           success: true,
           message: response.message || 'Usuario registrado exitosamente',
           user: user,
-          token: response.data.token
+          token: token
         };
 
         console.log('✅ AuthService: Registration successful:', result);
@@ -100,7 +116,8 @@ class AuthService {
 
       const errorResult = {
         success: false,
-        message: response.message || 'Error al registrar usuario'
+        message: response.message || 'Error al registrar usuario',
+        error: response.error
       };
 
       console.log('❌ AuthService: Registration failed:', errorResult);
@@ -125,20 +142,25 @@ class AuthService {
 
       if (response.success && response.data) {
         // Guardar token
-        if (response.data.token) {
+        const token = getTokenFromBody(response.data);
+        if (token) {
           console.log('🔑 AuthService: Saving token from login');
-          await apiService.saveToken(response.data.token);
+          await apiService.saveToken(token);
+        }
+        const refreshToken = getRefreshTokenFromBody(response.data);
+        if (refreshToken) {
+          await apiService.saveRefreshToken(refreshToken);
         }
 
         // ✅ ACTUALIZADO: Guardar el usuario actual
-        const user = response.data.user || response.data;
+        const user = getUserFromBody(response.data);
         this.setCurrentUser(user);
 
         const result = {
           success: true,
           message: response.message || 'Login exitoso',
           user: user,
-          token: response.data.token
+          token: token
         };
 
         console.log('✅ AuthService: Login successful:', result);
@@ -147,7 +169,8 @@ class AuthService {
 
       const errorResult = {
         success: false,
-        message: response.message || 'Credenciales inválidas'
+        message: response.message || 'Credenciales inválidas',
+        error: response.error
       };
 
       console.log('❌ AuthService: Login failed:', errorResult);
@@ -172,7 +195,7 @@ class AuthService {
 
       if (response.success && response.data) {
         // ✅ ACTUALIZADO: Guardar el usuario actual
-        const user = response.data.user || response.data;
+        const user = getUserFromBody(response.data);
         this.setCurrentUser(user);
 
         const result = {
@@ -219,7 +242,7 @@ class AuthService {
 
       if (response.success && response.data) {
         // ✅ NUEVO: Actualizar el usuario actual
-        const user = response.data.user || response.data;
+        const user = getUserFromBody(response.data);
         this.setCurrentUser(user);
 
         const result = {
@@ -259,7 +282,7 @@ class AuthService {
 
       if (response.success && response.data) {
         // ✅ NUEVO: Actualizar el usuario actual
-        const user = response.data.user || response.data;
+        const user = getUserFromBody(response.data);
         this.setCurrentUser(user);
 
         const result = {
@@ -274,7 +297,8 @@ class AuthService {
 
       const errorResult = {
         success: false,
-        message: response.message || 'Error al actualizar perfil'
+        message: response.message || 'Error al actualizar perfil',
+        error: response.error
       };
 
       console.log('❌ AuthService: Update profile failed:', errorResult);
@@ -299,7 +323,8 @@ class AuthService {
 
       const result = {
         success: response.success,
-        message: response.message || (response.success ? 'Contraseña actualizada' : 'Error al cambiar contraseña')
+        message: response.message || (response.success ? 'Contraseña actualizada' : 'Error al cambiar contraseña'),
+        error: response.error
       };
 
       console.log('🔒 AuthService: Change password result:', result);
@@ -368,6 +393,14 @@ class AuthService {
     }
   }
 
+  // Notifica cuando la sesión expiró y no se pudo refrescar el token
+  onSessionExpired(listener: () => void): () => void {
+    return apiService.onSessionExpired(() => {
+      this.setCurrentUser(null);
+      listener();
+    });
+  }
+
   // ✅ NUEVO: Verificar si el usuario está autenticado
   isAuthenticated(): boolean {
     return this.currentUser !== null;
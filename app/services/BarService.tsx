@@ -1,298 +1,534 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import axios, { AxiosResponse } from 'axios';
-import { Platform } from 'react-native';
-import { HandleLoginError } from "../../helpers/ErrorHandler";
-import { authService } from './AuthService'; // Cambiar a la instancia, no la clase
+import {
+  Bar,
+  BarFilters,
+  CheckIn,
+  Coordinates,
+  DEFAULT_BAR_FILTERS,
+  Event,
+  EventRsvp,
+  Favorite,
+  MenuItem,
+  MenuSearchFilters,
+  MenuSearchResult,
+  Passport,
+  PassportStamp,
+  parseBar,
+  parseCalendarFeed,
+  parseCheckIn,
+  parseEvent,
+  parseEventRsvp,
+  parseFavorite,
+  parseList,
+  parseMenuItem,
+  parseMenuSearchResult,
+  parseReservation,
+  parseReview,
+  parseReviewCheck,
+  parseReviewStats,
+  parseRsvpState,
+  Reservation,
+  Review,
+  ReviewCheck,
+  ReviewStats,
+  RsvpState,
+  RsvpStatus,
+} from '../types/models';
+import { ConflictError, isConnectivityError, NotFoundError, UnauthorizedError, ValidationError } from './ApiErrors';
+import { apiService, ensureSuccess, unwrapData } from './ApiService';
+import { authService, User } from './AuthService'; // Cambiar a la instancia, no la clase
+import { getCalendarFeedUrl } from './CalendarExportService';
+import { isOfflineId, OfflineMutation, offlineQueue } from './OfflineQueue';
+import { cacheKeys, queryCache } from './QueryCache';
 
-const API_BASE_URL = Platform.select({
-  ios: 'http://44.202.149.213:3000/api',
-  android: 'http://10.0.2.2:3000/api',
-  default: 'http://44.202.149.213:3000/api'
-});
+// Filtros de la búsqueda de bares; se conservan entre sesiones
+const BAR_FILTERS_KEY = 'bar_filters';
 
-class BarService {
-  private api = axios.create({
-    baseURL: API_BASE_URL,
-    timeout: 10000,
-    headers: { 'Content-Type': 'application/json' }
-  });
+const DUPLICATE_REVIEW_MESSAGE = 'Ya tenías una review para este bar. La actualizamos con la que escribiste sin conexión.';
+
+type ReviewData = {
+  rating?: number;
+  comment?: string;
+  photos?: string[];
+};
 
+class BarService {
   constructor() {
-    this.api.interceptors.request.use(
-      async (config) => {
-        const token = await AsyncStorage.getItem('authToken');
-        if (token) config.headers.Authorization = `Bearer ${token}`;
-        return config;
-      },
-      (error) => Promise.reject(error)
-    );
+    this.registerOfflineHandlers();
   }
 
   // Obtener el conteo de reviews de un usuario
-  async getUserReviewCount(userId?: string): Promise<AxiosResponse> {
-    try {
-      const targetUserId = userId || authService.getCurrentUser()?._id;
-      if (!targetUserId) throw new Error('User not authenticated');
-      
-      return await this.api.get(`/users/${targetUserId}/reviews/count`);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
+  async getUserReviewCount(userId?: string): Promise<number> {
+    const targetUserId = userId || authService.getCurrentUser()?._id;
+    if (!targetUserId) throw new UnauthorizedError('User not authenticated');
+
+    const body: any = unwrapData(await apiService.get(`/users/${targetUserId}/reviews/count`));
+    return typeof body?.count === 'number' ? body.count : 0;
+  }
+
+  // Jala los bares; sin filtros regresa todos. `origin` se usa para ordenar por distancia
+  async allBars(filters: Partial<BarFilters> = {}, origin?: Coordinates): Promise<Bar[]> {
+    const params = this.buildBarSearchParams(filters, origin);
+    return parseList(unwrapData(await apiService.get('/bars', true, { params })), parseBar);
+  }
+
+  // Query params de GET /bars; los filtros vacíos no se mandan
+  buildBarSearchParams(filters: Partial<BarFilters>, origin?: Coordinates): Record<string, string> {
+    const params: Record<string, string> = {};
+    if (filters.tags && filters.tags.length > 0) params.tags = filters.tags.join(',');
+    if (filters.minRating) params.minRating = String(filters.minRating);
+    if (filters.minReviews) params.minReviews = String(filters.minReviews);
+    if (filters.city?.trim()) params.city = filters.city.trim();
+    if (filters.state?.trim()) params.state = filters.state.trim();
+    if (filters.beerStyles && filters.beerStyles.length > 0) params.beerStyles = filters.beerStyles.join(',');
+    if (filters.servingFormat) params.servingFormat = filters.servingFormat;
+    if (filters.sort) params.sort = filters.sort;
+    // Redondeado a ~100 m para que moverse un poco no invalide el cache
+    if (filters.sort === 'distance' && origin) {
+      params.lat = origin.latitude.toFixed(3);
+      params.lng = origin.longitude.toFixed(3);
     }
+    return params;
   }
 
-  // Jala todos los bares
-  async allBars(): Promise<AxiosResponse> {
+  async getSavedBarFilters(): Promise<BarFilters> {
     try {
-      return await this.api.get('/bars');
+      const stored = await AsyncStorage.getItem(BAR_FILTERS_KEY);
+      return stored ? { ...DEFAULT_BAR_FILTERS, ...JSON.parse(stored) } : DEFAULT_BAR_FILTERS;
     } catch (error) {
-      HandleLoginError(error);
-      throw error;
+      console.error('❌ BarService: Could not read saved bar filters', error);
+      return DEFAULT_BAR_FILTERS;
     }
   }
 
+  async saveBarFilters(filters: BarFilters): Promise<void> {
+    await AsyncStorage.setItem(BAR_FILTERS_KEY, JSON.stringify(filters));
+  }
+
   // Jala un bar por su id
-  async getBarById(id: string): Promise<AxiosResponse> {
-    try {
-      return await this.api.get(`/bars/${id}`);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async getBarById(id: string): Promise<Bar> {
+    return parseBar(unwrapData(await apiService.get(`/bars/${id}`)));
   }
 
   // Jala el menú de un bar por su id
-  async getMenuByBarId(id: string): Promise<AxiosResponse> {
-    try {
-      return await this.api.get(`/bars/${id}/menu`);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async getMenuByBarId(id: string): Promise<MenuItem[]> {
+    return parseList(unwrapData(await apiService.get(`/bars/${id}/menu`)), parseMenuItem);
   }
 
   // Jala un item del menu de un bar por su id
-  async getMenuItemById(barId: string, itemId: string) {
-    try {
-      const response = await this.api.get(`/bars/${barId}/menu/${itemId}`);
-      return response.data; // Returns the menu item object
-    } catch (error) {
-      if (axios.isAxiosError(error) && error.response?.status === 404) {
-        throw new Error('Menu item not found');
-      }
-      throw error; // Re-throw other errors
-    }
+  async getMenuItemById(barId: string, itemId: string): Promise<MenuItem> {
+    return parseMenuItem(unwrapData(await apiService.get(`/bars/${barId}/menu/${itemId}`)));
+  }
+
+  // Busca en los menús de todos los bares; los resultados vienen agrupados por bar
+  async searchMenu(filters: MenuSearchFilters): Promise<MenuSearchResult[]> {
+    const params = this.buildMenuSearchParams(filters);
+    return parseList(unwrapData(await apiService.get('/menu/search', true, { params })), parseMenuSearchResult);
+  }
+
+  // Query params de GET /menu/search; los filtros vacíos no se mandan
+  buildMenuSearchParams(filters: MenuSearchFilters): Record<string, string> {
+    const params: Record<string, string> = {};
+    if (filters.query.trim()) params.q = filters.query.trim();
+    if (filters.types.length > 0) params.types = filters.types.join(',');
+    if (filters.minPrice !== null) params.minPrice = String(filters.minPrice);
+    if (filters.maxPrice !== null) params.maxPrice = String(filters.maxPrice);
+    if (filters.minAbv !== null) params.minAbv = String(filters.minAbv);
+    if (filters.maxAbv !== null) params.maxAbv = String(filters.maxAbv);
+    return params;
   }
 
   // Jala la comida de un bar por su id
-  async getFoodByBarId(id: string): Promise<AxiosResponse> {
-    try {
-      return await this.api.get(`/bars/${id}/food`);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async getFoodByBarId(id: string): Promise<MenuItem[]> {
+    return parseList(unwrapData(await apiService.get(`/bars/${id}/food`)), parseMenuItem);
   }
 
   // Jala las bebidas de un bar por su id
-  async getDrinksByBarId(id: string): Promise<AxiosResponse> {
-    try {
-      return await this.api.get(`/bars/${id}/drinks`);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async getDrinksByBarId(id: string): Promise<MenuItem[]> {
+    return parseList(unwrapData(await apiService.get(`/bars/${id}/drinks`)), parseMenuItem);
   }
 
   // Jala el alcohol de un bar por su id
-  async getAlcoholByBarId(id: string): Promise<AxiosResponse> {
-    try {
-      return await this.api.get(`/bars/${id}/alcohol`);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async getAlcoholByBarId(id: string): Promise<MenuItem[]> {
+    return parseList(unwrapData(await apiService.get(`/bars/${id}/alcohol`)), parseMenuItem);
   }
 
   // Jala los eventos de un bar por su id
-  async getEventsByBarId(id: string): Promise<AxiosResponse> {
+  async getEventsByBarId(id: string): Promise<Event[]> {
+    return parseList(unwrapData(await apiService.get(`/bars/${id}/events`)), parseEvent);
+  }
+
+  // Jala los reviews de un bar por su id
+  async getReviewsByBarId(id: string): Promise<Review[]> {
+    return parseList(unwrapData(await apiService.get(`/bars/${id}/reviews`)), parseReview);
+  }
+
+  // Crear una review para un bar; sin conexión queda en la cola y se devuelve con `pending`
+  async createReview(barId: string, reviewData: {
+    rating: number;
+    comment: string;
+    photos?: string[];
+  }): Promise<Review> {
     try {
-      return await this.api.get(`/bars/${id}/events`);
+      return await this.sendCreateReview(barId, reviewData);
     } catch (error) {
-      HandleLoginError(error);
-      throw error;
+      const userId = authService.getCurrentUser()?._id;
+      if (!userId || !isConnectivityError(error)) throw error;
+
+      const mutation = await offlineQueue.enqueue({ type: 'createReview', userId, barId, payload: reviewData });
+      if (!mutation) throw error;
+
+      const review = this.toPendingReview(mutation);
+      await queryCache.update<Review[]>(cacheKeys.barReviews(barId), (reviews) => [review, ...reviews]);
+      return review;
     }
   }
 
-  // Jala los reviews de un bar por su id
-  async getReviewsByBarId(id: string): Promise<AxiosResponse> {
+  // Actualizar una review; el barId permite guardar el cambio sin conexión
+  async updateReview(reviewId: string, reviewData: ReviewData, barId?: string): Promise<Review> {
+    const userId = authService.getCurrentUser()?._id;
+
+    // Review creada sin conexión: se edita la que sigue en la cola
+    if (isOfflineId(reviewId)) {
+      const mutation = await offlineQueue.updatePending(reviewId, reviewData);
+      if (!mutation) throw new NotFoundError('La review se está sincronizando, intenta de nuevo en un momento');
+
+      const review = this.toPendingReview(mutation);
+      await this.replaceCachedReview(mutation.barId, review);
+      return review;
+    }
+
     try {
-      return await this.api.get(`/bars/${id}/reviews`);
+      return await this.sendUpdateReview(reviewId, reviewData);
     } catch (error) {
-      HandleLoginError(error);
-      throw error;
+      if (!userId || !barId || !isConnectivityError(error)) throw error;
+
+      // Varias ediciones sin conexión de la misma review se juntan en una sola
+      const pending = (await offlineQueue.getPending(userId))
+        .find((mutation) => mutation.type === 'updateReview' && mutation.reviewId === reviewId);
+      const mutation = pending
+        ? await offlineQueue.updatePending(pending.id, reviewData)
+        : await offlineQueue.enqueue({ type: 'updateReview', userId, barId, reviewId, payload: reviewData });
+      if (!mutation) throw error;
+
+      const cached = (await queryCache.get<Review[]>(cacheKeys.barReviews(barId)))?.data
+        .find((review) => review._id === reviewId);
+      const review = this.toPendingReview(mutation, cached);
+      await this.replaceCachedReview(barId, review);
+      return review;
     }
   }
 
-  // Crear una review para un bar
-async createReview(barId: string, reviewData: {
-  rating: number;
-  comment: string;
-  photos?: string[];
-}): Promise<AxiosResponse> {
-  try {
-    return await this.api.post(`/bars/${barId}/reviews`, reviewData);
-  } catch (error) {
-    HandleLoginError(error);
-    throw error;
+  private async sendCreateReview(barId: string, reviewData: ReviewData): Promise<Review> {
+    return parseReview(unwrapData(await apiService.post(`/bars/${barId}/reviews`, reviewData)));
   }
-}
 
-// Actualizar una review
-async updateReview(reviewId: string, reviewData: {
-  rating?: number;
-  comment?: string;
-  photos?: string[];
-}): Promise<AxiosResponse> {
-  try {
-    return await this.api.put(`/reviews/${reviewId}`, reviewData);
-  } catch (error) {
-    HandleLoginError(error);
-    throw error;
+  private async sendUpdateReview(reviewId: string, reviewData: ReviewData): Promise<Review> {
+    return parseReview(unwrapData(await apiService.put(`/reviews/${reviewId}`, reviewData)));
   }
-}
 
-// Eliminar una review
-async deleteReview(reviewId: string): Promise<AxiosResponse> {
-  try {
-    return await this.api.delete(`/reviews/${reviewId}`);
-  } catch (error) {
-    HandleLoginError(error);
-    throw error;
+  // Versión optimista de una review que sigue en la cola
+  private toPendingReview(mutation: OfflineMutation, base?: Review): Review {
+    const user = authService.getCurrentUser();
+    return {
+      _id: base?._id ?? mutation.reviewId ?? mutation.id,
+      bar: mutation.barId,
+      user: base?.user ?? { _id: user?._id, name: user?.name ?? '', photo: user?.photo },
+      rating: mutation.payload?.rating ?? base?.rating ?? 0,
+      comment: mutation.payload?.comment ?? base?.comment ?? '',
+      photos: mutation.payload?.photos ?? base?.photos ?? [],
+      createdAt: base?.createdAt ?? new Date(mutation.createdAt).toISOString(),
+      pending: true,
+    };
   }
-}
 
-// Verificar si el usuario ya hizo una review para un bar
-async checkUserReview(barId: string): Promise<{hasReviewed: boolean, review?: any}> {
-  const userId = authService.getCurrentUser()?._id;
-  if (!userId) return { hasReviewed: false };
-  
-  try {
-    const response = await this.api.get(`/users/${userId}/reviews/${barId}/check`);
-    return response.data;
-  } catch (error) {
-    return { hasReviewed: false };
+  private async replaceCachedReview(barId: string, review: Review): Promise<void> {
+    await queryCache.update<Review[]>(cacheKeys.barReviews(barId), (reviews) =>
+      reviews.map((candidate) => (candidate._id === review._id ? review : candidate))
+    );
   }
-}
 
-// Obtener estadísticas de reviews de un bar
-async getBarReviewStats(barId: string): Promise<AxiosResponse> {
-  try {
-    return await this.api.get(`/bars/${barId}/reviews/stats`);
-  } catch (error) {
-    HandleLoginError(error);
-    throw error;
+  // Eliminar una review
+  async deleteReview(reviewId: string): Promise<void> {
+    // Si nunca llegó al servidor basta con sacarla de la cola
+    if (isOfflineId(reviewId)) {
+      const mutation = await offlineQueue.cancel(reviewId);
+      if (mutation) {
+        await queryCache.update<Review[]>(cacheKeys.barReviews(mutation.barId), (reviews) =>
+          reviews.filter((review) => review._id !== reviewId)
+        );
+      }
+      return;
+    }
+
+    ensureSuccess(await apiService.delete(`/reviews/${reviewId}`));
+  }
+
+  // Verificar si el usuario ya hizo una review para un bar (incluye las que siguen en la cola)
+  async checkUserReview(barId: string): Promise<ReviewCheck> {
+    const userId = authService.getCurrentUser()?._id;
+    if (!userId) return { hasReviewed: false };
+
+    const pending = (await offlineQueue.getPending(userId)).filter((mutation) => mutation.barId === barId);
+    const pendingCreate = pending.find((mutation) => mutation.type === 'createReview');
+    if (pendingCreate) {
+      return { hasReviewed: true, review: this.toPendingReview(pendingCreate) };
+    }
+
+    const check = await this.fetchReviewCheck(userId, barId);
+    const pendingUpdate = pending.find((mutation) => mutation.type === 'updateReview' && mutation.reviewId === check.review?._id);
+    if (check.review && pendingUpdate) {
+      return { hasReviewed: true, review: this.toPendingReview(pendingUpdate, check.review) };
+    }
+    return check;
+  }
+
+  private async fetchReviewCheck(userId: string, barId: string): Promise<ReviewCheck> {
+    const response = await apiService.get(`/users/${userId}/reviews/${barId}/check`);
+    if (!response.success) return { hasReviewed: false };
+    return parseReviewCheck(unwrapData(response));
+  }
+
+  // Obtener estadísticas de reviews de un bar
+  async getBarReviewStats(barId: string): Promise<ReviewStats> {
+    return parseReviewStats(unwrapData(await apiService.get(`/bars/${barId}/reviews/stats`)));
   }
-}
 
-// Obtener reviews de un usuario
-async getUserReviews(userId?: string): Promise<AxiosResponse> {
-  try {
+  // Obtener reviews de un usuario
+  async getUserReviews(userId?: string): Promise<Review[]> {
     const targetUserId = userId || authService.getCurrentUser()?._id;
-    if (!targetUserId) throw new Error('User not authenticated');
-    
-    return await this.api.get(`/users/${targetUserId}/reviews`);
-  } catch (error) {
-    HandleLoginError(error);
-    throw error;
+    if (!targetUserId) throw new UnauthorizedError('User not authenticated');
+
+    return parseList(unwrapData(await apiService.get(`/users/${targetUserId}/reviews`)), parseReview);
   }
-}
 
-  // jala todos los eventos 
-  async getAllEvents(): Promise<AxiosResponse> {
-    try {
-      return await this.api.get('/events');
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  // jala todos los eventos
+  async getAllEvents(): Promise<Event[]> {
+    return parseList(unwrapData(await apiService.get('/events')), parseEvent);
   }
 
   // evento por id
-  async getEventById(id: string): Promise<AxiosResponse> {
-    try {
-      return await this.api.get(`/events/${id}`);
-    } catch (error) {
-      console.error(error);
-      throw error;
-    }
+  async getEventById(id: string): Promise<Event> {
+    return parseEvent(unwrapData(await apiService.get(`/events/${id}`)));
+  }
+
+  // Respuesta del usuario a un evento y sus asistentes
+  async getEventRsvp(eventId: string): Promise<RsvpState> {
+    return parseRsvpState(unwrapData(await apiService.get(`/events/${eventId}/rsvp`)));
+  }
+
+  // Guardar "voy", "me interesa" o "no voy"; con null se quita la respuesta
+  async setEventRsvp(eventId: string, status: RsvpStatus | null): Promise<RsvpState> {
+    const response = status
+      ? await apiService.put(`/events/${eventId}/rsvp`, { status })
+      : await apiService.delete(`/events/${eventId}/rsvp`);
+    const state = parseRsvpState(unwrapData(response));
+    // Los conteos de asistentes vienen con los eventos en cache
+    await queryCache.invalidate(cacheKeys.events());
+    return state;
+  }
+
+  // Eventos a los que respondió el usuario, ordenados por fecha del evento
+  async getMyRsvps(): Promise<EventRsvp[]> {
+    const userId = authService.getCurrentUser()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    const rsvps = parseList(unwrapData(await apiService.get(`/users/${userId}/rsvps`)), parseEventRsvp);
+    return rsvps.sort((a, b) => a.event.start.localeCompare(b.event.start));
+  }
+
+  // URL del feed de calendario del usuario; el servidor crea el token la primera vez
+  async getCalendarFeedUrl(): Promise<string> {
+    const userId = authService.getCurrentUser()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    const feed = parseCalendarFeed(unwrapData(await apiService.get(`/users/${userId}/calendar-feed`)));
+    return getCalendarFeedUrl(feed.token);
+  }
+
+  // Genera otro token; la URL anterior deja de funcionar
+  async resetCalendarFeed(): Promise<string> {
+    const userId = authService.getCurrentUser()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    const feed = parseCalendarFeed(unwrapData(await apiService.post(`/users/${userId}/calendar-feed/reset`)));
+    return getCalendarFeedUrl(feed.token);
+  }
+
+  // Reservaciones del usuario para un evento, las más recientes primero
+  async getMyEventReservations(eventId: string): Promise<Reservation[]> {
+    return parseList(unwrapData(await apiService.get(`/events/${eventId}/reservations`)), parseReservation);
+  }
+
+  // En eventos que se repiten se reserva la ocurrencia de occurrenceDate
+  async reserveEventTickets(eventId: string, tierId: string, quantity: number, occurrenceDate?: string): Promise<Reservation> {
+    const response = await apiService.post(`/events/${eventId}/reservations`, { tierId, quantity, occurrenceDate });
+    const reservation = parseReservation(unwrapData(response));
+    // Los lugares disponibles vienen con los eventos en cache
+    await queryCache.invalidate(cacheKeys.events());
+    return reservation;
+  }
+
+  async cancelReservation(eventId: string, reservationId: string): Promise<Reservation> {
+    const response = await apiService.delete(`/events/${eventId}/reservations/${reservationId}`);
+    const reservation = parseReservation(unwrapData(response));
+    await queryCache.invalidate(cacheKeys.events());
+    return reservation;
   }
 
   // mi perfil
-  async getMyProfile(): Promise<AxiosResponse> {
-    try {
-      return await this.api.get('/users/me');
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async getMyProfile(): Promise<User> {
+    return unwrapData(await apiService.get('/users/me')) as User;
   }
 
   // Actualizar perfil
-  async updateProfile(userData: any): Promise<AxiosResponse> {
-    try {
-      return await this.api.put('/users/me', userData);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async updateProfile(userData: Partial<User>): Promise<User> {
+    return unwrapData(await apiService.put('/users/me', userData)) as User;
   }
 
-  // Agregar a favoritos
-  async addBarToFavorites(barId: string): Promise<AxiosResponse> {
+  // Agregar a favoritos; sin conexión queda en la cola
+  async addBarToFavorites(barId: string): Promise<void> {
     const userId = authService.getCurrentUser()?._id; // Usar la instancia authService
-    if (!userId) throw new Error('User not authenticated');
-    
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
     try {
-      return await this.api.post(`/users/${userId}/favorites/${barId}`);
+      ensureSuccess(await apiService.post(`/users/${userId}/favorites/${barId}`));
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const message = error.response?.data?.message || error.message;
-        throw new Error(message);
-      }
-      throw error;
+      if (!isConnectivityError(error)) throw error;
+      await offlineQueue.enqueue({ type: 'addFavorite', userId, barId });
     }
   }
 
-  // eliminar de favoritos
-  async removeBarFromFavorites(barId: string): Promise<AxiosResponse> {
+  // eliminar de favoritos; sin conexión queda en la cola
+  async removeBarFromFavorites(barId: string): Promise<void> {
     const userId = authService.getCurrentUser()?._id; // Usar la instancia authService
-    if (!userId) throw new Error('User not authenticated');
-    
-    return await this.api.delete(`/users/${userId}/favorites/${barId}`);
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    try {
+      ensureSuccess(await apiService.delete(`/users/${userId}/favorites/${barId}`));
+    } catch (error) {
+      if (!isConnectivityError(error)) throw error;
+      await offlineQueue.enqueue({ type: 'removeFavorite', userId, barId });
+    }
   }
 
-  // verificar si un bar es favorito
+  // verificar si un bar es favorito; un cambio pendiente en la cola tiene prioridad
   async isBarFavorite(barId: string): Promise<boolean> {
     const userId = authService.getCurrentUser()?._id; // Usar la instancia authService
     if (!userId) return false;
-    
-    try {
-      const response = await this.api.get(`/users/${userId}/favorites/${barId}/check`);
-      return response.data.isFavorite;
-    } catch (error) {
-      return false;
-    }
+
+    const pending = (await offlineQueue.getPending(userId))
+      .filter((mutation) => mutation.barId === barId && (mutation.type === 'addFavorite' || mutation.type === 'removeFavorite'))
+      .pop();
+    if (pending) return pending.type === 'addFavorite';
+
+    return this.fetchIsFavorite(userId, barId);
+  }
+
+  private async fetchIsFavorite(userId: string, barId: string): Promise<boolean> {
+    const response = await apiService.get(`/users/${userId}/favorites/${barId}/check`);
+    return response.success && !!response.data?.isFavorite;
+  }
+
+  // Registrar una visita (check-in) al bar
+  async checkIn(barId: string): Promise<CheckIn> {
+    return parseCheckIn(unwrapData(await apiService.post(`/bars/${barId}/checkins`)));
+  }
+
+  // Check-ins de un usuario, el más reciente primero
+  async getUserCheckIns(userId?: string): Promise<CheckIn[]> {
+    const targetUserId = userId || authService.getCurrentUser()?._id;
+    if (!targetUserId) throw new UnauthorizedError('User not authenticated');
+
+    const checkIns = parseList(unwrapData(await apiService.get(`/users/${targetUserId}/checkins`)), parseCheckIn);
+    return checkIns.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  // Pasaporte cervecero: un sello por bar visitado con sus conteos y fechas
+  async getPassport(userId?: string): Promise<Passport> {
+    const checkIns = await this.getUserCheckIns(userId);
+    const stamps = new Map<string, PassportStamp>();
+
+    checkIns.forEach((checkIn) => {
+      const stamp = stamps.get(checkIn.bar._id);
+      if (!stamp) {
+        stamps.set(checkIn.bar._id, {
+          bar: checkIn.bar,
+          visits: 1,
+          firstVisit: checkIn.createdAt,
+          lastVisit: checkIn.createdAt,
+        });
+        return;
+      }
+      stamp.visits += 1;
+      if (checkIn.createdAt < stamp.firstVisit) stamp.firstVisit = checkIn.createdAt;
+      if (checkIn.createdAt > stamp.lastVisit) stamp.lastVisit = checkIn.createdAt;
+    });
+
+    return {
+      stamps: Array.from(stamps.values()).sort((a, b) => b.lastVisit.localeCompare(a.lastVisit)),
+      totalCheckIns: checkIns.length,
+      uniqueBars: stamps.size,
+    };
   }
 
   // Jala los favoritos de un usuario
-  async getFavorites(userId: string): Promise<AxiosResponse> {
-    try {
-      return await this.api.get(`/users/${userId}/favorites`);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async getFavorites(userId: string): Promise<Favorite[]> {
+    return parseList(unwrapData(await apiService.get(`/users/${userId}/favorites`)), parseFavorite);
+  }
+
+  // Cómo reenviar lo que se guardó sin conexión y cómo resolver conflictos
+  private registerOfflineHandlers() {
+    offlineQueue.register('createReview', async ({ userId, barId, payload }) => {
+      // Si ya existe una review (p. ej. hecha desde otro dispositivo) se actualiza con la versión offline
+      let existing = (await this.fetchReviewCheck(userId, barId)).review;
+      if (!existing) {
+        try {
+          await this.sendCreateReview(barId, payload);
+        } catch (error) {
+          if (!(error instanceof ConflictError)) throw error;
+          existing = (await this.fetchReviewCheck(userId, barId)).review;
+          if (!existing) throw error;
+        }
+      }
+      if (existing) {
+        await this.sendUpdateReview(existing._id, payload);
+      }
+
+      await queryCache.invalidate(cacheKeys.bar(barId));
+      return existing ? DUPLICATE_REVIEW_MESSAGE : undefined;
+    });
+
+    offlineQueue.register('updateReview', async ({ barId, reviewId, payload }) => {
+      try {
+        await this.sendUpdateReview(reviewId!, payload);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          throw new NotFoundError('La review que editaste sin conexión ya no existe.');
+        }
+        throw error;
+      }
+      await queryCache.invalidate(cacheKeys.bar(barId));
+    });
+
+    // Si el favorito ya estaba en el estado deseado no hay nada que reportar
+    offlineQueue.register('addFavorite', async ({ userId, barId }) => {
+      try {
+        ensureSuccess(await apiService.post(`/users/${userId}/favorites/${barId}`));
+      } catch (error) {
+        const alreadyFavorite = (error instanceof ValidationError || error instanceof ConflictError) &&
+          await this.fetchIsFavorite(userId, barId);
+        if (!alreadyFavorite) throw error;
+      }
+    });
+
+    offlineQueue.register('removeFavorite', async ({ userId, barId }) => {
+      try {
+        ensureSuccess(await apiService.delete(`/users/${userId}/favorites/${barId}`));
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) throw error;
+      }
+    });
   }
 }
 
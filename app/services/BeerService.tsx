@@ -0,0 +1,51 @@
+import { isServingFormat, MenuItem, ServingFormat } from '../types/models';
+
+export const SERVING_FORMAT_LABELS: Record<ServingFormat, string> = {
+  tap: 'On tap',
+  bottle: 'Bottle',
+  can: 'Can',
+};
+
+export const SERVING_FORMAT_ICONS: Record<ServingFormat, string> = {
+  tap: 'sports-bar',
+  bottle: 'liquor',
+  can: 'local-drink',
+};
+
+export const MAX_IBU = 150;
+
+// Formatos en que se sirve un item: los de sus presentaciones, sin repetir
+export const getServingFormats = (item: MenuItem): ServingFormat[] =>
+  Array.from(new Set((item.servings ?? []).map((serving) => serving.format)));
+
+// "IPA · 65 IBU · Cervecería Cachanilla"
+export const describeBeer = (item: MenuItem): string =>
+  [item.beer?.style, item.beer?.ibu !== undefined ? `${item.beer.ibu} IBU` : undefined, item.beer?.brewery]
+    .filter(Boolean)
+    .join(' · ');
+
+// Un item cumple si es de alguno de los estilos y, si se pide formato, se sirve en él
+export const matchesBeerFilter = (item: MenuItem, styles: string[], format: ServingFormat | null): boolean => {
+  if (styles.length > 0) {
+    const style = item.beer?.style?.toLowerCase();
+    if (!style || !styles.some((candidate) => candidate.toLowerCase() === style)) return false;
+  }
+  return !format || getServingFormats(item).includes(format);
+};
+
+// Mensaje del primer problema en los datos de cerveza de un item, o null si son válidos
+export const validateBeerAttributes = (item: { beer?: any; servings?: any }): string | null => {
+  const ibu = item.beer?.ibu;
+  if (ibu !== undefined && ibu !== null && (typeof ibu !== 'number' || ibu < 0 || ibu > MAX_IBU)) {
+    return `El IBU debe estar entre 0 y ${MAX_IBU}`;
+  }
+
+  if (item.servings === undefined || item.servings === null) return null;
+  if (!Array.isArray(item.servings)) return 'Formato de presentaciones inválido';
+  for (const serving of item.servings) {
+    if (!isServingFormat(serving?.format)) return 'Cada presentación necesita un formato: barril, botella o lata';
+    if (typeof serving.volume !== 'number' || serving.volume <= 0) return 'El volumen de cada presentación debe ser mayor a 0';
+    if (typeof serving.price !== 'number' || serving.price < 0) return 'El precio de cada presentación debe ser positivo';
+  }
+  return null;
+};
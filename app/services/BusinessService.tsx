@@ -1,226 +1,184 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import axios, { AxiosResponse } from 'axios';
-import { Platform } from 'react-native';
-import { HandleLoginError } from "../../helpers/ErrorHandler";
 import { getCurrentUserGlobal } from '../context/AuthContext'; // Importar la función global
-
-const API_BASE_URL = Platform.select({
-  ios: 'http://44.202.149.213:3000/api',
-  android: 'http://10.0.2.2:3000/api',
-  default: 'http://44.202.149.213:3000/api'
-});
+import {
+  Bar,
+  Event,
+  MenuItem,
+  MenuItemAvailability,
+  MenuSection,
+  parseBar,
+  parseEvent,
+  parseList,
+  parseMenuItem,
+  parseMenuSections,
+  parseReview,
+  Review,
+} from '../types/models';
+import { UnauthorizedError } from './ApiErrors';
+import { ApiResponse, apiService, ensureSuccess, unwrapData } from './ApiService';
+import { MenuLayout } from './MenuSectionService';
+import { cacheKeys, queryCache } from './QueryCache';
 
 class BusinessService {
-  private api = axios.create({
-    baseURL: API_BASE_URL,
-    timeout: 10000,
-    headers: { 'Content-Type': 'application/json' }
-  });
-
-  constructor() {
-    this.api.interceptors.request.use(
-      async (config) => {
-        const token = await AsyncStorage.getItem('authToken');
-        if (token) config.headers.Authorization = `Bearer ${token}`;
-        return config;
-      },
-      (error) => Promise.reject(error)
-    );
-  }
-
   // Crear un nuevo bar (solo para cuentas business)
-  async createBar(barData: any): Promise<AxiosResponse> {
-    try {
-      const userId = getCurrentUserGlobal()?._id;
-      if (!userId) throw new Error('User not authenticated');
-      
-      return await this.api.post(`/bars/owner/${userId}`, barData);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async createBar(barData: any): Promise<Bar> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    const bar = parseBar(unwrapData(await apiService.post(`/bars/owner/${userId}`, barData)));
+    await queryCache.invalidate(cacheKeys.bars());
+    return bar;
   }
 
   // Obtener todos los bares del usuario business
-  async getMyBars(): Promise<AxiosResponse> {
-    try {
-      const userId = getCurrentUserGlobal()?._id;
-      if (!userId) throw new Error('User not authenticated');
-      
-      return await this.api.get(`/bars/owner/${userId}`);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async getMyBars(): Promise<Bar[]> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    return parseList(unwrapData(await apiService.get(`/bars/owner/${userId}`)), parseBar);
   }
 
   // Obtener un bar específico del usuario
-  async getMyBar(barId: string): Promise<AxiosResponse> {
-    try {
-      const userId = getCurrentUserGlobal()?._id;
-      if (!userId) throw new Error('User not authenticated');
-      
-      return await this.api.get(`/bars/owner/${userId}/${barId}`);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async getMyBar(barId: string): Promise<Bar> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    return parseBar(unwrapData(await apiService.get(`/bars/owner/${userId}/${barId}`)));
   }
 
   // Actualizar un bar específico
-  async updateBar(barId: string, barData: any): Promise<AxiosResponse> {
-    try {
-      const userId = getCurrentUserGlobal()?._id;
-      if (!userId) throw new Error('User not authenticated');
-      
-      return await this.api.put(`/bars/owner/${userId}/${barId}`, barData);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async updateBar(barId: string, barData: any): Promise<Bar> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    const bar = parseBar(unwrapData(await apiService.put(`/bars/owner/${userId}/${barId}`, barData)));
+    await queryCache.invalidate(cacheKeys.bars());
+    return bar;
   }
 
   // Eliminar un bar
-  async deleteBar(barId: string): Promise<AxiosResponse> {
-    try {
-      const userId = getCurrentUserGlobal()?._id;
-      if (!userId) throw new Error('User not authenticated');
-      
-      return await this.api.delete(`/bars/owner/${userId}/${barId}`);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async deleteBar(barId: string): Promise<void> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    ensureSuccess(await apiService.delete(`/bars/owner/${userId}/${barId}`));
+    await queryCache.invalidate(cacheKeys.bars());
   }
 
   // Obtener el menú de un bar específico del usuario
-  async getMyBarMenu(barId: string): Promise<AxiosResponse> {
-    try {
-      const userId = getCurrentUserGlobal()?._id;
-      if (!userId) throw new Error('User not authenticated');
-      
-      return await this.api.get(`/bars/owner/${userId}/${barId}/menu`);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async getMyBarMenu(barId: string): Promise<MenuItem[]> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    return parseList(unwrapData(await apiService.get(`/bars/owner/${userId}/${barId}/menu`)), parseMenuItem);
   }
 
   // Agregar item al menú
-  async addMenuItem(barId: string, menuItem: any): Promise<AxiosResponse> {
-    try {
-      const userId = getCurrentUserGlobal()?._id;
-      if (!userId) throw new Error('User not authenticated');
-      
-      return await this.api.post(`/bars/owner/${userId}/${barId}/menu`, menuItem);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async addMenuItem(barId: string, menuItem: any): Promise<MenuItem> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    const item = parseMenuItem(unwrapData(await apiService.post(`/bars/owner/${userId}/${barId}/menu`, menuItem)));
+    await queryCache.invalidate(cacheKeys.barMenu(barId));
+    return item;
   }
 
   // Actualizar item del menú
-  async updateMenuItem(barId: string, itemId: string, menuItem: any): Promise<AxiosResponse> {
-    try {
-      const userId = getCurrentUserGlobal()?._id;
-      if (!userId) throw new Error('User not authenticated');
-      
-      return await this.api.put(`/bars/owner/${userId}/${barId}/menu/${itemId}`, menuItem);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async updateMenuItem(barId: string, itemId: string, menuItem: any): Promise<MenuItem> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    const item = parseMenuItem(unwrapData(await apiService.put(`/bars/owner/${userId}/${barId}/menu/${itemId}`, menuItem)));
+    await queryCache.invalidate(cacheKeys.barMenu(barId));
+    return item;
+  }
+
+  // Cambio rápido de disponibilidad desde el detalle del bar
+  async setMenuItemAvailability(
+    barId: string,
+    itemId: string,
+    availability: MenuItemAvailability,
+    autoReset?: boolean
+  ): Promise<MenuItem> {
+    return this.updateMenuItem(barId, itemId, autoReset === undefined ? { availability } : { availability, autoReset });
+  }
+
+  // Guarda secciones, orden y recomendados del menú de una sola vez
+  async saveMenuLayout(barId: string, layout: MenuLayout): Promise<{ sections: MenuSection[]; items: MenuItem[] }> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    const data: any = unwrapData(await apiService.put(`/bars/owner/${userId}/${barId}/menu/layout`, layout));
+    // Las secciones viven en el bar, así que también se limpia su cache
+    await queryCache.invalidate(cacheKeys.bar(barId));
+    return {
+      sections: parseMenuSections(data?.menuSections) ?? [],
+      items: parseList(data?.items, parseMenuItem),
+    };
   }
 
   // Eliminar item del menú
-  async deleteMenuItem(barId: string, itemId: string): Promise<AxiosResponse> {
-    try {
-      const userId = getCurrentUserGlobal()?._id;
-      if (!userId) throw new Error('User not authenticated');
-      
-      return await this.api.delete(`/bars/owner/${userId}/${barId}/menu/${itemId}`);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async deleteMenuItem(barId: string, itemId: string): Promise<void> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    ensureSuccess(await apiService.delete(`/bars/owner/${userId}/${barId}/menu/${itemId}`));
+    await queryCache.invalidate(cacheKeys.barMenu(barId));
   }
 
   // Crear un evento
-  async createEvent(barId: string, eventData: any): Promise<AxiosResponse> {
-    try {
-      const userId = getCurrentUserGlobal()?._id;
-      if (!userId) throw new Error('User not authenticated');
-      
-      return await this.api.post(`/bars/owner/${userId}/${barId}/events`, eventData);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async createEvent(barId: string, eventData: any): Promise<Event> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    const event = parseEvent(unwrapData(await apiService.post(`/bars/owner/${userId}/${barId}/events`, eventData)));
+    await queryCache.invalidate(cacheKeys.barEvents(barId));
+    await queryCache.invalidate(cacheKeys.events());
+    return event;
   }
 
   // Obtener eventos de un bar específico del usuario
-  async getMyBarEvents(barId: string): Promise<AxiosResponse> {
-    try {
-      const userId = getCurrentUserGlobal()?._id;
-      if (!userId) throw new Error('User not authenticated');
-      
-      return await this.api.get(`/bars/owner/${userId}/${barId}/events`);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async getMyBarEvents(barId: string): Promise<Event[]> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    return parseList(unwrapData(await apiService.get(`/bars/owner/${userId}/${barId}/events`)), parseEvent);
   }
 
   // Obtener un evento específico del usuario
-async getEvent(barId: string, eventId: string): Promise<AxiosResponse> {
-  try {
+  async getEvent(barId: string, eventId: string): Promise<Event> {
     const userId = getCurrentUserGlobal()?._id;
-    if (!userId) throw new Error('User not authenticated');
-    
-    return await this.api.get(`/bars/owner/${userId}/${barId}/events/${eventId}`);
-  } catch (error) {
-    HandleLoginError(error);
-    throw error;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    return parseEvent(unwrapData(await apiService.get(`/bars/owner/${userId}/${barId}/events/${eventId}`)));
   }
-}
 
   // Actualizar un evento
-  async updateEvent(barId: string, eventId: string, eventData: any): Promise<AxiosResponse> {
-    try {
-      const userId = getCurrentUserGlobal()?._id;
-      if (!userId) throw new Error('User not authenticated');
-      
-      return await this.api.put(`/bars/owner/${userId}/${barId}/events/${eventId}`, eventData);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async updateEvent(barId: string, eventId: string, eventData: any): Promise<Event> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    const event = parseEvent(unwrapData(await apiService.put(`/bars/owner/${userId}/${barId}/events/${eventId}`, eventData)));
+    await queryCache.invalidate(cacheKeys.barEvents(barId));
+    await queryCache.invalidate(cacheKeys.events());
+    return event;
   }
 
   // Eliminar un evento
-  async deleteEvent(barId: string, eventId: string): Promise<AxiosResponse> {
-    try {
-      const userId = getCurrentUserGlobal()?._id;
-      if (!userId) throw new Error('User not authenticated');
-      
-      return await this.api.delete(`/bars/owner/${userId}/${barId}/events/${eventId}`);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async deleteEvent(barId: string, eventId: string): Promise<void> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    ensureSuccess(await apiService.delete(`/bars/owner/${userId}/${barId}/events/${eventId}`));
+    await queryCache.invalidate(cacheKeys.barEvents(barId));
+    await queryCache.invalidate(cacheKeys.events());
   }
 
   // Obtener reviews de un bar específico del usuario
-  async getMyBarReviews(barId: string): Promise<AxiosResponse> {
-    try {
-      const userId = getCurrentUserGlobal()?._id;
-      if (!userId) throw new Error('User not authenticated');
-      
-      return await this.api.get(`/bars/owner/${userId}/${barId}/reviews`);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async getMyBarReviews(barId: string): Promise<Review[]> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    return parseList(unwrapData(await apiService.get(`/bars/owner/${userId}/${barId}/reviews`)), parseReview);
   }
 
   // Verificar si el usuario actual es business
@@ -233,78 +191,53 @@ async getEvent(barId: string, eventId: string): Promise<AxiosResponse> {
   // Puedes implementarlos más tarde o eliminarlos si no los necesitas
 
   // Responder a un review (ENDPOINT NO IMPLEMENTADO EN BACKEND)
-  async respondToReview(barId: string, reviewId: string, response: string): Promise<AxiosResponse> {
-    try {
-      const userId = getCurrentUserGlobal()?._id;
-      if (!userId) throw new Error('User not authenticated');
-      
-      return await this.api.post(`/bars/owner/${userId}/${barId}/reviews/${reviewId}/respond`, {
-        response
-      });
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async respondToReview(barId: string, reviewId: string, response: string): Promise<ApiResponse> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    return ensureSuccess(await apiService.post(`/bars/owner/${userId}/${barId}/reviews/${reviewId}/respond`, {
+      response
+    }));
   }
 
   // Obtener estadísticas del negocio (ENDPOINT NO IMPLEMENTADO EN BACKEND)
-  async getBusinessStats(): Promise<AxiosResponse> {
-    try {
-      const userId = getCurrentUserGlobal()?._id;
-      if (!userId) throw new Error('User not authenticated');
-      
-      return await this.api.get(`/business/${userId}/stats`);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async getBusinessStats(): Promise<ApiResponse> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    return ensureSuccess(await apiService.get(`/business/${userId}/stats`));
   }
 
   // Obtener estadísticas de un bar específico (ENDPOINT NO IMPLEMENTADO EN BACKEND)
-  async getBarStats(barId: string): Promise<AxiosResponse> {
-    try {
-      const userId = getCurrentUserGlobal()?._id;
-      if (!userId) throw new Error('User not authenticated');
-      
-      return await this.api.get(`/bars/owner/${userId}/${barId}/stats`);
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async getBarStats(barId: string): Promise<ApiResponse> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    return ensureSuccess(await apiService.get(`/bars/owner/${userId}/${barId}/stats`));
   }
 
   // Subir imagen para el bar (ENDPOINT NO IMPLEMENTADO EN BACKEND)
-  async uploadBarImage(barId: string, imageData: FormData): Promise<AxiosResponse> {
-    try {
-      const userId = getCurrentUserGlobal()?._id;
-      if (!userId) throw new Error('User not authenticated');
-      
-      return await this.api.post(`/bars/owner/${userId}/${barId}/upload-image`, imageData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async uploadBarImage(barId: string, imageData: FormData): Promise<ApiResponse> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    return ensureSuccess(await apiService.post(`/bars/owner/${userId}/${barId}/upload-image`, imageData, true, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    }));
   }
 
   // Subir imagen para item del menú (ENDPOINT NO IMPLEMENTADO EN BACKEND)
-  async uploadMenuItemImage(barId: string, itemId: string, imageData: FormData): Promise<AxiosResponse> {
-    try {
-      const userId = getCurrentUserGlobal()?._id;
-      if (!userId) throw new Error('User not authenticated');
-      
-      return await this.api.post(`/bars/owner/${userId}/${barId}/menu/${itemId}/upload-image`, imageData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
-    } catch (error) {
-      HandleLoginError(error);
-      throw error;
-    }
+  async uploadMenuItemImage(barId: string, itemId: string, imageData: FormData): Promise<ApiResponse> {
+    const userId = getCurrentUserGlobal()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+
+    return ensureSuccess(await apiService.post(`/bars/owner/${userId}/${barId}/menu/${itemId}/upload-image`, imageData, true, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    }));
   }
 }
 
@@ -0,0 +1,224 @@
+import { getApiBaseUrl } from '../config/api';
+import { Event, RecurrenceRule } from '../types/models';
+import { shareTextFile } from './FileService';
+import { APP_TIMEZONE, fromTijuanaWallTime, toTijuanaWallTime } from './TimeZoneService';
+
+// Genera archivos iCalendar (RFC 5545) para agregar eventos a Google Calendar, Apple Calendar, Outlook, etc.
+// Las horas se escriben en hora de Tijuana, la misma zona con la que la app expande las series.
+
+const PRODUCT_ID = '-//Ruta Cervecera//Eventos//ES';
+const FEED_NAME = 'Ruta Cervecera · Mis eventos';
+// Cada cuánto deben volver a pedir el feed los calendarios suscritos
+const FEED_REFRESH_INTERVAL = 'PT6H';
+// Las líneas de más de 75 octetos se doblan (RFC 5545, sección 3.1)
+const MAX_LINE_OCTETS = 75;
+
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Desde 2010 Tijuana cambia de horario los mismos días que California
+const TIMEZONE_LINES = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${APP_TIMEZONE}`,
+  `X-LIC-LOCATION:${APP_TIMEZONE}`,
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:-0800',
+  'TZOFFSETTO:-0700',
+  'TZNAME:PDT',
+  'DTSTART:19700308T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:-0700',
+  'TZOFFSETTO:-0800',
+  'TZNAME:PST',
+  'DTSTART:19701101T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+export type CalendarEvent = Pick<
+  Event,
+  '_id' | 'name' | 'description' | 'location' | 'start' | 'end' | 'bar' | 'recurrence' | 'recurrenceExceptions' | 'createdAt' | 'updatedAt'
+>;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const formatDateTime = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`;
+
+const formatUtc = (date: Date): string => `${formatDateTime(date)}Z`;
+
+const formatTijuana = (date: Date): string => formatDateTime(toTijuanaWallTime(date));
+
+// Inicio original de la ocurrencia de un día (YYYY-MM-DD): ese día a la hora de inicio de la serie
+const seriesStartOn = (dateKey: string, seriesStart: Date): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const wall = toTijuanaWallTime(seriesStart);
+  return fromTijuanaWallTime(year, month - 1, day, wall.getUTCHours(), wall.getUTCMinutes(), wall.getUTCSeconds());
+};
+
+// Escapa texto según RFC 5545: barra invertida, punto y coma, coma y saltos de línea
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+};
+
+// Dobla la línea sin partir caracteres; las continuaciones empiezan con un espacio
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    if (octets + size > MAX_LINE_OCTETS) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+};
+
+const toCalendarText = (lines: string[]): string => `${lines.map(foldLine).join('\r\n')}\r\n`;
+
+// No hay página web pública de eventos; el enlace apunta al recurso del evento en la API
+export const getEventUrl = (eventId: string): string => `${getApiBaseUrl()}/events/${encodeURIComponent(eventId)}`;
+
+// Feed por usuario; el token en la URL es lo que da acceso, sin sesión
+export const getCalendarFeedUrl = (token: string): string => `${getApiBaseUrl()}/calendar/${encodeURIComponent(token)}.ics`;
+
+// Los calendarios se suscriben con webcal://; con otros esquemas (p. ej. mock) no hay forma de suscribirse
+export const toWebcalUrl = (url: string): string | null =>
+  /^https?:\/\//.test(url) ? url.replace(/^https?:\/\//, 'webcal://') : null;
+
+const buildRecurrenceRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.frequency === 'weekly') {
+    // La app cuenta las semanas desde el domingo, igual que WKST=SU
+    parts.push('WKST=SU');
+    if (rule.weekdays.length > 0) {
+      parts.push(`BYDAY=${[...rule.weekdays].sort((a, b) => a - b).map((day) => RRULE_WEEKDAYS[day]).join(',')}`);
+    }
+  }
+  if (rule.until) {
+    // until es el último día inclusive; UNTIL va en UTC porque DTSTART lleva TZID
+    const [year, month, day] = rule.until.split('-').map(Number);
+    parts.push(`UNTIL=${formatUtc(fromTijuanaWallTime(year, month - 1, day, 23, 59, 59))}`);
+  } else if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  return `RRULE:${parts.join(';')}`;
+};
+
+const describeEvent = (event: CalendarEvent): string => {
+  const lines = [event.description?.trim(), event.bar?.name ? `Bar: ${event.bar.name}` : '', getEventUrl(event._id)];
+  return lines.filter(Boolean).join('\n\n');
+};
+
+const describeLocation = (event: CalendarEvent): string =>
+  [event.bar?.name, event.location?.trim()].filter(Boolean).join(', ');
+
+// Datos comunes de la serie y de sus ocurrencias modificadas
+const baseEventLines = (event: CalendarEvent, start: Date, end: Date, stamp: Date): string[] => {
+  const lines = [
+    `UID:${event._id}@rutacervecera`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    `DTSTART;TZID=${APP_TIMEZONE}:${formatTijuana(start)}`,
+    `DTEND;TZID=${APP_TIMEZONE}:${formatTijuana(end)}`,
+    `SUMMARY:${escapeText(event.name)}`,
+    `DESCRIPTION:${escapeText(describeEvent(event))}`,
+  ];
+  const location = describeLocation(event);
+  if (location) lines.push(`LOCATION:${escapeText(location)}`);
+  lines.push(`URL:${getEventUrl(event._id)}`);
+  if (event.createdAt) lines.push(`CREATED:${formatUtc(new Date(event.createdAt))}`);
+  if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatUtc(new Date(event.updatedAt))}`);
+  return lines;
+};
+
+// Un VEVENT por evento; en las series, las ocurrencias canceladas van en EXDATE y las movidas con RECURRENCE-ID
+const eventComponents = (event: CalendarEvent, stamp: Date): string[] => {
+  const start = new Date(event.start);
+  const end = new Date(event.end);
+  const lines = ['BEGIN:VEVENT', ...baseEventLines(event, start, end, stamp)];
+  if (!event.recurrence) return [...lines, 'END:VEVENT'];
+
+  const exceptions = event.recurrenceExceptions ?? [];
+  lines.push(buildRecurrenceRule(event.recurrence));
+  exceptions
+    .filter((exception) => exception.cancelled)
+    .forEach((exception) => {
+      lines.push(`EXDATE;TZID=${APP_TIMEZONE}:${formatTijuana(seriesStartOn(exception.date, start))}`);
+    });
+  lines.push('END:VEVENT');
+
+  const duration = end.getTime() - start.getTime();
+  exceptions
+    .filter((exception) => !exception.cancelled)
+    .forEach((exception) => {
+      const originalStart = seriesStartOn(exception.date, start);
+      const occurrenceStart = exception.start ? new Date(exception.start) : originalStart;
+      const occurrenceEnd = exception.end ? new Date(exception.end) : new Date(occurrenceStart.getTime() + duration);
+      lines.push(
+        'BEGIN:VEVENT',
+        ...baseEventLines(event, occurrenceStart, occurrenceEnd, stamp),
+        `RECURRENCE-ID;TZID=${APP_TIMEZONE}:${formatTijuana(originalStart)}`,
+        'END:VEVENT'
+      );
+    });
+  return lines;
+};
+
+const calendarLines = (events: CalendarEvent[], extraHeaders: string[], stamp: Date): string[] => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  `PRODID:${PRODUCT_ID}`,
+  'CALSCALE:GREGORIAN',
+  'METHOD:PUBLISH',
+  ...extraHeaders,
+  ...TIMEZONE_LINES,
+  ...events.flatMap((event) => eventComponents(event, stamp)),
+  'END:VCALENDAR',
+];
+
+// Archivo .ics con un solo evento (y toda su serie si se repite)
+export const buildEventCalendar = (event: CalendarEvent, stamp: Date = new Date()): string =>
+  toCalendarText(calendarLines([event], [], stamp));
+
+// Feed suscribible con los eventos del usuario
+export const buildCalendarFeed = (events: CalendarEvent[], stamp: Date = new Date()): string =>
+  toCalendarText(calendarLines(events, [
+    `X-WR-CALNAME:${escapeText(FEED_NAME)}`,
+    `X-WR-TIMEZONE:${APP_TIMEZONE}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${FEED_REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${FEED_REFRESH_INTERVAL}`,
+  ], stamp));
+
+const calendarFileName = (event: CalendarEvent): string => {
+  const slug = event.name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'evento'}.ics`;
+};
+
+// En web descarga el .ics; en el teléfono abre el menú de compartir con el archivo para agregarlo al calendario
+export const exportEventToCalendar = async (event: CalendarEvent): Promise<void> =>
+  shareTextFile(calendarFileName(event), buildEventCalendar(event), 'text/calendar');
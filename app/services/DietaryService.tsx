@@ -0,0 +1,83 @@
+import { Allergen, DietaryPreferences, DietaryTag, isAllergen, isDietaryTag, MenuItem } from '../types/models';
+
+export const DIETARY_TAG_LABELS: Record<DietaryTag, string> = {
+  vegetarian: 'Vegetarian',
+  vegan: 'Vegan',
+  gluten_free: 'Gluten-free',
+};
+
+export const DIETARY_TAG_ICONS: Record<DietaryTag, string> = {
+  vegetarian: 'eco',
+  vegan: 'spa',
+  gluten_free: 'grass',
+};
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  nuts: 'Nuts',
+  dairy: 'Dairy',
+  egg: 'Egg',
+  shellfish: 'Shellfish',
+  soy: 'Soy',
+};
+
+// Alérgenos de origen animal que no puede tener un item vegano
+export const NON_VEGAN_ALLERGENS: Allergen[] = ['dairy', 'egg', 'shellfish'];
+
+export const MAX_SPICY_LEVEL = 3;
+
+export const SPICY_LEVEL_LABELS = ['Not spicy', 'Mild', 'Medium', 'Hot'];
+
+// Lo vegano también es vegetariano
+const impliedTags = (tags: DietaryTag[]): DietaryTag[] =>
+  tags.includes('vegan') && !tags.includes('vegetarian') ? [...tags, 'vegetarian'] : tags;
+
+export const hasDietaryTag = (item: MenuItem, tag: DietaryTag): boolean => impliedTags(item.dietaryTags).includes(tag);
+
+export const hasDietaryPreferences = (preferences: DietaryPreferences): boolean =>
+  preferences.diets.length > 0 || preferences.avoidAllergens.length > 0 || preferences.maxSpicyLevel !== null;
+
+// Un item cumple si tiene todas las dietas pedidas, ninguno de los alérgenos a evitar y no pica de más
+export const matchesDietaryPreferences = (item: MenuItem, preferences: DietaryPreferences): boolean =>
+  preferences.diets.every((tag) => hasDietaryTag(item, tag)) &&
+  !preferences.avoidAllergens.some((allergen) => item.allergens.includes(allergen)) &&
+  (preferences.maxSpicyLevel === null || item.spicyLevel <= preferences.maxSpicyLevel);
+
+// "Vegan · Gluten-free"
+export const describeDietaryTags = (item: MenuItem): string =>
+  item.dietaryTags.map((tag) => DIETARY_TAG_LABELS[tag]).join(' · ');
+
+// "Contains nuts, dairy"
+export const describeAllergens = (allergens: Allergen[]): string =>
+  allergens.length === 0
+    ? ''
+    : `Contains ${allergens.map((allergen) => ALLERGEN_LABELS[allergen].toLowerCase()).join(', ')}`;
+
+export const validateDietaryPreferences = (preferences: any): string | null => {
+  if (typeof preferences !== 'object' || preferences === null) return 'Formato de preferencias inválido';
+  if (!Array.isArray(preferences.diets) || !preferences.diets.every(isDietaryTag)) return 'Etiqueta de dieta no soportada';
+  if (!Array.isArray(preferences.avoidAllergens) || !preferences.avoidAllergens.every(isAllergen)) return 'Alérgeno no soportado';
+  const spicy = preferences.maxSpicyLevel;
+  if (spicy !== null && (!Number.isInteger(spicy) || spicy < 0 || spicy > MAX_SPICY_LEVEL)) {
+    return `El nivel de picante debe estar entre 0 y ${MAX_SPICY_LEVEL}`;
+  }
+  return null;
+};
+
+// Mensaje del primer problema en los datos de dieta de un item, o null si son válidos
+export const validateDietaryAttributes = (item: { dietaryTags?: any; allergens?: any; spicyLevel?: any }): string | null => {
+  if (item.dietaryTags !== undefined && item.dietaryTags !== null) {
+    if (!Array.isArray(item.dietaryTags) || !item.dietaryTags.every(isDietaryTag)) return 'Etiqueta de dieta no soportada';
+    const allergens = Array.isArray(item.allergens) ? item.allergens : [];
+    if (item.dietaryTags.includes('vegan') && NON_VEGAN_ALLERGENS.some((allergen) => allergens.includes(allergen))) {
+      return 'Un item vegano no puede contener lácteos, huevo ni mariscos';
+    }
+  }
+  if (item.allergens !== undefined && item.allergens !== null) {
+    if (!Array.isArray(item.allergens) || !item.allergens.every(isAllergen)) return 'Alérgeno no soportado';
+  }
+  const spicy = item.spicyLevel;
+  if (spicy !== undefined && spicy !== null && (!Number.isInteger(spicy) || spicy < 0 || spicy > MAX_SPICY_LEVEL)) {
+    return `El nivel de picante debe estar entre 0 y ${MAX_SPICY_LEVEL}`;
+  }
+  return null;
+};
@@ -0,0 +1,101 @@
+import { Event } from '../types/models';
+import { expandEventOccurrences } from './EventRecurrenceService';
+import { toDateKey } from './OpeningHoursService';
+
+export type CalendarMode = 'month' | 'week';
+
+// Las semanas del calendario empiezan en lunes
+export const CALENDAR_WEEKDAY_LABELS = ['L', 'M', 'M', 'J', 'V', 'S', 'D'];
+
+// Un evento que termina antes de esta hora no ocupa el día siguiente (noches que acaban de madrugada)
+const NEXT_DAY_CUTOFF_HOUR = 6;
+
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+export const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const endOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+
+const addDays = (date: Date, days: number): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export const startOfWeek = (date: Date): Date => addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+
+export const getWeekDays = (date: Date): Date[] =>
+  Array.from({ length: 7 }, (_, index) => addDays(startOfWeek(date), index));
+
+// Semanas completas que cubren el mes; los días de los meses vecinos rellenan la primera y la última
+export const getMonthGrid = (month: Date): Date[][] => {
+  const weeks: Date[][] = [];
+  let weekStart = startOfWeek(new Date(month.getFullYear(), month.getMonth(), 1));
+  do {
+    weeks.push(getWeekDays(weekStart));
+    weekStart = addDays(weekStart, 7);
+  } while (weekStart.getMonth() === month.getMonth());
+  return weeks;
+};
+
+// Días visibles del calendario, de la primera celda al final de la última
+export const getCalendarRange = (date: Date, mode: CalendarMode): DateRange => {
+  const days = mode === 'month' ? getMonthGrid(date).flat() : getWeekDays(date);
+  return { from: days[0], to: endOfDay(days[days.length - 1]) };
+};
+
+// Mes o semana anterior (-1) o siguiente (1)
+export const shiftCalendar = (date: Date, mode: CalendarMode, direction: number): Date =>
+  mode === 'month'
+    ? new Date(date.getFullYear(), date.getMonth() + direction, 1)
+    : addDays(startOfWeek(date), direction * 7);
+
+// "octubre de 2026" o "12 – 18 oct 2026"
+export const formatCalendarTitle = (date: Date, mode: CalendarMode): string => {
+  if (mode === 'month') return date.toLocaleDateString('es-ES', { month: 'long', year: 'numeric' });
+  const days = getWeekDays(date);
+  const first = days[0];
+  const last = days[6];
+  const lastLabel = last.toLocaleDateString('es-ES', { day: 'numeric', month: 'short', year: 'numeric' });
+  return first.getMonth() === last.getMonth()
+    ? `${first.getDate()} – ${lastLabel}`
+    : `${first.toLocaleDateString('es-ES', { day: 'numeric', month: 'short' })} – ${lastLabel}`;
+};
+
+// Días (YYYY-MM-DD) que ocupa un evento según su inicio y fin
+export const getEventDays = (event: Pick<Event, 'start' | 'end'>): string[] => {
+  const start = new Date(event.start);
+  let end = new Date(event.end);
+  if (end.getHours() < NEXT_DAY_CUTOFF_HOUR && startOfDay(end) > startOfDay(start)) end = addDays(end, -1);
+  const days: string[] = [];
+  for (let day = startOfDay(start); day <= end; day = addDays(day, 1)) {
+    days.push(toDateKey(day));
+  }
+  return days.length > 0 ? days : [toDateKey(start)];
+};
+
+export const groupEventsByDay = (events: Event[]): Record<string, Event[]> => {
+  const groups: Record<string, Event[]> = {};
+  events.forEach((event) => {
+    getEventDays(event).forEach((day) => {
+      if (!groups[day]) groups[day] = [];
+      groups[day].push(event);
+    });
+  });
+  return groups;
+};
+
+// Ocurrencias de todos los eventos que empiezan dentro del rango, en orden
+export const expandEventsInRange = (events: Event[], range: DateRange): Event[] =>
+  events
+    .flatMap((event) => expandEventOccurrences(event, range.from, range.to))
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+
+// Rango de días completos a partir de claves YYYY-MM-DD
+export const toDateRange = (from: string, to: string): DateRange => {
+  const [fromYear, fromMonth, fromDay] = from.split('-').map(Number);
+  const [toYear, toMonth, toDay] = to.split('-').map(Number);
+  return {
+    from: new Date(fromYear, fromMonth - 1, fromDay),
+    to: endOfDay(new Date(toYear, toMonth - 1, toDay)),
+  };
+};
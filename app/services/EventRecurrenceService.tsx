@@ -0,0 +1,308 @@
+import {
+  Event,
+  isRecurrenceFrequency,
+  isValidDateKey,
+  RecurrenceException,
+  RecurrenceFrequency,
+  RecurrenceRule,
+} from '../types/models';
+import { toMinutes } from './OpeningHoursService';
+import {
+  addTijuanaDays,
+  fromTijuanaWallTime,
+  getTijuanaWeekday,
+  toTijuanaDateKey,
+  toTijuanaWallTime,
+} from './TimeZoneService';
+
+// Las series se recorren en hora de Tijuana (ver TimeZoneService): así las claves de día coinciden
+// en todos los teléfonos y con las EXDATE/RECURRENCE-ID del .ics
+
+// Qué tan adelante se expanden las series sin fin en la lista de eventos
+export const RECURRENCE_HORIZON_DAYS = 90;
+export const MAX_RECURRENCE_INTERVAL = 12;
+export const MAX_RECURRENCE_COUNT = 200;
+
+// Tope de pasos al recorrer una serie, para que una regla rara no congele la app
+const MAX_SERIES_STEPS = 2000;
+
+const WEEKDAY_NAMES = ['domingo', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado'];
+
+type SeriesEvent = Pick<Event, 'start' | 'end' | 'recurrence' | 'recurrenceExceptions'>;
+
+// Ocurrencia de la serie sin excepciones aplicadas
+export interface SeriesOccurrence {
+  date: string;
+  start: Date;
+  end: Date;
+}
+
+export const isRecurring = (event: Pick<Event, 'recurrence'>): boolean => !!event.recurrence;
+
+// Recorre los inicios originales de la serie en orden; visit regresa false para detenerse
+const forEachSeriesStart = (event: SeriesEvent, visit: (start: Date) => boolean): void => {
+  const base = new Date(event.start);
+  const rule = event.recurrence;
+  if (!rule) {
+    visit(base);
+    return;
+  }
+  const baseWall = toTijuanaWallTime(base);
+  const baseWeekday = getTijuanaWeekday(base);
+
+  let emitted = 0;
+  // Aplica until y count; false cuando la serie ya terminó
+  const emit = (start: Date): boolean => {
+    if (rule.until && toTijuanaDateKey(start) > rule.until) return false;
+    if (rule.count !== undefined && emitted >= rule.count) return false;
+    emitted++;
+    return visit(start);
+  };
+
+  for (let step = 0; step < MAX_SERIES_STEPS; step++) {
+    if (rule.frequency === 'daily') {
+      if (!emit(addTijuanaDays(base, step * rule.interval))) return;
+    } else if (rule.frequency === 'weekly') {
+      const weekStartOffset = step * rule.interval * 7 - baseWeekday;
+      const weekdays = rule.weekdays.length > 0 ? [...rule.weekdays].sort((a, b) => a - b) : [baseWeekday];
+      for (const weekday of weekdays) {
+        const start = addTijuanaDays(base, weekStartOffset + weekday);
+        if (start < base) continue;
+        if (!emit(start)) return;
+      }
+    } else {
+      const start = fromTijuanaWallTime(
+        baseWall.getUTCFullYear(),
+        baseWall.getUTCMonth() + step * rule.interval,
+        baseWall.getUTCDate(),
+        baseWall.getUTCHours(),
+        baseWall.getUTCMinutes()
+      );
+      // Los meses sin ese día (31, 30 o 29 de febrero) se saltan
+      if (toTijuanaWallTime(start).getUTCDate() !== baseWall.getUTCDate()) continue;
+      if (!emit(start)) return;
+    }
+  }
+};
+
+// Ocurrencias originales desde una fecha, para que el dueño elija cuál cambiar
+export const listSeriesOccurrences = (event: SeriesEvent, from: Date, limit: number): SeriesOccurrence[] => {
+  const duration = new Date(event.end).getTime() - new Date(event.start).getTime();
+  const occurrences: SeriesOccurrence[] = [];
+  forEachSeriesStart(event, (start) => {
+    const end = new Date(start.getTime() + duration);
+    if (end >= from) occurrences.push({ date: toTijuanaDateKey(start), start, end });
+    return occurrences.length < limit;
+  });
+  return occurrences;
+};
+
+// Copia del evento con el horario de la ocurrencia; null si esa ocurrencia se canceló
+const applyException = (event: Event, occurrence: SeriesOccurrence): Event | null => {
+  const exception = event.recurrenceExceptions.find((candidate) => candidate.date === occurrence.date);
+  if (exception?.cancelled) return null;
+  return {
+    ...event,
+    start: exception?.start ?? occurrence.start.toISOString(),
+    end: exception?.end ?? occurrence.end.toISOString(),
+    // El cupo es por ocurrencia
+    reservedSpots: event.reservedSpotsByDate[occurrence.date] ?? 0,
+    occurrenceDate: occurrence.date,
+  };
+};
+
+// Ocurrencias cuyo inicio cae entre from y to, con las excepciones aplicadas
+export const expandEventOccurrences = (event: Event, from: Date, to: Date): Event[] => {
+  if (!isRecurring(event)) {
+    const start = new Date(event.start);
+    return start >= from && start <= to ? [event] : [];
+  }
+
+  const duration = new Date(event.end).getTime() - new Date(event.start).getTime();
+  const occurrences: Event[] = [];
+  forEachSeriesStart(event, (start) => {
+    if (start > to) return false;
+    const occurrence = applyException(event, { date: toTijuanaDateKey(start), start, end: new Date(start.getTime() + duration) });
+    if (occurrence) {
+      const occurrenceStart = new Date(occurrence.start);
+      if (occurrenceStart >= from && occurrenceStart <= to) occurrences.push(occurrence);
+    }
+    return true;
+  });
+  return occurrences;
+};
+
+// Eventos por empezar, una entrada por ocurrencia; las series se expanden hasta el horizonte
+export const getUpcomingOccurrences = (
+  events: Event[],
+  now: Date = new Date(),
+  horizonDays: number = RECURRENCE_HORIZON_DAYS
+): Event[] => {
+  const horizon = addTijuanaDays(now, horizonDays);
+  return events
+    .flatMap((event) => (isRecurring(event)
+      ? expandEventOccurrences(event, now, horizon)
+      : new Date(event.start) > now ? [event] : []))
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+};
+
+// Ocurrencia de un día de la serie; null si no existe o se canceló
+export const getOccurrence = (event: Event, date: string): Event | null => {
+  if (!isRecurring(event)) return null;
+  const duration = new Date(event.end).getTime() - new Date(event.start).getTime();
+  let found: Event | null = null;
+  forEachSeriesStart(event, (start) => {
+    const key = toTijuanaDateKey(start);
+    if (key > date) return false;
+    if (key === date) found = applyException(event, { date: key, start, end: new Date(start.getTime() + duration) });
+    return key < date;
+  });
+  return found;
+};
+
+// Primera ocurrencia que no ha terminado (en curso o por empezar), o null si la serie ya acabó
+export const getNextOccurrence = (event: Event, now: Date = new Date()): Event | null => {
+  if (!isRecurring(event)) return new Date(event.end) >= now ? event : null;
+  const duration = new Date(event.end).getTime() - new Date(event.start).getTime();
+  let next: Event | null = null;
+  forEachSeriesStart(event, (start) => {
+    const occurrence = applyException(event, { date: toTijuanaDateKey(start), start, end: new Date(start.getTime() + duration) });
+    if (occurrence && new Date(occurrence.end) >= now) next = occurrence;
+    return next === null;
+  });
+  return next;
+};
+
+export const hasEventEnded = (event: Event, now: Date = new Date()): boolean => getNextOccurrence(event, now) === null;
+
+// "Cada semana: jueves · hasta 2024-12-31"
+export const describeRecurrence = (rule: RecurrenceRule, start: string): string => {
+  const units: Record<RecurrenceFrequency, [string, string]> = {
+    daily: ['Cada día', 'días'],
+    weekly: ['Cada semana', 'semanas'],
+    monthly: ['Cada mes', 'meses'],
+  };
+  const [single, plural] = units[rule.frequency];
+  let text = rule.interval === 1 ? single : `Cada ${rule.interval} ${plural}`;
+  const base = toTijuanaWallTime(new Date(start));
+  if (rule.frequency === 'weekly') {
+    const weekdays = rule.weekdays.length > 0 ? [...rule.weekdays].sort((a, b) => a - b) : [base.getUTCDay()];
+    text += `: ${weekdays.map((weekday) => WEEKDAY_NAMES[weekday]).join(', ')}`;
+  } else if (rule.frequency === 'monthly') {
+    text += ` el día ${base.getUTCDate()}`;
+  }
+  if (rule.until) text += ` · hasta ${rule.until}`;
+  if (rule.count) text += ` · ${rule.count} ${rule.count === 1 ? 'vez' : 'veces'}`;
+  return text;
+};
+
+// Excepción que cambia el horario de una ocurrencia (horas de Tijuana); si el fin queda antes del inicio termina al día siguiente
+export const rescheduleOccurrence = (date: string, startTime: string, endTime: string): RecurrenceException => {
+  const [year, month, day] = date.split('-').map(Number);
+  const start = fromTijuanaWallTime(year, month - 1, day, 0, toMinutes(startTime));
+  const endDayOffset = toMinutes(endTime) <= toMinutes(startTime) ? 1 : 0;
+  const end = fromTijuanaWallTime(year, month - 1, day + endDayOffset, 0, toMinutes(endTime));
+  return { date, cancelled: false, start: start.toISOString(), end: end.toISOString() };
+};
+
+// Regla de repetición mientras se edita: los números van como texto
+export interface RecurrenceDraft {
+  enabled: boolean;
+  frequency: RecurrenceFrequency;
+  interval: string;
+  weekdays: number[];
+  endType: 'never' | 'until' | 'count';
+  until: string;
+  count: string;
+}
+
+export const EMPTY_RECURRENCE_DRAFT: RecurrenceDraft = {
+  enabled: false,
+  frequency: 'weekly',
+  interval: '1',
+  weekdays: [],
+  endType: 'never',
+  until: '',
+  count: '',
+};
+
+export const toRecurrenceDraft = (rule?: RecurrenceRule): RecurrenceDraft =>
+  rule
+    ? {
+      enabled: true,
+      frequency: rule.frequency,
+      interval: rule.interval.toString(),
+      weekdays: rule.weekdays,
+      endType: rule.until ? 'until' : rule.count ? 'count' : 'never',
+      until: rule.until ?? '',
+      count: rule.count?.toString() ?? '',
+    }
+    : EMPTY_RECURRENCE_DRAFT;
+
+// Convierte el borrador; rule null quita la repetición
+export const parseRecurrenceDraft = (
+  draft: RecurrenceDraft,
+  start: Date | null
+): { rule: RecurrenceRule | null; error?: string } => {
+  if (!draft.enabled) return { rule: null };
+  const interval = Number(draft.interval);
+  if (!Number.isInteger(interval) || interval < 1 || interval > MAX_RECURRENCE_INTERVAL) {
+    return { rule: null, error: `El intervalo de repetición debe ser un número entero entre 1 y ${MAX_RECURRENCE_INTERVAL}` };
+  }
+  const rule: RecurrenceRule = {
+    frequency: draft.frequency,
+    interval,
+    weekdays: draft.frequency === 'weekly' ? draft.weekdays : [],
+  };
+  if (draft.endType === 'until') {
+    if (!isValidDateKey(draft.until.trim())) return { rule: null, error: 'La fecha de fin de la repetición debe tener el formato AAAA-MM-DD' };
+    if (start && draft.until.trim() < toTijuanaDateKey(start)) return { rule: null, error: 'La fecha de fin de la repetición debe ser posterior al inicio del evento' };
+    rule.until = draft.until.trim();
+  } else if (draft.endType === 'count') {
+    const count = Number(draft.count);
+    if (!Number.isInteger(count) || count < 1 || count > MAX_RECURRENCE_COUNT) {
+      return { rule: null, error: `El número de repeticiones debe estar entre 1 y ${MAX_RECURRENCE_COUNT}` };
+    }
+    rule.count = count;
+  }
+  return { rule };
+};
+
+// Mensaje del primer problema con la repetición o sus excepciones, o null si son válidas
+export const validateRecurrence = (event: { recurrence?: any; recurrenceExceptions?: any }): string | null => {
+  const { recurrence, recurrenceExceptions } = event;
+  if (recurrence !== undefined && recurrence !== null) {
+    if (!isRecurrenceFrequency(recurrence.frequency)) return 'Frecuencia de repetición no soportada';
+    if (!Number.isInteger(recurrence.interval) || recurrence.interval < 1 || recurrence.interval > MAX_RECURRENCE_INTERVAL) {
+      return `El intervalo de repetición debe estar entre 1 y ${MAX_RECURRENCE_INTERVAL}`;
+    }
+    if (!Array.isArray(recurrence.weekdays) || recurrence.weekdays.some((day: any) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return 'Días de la semana inválidos';
+    }
+    if (recurrence.until !== undefined && recurrence.until !== null && !isValidDateKey(recurrence.until)) {
+      return 'La fecha de fin de la repetición debe tener el formato AAAA-MM-DD';
+    }
+    if (recurrence.count !== undefined && recurrence.count !== null
+      && (!Number.isInteger(recurrence.count) || recurrence.count < 1 || recurrence.count > MAX_RECURRENCE_COUNT)) {
+      return `El número de repeticiones debe estar entre 1 y ${MAX_RECURRENCE_COUNT}`;
+    }
+    if (recurrence.until && recurrence.count) return 'Usa fecha de fin o número de repeticiones, no ambos';
+  }
+
+  if (recurrenceExceptions === undefined || recurrenceExceptions === null) return null;
+  if (!Array.isArray(recurrenceExceptions)) return 'Formato de excepciones inválido';
+  const dates = new Set<string>();
+  for (const exception of recurrenceExceptions) {
+    if (!isValidDateKey(exception?.date)) return 'Cada excepción necesita una fecha AAAA-MM-DD';
+    if (dates.has(exception.date)) return `La fecha ${exception.date} tiene más de una excepción`;
+    dates.add(exception.date);
+    if (exception.cancelled) continue;
+    const start = new Date(exception.start);
+    const end = new Date(exception.end);
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+      return `La ocurrencia del ${exception.date} necesita un horario válido`;
+    }
+    if (end <= start) return `La ocurrencia del ${exception.date} termina antes de empezar`;
+  }
+  return null;
+};
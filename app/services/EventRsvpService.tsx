@@ -0,0 +1,37 @@
+import { EventAttendance, EventRsvp, RsvpStatus } from '../types/models';
+import { getNextOccurrence } from './EventRecurrenceService';
+
+export const RSVP_LABELS: Record<RsvpStatus, string> = {
+  going: 'Voy',
+  interested: 'Me interesa',
+  not_going: 'No voy',
+};
+
+export const RSVP_ICONS: Record<RsvpStatus, string> = {
+  going: 'check-circle',
+  interested: 'star-outline',
+  not_going: 'cancel',
+};
+
+export const totalAttendance = (attendance: EventAttendance): number => attendance.going + attendance.interested;
+
+// "3 van · 1 interesado"
+export const describeAttendance = (attendance: EventAttendance): string =>
+  `${attendance.going} ${attendance.going === 1 ? 'va' : 'van'} · ` +
+  `${attendance.interested} ${attendance.interested === 1 ? 'interesado' : 'interesados'}`;
+
+// Un evento pasa a "pasados" cuando ya terminó, no cuando empieza; las series muestran su siguiente ocurrencia
+export const splitRsvpsByDate = (rsvps: EventRsvp[], now: Date = new Date()) => {
+  const upcoming: EventRsvp[] = [];
+  const past: EventRsvp[] = [];
+  rsvps.forEach((rsvp) => {
+    const next = getNextOccurrence(rsvp.event, now);
+    if (next) {
+      upcoming.push({ ...rsvp, event: next });
+    } else {
+      past.push(rsvp);
+    }
+  });
+  upcoming.sort((a, b) => a.event.start.localeCompare(b.event.start));
+  return { upcoming, past: past.reverse() };
+};
@@ -0,0 +1,144 @@
+import { Event, isTicketTierType, isValidDateKey, TicketTier, TicketTierType } from '../types/models';
+import { toDateKey } from './OpeningHoursService';
+
+export const TICKET_TIER_LABELS: Record<TicketTierType, string> = {
+  general: 'General',
+  vip: 'VIP',
+  early_bird: 'Early bird',
+};
+
+export const TICKET_TIER_ICONS: Record<TicketTierType, string> = {
+  general: 'confirmation-number',
+  vip: 'star',
+  early_bird: 'schedule',
+};
+
+export const MAX_TICKET_TIERS = 5;
+export const MAX_RESERVATION_QUANTITY = 6;
+
+// Id del tipo implícito de los eventos que no definen tipos de entrada
+export const DEFAULT_TIER_ID = 'general';
+
+export type TierSaleStatus = 'upcoming' | 'on_sale' | 'ended';
+
+// Sin caracteres que se confunden al dictarlos (0/O, 1/I)
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+
+// Tipo de entrada mientras se edita: precio y fechas como texto
+export interface TicketTierDraft {
+  id: string;
+  type: TicketTierType;
+  name: string;
+  price: string;
+  salesStart: string;
+  salesEnd: string;
+}
+
+export const createTicketTierDraft = (type: TicketTierType): TicketTierDraft => ({
+  id: `tier-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  type,
+  name: TICKET_TIER_LABELS[type],
+  price: '',
+  salesStart: '',
+  salesEnd: '',
+});
+
+export const toTicketTierDrafts = (tiers: TicketTier[] = []): TicketTierDraft[] =>
+  tiers.map((tier) => ({
+    id: tier.id,
+    type: tier.type,
+    name: tier.name,
+    price: tier.price.toString(),
+    salesStart: tier.salesStart ?? '',
+    salesEnd: tier.salesEnd ?? '',
+  }));
+
+// Convierte los borradores; regresa el mensaje de error si alguno no es válido
+export const parseTicketTierDrafts = (drafts: TicketTierDraft[]): { tiers: TicketTier[]; error?: string } => {
+  const tiers: TicketTier[] = [];
+  const names = new Set<string>();
+  for (const draft of drafts) {
+    const name = draft.name.trim();
+    const price = parseFloat(draft.price);
+    const salesStart = draft.salesStart.trim() || undefined;
+    const salesEnd = draft.salesEnd.trim() || undefined;
+    if (!name) return { tiers, error: 'Each ticket type needs a name' };
+    if (names.has(name.toLowerCase())) return { tiers, error: `There is already a ticket type named "${name}"` };
+    if (isNaN(price) || price < 0) return { tiers, error: `"${name}" needs a positive price` };
+    if ((salesStart && !isValidDateKey(salesStart)) || (salesEnd && !isValidDateKey(salesEnd))) {
+      return { tiers, error: `Sale dates for "${name}" must use the YYYY-MM-DD format` };
+    }
+    if (salesStart && salesEnd && salesStart > salesEnd) {
+      return { tiers, error: `Sales for "${name}" end before they start` };
+    }
+    names.add(name.toLowerCase());
+    tiers.push({ id: draft.id, type: draft.type, name, price, salesStart, salesEnd });
+  }
+  return { tiers };
+};
+
+// Tipos a la venta de un evento; sin tipos definidos hay uno general con el precio del evento
+export const getEventTiers = (event: Pick<Event, 'price' | 'ticketTiers'>): TicketTier[] =>
+  event.ticketTiers.length > 0
+    ? event.ticketTiers
+    : [{ id: DEFAULT_TIER_ID, type: 'general', name: TICKET_TIER_LABELS.general, price: event.price }];
+
+// Las fechas son claves YYYY-MM-DD, así que se comparan como texto
+export const getTierSaleStatus = (tier: TicketTier, now: Date = new Date()): TierSaleStatus => {
+  const today = toDateKey(now);
+  if (tier.salesStart && today < tier.salesStart) return 'upcoming';
+  if (tier.salesEnd && today > tier.salesEnd) return 'ended';
+  return 'on_sale';
+};
+
+export const getLowestTierPrice = (tiers: TicketTier[]): number =>
+  tiers.length > 0 ? Math.min(...tiers.map((tier) => tier.price)) : 0;
+
+// null cuando el evento no tiene cupo
+export const getRemainingSpots = (event: Pick<Event, 'capacity' | 'reservedSpots'>): number | null =>
+  event.capacity === undefined ? null : Math.max(0, event.capacity - event.reservedSpots);
+
+export const generateReservationCode = (): string => {
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)];
+  }
+  return `BR-${code}`;
+};
+
+// Mensaje del primer problema con el cupo o los tipos de entrada, o null si son válidos
+export const validateEventTickets = (event: { capacity?: any; ticketTiers?: any }): string | null => {
+  const { capacity, ticketTiers } = event;
+  if (capacity !== undefined && capacity !== null && (!Number.isInteger(capacity) || capacity < 1)) {
+    return 'El cupo debe ser un número entero mayor a 0';
+  }
+  if (ticketTiers === undefined || ticketTiers === null) return null;
+  if (!Array.isArray(ticketTiers)) return 'Formato de tipos de entrada inválido';
+  if (ticketTiers.length > MAX_TICKET_TIERS) return `Máximo ${MAX_TICKET_TIERS} tipos de entrada`;
+
+  const ids = new Set<string>();
+  const names = new Set<string>();
+  for (const tier of ticketTiers) {
+    const name = typeof tier?.name === 'string' ? tier.name.trim() : '';
+    if (typeof tier?.id !== 'string' || !tier.id) return 'Cada tipo de entrada necesita un id';
+    if (ids.has(tier.id)) return `El id de entrada "${tier.id}" está repetido`;
+    if (!isTicketTierType(tier.type)) return 'Tipo de entrada no soportado';
+    if (!name) return 'Los tipos de entrada necesitan un nombre';
+    if (names.has(name.toLowerCase())) return `Ya existe una entrada llamada "${name}"`;
+    if (typeof tier.price !== 'number' || !Number.isFinite(tier.price) || tier.price < 0) {
+      return `El precio de "${name}" debe ser un número positivo`;
+    }
+    for (const field of ['salesStart', 'salesEnd'] as const) {
+      if (tier[field] !== undefined && tier[field] !== null && !isValidDateKey(tier[field])) {
+        return `La fecha de venta de "${name}" debe tener el formato AAAA-MM-DD`;
+      }
+    }
+    if (tier.salesStart && tier.salesEnd && tier.salesStart > tier.salesEnd) {
+      return `La venta de "${name}" termina antes de empezar`;
+    }
+    ids.add(tier.id);
+    names.add(name.toLowerCase());
+  }
+  return null;
+};
@@ -0,0 +1,57 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Platform, Share } from 'react-native';
+
+// Lectura y escritura de archivos de texto que el usuario elige o comparte (menús, calendarios)
+
+// Tiempo que se conserva el archivo en memoria mientras el navegador inicia la descarga
+const DOWNLOAD_CLEANUP_DELAY_MS = 1000;
+
+export interface PickedTextFile {
+  name: string;
+  contents: string;
+}
+
+// Abre el selector de documentos y lee el archivo elegido; null si el usuario cancela
+export const pickTextFile = async (mimeTypes: string[]): Promise<PickedTextFile | null> => {
+  const result = await DocumentPicker.getDocumentAsync({ type: mimeTypes, copyToCacheDirectory: true });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const [asset] = result.assets;
+  // En web el archivo llega como File; en el teléfono como una copia en el cache de la app
+  const contents = Platform.OS === 'web' && asset.file
+    ? await asset.file.text()
+    : await FileSystem.readAsStringAsync(asset.uri);
+  return { name: asset.name, contents };
+};
+
+// En web descarga el archivo; en el teléfono lo escribe en el cache y abre el menú de compartir del sistema.
+// Si el sistema no puede compartir archivos se comparte el contenido como texto.
+export const shareTextFile = async (fileName: string, contents: string, mimeType: string): Promise<void> => {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([contents], { type: `${mimeType};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    // Firefox solo descarga enlaces que están en el documento
+    link.style.display = 'none';
+    document.body.appendChild(link);
+    link.click();
+    // Revocar en el mismo tick puede cancelar la descarga antes de que empiece
+    setTimeout(() => {
+      URL.revokeObjectURL(url);
+      link.remove();
+    }, DOWNLOAD_CLEANUP_DELAY_MS);
+    return;
+  }
+
+  if (!FileSystem.cacheDirectory || !(await Sharing.isAvailableAsync())) {
+    await Share.share({ title: fileName, message: contents });
+    return;
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, contents, { encoding: FileSystem.EncodingType.UTF8 });
+  await Sharing.shareAsync(uri, { mimeType, dialogTitle: fileName });
+};
@@ -0,0 +1,139 @@
+import { HappyHour, isValidTime, MENU_ITEM_TYPES, MenuItem, MenuItemType, ServingSize } from '../types/models';
+import { formatClock, toMinutes, WEEKDAY_LABELS } from './OpeningHoursService';
+
+// Igual que los horarios, las ventanas se evalúan en la hora local del dispositivo
+
+export const MENU_TYPE_LABELS: Record<MenuItemType, string> = {
+  alcohol: 'Alcohol',
+  bebida: 'Drinks',
+  comida: 'Food',
+};
+
+export interface ItemPrice {
+  price: number;
+  regularPrice: number;
+  // Ventana que da el precio; undefined si aplica el precio regular
+  happyHour?: HappyHour;
+}
+
+// Lunes primero para agrupar "Mon–Fri"
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const createHappyHour = (): HappyHour => ({
+  id: `hh-${Date.now().toString(36)}`,
+  days: [1, 2, 3, 4, 5],
+  start: '17:00',
+  end: '19:00',
+  discounts: {},
+});
+
+const minutesOf = (date: Date): number => date.getHours() * 60 + date.getMinutes();
+
+// Una ventana que cruza la medianoche pertenece al día en que empieza
+export const isHappyHourActive = (happyHour: HappyHour, date: Date): boolean => {
+  const start = toMinutes(happyHour.start);
+  const end = toMinutes(happyHour.end);
+  const minutes = minutesOf(date);
+  const today = date.getDay();
+
+  if (end > start) {
+    return happyHour.days.includes(today) && minutes >= start && minutes < end;
+  }
+  const yesterday = (today + 6) % 7;
+  return (happyHour.days.includes(today) && minutes >= start) || (happyHour.days.includes(yesterday) && minutes < end);
+};
+
+export const getActiveHappyHours = (happyHours: HappyHour[] | undefined, date: Date = new Date()): HappyHour[] =>
+  (happyHours ?? []).filter((happyHour) => isHappyHourActive(happyHour, date));
+
+// Cuándo termina una ventana activa
+export const happyHourEndsAt = (happyHour: HappyHour, date: Date): Date => {
+  const end = new Date(date);
+  end.setHours(0, toMinutes(happyHour.end), 0, 0);
+  if (end <= date) end.setDate(end.getDate() + 1);
+  return end;
+};
+
+const roundPrice = (value: number): number => Math.round(value * 100) / 100;
+
+// El más bajo entre las ventanas activas; un precio fijo de happy hour gana sobre el descuento por tipo
+const bestPrice = (
+  regularPrice: number,
+  type: MenuItemType,
+  fixedPrice: number | undefined,
+  happyHours: HappyHour[] | undefined,
+  date: Date
+): ItemPrice =>
+  getActiveHappyHours(happyHours, date).reduce<ItemPrice>(
+    (best, happyHour) => {
+      const percent = happyHour.discounts[type];
+      const candidate = fixedPrice ?? (percent ? roundPrice(regularPrice * (1 - percent / 100)) : undefined);
+      return candidate !== undefined && candidate < best.price ? { ...best, price: candidate, happyHour } : best;
+    },
+    { price: regularPrice, regularPrice }
+  );
+
+// Precio a cobrar en ese momento
+export const getItemPrice = (item: MenuItem, happyHours: HappyHour[] | undefined, date: Date = new Date()): ItemPrice =>
+  bestPrice(item.price, item.type, item.happyHourPrice, happyHours, date);
+
+// Las presentaciones solo llevan el descuento por tipo; el precio fijo de happy hour es del precio base
+export const getServingPrice = (
+  item: MenuItem,
+  serving: ServingSize,
+  happyHours: HappyHour[] | undefined,
+  date: Date = new Date()
+): ItemPrice => bestPrice(serving.price, item.type, undefined, happyHours, date);
+
+// "Mon–Fri", "Sat, Sun", "Every day"
+export const formatHappyHourDays = (days: number[]): string => {
+  if (days.length === 7) return 'Every day';
+
+  const ordered = DAY_ORDER.filter((day) => days.includes(day));
+  const runs: number[][] = [];
+  ordered.forEach((day) => {
+    const run = runs[runs.length - 1];
+    if (run && DAY_ORDER.indexOf(run[run.length - 1]) === DAY_ORDER.indexOf(day) - 1) run.push(day);
+    else runs.push([day]);
+  });
+
+  const shortLabel = (day: number) => WEEKDAY_LABELS[day].slice(0, 3);
+  return runs
+    .map((run) => (run.length > 2 ? `${shortLabel(run[0])}–${shortLabel(run[run.length - 1])}` : run.map(shortLabel).join(', ')))
+    .join(', ');
+};
+
+export const describeHappyHour = (happyHour: HappyHour): string =>
+  `${formatHappyHourDays(happyHour.days)} · ${happyHour.start} – ${happyHour.end}`;
+
+// "20% off Alcohol, 10% off Food"
+export const describeDiscounts = (happyHour: HappyHour): string =>
+  MENU_ITEM_TYPES
+    .filter((type) => happyHour.discounts[type])
+    .map((type) => `${happyHour.discounts[type]}% off ${MENU_TYPE_LABELS[type]}`)
+    .join(', ');
+
+export const describeActiveHappyHour = (happyHour: HappyHour, now: Date = new Date()): string =>
+  `${happyHour.label || 'Happy hour'} until ${formatClock(happyHourEndsAt(happyHour, now))}`;
+
+// Mensaje del primer problema encontrado, o null si las ventanas son válidas
+export const validateHappyHours = (happyHours: HappyHour[]): string | null => {
+  for (const [index, happyHour] of happyHours.entries()) {
+    const name = happyHour.label?.trim() || `Happy hour ${index + 1}`;
+    if (!Array.isArray(happyHour.days) || happyHour.days.length === 0) return `${name}: selecciona al menos un día`;
+    if (!isValidTime(happyHour.start) || !isValidTime(happyHour.end)) return `${name}: usa el formato HH:mm`;
+    if (happyHour.start === happyHour.end) return `${name}: la hora de inicio y fin no pueden ser iguales`;
+
+    const invalidDiscount = Object.values(happyHour.discounts ?? {}).some(
+      (percent) => typeof percent !== 'number' || percent <= 0 || percent > 100
+    );
+    if (invalidDiscount) return `${name}: los descuentos deben estar entre 1 y 100%`;
+  }
+  return null;
+};
+
+export const validateHappyHourPrice = (price: number, happyHourPrice: number): string | null => {
+  if (!Number.isFinite(happyHourPrice) || happyHourPrice < 0) return 'El precio de happy hour debe ser un número positivo';
+  if (happyHourPrice >= price) return 'El precio de happy hour debe ser menor al precio regular';
+  return null;
+};
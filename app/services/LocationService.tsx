@@ -0,0 +1,119 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+import { Coordinates, isValidCoordinates } from '../types/models';
+
+// Posición fija guardada desde ajustes de desarrollador para probar sin GPS
+const FIXED_LOCATION_KEY = 'fixed_location';
+const EARTH_RADIUS_KM = 6371;
+
+// Fuente de la ubicación del usuario; se puede reemplazar con setProvider (p. ej. en pruebas)
+export type LocationProvider = () => Promise<Coordinates>;
+
+export class LocationUnavailableError extends Error {
+  constructor(message: string = 'No se pudo obtener tu ubicación') {
+    super(message);
+    this.name = 'LocationUnavailableError';
+  }
+}
+
+// Pide permiso de ubicación y lee la posición con expo-location (en web usa la API del navegador)
+export const deviceLocationProvider: LocationProvider = async () => {
+  const { status } = await Location.requestForegroundPermissionsAsync();
+  if (status !== Location.PermissionStatus.GRANTED) {
+    throw new LocationUnavailableError('Permite el acceso a tu ubicación para ver los bares cercanos');
+  }
+  if (!(await Location.hasServicesEnabledAsync())) {
+    throw new LocationUnavailableError('Activa la ubicación del dispositivo para ver los bares cercanos');
+  }
+
+  let position: Location.LocationObject;
+  try {
+    position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+  } catch (error) {
+    console.error('❌ LocationService: Error getting position:', error);
+    throw new LocationUnavailableError();
+  }
+  return {
+    latitude: position.coords.latitude,
+    longitude: position.coords.longitude,
+  };
+};
+
+export const fixedLocationProvider = (coordinates: Coordinates): LocationProvider =>
+  async () => coordinates;
+
+// Distancia en línea recta (haversine)
+export const distanceKm = (from: Coordinates, to: Coordinates): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+export const formatDistance = (km: number): string =>
+  km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(km < 10 ? 1 : 0)} km`;
+
+class LocationService {
+  private provider: LocationProvider = deviceLocationProvider;
+  private fixedLocation: Coordinates | null = null;
+  private loadPromise: Promise<void> | null = null;
+
+  setProvider(provider: LocationProvider): void {
+    this.provider = provider;
+  }
+
+  resetProvider(): void {
+    this.provider = deviceLocationProvider;
+  }
+
+  private loadFixedLocation(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(FIXED_LOCATION_KEY);
+          const parsed = stored ? JSON.parse(stored) : null;
+          this.fixedLocation = isValidCoordinates(parsed) ? parsed : null;
+        } catch (error) {
+          console.error('❌ LocationService: Error loading fixed location:', error);
+          this.fixedLocation = null;
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  // La posición fija de ajustes de desarrollador tiene prioridad sobre el proveedor
+  async getCurrentPosition(): Promise<Coordinates> {
+    await this.loadFixedLocation();
+    if (this.fixedLocation) {
+      console.log('📍 LocationService: Using fixed location', this.fixedLocation);
+      return this.fixedLocation;
+    }
+    return this.provider();
+  }
+
+  async getFixedLocation(): Promise<Coordinates | null> {
+    await this.loadFixedLocation();
+    return this.fixedLocation;
+  }
+
+  async setFixedLocation(coordinates: Coordinates | null): Promise<void> {
+    await this.loadFixedLocation();
+    if (coordinates && !isValidCoordinates(coordinates)) {
+      throw new Error('Latitud o longitud fuera de rango');
+    }
+
+    this.fixedLocation = coordinates;
+    if (coordinates) {
+      await AsyncStorage.setItem(FIXED_LOCATION_KEY, JSON.stringify(coordinates));
+    } else {
+      await AsyncStorage.removeItem(FIXED_LOCATION_KEY);
+    }
+    console.log('📍 LocationService: Fixed location set to', coordinates);
+  }
+}
+
+export const locationService = new LocationService();
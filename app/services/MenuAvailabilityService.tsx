@@ -0,0 +1,46 @@
+import { MENU_ITEM_AVAILABILITIES, MenuItem, MenuItemAvailability, OpeningHours } from '../types/models';
+import { lastOpeningBefore } from './OpeningHoursService';
+
+export const AVAILABILITY_LABELS: Record<MenuItemAvailability, string> = {
+  available: 'Available',
+  sold_out: 'Sold out today',
+  seasonal: 'Seasonal',
+  hidden: 'Hidden',
+};
+
+export const AVAILABILITY_ICONS: Record<MenuItemAvailability, string> = {
+  available: 'check-circle',
+  sold_out: 'remove-shopping-cart',
+  seasonal: 'eco',
+  hidden: 'visibility-off',
+};
+
+type AvailabilityFields = Pick<MenuItem, 'availability' | 'soldOutAt' | 'autoReset'>;
+
+// Estado vigente: un agotado con reinicio automático vuelve a estar disponible cuando el bar abre de nuevo;
+// sin horarios cargados, al empezar el día siguiente
+export const resolveAvailability = (
+  item: AvailabilityFields,
+  hours: OpeningHours | undefined,
+  now: Date = new Date()
+): MenuItemAvailability => {
+  if (item.availability !== 'sold_out' || !item.autoReset || !item.soldOutAt) return item.availability;
+
+  const soldOutAt = new Date(item.soldOutAt);
+  const startOfDay = new Date(now);
+  startOfDay.setHours(0, 0, 0, 0);
+  const resetAt = hours ? lastOpeningBefore(hours, now) : startOfDay;
+  return resetAt && resetAt > soldOutAt ? 'available' : 'sold_out';
+};
+
+// Los clientes pueden pedir lo disponible y lo de temporada
+export const isOrderable = (availability: MenuItemAvailability): boolean =>
+  availability === 'available' || availability === 'seasonal';
+
+export const validateAvailability = (item: { availability?: any; autoReset?: any }): string | null => {
+  if (item.availability !== undefined && !MENU_ITEM_AVAILABILITIES.includes(item.availability)) {
+    return `Disponibilidad no soportada: ${item.availability}`;
+  }
+  if (item.autoReset !== undefined && typeof item.autoReset !== 'boolean') return 'autoReset debe ser booleano';
+  return null;
+};
@@ -0,0 +1,345 @@
+import {
+  Allergen,
+  DietaryTag,
+  isAllergen,
+  isDietaryTag,
+  isMenuItemAvailability,
+  isMenuItemType,
+  isServingFormat,
+  MenuItem,
+  MenuItemAvailability,
+  MenuItemType,
+} from '../types/models';
+import { MAX_SPICY_LEVEL } from './DietaryService';
+import {
+  EMPTY_MENU_ITEM_FORM,
+  MenuItemForm,
+  ServingDraft,
+  toMenuItemForm,
+  toMenuItemPayload,
+  validateMenuItemForm,
+} from './MenuItemFormService';
+
+export type MenuFileFormat = 'csv' | 'json';
+
+// create/update/skip se deciden por nombre; invalid no se importa
+export type MenuImportAction = 'create' | 'update' | 'skip' | 'invalid';
+
+export interface MenuImportRow {
+  // Número de fila de datos en el archivo, empezando en 1
+  line: number;
+  form: MenuItemForm;
+  availability?: MenuItemAvailability;
+  existing?: MenuItem;
+  action: MenuImportAction;
+  errors: string[];
+}
+
+export const CSV_COLUMNS = [
+  'name',
+  'description',
+  'price',
+  'happyHourPrice',
+  'photo',
+  'type',
+  'alcoholPercentage',
+  'volume',
+  'beerStyle',
+  'ibu',
+  'brewery',
+  'origin',
+  'servings',
+  'dietaryTags',
+  'allergens',
+  'spicyLevel',
+  'availability',
+] as const;
+
+// Además de los valores de la API se aceptan los nombres en inglés que ve el dueño
+const TYPE_ALIASES: Record<string, MenuItemType> = {
+  food: 'comida',
+  drink: 'bebida',
+  drinks: 'bebida',
+};
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown): string =>
+  value === undefined || value === null ? '' : String(value).trim();
+
+const normalizeName = (name: string): string => name.trim().toLowerCase();
+
+// ---------- CSV ----------
+
+// Separa en celdas respetando comillas, comillas dobles escapadas y saltos de línea dentro de comillas
+export const parseCsv = (input: string, delimiter: string = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+};
+
+const escapeCsv = (value: string): string =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: string[][]): string => rows.map((cells) => cells.map(escapeCsv).join(',')).join('\n');
+
+// "tap:473:85|bottle:355:80"
+const formatServings = (drafts: ServingDraft[]): string =>
+  drafts.map((serving) => `${serving.format}:${serving.volume}:${serving.price}`).join('|');
+
+const parseServingsCell = (value: unknown): { servings: ServingDraft[]; error?: string } => {
+  if (Array.isArray(value)) {
+    const servings = value.filter(isRecord).map((serving) => ({
+      format: serving.format as ServingDraft['format'],
+      volume: text(serving.volume),
+      price: text(serving.price),
+    }));
+    const invalid = servings.find((serving) => !isServingFormat(serving.format));
+    return invalid ? { servings: [], error: 'Serving format must be tap, bottle or can' } : { servings };
+  }
+
+  const cell = text(value);
+  if (!cell) return { servings: [] };
+  const servings: ServingDraft[] = [];
+  for (const entry of cell.split('|')) {
+    const [format, volume = '', price = ''] = entry.split(':').map((part) => part.trim());
+    if (!isServingFormat(format)) return { servings: [], error: `Invalid serving "${entry}", use format:volume:price` };
+    servings.push({ format, volume, price });
+  }
+  return { servings };
+};
+
+// "vegan|gluten_free"; también acepta una lista en JSON y guiones en vez de guion bajo
+const parseTagsCell = <T extends string>(value: unknown, isValid: (tag: unknown) => tag is T): { tags: T[]; invalid: string[] } => {
+  const entries = Array.isArray(value) ? value.map(text) : text(value).split('|');
+  const normalized = entries.map((entry) => entry.trim().toLowerCase().replace(/-/g, '_')).filter(Boolean);
+  return {
+    tags: Array.from(new Set(normalized.filter(isValid))),
+    invalid: normalized.filter((entry) => !isValid(entry)),
+  };
+};
+
+// ---------- Lectura ----------
+
+// Convierte el texto pegado en registros campo → valor; regresa el error si el archivo no se puede leer
+export const readMenuFile = (input: string, format: MenuFileFormat): { records: RawRecord[]; error?: string } => {
+  const content = input.replace(/^\uFEFF/, '').trim();
+  if (!content) return { records: [], error: 'Paste the contents of a CSV or JSON file' };
+
+  if (format === 'json') {
+    try {
+      const parsed = JSON.parse(content);
+      const list = isRecord(parsed) && Array.isArray(parsed.items) ? parsed.items : parsed;
+      if (!Array.isArray(list)) return { records: [], error: 'JSON must be a list of items' };
+      if (!list.every(isRecord)) return { records: [], error: 'Every JSON entry must be an object' };
+      return { records: list };
+    } catch {
+      return { records: [], error: 'Invalid JSON' };
+    }
+  }
+
+  // Excel en algunos idiomas separa con punto y coma
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const delimiter = !firstLine.includes(',') && firstLine.includes(';') ? ';' : ',';
+  const [header, ...rows] = parseCsv(content, delimiter);
+  const columns = header.map((column) => column.trim());
+  const known = CSV_COLUMNS.map((column) => column.toLowerCase());
+  if (!columns.some((column) => column.toLowerCase() === 'name')) {
+    return { records: [], error: 'The first CSV row must be a header with at least a "name" column' };
+  }
+
+  return {
+    records: rows.map((cells) =>
+      columns.reduce<RawRecord>((record, column, index) => {
+        const knownIndex = known.indexOf(column.toLowerCase());
+        if (knownIndex >= 0) record[CSV_COLUMNS[knownIndex]] = cells[index] ?? '';
+        return record;
+      }, {})
+    ),
+  };
+};
+
+// Acepta filas planas (CSV) o con la forma de la API (`beer: { style, ... }`)
+const toImportForm = (record: RawRecord): { form: MenuItemForm; availability?: MenuItemAvailability; errors: string[] } => {
+  const errors: string[] = [];
+  const beer = isRecord(record.beer) ? record.beer : {};
+
+  const rawType = text(record.type).toLowerCase();
+  const type = isMenuItemType(rawType) ? rawType : TYPE_ALIASES[rawType];
+  if (!type) errors.push('Type must be food, drink or alcohol');
+
+  const rawAvailability = text(record.availability).toLowerCase();
+  if (rawAvailability && !isMenuItemAvailability(rawAvailability)) {
+    errors.push('Availability must be available, sold_out, seasonal or hidden');
+  }
+
+  const { servings, error: servingsError } = parseServingsCell(record.servings);
+  if (servingsError) errors.push(servingsError);
+
+  const dietary = parseTagsCell<DietaryTag>(record.dietaryTags, isDietaryTag);
+  if (dietary.invalid.length > 0) errors.push(`Unknown diet: ${dietary.invalid.join(', ')}`);
+  const allergens = parseTagsCell<Allergen>(record.allergens, isAllergen);
+  if (allergens.invalid.length > 0) errors.push(`Unknown allergen: ${allergens.invalid.join(', ')}`);
+
+  const rawSpicy = text(record.spicyLevel);
+  const spicyLevel = rawSpicy ? Number(rawSpicy) : 0;
+  if (!Number.isInteger(spicyLevel) || spicyLevel < 0 || spicyLevel > MAX_SPICY_LEVEL) {
+    errors.push(`Spicy level must be between 0 and ${MAX_SPICY_LEVEL}`);
+  }
+
+  return {
+    form: {
+      ...EMPTY_MENU_ITEM_FORM,
+      name: text(record.name),
+      description: text(record.description),
+      price: text(record.price),
+      happyHourPrice: text(record.happyHourPrice),
+      photo: text(record.photo),
+      type: type ?? 'comida',
+      alcoholPercentage: text(record.alcoholPercentage),
+      volume: text(record.volume),
+      beerStyle: text(record.beerStyle ?? beer.style),
+      ibu: text(record.ibu ?? beer.ibu),
+      brewery: text(record.brewery ?? beer.brewery),
+      origin: text(record.origin ?? beer.origin),
+      servings,
+      dietaryTags: dietary.tags,
+      allergens: allergens.tags,
+      spicyLevel: Number.isInteger(spicyLevel) ? spicyLevel : 0,
+    },
+    availability: isMenuItemAvailability(rawAvailability) ? rawAvailability : undefined,
+    errors,
+  };
+};
+
+const isUnchanged = (row: MenuImportRow, existing: MenuItem): boolean =>
+  JSON.stringify(toMenuItemPayload(row.form)) === JSON.stringify(toMenuItemPayload(toMenuItemForm(existing))) &&
+  (!row.availability || row.availability === existing.availability);
+
+// Valida cada fila con las reglas del formulario y decide qué hacer con ella comparando por nombre
+export const planMenuImport = (
+  records: RawRecord[],
+  menu: MenuItem[],
+  options: { updateExisting: boolean }
+): MenuImportRow[] => {
+  const seen = new Map<string, number>();
+
+  return records.map((record, index) => {
+    const line = index + 1;
+    const { form, availability, errors } = toImportForm(record);
+    errors.push(...Object.values(validateMenuItemForm(form)).filter((error): error is string => !!error));
+
+    const key = normalizeName(form.name);
+    const firstLine = seen.get(key);
+    if (key && firstLine !== undefined) errors.push(`Duplicate name, already in row ${firstLine}`);
+    else if (key) seen.set(key, line);
+
+    const existing = key ? menu.find((item) => normalizeName(item.name) === key) : undefined;
+    const row: MenuImportRow = { line, form, availability, existing, action: 'create', errors };
+    if (errors.length > 0) row.action = 'invalid';
+    else if (!existing) row.action = 'create';
+    else if (!options.updateExisting || isUnchanged(row, existing)) row.action = 'skip';
+    else row.action = 'update';
+    return row;
+  });
+};
+
+// Cuerpo para la API; la disponibilidad solo se manda si venía en el archivo
+export const toImportPayload = (row: MenuImportRow) => ({
+  ...toMenuItemPayload(row.form),
+  ...(row.availability && { availability: row.availability }),
+});
+
+// ---------- Exportación ----------
+
+export const menuToCsv = (items: MenuItem[]): string =>
+  toCsv([
+    [...CSV_COLUMNS],
+    ...items.map((item) => {
+      const form = toMenuItemForm(item);
+      return [
+        form.name,
+        form.description,
+        form.price,
+        form.happyHourPrice,
+        form.photo,
+        form.type,
+        form.alcoholPercentage,
+        form.volume,
+        form.beerStyle,
+        form.ibu,
+        form.brewery,
+        form.origin,
+        formatServings(form.servings),
+        form.dietaryTags.join('|'),
+        form.allergens.join('|'),
+        form.spicyLevel.toString(),
+        item.availability,
+      ];
+    }),
+  ]);
+
+// Misma forma que acepta la importación; sin ids para poder llevar el menú a otro bar
+export const menuToJson = (items: MenuItem[]): string =>
+  JSON.stringify(
+    items.map((item) => ({
+      name: item.name,
+      description: item.description,
+      price: item.price,
+      happyHourPrice: item.happyHourPrice,
+      photo: item.photo || undefined,
+      type: item.type,
+      alcoholPercentage: item.alcoholPercentage,
+      volume: item.volume,
+      beer: item.beer,
+      servings: item.servings,
+      dietaryTags: item.dietaryTags,
+      allergens: item.allergens,
+      spicyLevel: item.spicyLevel,
+      availability: item.availability,
+    })),
+    null,
+    2
+  );
+
+export const MENU_CSV_TEMPLATE = toCsv([
+  [...CSV_COLUMNS],
+  ['Michelada clásica', 'Cerveza clara con limón, sal y salsas', '75', '', '', 'alcohol', '4.5', '500', '', '', '', '', '', '', 'shellfish', '2', ''],
+  ['Cachanilla IPA', 'IPA de la casa', '85', '60', '', 'alcohol', '6.5', '473', 'IPA', '65', 'Cervecería Cachanilla', 'Mexicali', 'tap:355:65|tap:473:85', 'vegan', '', '', ''],
+  ['Papas gajo', 'Con chipotle y queso', '95', '', '', 'food', '', '', '', '', '', '', '', 'vegetarian|gluten_free', 'dairy', '1', 'available'],
+]);
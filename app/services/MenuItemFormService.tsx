@@ -0,0 +1,189 @@
+import { Allergen, DietaryTag, MenuItem, MenuItemType, ServingFormat, ServingSize } from '../types/models';
+import { MAX_IBU } from './BeerService';
+import { NON_VEGAN_ALLERGENS } from './DietaryService';
+
+// Presentación mientras se edita: volumen y precio como texto
+export interface ServingDraft {
+  format: ServingFormat;
+  volume: string;
+  price: string;
+}
+
+export const toServingDrafts = (servings: ServingSize[] = []): ServingDraft[] =>
+  servings.map((serving) => ({
+    format: serving.format,
+    volume: serving.volume.toString(),
+    price: serving.price.toString(),
+  }));
+
+// Convierte los borradores; regresa el mensaje de error si alguno no es válido
+export const parseServingDrafts = (drafts: ServingDraft[]): { servings: ServingSize[]; error?: string } => {
+  const servings: ServingSize[] = [];
+  for (const draft of drafts) {
+    const volume = parseFloat(draft.volume);
+    const price = parseFloat(draft.price);
+    if (isNaN(volume) || volume <= 0) return { servings, error: 'Each serving needs a volume greater than 0' };
+    if (isNaN(price) || price < 0) return { servings, error: 'Each serving needs a positive price' };
+    servings.push({ format: draft.format, volume, price });
+  }
+  return { servings };
+};
+
+// Item del menú como se captura: los números van como texto hasta validarlos
+export interface MenuItemForm {
+  name: string;
+  description: string;
+  price: string;
+  happyHourPrice: string;
+  photo: string;
+  type: MenuItemType;
+  alcoholPercentage: string;
+  volume: string;
+  beerStyle: string;
+  ibu: string;
+  brewery: string;
+  origin: string;
+  servings: ServingDraft[];
+  dietaryTags: DietaryTag[];
+  allergens: Allergen[];
+  spicyLevel: number;
+}
+
+export type MenuItemFormErrors = Partial<Record<keyof MenuItemForm, string>>;
+
+export const EMPTY_MENU_ITEM_FORM: MenuItemForm = {
+  name: '',
+  description: '',
+  price: '',
+  happyHourPrice: '',
+  photo: '',
+  type: 'comida',
+  alcoholPercentage: '',
+  volume: '',
+  beerStyle: '',
+  ibu: '',
+  brewery: '',
+  origin: '',
+  servings: [],
+  dietaryTags: [],
+  allergens: [],
+  spicyLevel: 0,
+};
+
+export const toMenuItemForm = (item: MenuItem): MenuItemForm => ({
+  name: item.name,
+  description: item.description,
+  price: item.price.toString(),
+  happyHourPrice: item.happyHourPrice?.toString() ?? '',
+  photo: item.photo,
+  type: item.type,
+  alcoholPercentage: item.alcoholPercentage?.toString() ?? '',
+  volume: item.volume?.toString() ?? '',
+  beerStyle: item.beer?.style ?? '',
+  ibu: item.beer?.ibu?.toString() ?? '',
+  brewery: item.beer?.brewery ?? '',
+  origin: item.beer?.origin ?? '',
+  servings: toServingDrafts(item.servings),
+  dietaryTags: item.dietaryTags,
+  allergens: item.allergens,
+  spicyLevel: item.spicyLevel,
+});
+
+export const isValidUrl = (url: string): boolean => {
+  try {
+    new URL(url);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// Reglas del formulario de alta; también se usan para validar cada fila de una importación
+export const validateMenuItemForm = (form: MenuItemForm): MenuItemFormErrors => {
+  const errors: MenuItemFormErrors = {};
+
+  if (!form.name.trim()) {
+    errors.name = 'Name is required';
+  }
+
+  if (!form.description.trim()) {
+    errors.description = 'Description is required';
+  }
+
+  if (!form.price.trim()) {
+    errors.price = 'Price is required';
+  } else if (isNaN(parseFloat(form.price)) || parseFloat(form.price) < 0) {
+    errors.price = 'Price must be a positive number';
+  }
+
+  if (form.happyHourPrice.trim()) {
+    const happyHourPrice = parseFloat(form.happyHourPrice);
+    if (isNaN(happyHourPrice) || happyHourPrice < 0) {
+      errors.happyHourPrice = 'Happy hour price must be a positive number';
+    } else if (!errors.price && happyHourPrice >= parseFloat(form.price)) {
+      errors.happyHourPrice = 'Happy hour price must be lower than the regular price';
+    }
+  }
+
+  if (form.type === 'alcohol') {
+    if (!form.alcoholPercentage.trim()) {
+      errors.alcoholPercentage = 'Alcohol percentage is required for alcoholic items';
+    } else {
+      const alcoholPercent = parseFloat(form.alcoholPercentage);
+      if (isNaN(alcoholPercent) || alcoholPercent <= 0 || alcoholPercent > 100) {
+        errors.alcoholPercentage = 'Alcohol percentage must be between 0 and 100';
+      }
+    }
+  }
+
+  if (form.type === 'alcohol' && form.ibu.trim()) {
+    const ibu = parseInt(form.ibu, 10);
+    if (isNaN(ibu) || ibu < 0 || ibu > MAX_IBU) {
+      errors.ibu = `IBU must be between 0 and ${MAX_IBU}`;
+    }
+  }
+
+  if (form.type === 'alcohol') {
+    const { error } = parseServingDrafts(form.servings);
+    if (error) errors.servings = error;
+  }
+
+  if (form.dietaryTags.includes('vegan') && NON_VEGAN_ALLERGENS.some((allergen) => form.allergens.includes(allergen))) {
+    errors.allergens = 'Vegan items cannot contain dairy, egg or shellfish';
+  }
+
+  if (form.volume.trim() && (isNaN(parseFloat(form.volume)) || parseFloat(form.volume) < 0)) {
+    errors.volume = 'Volume must be a positive number';
+  }
+
+  // Validate URL if provided
+  if (form.photo && !isValidUrl(form.photo)) {
+    errors.photo = 'Please enter a valid URL';
+  }
+
+  return errors;
+};
+
+// Cuerpo para crear o reemplazar un item; null y [] borran lo que ya no aplica al actualizar
+export const toMenuItemPayload = (form: MenuItemForm) => ({
+  name: form.name.trim(),
+  description: form.description.trim(),
+  price: parseFloat(form.price),
+  happyHourPrice: form.happyHourPrice.trim() ? parseFloat(form.happyHourPrice) : null,
+  photo: form.photo.trim() || undefined,
+  type: form.type,
+  alcoholPercentage: form.type === 'alcohol' ? parseFloat(form.alcoholPercentage) : 0,
+  volume: form.volume ? parseFloat(form.volume) : 0,
+  beer: form.type === 'alcohol'
+    ? {
+      style: form.beerStyle.trim() || undefined,
+      ibu: form.ibu.trim() ? parseInt(form.ibu, 10) : undefined,
+      brewery: form.brewery.trim() || undefined,
+      origin: form.origin.trim() || undefined,
+    }
+    : null,
+  servings: form.type === 'alcohol' ? parseServingDrafts(form.servings).servings : [],
+  dietaryTags: form.dietaryTags,
+  allergens: form.allergens,
+  spicyLevel: form.spicyLevel,
+});
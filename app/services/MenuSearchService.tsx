@@ -0,0 +1,29 @@
+import { MenuItem, MenuSearchFilters } from '../types/models';
+
+// Precio más bajo al que se puede pedir: el base o la presentación más barata
+export const lowestPrice = (item: Pick<MenuItem, 'price' | 'servings'>): number =>
+  Math.min(item.price, ...(item.servings ?? []).map((serving) => serving.price));
+
+const inRange = (value: number, min: number | null, max: number | null): boolean =>
+  (min === null || value >= min) && (max === null || value <= max);
+
+// Compara sin acentos ni mayúsculas: "michelada" encuentra "Michelada clásica"
+const normalize = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Los items sin graduación cuentan como 0% para el rango de ABV
+export const matchesMenuSearch = (item: MenuItem, filters: MenuSearchFilters): boolean => {
+  const query = normalize(filters.query.trim());
+  return (
+    (query === '' || normalize(item.name).includes(query) || normalize(item.beer?.style ?? '').includes(query)) &&
+    (filters.types.length === 0 || filters.types.includes(item.type)) &&
+    inRange(lowestPrice(item), filters.minPrice, filters.maxPrice) &&
+    inRange(item.alcoholPercentage ?? 0, filters.minAbv, filters.maxAbv)
+  );
+};
+
+// Filtros que afectan la búsqueda; sin ninguno no se consulta al backend
+export const hasMenuSearchCriteria = (filters: MenuSearchFilters): boolean =>
+  filters.query.trim() !== '' ||
+  filters.types.length > 0 ||
+  [filters.minPrice, filters.maxPrice, filters.minAbv, filters.maxAbv].some((value) => value !== null);
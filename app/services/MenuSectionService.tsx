@@ -0,0 +1,109 @@
+import { MenuItem, MenuItemType, MenuSection } from '../types/models';
+import { MENU_TYPE_LABELS } from './HappyHourService';
+
+export const MAX_SECTION_NAME_LENGTH = 40;
+
+// Orden de los grupos por tipo cuando el bar no tiene secciones propias
+const TYPE_ORDER: MenuItemType[] = ['comida', 'bebida', 'alcohol'];
+
+export interface MenuGroup {
+  key: string;
+  title: string;
+  // undefined para los grupos que no son una sección del dueño
+  section?: MenuSection;
+  items: MenuItem[];
+}
+
+// Cambios de acomodo que se guardan de una sola vez
+export interface MenuLayoutItem {
+  _id: string;
+  sectionId: string | null;
+  position: number;
+  featured: boolean;
+}
+
+export interface MenuLayout {
+  sections: MenuSection[];
+  items: MenuLayoutItem[];
+}
+
+export const createMenuSection = (name: string): MenuSection => ({
+  id: `sec-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  name: name.trim(),
+});
+
+// Mueve un elemento de una posición a otra sin modificar la lista original
+export const moveInList = <T,>(list: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || from >= list.length) return list;
+  const next = [...list];
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, moved);
+  return next;
+};
+
+// Por posición; los que no tienen posición van al final en el orden en que llegaron
+export const sortMenuItems = (items: MenuItem[]): MenuItem[] =>
+  items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => (a.item.position ?? Infinity) - (b.item.position ?? Infinity) || a.index - b.index)
+    .map(({ item }) => item);
+
+// Secciones del dueño en su orden; si no hay secciones se agrupa por tipo como antes.
+// Los items con una sección que ya no existe caen en "More"
+export const groupMenuBySections = (items: MenuItem[], sections: MenuSection[] = []): MenuGroup[] => {
+  const sorted = sortMenuItems(items);
+
+  if (sections.length === 0) {
+    return TYPE_ORDER.map((type) => ({
+      key: `type-${type}`,
+      title: MENU_TYPE_LABELS[type],
+      items: sorted.filter((item) => item.type === type),
+    })).filter((group) => group.items.length > 0);
+  }
+
+  const ids = new Set(sections.map((section) => section.id));
+  const groups: MenuGroup[] = sections.map((section) => ({
+    key: section.id,
+    title: section.name,
+    section,
+    items: sorted.filter((item) => item.sectionId === section.id),
+  }));
+  groups.push({
+    key: 'unsectioned',
+    title: 'Más',
+    items: sorted.filter((item) => !item.sectionId || !ids.has(item.sectionId)),
+  });
+  return groups.filter((group) => group.items.length > 0);
+};
+
+export const getFeaturedItems = (items: MenuItem[]): MenuItem[] => sortMenuItems(items.filter((item) => item.featured));
+
+// La posición es el índice dentro de su grupo; un item en un grupo que no es sección queda sin sección
+export const toMenuLayout = (sections: MenuSection[], groups: MenuGroup[]): MenuLayout => ({
+  sections,
+  items: groups.flatMap((group) =>
+    group.items.map((item, position) => ({
+      _id: item._id,
+      sectionId: group.section?.id ?? null,
+      position,
+      featured: !!item.featured,
+    }))
+  ),
+});
+
+// Mensaje del primer problema encontrado, o null si las secciones son válidas
+export const validateMenuSections = (sections: MenuSection[]): string | null => {
+  const names = new Set<string>();
+  const ids = new Set<string>();
+  for (const section of sections) {
+    const name = typeof section?.name === 'string' ? section.name.trim() : '';
+    if (typeof section?.id !== 'string' || !section.id) return 'Cada sección necesita un id';
+    if (ids.has(section.id)) return `El id de sección "${section.id}" está repetido`;
+    if (!name) return 'Las secciones necesitan un nombre';
+    if (name.length > MAX_SECTION_NAME_LENGTH) return `"${name}" supera los ${MAX_SECTION_NAME_LENGTH} caracteres`;
+    if (names.has(name.toLowerCase())) return `Ya existe una sección llamada "${name}"`;
+    ids.add(section.id);
+    names.add(name.toLowerCase());
+  }
+  return null;
+};
@@ -0,0 +1,239 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus } from 'react-native';
+import { ApiError, isConnectivityError } from './ApiErrors';
+import { apiService } from './ApiService';
+
+// Cola persistente de cambios hechos sin conexión (reviews y favoritos).
+// Se reintentan en orden cuando vuelve la conexión.
+const QUEUE_KEY = 'offline_queue';
+const RETRY_INTERVAL_MS = 30000;
+const OFFLINE_ID_PREFIX = 'offline-';
+
+export type OfflineMutationType = 'createReview' | 'updateReview' | 'addFavorite' | 'removeFavorite';
+
+export interface OfflineMutation {
+  id: string;
+  type: OfflineMutationType;
+  userId: string;
+  barId: string;
+  reviewId?: string;
+  payload?: any;
+  createdAt: number;
+}
+
+export interface OfflineQueueEvent {
+  type: 'synced' | 'conflict' | 'failed';
+  mutation: OfflineMutation;
+  // Explicación de cómo se resolvió el conflicto
+  message?: string;
+  error?: unknown;
+}
+
+// Devuelve un mensaje cuando tuvo que resolver un conflicto; lanza si la mutación no se pudo aplicar
+type MutationHandler = (mutation: OfflineMutation) => Promise<string | void>;
+type QueueListener = (event: OfflineQueueEvent) => void;
+
+const OPPOSITE_MUTATION: Partial<Record<OfflineMutationType, OfflineMutationType>> = {
+  addFavorite: 'removeFavorite',
+  removeFavorite: 'addFavorite',
+};
+
+// Ids temporales para lo que se creó sin conexión
+export const isOfflineId = (id: string): boolean => id.startsWith(OFFLINE_ID_PREFIX);
+
+class OfflineQueue {
+  private queue: OfflineMutation[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private replayPromise: Promise<void> | null = null;
+  private handlers = new Map<OfflineMutationType, MutationHandler>();
+  private listeners = new Set<QueueListener>();
+  private retryTimer: ReturnType<typeof setInterval> | null = null;
+  private appStateSubscription: { remove: () => void } | null = null;
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(QUEUE_KEY);
+          this.queue = stored ? JSON.parse(stored) : [];
+        } catch (error) {
+          console.error('❌ OfflineQueue: Error loading queue', error);
+          this.queue = [];
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(this.queue));
+    } catch (error) {
+      console.error('❌ OfflineQueue: Error saving queue', error);
+    }
+  }
+
+  // Cada servicio registra cómo reenviar sus mutaciones
+  register(type: OfflineMutationType, handler: MutationHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: OfflineQueueEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  // Agrega una mutación; agregar y quitar el mismo favorito sin conexión se cancelan entre sí.
+  // Devuelve null cuando la mutación se canceló o ya estaba en la cola
+  async enqueue(mutation: Omit<OfflineMutation, 'id' | 'createdAt'>): Promise<OfflineMutation | null> {
+    await this.load();
+
+    const sameTarget = (candidate: OfflineMutation) =>
+      candidate.userId === mutation.userId && candidate.barId === mutation.barId;
+
+    const opposite = OPPOSITE_MUTATION[mutation.type];
+    if (opposite) {
+      const pendingOpposite = this.queue.find((candidate) => candidate.type === opposite && sameTarget(candidate));
+      if (pendingOpposite) {
+        this.queue = this.queue.filter((candidate) => candidate.id !== pendingOpposite.id);
+        await this.persist();
+        return null;
+      }
+      if (this.queue.some((candidate) => candidate.type === mutation.type && sameTarget(candidate))) {
+        return null;
+      }
+    }
+
+    const queued: OfflineMutation = {
+      ...mutation,
+      id: `${OFFLINE_ID_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: Date.now(),
+    };
+    this.queue.push(queued);
+    await this.persist();
+    console.log('📥 OfflineQueue: Queued', queued.type, 'for bar', queued.barId);
+    return queued;
+  }
+
+  // Mezcla el payload en una mutación que sigue pendiente (p. ej. editar una review creada sin conexión)
+  async updatePending(id: string, payload: any): Promise<OfflineMutation | null> {
+    await this.load();
+
+    const pending = this.queue.find((candidate) => candidate.id === id);
+    if (!pending) return null;
+
+    pending.payload = { ...pending.payload, ...payload };
+    await this.persist();
+    return pending;
+  }
+
+  // Descarta una mutación que todavía no se envió (p. ej. borrar una review creada sin conexión)
+  async cancel(id: string): Promise<OfflineMutation | null> {
+    await this.load();
+
+    const pending = this.queue.find((candidate) => candidate.id === id);
+    if (!pending) return null;
+
+    await this.remove(id);
+    return pending;
+  }
+
+  async getPending(userId?: string): Promise<OfflineMutation[]> {
+    await this.load();
+    return this.queue.filter((mutation) => !userId || mutation.userId === userId);
+  }
+
+  // Reintenta en orden; se detiene en el primer error de conexión o de sesión para conservar el orden
+  replay(userId: string): Promise<void> {
+    if (!this.replayPromise) {
+      this.replayPromise = this.runReplay(userId).finally(() => {
+        this.replayPromise = null;
+      });
+    }
+    return this.replayPromise;
+  }
+
+  private async runReplay(userId: string): Promise<void> {
+    await this.load();
+
+    const pending = this.queue.filter((mutation) => mutation.userId === userId);
+    if (pending.length === 0) return;
+
+    console.log('🔁 OfflineQueue: Replaying', pending.length, 'mutations');
+
+    for (const mutation of pending) {
+      // Pudo cancelarse mientras se enviaban las anteriores
+      if (!this.queue.some((candidate) => candidate.id === mutation.id)) continue;
+
+      const handler = this.handlers.get(mutation.type);
+      if (!handler) {
+        console.warn('⚠️ OfflineQueue: No handler registered for', mutation.type);
+        return;
+      }
+
+      try {
+        const conflictMessage = await handler(mutation);
+        await this.remove(mutation.id);
+        this.emit(conflictMessage
+          ? { type: 'conflict', mutation, message: conflictMessage }
+          : { type: 'synced', mutation });
+      } catch (error) {
+        if (isConnectivityError(error)) {
+          console.log('📴 OfflineQueue: Still offline, will retry later');
+          return;
+        }
+        if (error instanceof ApiError && (error.kind === 'auth-expired' || error.kind === 'unauthorized')) {
+          console.log('🔒 OfflineQueue: Session required, will retry after login');
+          return;
+        }
+
+        // El servidor rechazó el cambio: reintentarlo no sirve
+        console.error('❌ OfflineQueue: Mutation rejected', mutation.type, error);
+        await this.remove(mutation.id);
+        this.emit({ type: 'failed', mutation, error });
+      }
+    }
+  }
+
+  private async remove(id: string): Promise<void> {
+    this.queue = this.queue.filter((mutation) => mutation.id !== id);
+    await this.persist();
+  }
+
+  // Reintenta al volver la app a primer plano y cada cierto tiempo mientras haya pendientes
+  start(userId: string): void {
+    this.stop();
+
+    const retry = async () => {
+      const pending = await this.getPending(userId);
+      if (pending.length === 0) return;
+      if (await apiService.checkConnection()) {
+        await this.replay(userId);
+      }
+    };
+
+    this.appStateSubscription = AppState.addEventListener('change', (status: AppStateStatus) => {
+      if (status === 'active') retry();
+    });
+    this.retryTimer = setInterval(retry, RETRY_INTERVAL_MS);
+    retry();
+  }
+
+  stop(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+}
+
+// Instancia singleton
+export const offlineQueue = new OfflineQueue();
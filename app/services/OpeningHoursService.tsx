@@ -0,0 +1,165 @@
+import { isValidDateKey, isValidTime, OpeningHours, TimeRange } from '../types/models';
+
+// Los horarios se interpretan en la hora local del dispositivo, que se asume igual a la del bar
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Horario sugerido al activar los horarios de un bar
+export const DEFAULT_OPENING_HOURS: OpeningHours = {
+  weekly: [
+    { open: '14:00', close: '23:00' },
+    null,
+    { open: '17:00', close: '00:00' },
+    { open: '17:00', close: '00:00' },
+    { open: '17:00', close: '01:00' },
+    { open: '17:00', close: '02:00' },
+    { open: '14:00', close: '02:00' },
+  ],
+  exceptions: [],
+};
+
+export interface OpenStatus {
+  isOpen: boolean;
+  // Cuándo cierra (si está abierto) o cuándo abre; undefined si no abre en la próxima semana
+  nextChange?: Date;
+}
+
+interface Interval {
+  start: Date;
+  end: Date;
+}
+
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Horario que aplica a un día del calendario: la excepción de esa fecha o el semanal
+export const getHoursForDate = (hours: OpeningHours, date: Date): TimeRange | null => {
+  const exception = hours.exceptions.find((candidate) => candidate.date === toDateKey(date));
+  return exception ? exception.hours : hours.weekly[date.getDay()] ?? null;
+};
+
+// Turno que empieza en ese día; si cierra a la misma hora o antes que abre, termina al día siguiente
+const intervalForDay = (hours: OpeningHours, day: Date): Interval | null => {
+  const range = getHoursForDate(hours, day);
+  if (!range) return null;
+
+  const start = new Date(day);
+  start.setHours(0, toMinutes(range.open), 0, 0);
+  const end = new Date(day);
+  end.setHours(0, toMinutes(range.close), 0, 0);
+  if (end <= start) end.setDate(end.getDate() + 1);
+  return { start, end };
+};
+
+// Turnos desde el día anterior (por si su turno cruza la medianoche) hasta `daysAhead` días después.
+// Los turnos que se tocan se unen, así un bar abierto 24 h no "cierra" a medianoche
+const intervalsAround = (hours: OpeningHours, date: Date, daysAhead: number): Interval[] => {
+  const intervals: Interval[] = [];
+  for (let offset = -1; offset <= daysAhead; offset++) {
+    const day = new Date(date);
+    day.setHours(0, 0, 0, 0);
+    day.setDate(day.getDate() + offset);
+    const interval = intervalForDay(hours, day);
+    if (interval) intervals.push(interval);
+  }
+
+  return intervals.reduce<Interval[]>((merged, interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ ...interval });
+    }
+    return merged;
+  }, []);
+};
+
+// Un bar sin horarios cargados no cuenta como abierto
+export const isOpenAt = (hours: OpeningHours | undefined, date: Date): boolean =>
+  !!hours && intervalsAround(hours, date, 0).some((interval) => interval.start <= date && date < interval.end);
+
+// Última vez que el bar abrió hasta `date`, revisando la semana anterior; null si no abrió en ese lapso
+export const lastOpeningBefore = (hours: OpeningHours, date: Date): Date | null => {
+  const weekAgo = new Date(date);
+  weekAgo.setDate(weekAgo.getDate() - 7);
+  const starts = intervalsAround(hours, weekAgo, 8)
+    .map((interval) => interval.start)
+    .filter((start) => start <= date);
+  return starts.length > 0 ? starts[starts.length - 1] : null;
+};
+
+export const getOpenStatus = (hours: OpeningHours | undefined, date: Date = new Date()): OpenStatus | null => {
+  if (!hours) return null;
+
+  const intervals = intervalsAround(hours, date, 7);
+  const current = intervals.find((interval) => interval.start <= date && date < interval.end);
+  if (current) {
+    // Si sigue abierto hasta el final de la semana revisada, no hay cierre que mostrar
+    const weekAhead = new Date(date.getTime() + 7 * 86400000);
+    return { isOpen: true, nextChange: current.end > weekAhead ? undefined : current.end };
+  }
+
+  const next = intervals.find((interval) => interval.start > date);
+  return { isOpen: false, nextChange: next?.start };
+};
+
+export const formatClock = (date: Date): string =>
+  date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+// "Closes at 2:00 AM", "Opens tomorrow at 5:00 PM", "Opens Fri at 2:00 PM"
+export const describeOpenStatus = (status: OpenStatus, now: Date = new Date()): string => {
+  if (!status.nextChange) return status.isOpen ? 'Open 24 hours' : 'Closed this week';
+
+  const verb = status.isOpen ? 'Closes' : 'Opens';
+  // Un cierre después de medianoche se lee mejor sin "tomorrow"
+  if (status.isOpen && status.nextChange.getTime() - now.getTime() < 86400000) {
+    return `${verb} at ${formatClock(status.nextChange)}`;
+  }
+
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  const changeDay = new Date(status.nextChange);
+  changeDay.setHours(0, 0, 0, 0);
+  const dayDiff = Math.round((changeDay.getTime() - today.getTime()) / 86400000);
+
+  if (dayDiff === 0) return `${verb} at ${formatClock(status.nextChange)}`;
+  if (dayDiff === 1) return `${verb} tomorrow at ${formatClock(status.nextChange)}`;
+  return `${verb} ${WEEKDAY_LABELS[status.nextChange.getDay()].slice(0, 3)} at ${formatClock(status.nextChange)}`;
+};
+
+export const formatTimeRange = (range: TimeRange | null): string => {
+  if (!range) return 'Closed';
+  const crossesMidnight = toMinutes(range.close) <= toMinutes(range.open);
+  return `${range.open} – ${range.close}${crossesMidnight ? ' (+1)' : ''}`;
+};
+
+// Mensaje del primer problema encontrado, o null si el horario es válido
+export const validateOpeningHours = (hours: OpeningHours): string | null => {
+  if (!Array.isArray(hours.weekly) || hours.weekly.length !== 7) {
+    return 'El horario semanal debe tener los 7 días';
+  }
+
+  const invalidDay = hours.weekly.findIndex((range) => range && (!isValidTime(range.open) || !isValidTime(range.close)));
+  if (invalidDay !== -1) {
+    return `Horario inválido para ${WEEKDAY_LABELS[invalidDay]}: usa el formato HH:mm`;
+  }
+
+  const seenDates = new Set<string>();
+  for (const exception of hours.exceptions) {
+    if (!isValidDateKey(exception.date)) return `Fecha inválida en excepciones: ${exception.date || '(vacía)'}`;
+    if (seenDates.has(exception.date)) return `La fecha ${exception.date} está repetida en las excepciones`;
+    if (exception.hours && (!isValidTime(exception.hours.open) || !isValidTime(exception.hours.close))) {
+      return `Horario inválido para ${exception.date}: usa el formato HH:mm`;
+    }
+    seenDates.add(exception.date);
+  }
+  return null;
+};
@@ -0,0 +1,124 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Cache persistente de consultas de solo lectura (bares, menús, eventos).
+// Las pantallas muestran lo último guardado y revalidan en segundo plano.
+const CACHE_PREFIX = 'query_cache:';
+
+export interface CacheEntry<T = any> {
+  data: T;
+  updatedAt: number;
+}
+
+type CacheListener = (key: string, entry: CacheEntry) => void;
+
+class QueryCache {
+  private memory = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<CacheEntry>>();
+  private listeners = new Set<CacheListener>();
+
+  // Última respuesta guardada para la llave (memoria primero, luego AsyncStorage)
+  async get<T = any>(key: string): Promise<CacheEntry<T> | null> {
+    const cached = this.memory.get(key);
+    if (cached) return cached;
+
+    try {
+      const stored = await AsyncStorage.getItem(CACHE_PREFIX + key);
+      if (!stored) return null;
+
+      const entry: CacheEntry<T> = JSON.parse(stored);
+      this.memory.set(key, entry);
+      return entry;
+    } catch (error) {
+      console.error('❌ QueryCache: Error reading', key, error);
+      return null;
+    }
+  }
+
+  async set<T = any>(key: string, data: T): Promise<CacheEntry<T>> {
+    return this.write(key, { data, updatedAt: Date.now() });
+  }
+
+  // Cambios optimistas: modifica lo guardado sin tocar `updatedAt`, que refleja la última respuesta del servidor
+  async update<T = any>(key: string, updater: (data: T) => T): Promise<void> {
+    const cached = await this.get<T>(key);
+    if (!cached) return;
+    await this.write(key, { data: updater(cached.data), updatedAt: cached.updatedAt });
+  }
+
+  // Avisa a las pantallas montadas cuando cambia alguna llave
+  subscribe(listener: CacheListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async write<T>(key: string, entry: CacheEntry<T>): Promise<CacheEntry<T>> {
+    this.memory.set(key, entry);
+    this.listeners.forEach((listener) => listener(key, entry));
+
+    try {
+      await AsyncStorage.setItem(CACHE_PREFIX + key, JSON.stringify(entry));
+    } catch (error) {
+      console.error('❌ QueryCache: Error writing', key, error);
+    }
+    return entry;
+  }
+
+  // Ejecuta el fetcher y guarda el resultado; llamadas simultáneas con la misma llave comparten la petición
+  fetch<T = any>(key: string, fetcher: () => Promise<T>): Promise<CacheEntry<T>> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<CacheEntry<T>>;
+
+    const request = fetcher()
+      .then((data) => this.set(key, data))
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  // Borra la llave indicada y las que cuelgan de ella ("bars/1" incluye "bars/1/menu"); sin llave borra todo
+  async invalidate(prefix: string = ''): Promise<void> {
+    const matches = (key: string) => !prefix || key === prefix || key.startsWith(`${prefix}/`);
+
+    Array.from(this.memory.keys())
+      .filter(matches)
+      .forEach((key) => this.memory.delete(key));
+
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      const matching = keys.filter((key) => key.startsWith(CACHE_PREFIX) && matches(key.slice(CACHE_PREFIX.length)));
+      if (matching.length > 0) {
+        await AsyncStorage.multiRemove(matching);
+      }
+      console.log('🧹 QueryCache: Invalidated', matching.length, 'entries for prefix:', prefix || '*');
+    } catch (error) {
+      console.error('❌ QueryCache: Error invalidating', prefix, error);
+    }
+  }
+}
+
+// Instancia singleton
+export const queryCache = new QueryCache();
+
+// Llaves de cache compartidas entre pantallas
+export const cacheKeys = {
+  // Cada combinación de filtros se guarda aparte; invalidar 'bars' también las limpia
+  bars: (params: Record<string, string> = {}) => {
+    const query = Object.entries(params).map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&');
+    return query ? `bars/search/${query}` : 'bars';
+  },
+  bar: (barId: string) => `bars/${barId}`,
+  barMenu: (barId: string) => `bars/${barId}/menu`,
+  menuItem: (barId: string, itemId: string) => `bars/${barId}/menu/${itemId}`,
+  menuSearch: (params: Record<string, string>) => {
+    const query = Object.entries(params).map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&');
+    return `menu/search/${query}`;
+  },
+  barReviews: (barId: string) => `bars/${barId}/reviews`,
+  barEvents: (barId: string) => `bars/${barId}/events`,
+  events: () => 'events',
+  event: (eventId: string) => `events/${eventId}`,
+};
@@ -0,0 +1,177 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BarSummary, BeerRoute, Event, RouteStop } from '../types/models';
+import { NotFoundError, UnauthorizedError, ValidationError } from './ApiErrors';
+import { authService } from './AuthService';
+import { expandEventOccurrences } from './EventRecurrenceService';
+
+// Las rutas se guardan en el dispositivo, separadas por usuario
+const ROUTES_KEY_PREFIX = 'beer_routes:';
+// Tiempo que se asume en cada bar cuando no hay una parada siguiente
+export const DEFAULT_STOP_MINUTES = 60;
+
+interface RouteStore {
+  routes: BeerRoute[];
+  // Paradas elegidas desde la lista de bares o favoritos que aún no se guardan como ruta
+  draft: RouteStop[];
+}
+
+export interface StopWindow {
+  start: Date;
+  end: Date;
+}
+
+const addMinutes = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60000);
+
+// Siguiente hora en punto; se usa para la primera parada
+const nextFullHour = () => {
+  const date = new Date();
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  return date;
+};
+
+class RouteService {
+  private storageKey(): string {
+    const userId = authService.getCurrentUser()?._id;
+    if (!userId) throw new UnauthorizedError('User not authenticated');
+    return ROUTES_KEY_PREFIX + userId;
+  }
+
+  private async readStore(): Promise<RouteStore> {
+    const stored = await AsyncStorage.getItem(this.storageKey());
+    if (!stored) return { routes: [], draft: [] };
+
+    try {
+      const parsed = JSON.parse(stored);
+      return {
+        routes: Array.isArray(parsed.routes) ? parsed.routes : [],
+        draft: Array.isArray(parsed.draft) ? parsed.draft : [],
+      };
+    } catch (error) {
+      console.error('❌ RouteService: Corrupted routes storage', error);
+      return { routes: [], draft: [] };
+    }
+  }
+
+  private async writeStore(store: RouteStore): Promise<void> {
+    await AsyncStorage.setItem(this.storageKey(), JSON.stringify(store));
+  }
+
+  // Rutas guardadas, la más reciente primero
+  async getRoutes(): Promise<BeerRoute[]> {
+    const { routes } = await this.readStore();
+    return [...routes].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async getRoute(routeId: string): Promise<BeerRoute> {
+    const { routes } = await this.readStore();
+    const route = routes.find((candidate) => candidate._id === routeId);
+    if (!route) throw new NotFoundError('Ruta no encontrada');
+    return route;
+  }
+
+  // Crea la ruta si no trae _id; si no, reemplaza la existente
+  async saveRoute(route: { _id?: string; name: string; stops: RouteStop[] }): Promise<BeerRoute> {
+    const name = route.name.trim();
+    if (!name) {
+      throw new ValidationError('La ruta necesita un nombre', 400, { errors: [{ field: 'name', message: 'El nombre es requerido' }] });
+    }
+    if (route.stops.length === 0) {
+      throw new ValidationError('Agrega al menos un bar a la ruta', 400, { errors: [{ field: 'stops', message: 'La ruta no tiene paradas' }] });
+    }
+
+    const store = await this.readStore();
+    const now = new Date().toISOString();
+    const existing = route._id ? store.routes.find((candidate) => candidate._id === route._id) : undefined;
+    if (route._id && !existing) throw new NotFoundError('Ruta no encontrada');
+
+    const saved: BeerRoute = {
+      _id: existing?._id ?? `route-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      stops: this.sortStops(route.stops),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    store.routes = existing
+      ? store.routes.map((candidate) => (candidate._id === saved._id ? saved : candidate))
+      : [...store.routes, saved];
+    await this.writeStore(store);
+
+    console.log('🗺️ RouteService: Saved route', saved.name, 'with', saved.stops.length, 'stops');
+    return saved;
+  }
+
+  async deleteRoute(routeId: string): Promise<void> {
+    const store = await this.readStore();
+    store.routes = store.routes.filter((route) => route._id !== routeId);
+    await this.writeStore(store);
+  }
+
+  async getDraft(): Promise<RouteStop[]> {
+    return (await this.readStore()).draft;
+  }
+
+  // Agrega el bar al final del borrador; devuelve false si ya estaba
+  async addToDraft(bar: BarSummary): Promise<boolean> {
+    const store = await this.readStore();
+    if (store.draft.some((stop) => stop.bar._id === bar._id)) return false;
+
+    store.draft = this.appendStop(store.draft, { _id: bar._id, name: bar.name, photo: bar.photo });
+    await this.writeStore(store);
+    return true;
+  }
+
+  async setDraft(stops: RouteStop[]): Promise<void> {
+    const store = await this.readStore();
+    store.draft = stops;
+    await this.writeStore(store);
+  }
+
+  async clearDraft(): Promise<void> {
+    await this.setDraft([]);
+  }
+
+  // Nueva parada una hora después de la última (o en la siguiente hora en punto)
+  appendStop(stops: RouteStop[], bar: BarSummary): RouteStop[] {
+    const last = stops[stops.length - 1];
+    const arrival = last ? addMinutes(new Date(last.plannedArrival), DEFAULT_STOP_MINUTES) : nextFullHour();
+    return [...stops, { bar, plannedArrival: arrival.toISOString() }];
+  }
+
+  sortStops(stops: RouteStop[]): RouteStop[] {
+    return [...stops].sort((a, b) => a.plannedArrival.localeCompare(b.plannedArrival));
+  }
+
+  // Tiempo en el bar: desde la llegada hasta la siguiente parada (o DEFAULT_STOP_MINUTES si es la última)
+  getStopWindow(stops: RouteStop[], index: number): StopWindow {
+    const start = new Date(stops[index].plannedArrival);
+    const next = stops[index + 1];
+    const nextArrival = next ? new Date(next.plannedArrival) : null;
+    const end = nextArrival && nextArrival > start ? nextArrival : addMinutes(start, DEFAULT_STOP_MINUTES);
+    return { start, end };
+  }
+
+  // Mueve el bar a otra posición; los horarios se quedan en su lugar para no romper el orden de la ruta
+  moveStop(stops: RouteStop[], from: number, to: number): RouteStop[] {
+    if (to < 0 || to >= stops.length) return stops;
+
+    const bars = stops.map((stop) => stop.bar);
+    const [moved] = bars.splice(from, 1);
+    bars.splice(to, 0, moved);
+    return bars.map((bar, index) => ({ bar, plannedArrival: stops[index].plannedArrival }));
+  }
+
+  // Eventos del bar (de BarService.getEventsByBarId) que se cruzan con el horario de la parada;
+  // las series se expanden, así que puede venir una entrada por ocurrencia
+  getOverlappingEvents(events: Event[], window: StopWindow): Event[] {
+    return events
+      .flatMap((event) => {
+        // Una ocurrencia que empezó antes de llegar al bar puede seguir en curso
+        const duration = new Date(event.end).getTime() - new Date(event.start).getTime();
+        return expandEventOccurrences(event, new Date(window.start.getTime() - duration), window.end);
+      })
+      .filter((occurrence) => new Date(occurrence.start) < window.end && new Date(occurrence.end) > window.start);
+  }
+}
+
+export default new RouteService();
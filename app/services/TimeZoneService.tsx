@@ -0,0 +1,61 @@
+// La app vive en Baja California: las series de eventos y sus claves de día se calculan en hora de Tijuana,
+// sin importar la zona horaria del teléfono. Se calcula a mano para no depender del soporte de Intl.
+export const APP_TIMEZONE = 'America/Tijuana';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Instante UTC del n-ésimo domingo del mes a la hora UTC indicada
+const nthSundayUtc = (year: number, month: number, n: number, utcHour: number): number => {
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  const day = 1 + ((7 - firstWeekday) % 7) + (n - 1) * 7;
+  return Date.UTC(year, month, day, utcHour);
+};
+
+// Desde 2010 Tijuana cambia de horario los mismos días que California:
+// del segundo domingo de marzo (2:00 PST) al primer domingo de noviembre (2:00 PDT)
+const isTijuanaDaylightTime = (time: number): boolean => {
+  const year = new Date(time).getUTCFullYear();
+  return time >= nthSundayUtc(year, 2, 2, 10) && time < nthSundayUtc(year, 10, 1, 9);
+};
+
+// Diferencia con UTC en horas: -7 en verano, -8 el resto del año
+export const getTijuanaOffsetHours = (date: Date): number => (isTijuanaDaylightTime(date.getTime()) ? -7 : -8);
+
+// Hora de pared en Tijuana, para leerse con los métodos getUTC*
+export const toTijuanaWallTime = (date: Date): Date => new Date(date.getTime() + getTijuanaOffsetHours(date) * HOUR_MS);
+
+// Instante de una hora de pared en Tijuana; los días y meses fuera de rango se recorren como en Date.UTC.
+// En el salto de primavera la hora que no existe cae una hora después
+export const fromTijuanaWallTime = (
+  year: number,
+  month: number,
+  day: number,
+  hours: number,
+  minutes: number,
+  seconds: number = 0
+): Date => {
+  const wall = Date.UTC(year, month, day, hours, minutes, seconds);
+  return new Date(isTijuanaDaylightTime(wall + 7 * HOUR_MS) ? wall + 7 * HOUR_MS : wall + 8 * HOUR_MS);
+};
+
+// Mismo reloj de pared en Tijuana, días después (o antes) aunque haya cambio de horario de por medio
+export const addTijuanaDays = (date: Date, days: number): Date => {
+  const wall = toTijuanaWallTime(date);
+  return fromTijuanaWallTime(
+    wall.getUTCFullYear(),
+    wall.getUTCMonth(),
+    wall.getUTCDate() + days,
+    wall.getUTCHours(),
+    wall.getUTCMinutes(),
+    wall.getUTCSeconds()
+  );
+};
+
+// Día (YYYY-MM-DD) en Tijuana
+export const toTijuanaDateKey = (date: Date): string => toTijuanaWallTime(date).toISOString().slice(0, 10);
+
+// 0 = domingo
+export const getTijuanaWeekday = (date: Date): number => toTijuanaWallTime(date).getUTCDay();
+
+// "21:30" en Tijuana
+export const formatTijuanaTime = (date: Date): string => toTijuanaWallTime(date).toISOString().slice(11, 16);
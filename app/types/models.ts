@@ -0,0 +1,917 @@
+// Modelos de dominio compartidos y sus validadores para los payloads de la API.
+// Los servicios parsean las respuestas con estas funciones, así las pantallas
+// reciben siempre la misma forma sin importar si el backend pobló las relaciones.
+
+export interface Address {
+  street?: string;
+  city: string;
+  state: string;
+  zipCode?: string;
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Horas "HH:mm" en la hora local del bar; si close <= open el turno termina al día siguiente
+export interface TimeRange {
+  open: string;
+  close: string;
+}
+
+// Cambio de horario para una fecha puntual (feriados, cierres especiales)
+export interface HoursException {
+  date: string; // YYYY-MM-DD
+  hours: TimeRange | null; // null = cerrado todo el día
+  label?: string;
+}
+
+export interface OpeningHours {
+  // Índice 0 = domingo, igual que Date.getDay(); null = cerrado ese día
+  weekly: (TimeRange | null)[];
+  exceptions: HoursException[];
+}
+
+// Ventana de happy hour; igual que los horarios, si end <= start termina al día siguiente
+export interface HappyHour {
+  id: string;
+  label?: string;
+  days: number[]; // 0 = domingo, es el día en que empieza la ventana
+  start: string;
+  end: string;
+  // Porcentaje de descuento por tipo de menú; un item con precio de happy hour propio lo ignora
+  discounts: Partial<Record<MenuItemType, number>>;
+}
+
+// Sección del menú definida por el dueño; el orden del arreglo es el orden en que se muestran
+export interface MenuSection {
+  id: string;
+  name: string;
+}
+
+export interface Bar {
+  _id: string;
+  name: string;
+  description: string;
+  photo?: string;
+  address: Address;
+  // Punto en el mapa; los bares creados antes del mapa pueden no tenerlo
+  coordinates?: Coordinates;
+  openingHours?: OpeningHours;
+  happyHours?: HappyHour[];
+  menuSections?: MenuSection[];
+  mapsUrl?: string;
+  phone?: string;
+  tags: string[];
+  ratingAverage: number;
+  ratingQuantity: number;
+  owner?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Etiquetas que el backend acepta para un bar
+export const BAR_TAGS = [
+  'Beer Garden',
+  'Refrigerado',
+  'Talento cachanilla',
+  'Cervezas locales',
+  'Cervezas exportadas',
+  'Comida',
+  'Música en vivo',
+  'Ambiente familiar',
+  'Terraza',
+  'Solo adultos',
+  'Barra libre',
+  'Sports bar',
+];
+
+export type BarSortOption = 'rating' | 'reviews' | 'name' | 'distance';
+
+// Estilos de cerveza que se ofrecen al capturar y filtrar; el backend acepta cualquier texto
+export const BEER_STYLES = [
+  'IPA',
+  'Pale Ale',
+  'Lager',
+  'Pilsner',
+  'Stout',
+  'Porter',
+  'Wheat',
+  'Sour',
+  'Amber',
+  'Brown Ale',
+  'Belgian',
+];
+
+export type ServingFormat = 'tap' | 'bottle' | 'can';
+
+export const SERVING_FORMATS: ServingFormat[] = ['tap', 'bottle', 'can'];
+
+// Filtros de búsqueda de bares; se mandan como query params a GET /bars
+export interface BarFilters {
+  query: string;
+  tags: string[];
+  minRating: number;
+  minReviews: number;
+  city: string;
+  state: string;
+  // Bares con al menos una cerveza de estos estilos (en el formato indicado, si hay)
+  beerStyles: string[];
+  servingFormat: ServingFormat | null;
+  sort: BarSortOption;
+}
+
+export const DEFAULT_BAR_FILTERS: BarFilters = {
+  query: '',
+  tags: [],
+  minRating: 0,
+  minReviews: 0,
+  city: '',
+  state: '',
+  beerStyles: [],
+  servingFormat: null,
+  sort: 'rating',
+};
+
+// Referencia a un bar; el nombre viene vacío si el backend no pobló la relación
+export interface BarSummary {
+  _id: string;
+  name: string;
+  photo?: string;
+}
+
+export type MenuItemType = 'alcohol' | 'comida' | 'bebida';
+
+export const MENU_ITEM_TYPES: MenuItemType[] = ['alcohol', 'comida', 'bebida'];
+
+// sold_out aplica solo al día; hidden no se muestra a los clientes
+export type MenuItemAvailability = 'available' | 'sold_out' | 'seasonal' | 'hidden';
+
+export const MENU_ITEM_AVAILABILITIES: MenuItemAvailability[] = ['available', 'sold_out', 'seasonal', 'hidden'];
+
+// Etiquetas de dieta que el dueño marca en cada item
+export type DietaryTag = 'vegetarian' | 'vegan' | 'gluten_free';
+
+export const DIETARY_TAGS: DietaryTag[] = ['vegetarian', 'vegan', 'gluten_free'];
+
+// Alérgenos que contiene el item
+export type Allergen = 'nuts' | 'dairy' | 'egg' | 'shellfish' | 'soy';
+
+export const ALLERGENS: Allergen[] = ['nuts', 'dairy', 'egg', 'shellfish', 'soy'];
+
+// Preferencias guardadas en el perfil; también sirven como filtro del menú
+export interface DietaryPreferences {
+  diets: DietaryTag[];
+  avoidAllergens: Allergen[];
+  // null = sin límite de picante
+  maxSpicyLevel: number | null;
+}
+
+export const DEFAULT_DIETARY_PREFERENCES: DietaryPreferences = {
+  diets: [],
+  avoidAllergens: [],
+  maxSpicyLevel: null,
+};
+
+export interface MenuItem {
+  _id: string;
+  bar: BarSummary;
+  name: string;
+  description: string;
+  price: number;
+  // Precio durante cualquier happy hour del bar
+  happyHourPrice?: number;
+  photo: string;
+  type: MenuItemType;
+  alcoholPercentage?: number;
+  volume?: number;
+  // Solo para cervezas
+  beer?: BeerDetails;
+  // Presentaciones con precio propio; sin ellas aplica `price` y `volume`
+  servings?: ServingSize[];
+  dietaryTags: DietaryTag[];
+  allergens: Allergen[];
+  // 0 = no pica
+  spicyLevel: number;
+  availability: MenuItemAvailability;
+  // Cuándo se marcó como agotado; con `autoReset` vuelve a estar disponible cuando el bar abre de nuevo
+  soldOutAt?: string;
+  autoReset?: boolean;
+  // Sección del bar y lugar dentro de ella; sin sección se agrupa por tipo
+  sectionId?: string;
+  position?: number;
+  // Recomendado por la casa
+  featured?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface BeerDetails {
+  style?: string;
+  ibu?: number;
+  brewery?: string;
+  origin?: string;
+}
+
+export interface ServingSize {
+  format: ServingFormat;
+  volume: number; // ml
+  price: number;
+}
+
+// Búsqueda de items en los menús de todos los bares; los rangos en null no filtran
+export interface MenuSearchFilters {
+  query: string;
+  types: MenuItemType[];
+  minPrice: number | null;
+  maxPrice: number | null;
+  minAbv: number | null;
+  maxAbv: number | null;
+}
+
+export const DEFAULT_MENU_SEARCH_FILTERS: MenuSearchFilters = {
+  query: '',
+  types: [],
+  minPrice: null,
+  maxPrice: null,
+  minAbv: null,
+  maxAbv: null,
+};
+
+// Resultados agrupados por bar; viene el bar completo para evaluar horario y happy hour
+export interface MenuSearchResult {
+  bar: Bar;
+  items: MenuItem[];
+}
+
+// Respuesta de un usuario a un evento ("voy", "me interesa", "no voy")
+export type RsvpStatus = 'going' | 'interested' | 'not_going';
+
+export const RSVP_STATUSES: RsvpStatus[] = ['going', 'interested', 'not_going'];
+
+// Conteo de asistentes; los "no voy" no cuentan
+export interface EventAttendance {
+  going: number;
+  interested: number;
+}
+
+export type TicketTierType = 'general' | 'vip' | 'early_bird';
+
+export const TICKET_TIER_TYPES: TicketTierType[] = ['general', 'vip', 'early_bird'];
+
+// Tipo de entrada con su precio y ventana de venta
+export interface TicketTier {
+  id: string;
+  type: TicketTierType;
+  name: string;
+  price: number;
+  // Días locales (YYYY-MM-DD), ambos inclusive; sin fecha no hay límite
+  salesStart?: string;
+  salesEnd?: string;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly'];
+
+// Regla de repetición a partir del inicio del evento; sin until ni count se repite indefinidamente
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // Cada cuántos días, semanas o meses
+  interval: number;
+  // Días de la semana (0 = domingo) en reglas semanales; vacío usa el día del inicio
+  weekdays: number[];
+  // Último día local (YYYY-MM-DD) en el que puede caer una ocurrencia, inclusive
+  until?: string;
+  // Total de ocurrencias de la serie, contando las canceladas
+  count?: number;
+}
+
+// Cambio a una sola ocurrencia, identificada por el día en que caía originalmente
+export interface RecurrenceException {
+  date: string;
+  cancelled: boolean;
+  // Nuevo horario de la ocurrencia (ISO); sin él conserva el de la serie
+  start?: string;
+  end?: string;
+}
+
+export interface Event {
+  _id: string;
+  bar: BarSummary;
+  name: string;
+  description: string;
+  location: string;
+  image: string;
+  // Precio base; con tipos de entrada es el más bajo de ellos
+  price: number;
+  start: string;
+  end: string;
+  attendance: EventAttendance;
+  // Sin cupo definido no hay límite de reservaciones
+  capacity?: number;
+  ticketTiers: TicketTier[];
+  // El cupo vale por ocurrencia: en una serie es lo reservado en su fecha por venir más llena
+  // y cada ocurrencia expandida trae lo de su propia fecha
+  reservedSpots: number;
+  // Solo en series: lugares reservados por fecha de ocurrencia (YYYY-MM-DD)
+  reservedSpotsByDate: Record<string, number>;
+  recurrence?: RecurrenceRule;
+  recurrenceExceptions: RecurrenceException[];
+  // Solo en ocurrencias expandidas: día original de la ocurrencia dentro de la serie
+  occurrenceDate?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Respuesta del usuario actual a un evento; status null si no ha respondido
+export interface RsvpState {
+  status: RsvpStatus | null;
+  attendance: EventAttendance;
+}
+
+export type ReservationStatus = 'confirmed' | 'cancelled';
+
+// Lugares apartados por un usuario; el código es el que se escanea en la entrada
+export interface Reservation {
+  _id: string;
+  eventId: string;
+  // En eventos que se repiten, la fecha de la ocurrencia reservada
+  occurrenceDate?: string;
+  tierId: string;
+  tierName: string;
+  unitPrice: number;
+  quantity: number;
+  code: string;
+  status: ReservationStatus;
+  createdAt: string;
+}
+
+// Evento al que respondió el usuario, para "Mis eventos"
+export interface EventRsvp {
+  _id: string;
+  event: Event;
+  status: RsvpStatus;
+  updatedAt: string;
+}
+
+// Feed de calendario del usuario; el token va en la URL pública del feed
+export interface CalendarFeed {
+  token: string;
+}
+
+export interface ReviewAuthor {
+  _id?: string;
+  name: string;
+  photo?: string;
+}
+
+export interface Review {
+  _id: string;
+  bar?: string;
+  user: ReviewAuthor;
+  rating: number;
+  comment: string;
+  photos: string[];
+  createdAt: string;
+  updatedAt?: string;
+  // Solo local: guardada sin conexión y pendiente de sincronizar
+  pending?: boolean;
+}
+
+export interface ReviewStats {
+  ratingAverage: number;
+  ratingQuantity: number;
+  distribution: Record<number, number>;
+}
+
+export interface ReviewCheck {
+  hasReviewed: boolean;
+  review?: Review;
+}
+
+export interface Favorite {
+  _id: string;
+  bar: Bar;
+  createdAt?: string;
+}
+
+// Visita registrada a un bar
+export interface CheckIn {
+  _id: string;
+  bar: BarSummary;
+  createdAt: string;
+}
+
+// Sello del pasaporte: resumen de las visitas a un bar
+export interface PassportStamp {
+  bar: BarSummary;
+  visits: number;
+  firstVisit: string;
+  lastVisit: string;
+}
+
+export interface Passport {
+  stamps: PassportStamp[];
+  totalCheckIns: number;
+  uniqueBars: number;
+}
+
+// Parada de una ruta cervecera con la hora planeada de llegada (ISO)
+export interface RouteStop {
+  bar: BarSummary;
+  plannedArrival: string;
+}
+
+// Rutas guardadas por el usuario en el dispositivo
+export interface BeerRoute {
+  _id: string;
+  name: string;
+  stops: RouteStop[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Error lanzado cuando un payload no tiene la forma esperada
+export class ModelValidationError extends Error {
+  model: string;
+  field: string;
+
+  constructor(model: string, field: string, message?: string) {
+    super(message || `${model}: campo "${field}" inválido`);
+    this.name = 'ModelValidationError';
+    this.model = model;
+    this.field = field;
+  }
+}
+
+type RawRecord = Record<string, any>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asRecord = (value: unknown, model: string): RawRecord => {
+  if (!isRecord(value)) throw new ModelValidationError(model, '*', `${model}: se esperaba un objeto`);
+  return value;
+};
+
+const requireString = (raw: RawRecord, field: string, model: string): string => {
+  const value = raw[field];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new ModelValidationError(model, field);
+  }
+  return value;
+};
+
+const optionalString = (raw: RawRecord, field: string): string | undefined =>
+  typeof raw[field] === 'string' ? raw[field] : undefined;
+
+// Acepta números enviados como string ("85.50"), comunes en formularios
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return undefined;
+};
+
+const requireNumber = (raw: RawRecord, field: string, model: string): number => {
+  const value = toNumber(raw[field]);
+  if (value === undefined) throw new ModelValidationError(model, field);
+  return value;
+};
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : [];
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+
+const requireDate = (raw: RawRecord, field: string, model: string): string => {
+  if (!isDateString(raw[field])) throw new ModelValidationError(model, field);
+  return raw[field];
+};
+
+// Una relación puede llegar como id o como documento poblado
+const referenceId = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value;
+  if (isRecord(value) && typeof value._id === 'string') return value._id;
+  return undefined;
+};
+
+export const parseAddress = (value: unknown): Address => {
+  const raw = asRecord(value, 'Address');
+  return {
+    street: optionalString(raw, 'street'),
+    city: optionalString(raw, 'city') ?? '',
+    state: optionalString(raw, 'state') ?? '',
+    zipCode: optionalString(raw, 'zipCode'),
+  };
+};
+
+export const isValidCoordinates = (value: unknown): value is Coordinates =>
+  isRecord(value) &&
+  typeof value.latitude === 'number' && Math.abs(value.latitude) <= 90 &&
+  typeof value.longitude === 'number' && Math.abs(value.longitude) <= 180;
+
+// Coordenadas fuera de rango se ignoran en lugar de romper todo el bar
+export const parseCoordinates = (value: unknown): Coordinates | undefined => {
+  if (!isRecord(value)) return undefined;
+  const coordinates = { latitude: toNumber(value.latitude), longitude: toNumber(value.longitude) };
+  return isValidCoordinates(coordinates) ? coordinates : undefined;
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isValidTime = (value: unknown): value is string =>
+  typeof value === 'string' && TIME_PATTERN.test(value);
+
+export const isValidDateKey = (value: unknown): value is string =>
+  typeof value === 'string' && DATE_KEY_PATTERN.test(value) && !Number.isNaN(new Date(`${value}T00:00:00`).getTime());
+
+const parseTimeRange = (value: unknown): TimeRange | null =>
+  isRecord(value) && isValidTime(value.open) && isValidTime(value.close)
+    ? { open: value.open, close: value.close }
+    : null;
+
+// Días o excepciones mal formados se toman como cerrados / se descartan
+export const parseOpeningHours = (value: unknown): OpeningHours | undefined => {
+  if (!isRecord(value) || !Array.isArray(value.weekly)) return undefined;
+  return {
+    weekly: Array.from({ length: 7 }, (_, day) => parseTimeRange(value.weekly[day])),
+    exceptions: (Array.isArray(value.exceptions) ? value.exceptions : [])
+      .filter((entry: unknown) => isRecord(entry) && isValidDateKey(entry.date))
+      .map((entry: RawRecord) => ({
+        date: entry.date,
+        hours: parseTimeRange(entry.hours),
+        label: optionalString(entry, 'label'),
+      })),
+  };
+};
+
+const parseDiscounts = (value: unknown): HappyHour['discounts'] => {
+  if (!isRecord(value)) return {};
+  return MENU_ITEM_TYPES.reduce<HappyHour['discounts']>((discounts, type) => {
+    const percent = toNumber(value[type]);
+    if (percent !== undefined && percent > 0 && percent <= 100) discounts[type] = percent;
+    return discounts;
+  }, {});
+};
+
+// Ventanas sin horas válidas o sin días se descartan
+export const parseHappyHours = (value: unknown): HappyHour[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .filter((entry: unknown) => isRecord(entry) && isValidTime(entry.start) && isValidTime(entry.end))
+    .map((entry: RawRecord, index) => ({
+      id: optionalString(entry, 'id') ?? `happy-hour-${index}`,
+      label: optionalString(entry, 'label'),
+      days: (Array.isArray(entry.days) ? entry.days : []).filter(
+        (day: unknown): day is number => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6
+      ),
+      start: entry.start,
+      end: entry.end,
+      discounts: parseDiscounts(entry.discounts),
+    }))
+    .filter((happyHour) => happyHour.days.length > 0);
+};
+
+// Secciones sin id o sin nombre se descartan
+export const parseMenuSections = (value: unknown): MenuSection[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .filter((entry: unknown) => isRecord(entry))
+    .map((entry: RawRecord) => ({ id: optionalString(entry, 'id') ?? '', name: optionalString(entry, 'name') ?? '' }))
+    .filter((section) => section.id !== '' && section.name !== '');
+};
+
+export const parseBar = (value: unknown): Bar => {
+  const raw = asRecord(value, 'Bar');
+  return {
+    _id: requireString(raw, '_id', 'Bar'),
+    name: requireString(raw, 'name', 'Bar'),
+    description: optionalString(raw, 'description') ?? '',
+    photo: optionalString(raw, 'photo'),
+    address: isRecord(raw.address) ? parseAddress(raw.address) : { city: '', state: '' },
+    coordinates: parseCoordinates(raw.coordinates),
+    openingHours: parseOpeningHours(raw.openingHours),
+    happyHours: parseHappyHours(raw.happyHours),
+    menuSections: parseMenuSections(raw.menuSections),
+    mapsUrl: optionalString(raw, 'mapsUrl'),
+    phone: optionalString(raw, 'phone'),
+    tags: stringList(raw.tags),
+    ratingAverage: toNumber(raw.ratingAverage) ?? 0,
+    ratingQuantity: toNumber(raw.ratingQuantity) ?? 0,
+    owner: referenceId(raw.owner),
+    createdAt: optionalString(raw, 'createdAt'),
+    updatedAt: optionalString(raw, 'updatedAt'),
+  };
+};
+
+export const parseBarSummary = (value: unknown, model: string = 'BarSummary'): BarSummary => {
+  const id = referenceId(value);
+  if (!id) throw new ModelValidationError(model, 'bar');
+  if (!isRecord(value)) return { _id: id, name: '' };
+  return {
+    _id: id,
+    name: optionalString(value, 'name') ?? '',
+    photo: optionalString(value, 'photo'),
+  };
+};
+
+export const isMenuItemType = (value: unknown): value is MenuItemType =>
+  typeof value === 'string' && MENU_ITEM_TYPES.includes(value as MenuItemType);
+
+export const isServingFormat = (value: unknown): value is ServingFormat =>
+  typeof value === 'string' && SERVING_FORMATS.includes(value as ServingFormat);
+
+export const isMenuItemAvailability = (value: unknown): value is MenuItemAvailability =>
+  typeof value === 'string' && MENU_ITEM_AVAILABILITIES.includes(value as MenuItemAvailability);
+
+export const isRsvpStatus = (value: unknown): value is RsvpStatus =>
+  typeof value === 'string' && RSVP_STATUSES.includes(value as RsvpStatus);
+
+export const isRecurrenceFrequency = (value: unknown): value is RecurrenceFrequency =>
+  typeof value === 'string' && (RECURRENCE_FREQUENCIES as string[]).includes(value);
+
+export const isTicketTierType = (value: unknown): value is TicketTierType =>
+  typeof value === 'string' && TICKET_TIER_TYPES.includes(value as TicketTierType);
+
+export const isDietaryTag = (value: unknown): value is DietaryTag =>
+  typeof value === 'string' && DIETARY_TAGS.includes(value as DietaryTag);
+
+export const isAllergen = (value: unknown): value is Allergen =>
+  typeof value === 'string' && ALLERGENS.includes(value as Allergen);
+
+// Valores desconocidos se descartan
+export const parseDietaryPreferences = (value: unknown): DietaryPreferences => {
+  if (!isRecord(value)) return DEFAULT_DIETARY_PREFERENCES;
+  const maxSpicyLevel = toNumber(value.maxSpicyLevel);
+  return {
+    diets: (Array.isArray(value.diets) ? value.diets : []).filter(isDietaryTag),
+    avoidAllergens: (Array.isArray(value.avoidAllergens) ? value.avoidAllergens : []).filter(isAllergen),
+    maxSpicyLevel: maxSpicyLevel ?? null,
+  };
+};
+
+const parseBeerDetails = (value: unknown): BeerDetails | undefined => {
+  if (!isRecord(value)) return undefined;
+  const beer = {
+    style: optionalString(value, 'style'),
+    ibu: toNumber(value.ibu),
+    brewery: optionalString(value, 'brewery'),
+    origin: optionalString(value, 'origin'),
+  };
+  return Object.values(beer).some((field) => field !== undefined) ? beer : undefined;
+};
+
+// Presentaciones incompletas se descartan
+const parseServings = (value: unknown): ServingSize[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .filter((entry: unknown) => isRecord(entry) && isServingFormat(entry.format))
+    .map((entry: RawRecord) => ({ format: entry.format, volume: toNumber(entry.volume), price: toNumber(entry.price) }))
+    .filter((serving): serving is ServingSize => serving.volume !== undefined && serving.price !== undefined);
+};
+
+export const parseMenuItem = (value: unknown): MenuItem => {
+  const raw = asRecord(value, 'MenuItem');
+  if (!isMenuItemType(raw.type)) throw new ModelValidationError('MenuItem', 'type');
+  return {
+    _id: requireString(raw, '_id', 'MenuItem'),
+    bar: parseBarSummary(raw.bar, 'MenuItem'),
+    name: requireString(raw, 'name', 'MenuItem'),
+    description: optionalString(raw, 'description') ?? '',
+    price: requireNumber(raw, 'price', 'MenuItem'),
+    happyHourPrice: toNumber(raw.happyHourPrice),
+    photo: optionalString(raw, 'photo') ?? '',
+    type: raw.type,
+    alcoholPercentage: toNumber(raw.alcoholPercentage),
+    volume: toNumber(raw.volume),
+    beer: parseBeerDetails(raw.beer),
+    servings: parseServings(raw.servings),
+    dietaryTags: (Array.isArray(raw.dietaryTags) ? raw.dietaryTags : []).filter(isDietaryTag),
+    allergens: (Array.isArray(raw.allergens) ? raw.allergens : []).filter(isAllergen),
+    spicyLevel: toNumber(raw.spicyLevel) ?? 0,
+    availability: isMenuItemAvailability(raw.availability) ? raw.availability : 'available',
+    soldOutAt: optionalString(raw, 'soldOutAt'),
+    autoReset: raw.autoReset === true,
+    sectionId: optionalString(raw, 'sectionId'),
+    position: toNumber(raw.position),
+    featured: raw.featured === true,
+    createdAt: optionalString(raw, 'createdAt'),
+    updatedAt: optionalString(raw, 'updatedAt'),
+  };
+};
+
+export const parseMenuSearchResult = (value: unknown): MenuSearchResult => {
+  const raw = asRecord(value, 'MenuSearchResult');
+  return {
+    bar: parseBar(raw.bar),
+    items: parseList(raw.items, parseMenuItem),
+  };
+};
+
+export const parseEvent = (value: unknown): Event => {
+  const raw = asRecord(value, 'Event');
+  return {
+    _id: requireString(raw, '_id', 'Event'),
+    bar: parseBarSummary(raw.bar, 'Event'),
+    name: requireString(raw, 'name', 'Event'),
+    description: optionalString(raw, 'description') ?? '',
+    location: optionalString(raw, 'location') ?? '',
+    image: optionalString(raw, 'image') ?? '',
+    price: toNumber(raw.price) ?? 0,
+    start: requireDate(raw, 'start', 'Event'),
+    end: requireDate(raw, 'end', 'Event'),
+    attendance: parseEventAttendance(raw.attendance),
+    capacity: toNumber(raw.capacity),
+    ticketTiers: parseTicketTiers(raw.ticketTiers),
+    reservedSpots: toNumber(raw.reservedSpots) ?? 0,
+    reservedSpotsByDate: parseReservedSpotsByDate(raw.reservedSpotsByDate),
+    recurrence: parseRecurrenceRule(raw.recurrence),
+    recurrenceExceptions: parseRecurrenceExceptions(raw.recurrenceExceptions),
+    occurrenceDate: isValidDateKey(raw.occurrenceDate) ? raw.occurrenceDate : undefined,
+    createdAt: optionalString(raw, 'createdAt'),
+    updatedAt: optionalString(raw, 'updatedAt'),
+  };
+};
+
+// Una regla ilegible se trata como evento sin repetición
+const parseRecurrenceRule = (value: unknown): RecurrenceRule | undefined => {
+  if (!isRecord(value) || !isRecurrenceFrequency(value.frequency)) return undefined;
+  const interval = toNumber(value.interval);
+  const count = toNumber(value.count);
+  return {
+    frequency: value.frequency,
+    interval: interval && interval >= 1 ? Math.floor(interval) : 1,
+    weekdays: (Array.isArray(value.weekdays) ? value.weekdays : [])
+      .filter((day: unknown): day is number => typeof day === 'number' && Number.isInteger(day) && day >= 0 && day <= 6),
+    until: isValidDateKey(value.until) ? value.until : undefined,
+    count: count && count >= 1 ? Math.floor(count) : undefined,
+  };
+};
+
+const parseRecurrenceExceptions = (value: unknown): RecurrenceException[] =>
+  (Array.isArray(value) ? value : [])
+    .filter((exception: unknown) => isRecord(exception) && isValidDateKey(exception.date))
+    .map((exception: RawRecord) => ({
+      date: exception.date,
+      cancelled: exception.cancelled === true,
+      start: optionalString(exception, 'start'),
+      end: optionalString(exception, 'end'),
+    }));
+
+const parseReservedSpotsByDate = (value: unknown): Record<string, number> => {
+  const spots: Record<string, number> = {};
+  if (isRecord(value)) {
+    Object.entries(value).forEach(([date, count]) => {
+      const spotsOnDate = toNumber(count);
+      if (isValidDateKey(date) && spotsOnDate !== undefined) spots[date] = spotsOnDate;
+    });
+  }
+  return spots;
+};
+
+// Descarta los tipos de entrada mal formados en vez de tumbar el evento
+const parseTicketTiers = (value: unknown): TicketTier[] =>
+  (Array.isArray(value) ? value : [])
+    .filter((tier: unknown) => isRecord(tier) && typeof tier.id === 'string' && isTicketTierType(tier.type))
+    .map((tier: RawRecord) => ({
+      id: tier.id,
+      type: tier.type,
+      name: optionalString(tier, 'name') || tier.type,
+      price: toNumber(tier.price) ?? 0,
+      salesStart: isValidDateKey(tier.salesStart) ? tier.salesStart : undefined,
+      salesEnd: isValidDateKey(tier.salesEnd) ? tier.salesEnd : undefined,
+    }));
+
+export const parseReservation = (value: unknown): Reservation => {
+  const raw = asRecord(value, 'Reservation');
+  return {
+    _id: requireString(raw, '_id', 'Reservation'),
+    eventId: referenceId(raw.event) ?? requireString(raw, 'eventId', 'Reservation'),
+    occurrenceDate: isValidDateKey(raw.occurrenceDate) ? raw.occurrenceDate : undefined,
+    tierId: requireString(raw, 'tierId', 'Reservation'),
+    tierName: optionalString(raw, 'tierName') ?? '',
+    unitPrice: toNumber(raw.unitPrice) ?? 0,
+    quantity: requireNumber(raw, 'quantity', 'Reservation'),
+    code: requireString(raw, 'code', 'Reservation'),
+    status: raw.status === 'cancelled' ? 'cancelled' : 'confirmed',
+    createdAt: requireDate(raw, 'createdAt', 'Reservation'),
+  };
+};
+
+const parseEventAttendance = (value: unknown): EventAttendance => {
+  const raw: RawRecord = isRecord(value) ? value : {};
+  return {
+    going: toNumber(raw.going) ?? 0,
+    interested: toNumber(raw.interested) ?? 0,
+  };
+};
+
+export const parseRsvpState = (value: unknown): RsvpState => {
+  const raw = asRecord(value, 'RsvpState');
+  return {
+    status: isRsvpStatus(raw.status) ? raw.status : null,
+    attendance: parseEventAttendance(raw.attendance),
+  };
+};
+
+export const parseEventRsvp = (value: unknown): EventRsvp => {
+  const raw = asRecord(value, 'EventRsvp');
+  if (!isRsvpStatus(raw.status)) throw new ModelValidationError('EventRsvp', 'status');
+  return {
+    _id: requireString(raw, '_id', 'EventRsvp'),
+    event: parseEvent(raw.event),
+    status: raw.status,
+    updatedAt: requireDate(raw, 'updatedAt', 'EventRsvp'),
+  };
+};
+
+export const parseCalendarFeed = (value: unknown): CalendarFeed => {
+  const raw = asRecord(value, 'CalendarFeed');
+  return { token: requireString(raw, 'token', 'CalendarFeed') };
+};
+
+const parseReviewAuthor = (value: unknown): ReviewAuthor => {
+  if (!isRecord(value)) return { _id: referenceId(value), name: 'Usuario' };
+  return {
+    _id: referenceId(value),
+    name: optionalString(value, 'name') || 'Usuario',
+    photo: optionalString(value, 'photo'),
+  };
+};
+
+export const parseReview = (value: unknown): Review => {
+  const raw = asRecord(value, 'Review');
+  return {
+    _id: requireString(raw, '_id', 'Review'),
+    bar: referenceId(raw.bar),
+    user: parseReviewAuthor(raw.user),
+    rating: requireNumber(raw, 'rating', 'Review'),
+    comment: optionalString(raw, 'comment') ?? '',
+    photos: stringList(raw.photos),
+    createdAt: requireDate(raw, 'createdAt', 'Review'),
+    updatedAt: optionalString(raw, 'updatedAt'),
+  };
+};
+
+export const parseReviewStats = (value: unknown): ReviewStats => {
+  const raw = asRecord(value, 'ReviewStats');
+  const distribution: Record<number, number> = {};
+  if (isRecord(raw.distribution)) {
+    Object.entries(raw.distribution).forEach(([rating, count]) => {
+      distribution[Number(rating)] = toNumber(count) ?? 0;
+    });
+  }
+  return {
+    ratingAverage: toNumber(raw.ratingAverage) ?? 0,
+    ratingQuantity: toNumber(raw.ratingQuantity) ?? 0,
+    distribution,
+  };
+};
+
+export const parseReviewCheck = (value: unknown): ReviewCheck => {
+  if (!isRecord(value)) return { hasReviewed: false };
+  return {
+    hasReviewed: value.hasReviewed === true,
+    review: isRecord(value.review) ? parseReview(value.review) : undefined,
+  };
+};
+
+export const parseFavorite = (value: unknown): Favorite => {
+  const raw = asRecord(value, 'Favorite');
+  return {
+    _id: requireString(raw, '_id', 'Favorite'),
+    bar: parseBar(raw.bar),
+    createdAt: optionalString(raw, 'createdAt'),
+  };
+};
+
+export const parseCheckIn = (value: unknown): CheckIn => {
+  const raw = asRecord(value, 'CheckIn');
+  return {
+    _id: requireString(raw, '_id', 'CheckIn'),
+    bar: parseBarSummary(raw.bar, 'CheckIn'),
+    createdAt: requireDate(raw, 'createdAt', 'CheckIn'),
+  };
+};
+
+// Parsea una lista descartando (y reportando) los elementos inválidos para no tumbar toda la pantalla.
+// Acepta también listas envueltas como { items: [...] }
+export const parseList = <T>(value: unknown, parse: (item: unknown) => T): T[] => {
+  const list = isRecord(value) && Array.isArray(value.items) ? value.items : value;
+  if (!Array.isArray(list)) {
+    throw new ModelValidationError('List', '*', 'Se esperaba una lista en la respuesta');
+  }
+
+  return list.reduce<T[]>((parsed, item) => {
+    try {
+      parsed.push(parse(item));
+    } catch (error) {
+      console.warn('⚠️ Skipping invalid item from API:', error instanceof Error ? error.message : error);
+    }
+    return parsed;
+  }, []);
+};
@@ -11,7 +11,7 @@ export type BarsStackParamList = {
 
 export type EventsStackParamList = {
   EventsList: undefined;
-  EventDetails: { eventId: string; eventData?: any };
+  EventDetails: { eventId: string; occurrenceDate?: string; eventData?: any };
 };
 
 export type ProfileStackParamList = {